@@ -12,6 +12,11 @@ export default function ModalsLayout() {
       <Stack.Screen name="preview" />
       <Stack.Screen name="result" />
       <Stack.Screen name="edit-resume" />
+      <Stack.Screen name="custom-synonyms" />
+      <Stack.Screen name="resumes" />
+      <Stack.Screen name="batch" />
+      <Stack.Screen name="review-changes" />
+      <Stack.Screen name="edit-tailored" />
     </Stack>
   );
 }
@@ -0,0 +1,254 @@
+import { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { Text, Button, Card } from '../../src/components/ui';
+import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
+import {
+  useBatchStore,
+  useGenerationStore,
+  useResumeStore,
+  useAuthStore,
+  useTailoringSettingsStore,
+  selectTailoringSettings,
+  BatchItem,
+} from '../../src/stores';
+import { loadTaxonomy, getTaxonomy, rankBatchResults } from '../../src/services/tailoring';
+import { splitJobDescriptions } from '../../src/utils/jobDescription';
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  running: 'Tailoring...',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export default function BatchScreen() {
+  const [text, setText] = useState('');
+
+  const items = useBatchStore((state) => state.items);
+  const isRunning = useBatchStore((state) => state.isRunning);
+  const runBatch = useBatchStore((state) => state.runBatch);
+  const cancelBatch = useBatchStore((state) => state.cancelBatch);
+  const clearBatch = useBatchStore((state) => state.clearBatch);
+  const setResult = useGenerationStore((state) => state.setResult);
+
+  const resumeText = useResumeStore((state) => state.rawText);
+  const customSynonyms = useAuthStore((state) => state.profile?.custom_synonyms);
+  const tailoringSettings = useTailoringSettingsStore(selectTailoringSettings);
+
+  // Built-in packs plus the user's own synonyms
+  const taxonomy = useMemo(
+    () => (customSynonyms?.length ? loadTaxonomy({ customSynonyms }) : getTaxonomy()),
+    [customSynonyms]
+  );
+
+  const jobDescriptions = useMemo(() => splitJobDescriptions(text), [text]);
+  const rankedItems = useMemo(() => rankBatchResults(items), [items]);
+
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const settledCount = items.filter((item) => item.status !== 'queued' && item.status !== 'running').length;
+  const canStart = resumeText.length > 0 && jobDescriptions.length > 0 && !isRunning;
+
+  const handleStart = async () => {
+    if (!canStart) return;
+    await runBatch(resumeText, jobDescriptions, { taxonomy, settings: tailoringSettings });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const handleNewBatch = () => {
+    clearBatch();
+    setText('');
+  };
+
+  const handleItemPress = (item: BatchItem) => {
+    if (!item.result) return;
+    setResult(item.result);
+    router.push('/(modals)/result');
+  };
+
+  const renderItem = (item: BatchItem) => (
+    <TouchableOpacity
+      key={item.id}
+      activeOpacity={0.7}
+      disabled={!item.result}
+      onPress={() => handleItemPress(item)}
+    >
+      <Card variant="outlined" padding={4} style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemTitle}>
+            <Text variant="body" numberOfLines={1}>{item.jobTitle}</Text>
+            <Text variant="caption" color="secondary" numberOfLines={1}>{item.company}</Text>
+          </View>
+          {item.result ? (
+            <Text variant="h3" color={colors.primary[600]}>{item.result.matchScore}%</Text>
+          ) : (
+            <Text
+              variant="caption"
+              color={item.status === 'error' ? colors.error.main : 'tertiary'}
+            >
+              {STATUS_LABELS[item.status]}
+            </Text>
+          )}
+        </View>
+
+        {item.status === 'running' && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${item.progress?.progress ?? 0}%` }]} />
+          </View>
+        )}
+        {item.status === 'running' && item.progress && (
+          <Text variant="caption" color="tertiary">{item.progress.message}</Text>
+        )}
+        {item.error && (
+          <Text variant="caption" color={colors.error.main}>{item.error}</Text>
+        )}
+      </Card>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Text variant="body" color="secondary">Close</Text>
+        </TouchableOpacity>
+        <Text variant="h2" align="center">Batch Tailor</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        {items.length === 0 ? (
+          <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+            <Text variant="body" color="secondary">
+              Paste several job descriptions, separated by a line of dashes (---). Each one is
+              tailored against your default resume and saved to history.
+            </Text>
+
+            {resumeText.length === 0 && (
+              <Text variant="caption" color={colors.warning.main}>
+                Add a resume on your profile first
+              </Text>
+            )}
+
+            <TextInput
+              style={styles.textArea}
+              multiline
+              placeholder={'First job description...\n---\nSecond job description...'}
+              placeholderTextColor={colors.text.tertiary}
+              value={text}
+              onChangeText={setText}
+              textAlignVertical="top"
+            />
+
+            {text.length > 0 && (
+              <Text variant="caption" color="secondary">
+                {jobDescriptions.length} job description{jobDescriptions.length !== 1 ? 's' : ''} found
+              </Text>
+            )}
+          </ScrollView>
+        ) : (
+          <ScrollView contentContainerStyle={styles.scroll}>
+            <Text variant="caption" color="secondary">
+              {isRunning
+                ? `${settledCount} of ${items.length} finished`
+                : `${doneCount} of ${items.length} tailored, best match first`}
+            </Text>
+            {rankedItems.map(renderItem)}
+          </ScrollView>
+        )}
+
+        {/* Footer */}
+        <View style={styles.footer}>
+          {items.length === 0 ? (
+            <Button fullWidth disabled={!canStart} onPress={handleStart}>
+              {jobDescriptions.length > 1 ? `Tailor ${jobDescriptions.length} Jobs` : 'Tailor Jobs'}
+            </Button>
+          ) : isRunning ? (
+            <Button fullWidth variant="outline" onPress={cancelBatch}>
+              Cancel Remaining
+            </Button>
+          ) : (
+            <Button fullWidth variant="secondary" onPress={handleNewBatch}>
+              New Batch
+            </Button>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scroll: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  textArea: {
+    ...textStyles.body,
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+    minHeight: 360,
+    color: colors.text.primary,
+  },
+  itemCard: {
+    gap: spacing[2],
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing[3],
+  },
+  itemTitle: {
+    flex: 1,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background.secondary,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary[600],
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+});
@@ -0,0 +1,167 @@
+import { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Text, Button } from '../../src/components/ui';
+import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
+import { useAuthStore } from '../../src/stores';
+import { CustomSynonym, TaxonomyIssue } from '../../src/services/tailoring';
+
+// One term per line: "term: alias, alias"
+function parseSynonyms(text: string): CustomSynonym[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const colon = line.indexOf(':');
+      return {
+        term: line.slice(0, colon).trim(),
+        aliases: line.slice(colon + 1).split(',').map(alias => alias.trim()).filter(Boolean),
+      };
+    })
+    .filter(synonym => synonym.term && synonym.aliases.length > 0);
+}
+
+function formatSynonyms(synonyms: CustomSynonym[]): string {
+  return synonyms.map(s => `${s.term}: ${s.aliases.join(', ')}`).join('\n');
+}
+
+export default function CustomSynonymsScreen() {
+  const user = useAuthStore((state) => state.user);
+  const saved = useAuthStore((state) => state.profile?.custom_synonyms);
+  const saveCustomSynonyms = useAuthStore((state) => state.saveCustomSynonyms);
+
+  const initialText = useMemo(() => formatSynonyms(saved ?? []), [saved]);
+  const [text, setText] = useState(initialText);
+  const [issues, setIssues] = useState<TaxonomyIssue[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasChanges = text.trim() !== initialText.trim();
+  const canSave = !!user && hasChanges && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+
+    const result = await saveCustomSynonyms(parseSynonyms(text));
+    setIsSaving(false);
+
+    if (result.some(issue => issue.severity === 'error')) {
+      setIssues(result);
+      return;
+    }
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Text variant="body" color="secondary">Cancel</Text>
+        </TouchableOpacity>
+        <Text variant="h2" align="center">Custom Synonyms</Text>
+        <TouchableOpacity onPress={handleSave} style={styles.headerButton} disabled={!canSave}>
+          <Text variant="body" color={canSave ? colors.primary[600] : 'tertiary'}>
+            Save
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+          <Text variant="body" color="secondary">
+            Teach the matcher terms from your field. One per line, e.g.
+            "sous chef: kitchen lead, chef de partie".
+          </Text>
+
+          {!user && (
+            <Text variant="caption" color={colors.warning.main}>
+              Sign in to save custom synonyms to your profile
+            </Text>
+          )}
+
+          <TextInput
+            style={styles.textArea}
+            multiline
+            placeholder="term: alias, alias"
+            placeholderTextColor={colors.text.tertiary}
+            value={text}
+            onChangeText={(value) => {
+              setText(value);
+              setIssues([]);
+            }}
+            textAlignVertical="top"
+            autoCapitalize="none"
+          />
+
+          {issues.map((issue, index) => (
+            <Text
+              key={index}
+              variant="caption"
+              color={issue.severity === 'error' ? colors.error.main : colors.warning.main}
+            >
+              {issue.message}
+            </Text>
+          ))}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Button fullWidth disabled={!canSave} loading={isSaving} onPress={handleSave}>
+            Save Synonyms
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scroll: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  textArea: {
+    ...textStyles.body,
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+    minHeight: 300,
+    color: colors.text.primary,
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+});
@@ -9,7 +9,7 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as Clipboard from 'expo-clipboard';
 import { Text, Button } from '../../src/components/ui';
 import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
@@ -17,7 +17,12 @@ import { useResumeStore } from '../../src/stores';
 import { parseResume } from '../../src/services/tailoring';
 
 export default function EditResumeScreen() {
-  const resumeText = useResumeStore((state) => state.rawText);
+  // Library versions open by id; otherwise the active resume is edited
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const version = useResumeStore((state) => (id ? state.versions.find((v) => v.id === id) : undefined));
+  const activeText = useResumeStore((state) => state.rawText);
+  const resumeText = version?.rawText ?? activeText;
+  const updateVersionText = useResumeStore((state) => state.updateVersionText);
   const setRawText = useResumeStore((state) => state.setRawText);
   const setParsedData = useResumeStore((state) => state.setParsedData);
   const setUploadSource = useResumeStore((state) => state.setUploadSource);
@@ -43,6 +48,12 @@ export default function EditResumeScreen() {
   const handleSave = () => {
     if (text.trim().length < 50) return;
 
+    if (version) {
+      updateVersionText(version.id, text.trim());
+      router.back();
+      return;
+    }
+
     // Save the raw text
     setRawText(text.trim());
     setUploadSource('paste');
@@ -67,7 +78,7 @@ export default function EditResumeScreen() {
         <TouchableOpacity onPress={handleCancel} style={styles.headerButton}>
           <Text variant="body" color="secondary">Cancel</Text>
         </TouchableOpacity>
-        <Text variant="h2" align="center">Edit Resume</Text>
+        <Text variant="h2" align="center">{version?.name ?? 'Edit Resume'}</Text>
         <TouchableOpacity
           onPress={handleSave}
           style={styles.headerButton}
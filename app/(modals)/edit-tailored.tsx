@@ -0,0 +1,522 @@
+import { useState, useMemo, useDeferredValue } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Text, Button } from '../../src/components/ui';
+import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
+import { useGenerationStore, useHistoryStore } from '../../src/stores';
+import {
+  applyResumeEdit,
+  splitCoverLetter,
+  joinCoverLetter,
+  scoreTailoredResume,
+  explainTailoredResume,
+  analyzeJobDescriptionOffline,
+} from '../../src/services/tailoring';
+import type { ResumeEdit, TailoredResume } from '../../src/services/tailoring';
+import {
+  createEditHistory,
+  pushEdit,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+} from '../../src/utils/editHistory';
+
+type Tab = 'resume' | 'coverLetter';
+
+interface Draft {
+  resume: TailoredResume;
+  paragraphs: string[];
+}
+
+// Typing in one field is one undo step
+function editKey(edit: ResumeEdit): string | null {
+  switch (edit.type) {
+    case 'set_summary':
+      return 'summary';
+    case 'set_bullet':
+      return `bullet:${edit.experience}:${edit.bullet}`;
+    case 'set_education':
+      return `education:${edit.index}`;
+    default:
+      return null;
+  }
+}
+
+export default function EditTailoredScreen() {
+  const result = useGenerationStore((state) => state.result);
+  const setResult = useGenerationStore((state) => state.setResult);
+  const historyItems = useHistoryStore((state) => state.items);
+  const updateResult = useHistoryStore((state) => state.updateResult);
+
+  const historyItem = historyItems.find((item) => item.result === result);
+  const [activeTab, setActiveTab] = useState<Tab>('resume');
+  const [newSkill, setNewSkill] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [history, setHistory] = useState(() =>
+    createEditHistory<Draft>({
+      resume: result?.resume ?? { skills: [], experiences: [], education: [], rawText: '' },
+      paragraphs: splitCoverLetter(result?.coverLetter ?? ''),
+    })
+  );
+  const draft = history.present;
+
+  // Items restored from the cloud have no stored analysis; the offline one stands in
+  const jobRequirements = useMemo(
+    () =>
+      result?.jobRequirements ??
+      (historyItem?.jobDescription ? analyzeJobDescriptionOffline(historyItem.jobDescription) : null),
+    [result, historyItem?.jobDescription]
+  );
+
+  // Re-scoring parses and matches the whole resume - let typing stay ahead of it
+  const deferredResume = useDeferredValue(draft.resume);
+  const initialScore = useMemo(
+    () => (result && jobRequirements ? scoreTailoredResume(result.resume, jobRequirements) : null),
+    [result, jobRequirements]
+  );
+  const liveScore = useMemo(
+    () => (jobRequirements ? scoreTailoredResume(deferredResume, jobRequirements) : null),
+    [deferredResume, jobRequirements]
+  );
+
+  if (!result) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text variant="h2">Nothing to edit</Text>
+          <Button onPress={() => router.back()}>Go Back</Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const editResume = (edit: ResumeEdit) =>
+    setHistory((current) =>
+      pushEdit(current, { ...current.present, resume: applyResumeEdit(current.present.resume, edit) }, editKey(edit))
+    );
+
+  const editParagraphs = (paragraphs: string[], key: string | null = null) =>
+    setHistory((current) => pushEdit(current, { ...current.present, paragraphs }, key));
+
+  const coverLetter = joinCoverLetter(draft.paragraphs);
+  const hasChanges = draft.resume !== result.resume || coverLetter !== joinCoverLetter(splitCoverLetter(result.coverLetter));
+  const scoreDelta = liveScore !== null && initialScore !== null ? liveScore - initialScore : 0;
+
+  const handleAddSkill = () => {
+    editResume({ type: 'add_skill', skill: newSkill });
+    setNewSkill('');
+  };
+
+  const handleSave = async () => {
+    if (!hasChanges || isSaving) return;
+    setIsSaving(true);
+
+    // Edits move the score; history and the tracker show the saved one
+    const scoreBreakdown = jobRequirements ? explainTailoredResume(draft.resume, jobRequirements) : result.scoreBreakdown;
+    const updated = {
+      ...result,
+      resume: draft.resume,
+      coverLetter,
+      matchScore: scoreBreakdown?.finalScore ?? result.matchScore,
+      scoreBreakdown,
+    };
+    setResult(updated);
+    if (historyItem) await updateResult(historyItem.id, updated);
+
+    setIsSaving(false);
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Text variant="body" color="secondary">Cancel</Text>
+        </TouchableOpacity>
+        <Text variant="h2" align="center">Edit</Text>
+        <TouchableOpacity onPress={handleSave} style={styles.headerButton} disabled={!hasChanges || isSaving}>
+          <Text variant="body" color={hasChanges && !isSaving ? colors.primary[600] : 'tertiary'} align="right">
+            Save
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Undo/redo and live score */}
+      <View style={styles.toolbar}>
+        <View style={styles.toolbarGroup}>
+          <ToolbarButton label="Undo" disabled={!canUndo(history)} onPress={() => setHistory(undo)} />
+          <ToolbarButton label="Redo" disabled={!canRedo(history)} onPress={() => setHistory(redo)} />
+        </View>
+        {liveScore !== null && (
+          <Text variant="caption" color="secondary">
+            Match {liveScore}%
+            {scoreDelta !== 0 && (
+              <Text
+                variant="caption"
+                color={scoreDelta > 0 ? colors.success.main : colors.error.main}
+              >
+                {` (${scoreDelta > 0 ? '+' : ''}${scoreDelta})`}
+              </Text>
+            )}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {(['resume', 'coverLetter'] as Tab[]).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            onPress={() => setActiveTab(tab)}
+            style={[styles.tab, activeTab === tab && styles.activeTab]}
+          >
+            <Text variant="label" color={activeTab === tab ? colors.primary[600] : 'secondary'} align="center">
+              {tab === 'resume' ? 'Resume' : 'Cover Letter'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+          {activeTab === 'resume' ? (
+            <>
+              <Section title="Summary">
+                <TextInput
+                  style={styles.input}
+                  multiline
+                  placeholder="Professional summary (optional)"
+                  placeholderTextColor={colors.text.tertiary}
+                  value={draft.resume.summary ?? ''}
+                  onChangeText={(text) => editResume({ type: 'set_summary', text })}
+                />
+              </Section>
+
+              <Section title="Skills">
+                <View style={styles.chips}>
+                  {draft.resume.skills.map((skill, index) => (
+                    <TouchableOpacity
+                      key={`${skill}-${index}`}
+                      style={styles.chip}
+                      onPress={() => editResume({ type: 'remove_skill', index })}
+                    >
+                      <Text variant="caption">{skill} ✕</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.row}>
+                  <TextInput
+                    style={[styles.input, styles.flex]}
+                    placeholder="Add a skill"
+                    placeholderTextColor={colors.text.tertiary}
+                    value={newSkill}
+                    onChangeText={setNewSkill}
+                    onSubmitEditing={handleAddSkill}
+                    returnKeyType="done"
+                  />
+                  <Button variant="secondary" size="sm" onPress={handleAddSkill} disabled={!newSkill.trim()}>
+                    Add
+                  </Button>
+                </View>
+              </Section>
+
+              {draft.resume.experiences.map((experience, experienceIndex) => (
+                <Section
+                  key={`${experience.company}-${experienceIndex}`}
+                  title={`${experience.title} | ${experience.company}`}
+                  subtitle={experience.dateRange}
+                  actions={
+                    <MoveButtons
+                      onUp={() => editResume({ type: 'move_experience', from: experienceIndex, to: experienceIndex - 1 })}
+                      onDown={() => editResume({ type: 'move_experience', from: experienceIndex, to: experienceIndex + 1 })}
+                      upDisabled={experienceIndex === 0}
+                      downDisabled={experienceIndex === draft.resume.experiences.length - 1}
+                    />
+                  }
+                >
+                  {experience.bullets.map((bullet, bulletIndex) => (
+                    <View key={bulletIndex} style={styles.row}>
+                      <TextInput
+                        style={[styles.input, styles.flex]}
+                        multiline
+                        value={bullet}
+                        onChangeText={(text) =>
+                          editResume({ type: 'set_bullet', experience: experienceIndex, bullet: bulletIndex, text })
+                        }
+                      />
+                      <View>
+                        <MoveButtons
+                          onUp={() =>
+                            editResume({ type: 'move_bullet', experience: experienceIndex, from: bulletIndex, to: bulletIndex - 1 })
+                          }
+                          onDown={() =>
+                            editResume({ type: 'move_bullet', experience: experienceIndex, from: bulletIndex, to: bulletIndex + 1 })
+                          }
+                          upDisabled={bulletIndex === 0}
+                          downDisabled={bulletIndex === experience.bullets.length - 1}
+                        />
+                        <ToolbarButton
+                          label="✕"
+                          onPress={() => editResume({ type: 'remove_bullet', experience: experienceIndex, bullet: bulletIndex })}
+                        />
+                      </View>
+                    </View>
+                  ))}
+                  <TouchableOpacity onPress={() => editResume({ type: 'add_bullet', experience: experienceIndex })}>
+                    <Text variant="caption" color={colors.primary[600]}>+ Add bullet</Text>
+                  </TouchableOpacity>
+                </Section>
+              ))}
+
+              {draft.resume.education.length > 0 && (
+                <Section title="Education">
+                  {draft.resume.education.map((line, index) => (
+                    <TextInput
+                      key={index}
+                      style={styles.input}
+                      value={line}
+                      onChangeText={(text) => editResume({ type: 'set_education', index, text })}
+                    />
+                  ))}
+                </Section>
+              )}
+            </>
+          ) : (
+            <>
+              {draft.paragraphs.map((paragraph, index) => (
+                <Section
+                  key={index}
+                  title={`Paragraph ${index + 1}`}
+                  actions={
+                    <View style={styles.row}>
+                      <MoveButtons
+                        onUp={() => editParagraphs(moveItem(draft.paragraphs, index, index - 1))}
+                        onDown={() => editParagraphs(moveItem(draft.paragraphs, index, index + 1))}
+                        upDisabled={index === 0}
+                        downDisabled={index === draft.paragraphs.length - 1}
+                      />
+                      <ToolbarButton
+                        label="✕"
+                        onPress={() => editParagraphs(draft.paragraphs.filter((_, i) => i !== index))}
+                      />
+                    </View>
+                  }
+                >
+                  <TextInput
+                    style={styles.input}
+                    multiline
+                    value={paragraph}
+                    onChangeText={(text) =>
+                      editParagraphs(
+                        draft.paragraphs.map((p, i) => (i === index ? text : p)),
+                        `paragraph:${index}`
+                      )
+                    }
+                  />
+                </Section>
+              ))}
+              <Button variant="secondary" onPress={() => editParagraphs([...draft.paragraphs, ''])}>
+                Add Paragraph
+              </Button>
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Button fullWidth disabled={!hasChanges} loading={isSaving} onPress={handleSave}>
+            Save Changes
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+function Section({
+  title,
+  subtitle,
+  actions,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <View style={styles.flex}>
+          <Text variant="label">{title}</Text>
+          {subtitle && <Text variant="caption" color="tertiary">{subtitle}</Text>}
+        </View>
+        {actions}
+      </View>
+      {children}
+    </View>
+  );
+}
+
+function MoveButtons({
+  onUp,
+  onDown,
+  upDisabled,
+  downDisabled,
+}: {
+  onUp: () => void;
+  onDown: () => void;
+  upDisabled: boolean;
+  downDisabled: boolean;
+}) {
+  return (
+    <View style={styles.row}>
+      <ToolbarButton label="↑" disabled={upDisabled} onPress={onUp} />
+      <ToolbarButton label="↓" disabled={downDisabled} onPress={onDown} />
+    </View>
+  );
+}
+
+function ToolbarButton({
+  label,
+  disabled = false,
+  onPress,
+}: {
+  label: string;
+  disabled?: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={styles.toolbarButton}>
+      <Text variant="caption" color={disabled ? 'tertiary' : colors.primary[600]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing[4],
+    padding: spacing[6],
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[2],
+  },
+  toolbarGroup: {
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  toolbarButton: {
+    paddingHorizontal: spacing[2],
+    paddingVertical: spacing[1],
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginHorizontal: spacing[4],
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing[1],
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.md,
+  },
+  activeTab: {
+    backgroundColor: colors.background.primary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scroll: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  section: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing[3],
+    gap: spacing[2],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  flex: {
+    flex: 1,
+  },
+  input: {
+    ...textStyles.bodySmall,
+    backgroundColor: colors.background.primary,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    padding: spacing[2],
+    color: colors.text.primary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[1],
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary[50],
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+});
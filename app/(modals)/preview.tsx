@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -6,17 +6,42 @@ import {
   ScrollView,
   TouchableOpacity,
   Share,
+  Switch,
+  Alert,
 } from 'react-native';
 import { router } from 'expo-router';
 import { Text, Button, Card } from '../../src/components/ui';
 import { colors, spacing, borderRadius } from '../../src/theme';
-import { useGenerationStore } from '../../src/stores';
+import {
+  useGenerationStore,
+  useResumeStore,
+  useTemplateStore,
+  selectSectionOrder,
+  selectLayoutOptions,
+} from '../../src/stores';
+import {
+  FONT_PRESETS,
+  MARGIN_PRESETS,
+  fitResumeToOnePage,
+  estimateResumeHeight,
+  getATSSafeLayouts,
+  resolveLayout,
+} from '../../src/templates';
+import { previewResumePDF } from '../../src/services/exportService';
 
 type Tab = 'resume' | 'coverLetter';
 
 export default function PreviewScreen() {
   const [activeTab, setActiveTab] = useState<Tab>('resume');
+  const [isOpeningPreview, setIsOpeningPreview] = useState(false);
   const result = useGenerationStore((state) => state.result);
+  const parsedData = useResumeStore((state) => state.parsedData);
+  const templateState = useTemplateStore();
+
+  const layouts = useMemo(() => getATSSafeLayouts(), []);
+  const layoutOptions = selectLayoutOptions(templateState);
+  const sectionOrder = selectSectionOrder(templateState);
+  const resolved = resolveLayout(layoutOptions);
 
   if (!result) {
     return (
@@ -44,6 +69,33 @@ export default function PreviewScreen() {
     }
   };
 
+  const handlePrintPreview = async () => {
+    setIsOpeningPreview(true);
+    try {
+      await previewResumePDF(result.resume, {
+        name: parsedData?.contact?.name,
+        email: parsedData?.contact?.email,
+        phone: parsedData?.contact?.phone,
+        layout: layoutOptions,
+      });
+    } catch (error) {
+      console.error('Print preview error:', error);
+      Alert.alert('Preview Failed', 'Could not open the print preview.');
+    } finally {
+      setIsOpeningPreview(false);
+    }
+  };
+
+  const fit = fitResumeToOnePage(result.resume, layoutOptions);
+  const pageCount = Math.max(1, Math.ceil(estimateResumeHeight(result.resume, resolved) / fit.pageHeight));
+  const fitMessage = templateState.fitToOnePage
+    ? fit.fits
+      ? fit.trimmedBullets.length > 0
+        ? `${fit.trimmedBullets.length} lowest-priority bullet${fit.trimmedBullets.length === 1 ? '' : 's'} left out to fit one page`
+        : 'Already fits on one page'
+      : 'Still longer than one page - every role keeps at least one bullet'
+    : `About ${pageCount} page${pageCount === 1 ? '' : 's'}`;
+
   const handleCopy = () => {
     // Would use Clipboard API
     console.log('Copy to clipboard');
@@ -73,10 +125,97 @@ export default function PreviewScreen() {
       </View>
 
       <ScrollView contentContainerStyle={styles.scroll}>
+        {activeTab === 'resume' && (
+          <View style={styles.options}>
+            <Text variant="label">Template</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.gallery}>
+              {layouts.map((layout) => {
+                const selected = layout.id === resolved.layout.id;
+                return (
+                  <TouchableOpacity
+                    key={layout.id}
+                    onPress={() => templateState.setTemplate(layout.id)}
+                    style={[styles.templateCard, selected && styles.templateCardSelected]}
+                    activeOpacity={0.7}
+                  >
+                    <Text variant="label" color={selected ? colors.primary[600] : 'primary'}>
+                      {layout.name}
+                    </Text>
+                    <Text variant="caption" color="secondary">{layout.description}</Text>
+                    <Text variant="caption" color={colors.success.dark}>ATS-safe</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <Text variant="label">Font</Text>
+            <View style={styles.chips}>
+              {Object.values(FONT_PRESETS).map((font) => (
+                <Chip
+                  key={font.id}
+                  label={font.label}
+                  active={font.id === resolved.font.id}
+                  onPress={() => templateState.setFont(font.id)}
+                />
+              ))}
+            </View>
+
+            <Text variant="label">Margins</Text>
+            <View style={styles.chips}>
+              {Object.values(MARGIN_PRESETS).map((margins) => (
+                <Chip
+                  key={margins.id}
+                  label={margins.label}
+                  active={margins.id === resolved.margins.id}
+                  onPress={() => templateState.setMargins(margins.id)}
+                />
+              ))}
+            </View>
+
+            <Text variant="label">Section order</Text>
+            {sectionOrder.map((section, index) => (
+              <View key={section} style={styles.sectionRow}>
+                <Text variant="bodySmall" style={styles.sectionName}>
+                  {resolved.layout.sectionTitles[section]}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => templateState.moveSection(section, -1)}
+                  disabled={index === 0}
+                  style={styles.moveButton}
+                >
+                  <Text variant="caption" color={index === 0 ? 'tertiary' : colors.primary[600]}>↑</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => templateState.moveSection(section, 1)}
+                  disabled={index === sectionOrder.length - 1}
+                  style={styles.moveButton}
+                >
+                  <Text
+                    variant="caption"
+                    color={index === sectionOrder.length - 1 ? 'tertiary' : colors.primary[600]}
+                  >
+                    ↓
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={styles.sectionRow}>
+              <Text variant="label" style={styles.sectionName}>Fit to one page</Text>
+              <Switch
+                value={templateState.fitToOnePage}
+                onValueChange={templateState.setFitToOnePage}
+                trackColor={{ true: colors.primary[600], false: colors.border.light }}
+              />
+            </View>
+            <Text variant="caption" color="secondary">{fitMessage}</Text>
+          </View>
+        )}
+
         <Card variant="outlined" padding={4}>
           <Text variant="body" style={styles.previewText}>
             {activeTab === 'resume'
-              ? result.resume.rawText
+              ? (templateState.fitToOnePage ? fit.resume : result.resume).rawText
               : result.coverLetter}
           </Text>
         </Card>
@@ -86,6 +225,16 @@ export default function PreviewScreen() {
         <Button variant="outline" onPress={handleCopy}>
           Copy
         </Button>
+        {activeTab === 'resume' && (
+          <Button
+            variant="outline"
+            onPress={handlePrintPreview}
+            loading={isOpeningPreview}
+            disabled={isOpeningPreview}
+          >
+            Print Preview
+          </Button>
+        )}
         <Button onPress={handleShare}>
           Share
         </Button>
@@ -94,6 +243,28 @@ export default function PreviewScreen() {
   );
 }
 
+function Chip({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[styles.chip, active && styles.chipActive]}
+      activeOpacity={0.7}
+    >
+      <Text variant="caption" color={active ? colors.primary[600] : 'secondary'}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
 function TabButton({
   label,
   active,
@@ -160,6 +331,54 @@ const styles = StyleSheet.create({
   previewText: {
     lineHeight: 24,
   },
+  options: {
+    gap: spacing[2],
+    marginBottom: spacing[4],
+  },
+  gallery: {
+    gap: spacing[2],
+  },
+  templateCard: {
+    width: 150,
+    padding: spacing[3],
+    gap: spacing[1],
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    backgroundColor: colors.background.secondary,
+  },
+  templateCardSelected: {
+    borderColor: colors.primary[600],
+    backgroundColor: colors.primary[50],
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[1],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  chipActive: {
+    borderColor: colors.primary[600],
+    backgroundColor: colors.primary[50],
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  sectionName: {
+    flex: 1,
+  },
+  moveButton: {
+    paddingHorizontal: spacing[2],
+    paddingVertical: spacing[1],
+  },
   footer: {
     flexDirection: 'row',
     padding: spacing[4],
@@ -12,29 +12,75 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { Text, Button, Card, Toast } from '../../src/components/ui';
 import { colors, spacing, borderRadius } from '../../src/theme';
-import { useGenerationStore, useResumeStore, useHistoryStore, useGoalsStore } from '../../src/stores';
 import {
-  generateResumePDF,
-  generateCoverLetterPDF,
-  sharePDF,
+  useGenerationStore,
+  useResumeStore,
+  useHistoryStore,
+  useGoalsStore,
+  useTemplateStore,
+  selectLayoutOptions,
+} from '../../src/stores';
+import { getResumeLayout } from '../../src/templates';
+import { AI_DETECTOR_NAMES } from '../../src/services/aiDetection';
+import type {
+  ScoreBreakdown,
+  MatchSource,
+  SeniorityFit,
+  VerificationReport,
+  CoverLetterIterationKind,
+  HumanizeStopReason,
+} from '../../src/services/tailoring';
+import {
+  getFlaggedSentences,
+  rewriteFlaggedSentences,
+  segmentCoverLetter,
+} from '../../src/services/tailoring';
+import {
+  exportResume,
+  exportCoverLetter,
+  shareExport,
   isSharingAvailable,
+  EXPORT_FORMATS,
+  type ExportFormat,
 } from '../../src/services/exportService';
 
 type Tab = 'resume' | 'coverLetter';
 
+const ITERATION_LABELS: Record<CoverLetterIterationKind, string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  sentence_rewrite: 'Rewrote flagged sentences',
+};
+
+const STOP_REASON_LABELS: Record<HumanizeStopReason, string> = {
+  disabled: 'AI detection is off',
+  passed: 'passed the check',
+  unmeasured: 'could not be scored',
+  no_retry: 'no rewrite available',
+  max_attempts: 'attempt limit reached',
+  time_budget: 'time limit reached',
+  error: 'a rewrite failed',
+};
+
 export default function ResultScreen() {
   const [activeTab, setActiveTab] = useState<Tab>('resume');
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('pdf');
   const [hasPromptedApplied, setHasPromptedApplied] = useState(false);
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const [isRewriting, setIsRewriting] = useState(false);
 
   const result = useGenerationStore((state) => state.result);
   const reset = useGenerationStore((state) => state.reset);
+  const setResult = useGenerationStore((state) => state.setResult);
   const parsedData = useResumeStore((state) => state.parsedData);
   const historyItems = useHistoryStore((state) => state.items);
   const markAsApplied = useHistoryStore((state) => state.markAsApplied);
+  const updateResult = useHistoryStore((state) => state.updateResult);
   const recordApplication = useGoalsStore((state) => state.recordApplication);
+  const templateName = useTemplateStore((state) => getResumeLayout(state.templateId).name);
 
   if (!result) {
     return (
@@ -133,45 +179,45 @@ export default function ResultScreen() {
     }
   };
 
-  const handleExportPDF = async () => {
+  const handleExport = async () => {
     try {
       // Check if sharing is available
       const available = await isSharingAvailable();
       if (!available) {
-        Alert.alert('Export Unavailable', 'PDF sharing is not available on this device.');
+        Alert.alert('Export Unavailable', 'File sharing is not available on this device.');
         return;
       }
 
       setIsExporting(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-      let pdfUri: string;
+      let fileUri: string;
 
       if (activeTab === 'resume') {
-        // Generate resume PDF
-        pdfUri = await generateResumePDF(result.resume, {
+        fileUri = await exportResume(result.resume, exportFormat, {
           name: parsedData?.contact?.name,
           email: parsedData?.contact?.email,
           phone: parsedData?.contact?.phone,
+          layout: selectLayoutOptions(useTemplateStore.getState()),
         });
       } else {
-        // Generate cover letter PDF
         // Try to extract job title from matched items or use default
         const jobTitle = result.matchedItems[0]?.requirement?.text?.substring(0, 50) || undefined;
-        pdfUri = await generateCoverLetterPDF(
-          result.coverLetter,
+        fileUri = await exportCoverLetter(result.coverLetter, exportFormat, {
+          applicantName: parsedData?.contact?.name,
+          applicantEmail: parsedData?.contact?.email,
+          applicantPhone: parsedData?.contact?.phone,
           jobTitle,
-          undefined,
-          {
-            name: parsedData?.contact?.name,
-            email: parsedData?.contact?.email,
-            phone: parsedData?.contact?.phone,
-          }
-        );
+        });
       }
 
-      // Share the PDF
-      await sharePDF(pdfUri, activeTab === 'resume' ? 'Tailored_Resume.pdf' : 'Cover_Letter.pdf');
+      // Share the file
+      const extension = EXPORT_FORMATS[exportFormat].extension;
+      await shareExport(
+        fileUri,
+        exportFormat,
+        activeTab === 'resume' ? `Tailored_Resume.${extension}` : `Cover_Letter.${extension}`
+      );
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
       // Prompt to mark as applied after exporting
@@ -181,13 +227,39 @@ export default function ResultScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert(
         'Export Failed',
-        'Failed to generate PDF. Please try copying the text instead.'
+        `Failed to generate the ${EXPORT_FORMATS[exportFormat].label} file. Please try copying the text instead.`
       );
     } finally {
       setIsExporting(false);
     }
   };
 
+  const handleRewriteFlagged = async () => {
+    if (isRewriting) return;
+    setIsRewriting(true);
+
+    try {
+      const { result: updated, rewrites } = await rewriteFlaggedSentences(result);
+      if (rewrites.length === 0) {
+        showToastMessage('No sentences needed rewriting');
+        return;
+      }
+
+      // Only the entry holding this exact result - never another application's
+      const historyItem = historyItems.find((item) => item.result === result);
+      setResult(updated);
+      if (historyItem) await updateResult(historyItem.id, updated);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      showToastMessage(`Rewrote ${rewrites.length} sentence${rewrites.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Sentence rewrite error:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Rewrite Failed', 'Could not rewrite the flagged sentences. Please try again.');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
   const handleClose = () => {
     reset();
     router.back();
@@ -200,8 +272,20 @@ export default function ResultScreen() {
 
   // Get AI detection display info
   const aiScore = result.aiDetection?.score ?? 0;
-  const aiStatus = getAIDetectionStatus(aiScore);
+  // Results saved before detection was pluggable have no `measured` flag
+  const aiMeasured = result.aiDetection?.measured !== false;
+  const aiStatus = aiMeasured
+    ? getAIDetectionStatus(aiScore)
+    : { label: 'Not checked', color: colors.text.secondary, passing: true };
   const aiDisplay = getAIScoreDisplay(aiScore);
+  const aiDetector = result.aiDetection?.detector;
+  // Sentences the detector flagged that are still in the letter
+  const flaggedSentences = getFlaggedSentences(result.coverLetter, result.aiDetection);
+  const letterSegments = segmentCoverLetter(result.coverLetter, result.aiDetection?.sentences);
+  const iterations = result.coverLetterIterations ?? [];
+  // With "keep best" the current letter isn't always the newest version
+  const currentIteration = iterations.map((iteration) => iteration.coverLetter).lastIndexOf(result.coverLetter);
+  const humanization = result.humanization;
 
   return (
     <SafeAreaView style={styles.container}>
@@ -233,6 +317,15 @@ export default function ResultScreen() {
         <Text variant="body" color="secondary">
           {getScoreLabel(result.matchScore)}
         </Text>
+        {result.baseResume && (
+          <Text variant="caption" color="secondary" align="center">
+            Tailored from "{result.baseResume.name}"
+            {result.baseResume.ranking.length > 1 &&
+              ` - best of ${result.baseResume.ranking.length} (${result.baseResume.ranking
+                .map((r) => `${r.name} ${r.matchScore}%`)
+                .join(', ')})`}
+          </Text>
+        )}
         <Text variant="caption" color="tertiary">
           Processed in {(result.processingTime / 1000).toFixed(1)}s
         </Text>
@@ -285,10 +378,26 @@ export default function ResultScreen() {
           <Text variant="body" style={styles.contentText}>
             {activeTab === 'resume'
               ? result.resume.rawText
-              : result.coverLetter}
+              : letterSegments.map((segment, index) => (
+                  <Text
+                    key={index}
+                    variant="body"
+                    style={segment.flagged ? styles.flaggedSentence : undefined}
+                  >
+                    {segment.text}
+                  </Text>
+                ))}
           </Text>
         </Card>
 
+        {activeTab === 'resume' && (
+          <TouchableOpacity onPress={() => router.push('/(modals)/preview')}>
+            <Text variant="caption" color={colors.primary[600]} align="center">
+              Template: {templateName} · Change layout
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Match summary (for resume tab) */}
         {activeTab === 'resume' && (
           <Card variant="filled" padding={4}>
@@ -302,9 +411,53 @@ export default function ResultScreen() {
                 ✗ {result.missingItems.length} gaps
               </Text>
             </View>
+
+            {result.original && (
+              <TouchableOpacity
+                onPress={() => router.push('/(modals)/review-changes')}
+                style={styles.breakdownToggle}
+              >
+                <Text variant="caption" color={colors.primary[600]}>
+                  Review changes from your original
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {result.scoreBreakdown && (
+              <>
+                <TouchableOpacity
+                  onPress={() => setShowBreakdown(!showBreakdown)}
+                  style={styles.breakdownToggle}
+                >
+                  <Text variant="caption" color={colors.primary[600]}>
+                    {showBreakdown ? 'Hide details' : 'Why this score?'}
+                  </Text>
+                </TouchableOpacity>
+                {showBreakdown && <ScoreBreakdownView breakdown={result.scoreBreakdown} />}
+              </>
+            )}
           </Card>
         )}
 
+        {/* Fallback warning - formatter output couldn't be validated */}
+        {activeTab === 'resume' && result.fallbacks && result.fallbacks.length > 0 && (
+          <Card variant="filled" padding={4} style={styles.fallbackCard}>
+            <Text variant="label" color={colors.warning.main}>
+              Heads up
+            </Text>
+            {result.fallbacks.map((fallback) => (
+              <Text key={fallback.stage} variant="bodySmall" color="secondary">
+                {fallback.reason}
+              </Text>
+            ))}
+          </Card>
+        )}
+
+        {/* Fabrication guard - changes the source resume doesn't support */}
+        {activeTab === 'resume' && result.verification && !result.verification.passed && (
+          <VerificationView report={result.verification} />
+        )}
+
         {/* AI Detection Score for Cover Letter - FIXED */}
         {activeTab === 'coverLetter' && result.aiDetection && (
           <Card
@@ -312,7 +465,11 @@ export default function ResultScreen() {
             padding={4}
             style={[
               styles.aiDetectionCard,
-              aiStatus.passing ? styles.aiDetectionPassing : styles.aiDetectionWarning,
+              !aiMeasured
+                ? styles.aiDetectionUnmeasured
+                : aiStatus.passing
+                  ? styles.aiDetectionPassing
+                  : styles.aiDetectionWarning,
             ]}
           >
             <View style={styles.aiDetectionHeader}>
@@ -334,30 +491,94 @@ export default function ResultScreen() {
               </View>
             </View>
             
-            <View style={styles.aiDetectionScore}>
-              <Text variant="h2" style={{ color: aiStatus.color }}>
-                {100 - aiScore}%
-              </Text>
-              <Text variant="caption" color="secondary">
-                Human Score
-              </Text>
-            </View>
+            {aiMeasured && (
+              <View style={styles.aiDetectionScore}>
+                <Text variant="h2" style={{ color: aiStatus.color }}>
+                  {100 - aiScore}%
+                </Text>
+                <Text variant="caption" color="secondary">
+                  Human Score
+                </Text>
+              </View>
+            )}
             
             {/* Clearer explanation */}
             <Text variant="bodySmall" color="secondary" align="center">
               {result.aiDetection.feedback}
             </Text>
+
+            {aiMeasured && aiDetector && (
+              <Text variant="caption" color="tertiary" align="center">
+                Scored by {AI_DETECTOR_NAMES[aiDetector]}
+              </Text>
+            )}
             
             {/* Help text if failing */}
-            {!aiStatus.passing && (
+            {aiMeasured && !aiStatus.passing && (
               <Text variant="caption" color="tertiary" align="center" style={styles.helpText}>
                 Tip: Make small personal edits to improve the score
               </Text>
             )}
+
+            {/* Targeted rewrite of the highlighted sentences */}
+            {flaggedSentences.length > 0 && (
+              <View style={styles.rewriteSection}>
+                <Text variant="caption" color="secondary" align="center">
+                  {flaggedSentences.length} highlighted sentence{flaggedSentences.length === 1 ? '' : 's'} read as AI-written
+                </Text>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onPress={handleRewriteFlagged}
+                  disabled={isRewriting}
+                  loading={isRewriting}
+                >
+                  Rewrite flagged sentences
+                </Button>
+              </View>
+            )}
+
+            {/* Every version of the letter and how it scored */}
+            {iterations.length > 1 && (
+              <View style={styles.iterationList}>
+                {humanization && humanization.attempts > 0 && (
+                  <Text variant="caption" color="tertiary">
+                    {humanization.attempts} rewrite{humanization.attempts !== 1 ? 's' : ''},{' '}
+                    {STOP_REASON_LABELS[humanization.stopReason]}
+                  </Text>
+                )}
+                {iterations.map((iteration, index) => (
+                  <View key={iteration.createdAt + index} style={styles.iterationRow}>
+                    <Text variant="caption" color="secondary">
+                      {index + 1}. {ITERATION_LABELS[iteration.kind]}
+                    </Text>
+                    <Text variant="caption" color={index === currentIteration ? 'primary' : 'tertiary'}>
+                      {iteration.aiDetection.measured ? `${100 - iteration.aiDetection.score}% human` : 'Not checked'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </Card>
         )}
       </ScrollView>
 
+      {/* Export format */}
+      <View style={styles.formatRow}>
+        <Text variant="caption" color="secondary">Format</Text>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <TouchableOpacity
+            key={format}
+            onPress={() => setExportFormat(format)}
+            style={[styles.formatChip, exportFormat === format && styles.formatChipActive]}
+          >
+            <Text variant="caption" color={exportFormat === format ? colors.primary[600] : 'secondary'}>
+              {EXPORT_FORMATS[format].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {/* Footer actions */}
       <View style={styles.footer}>
         <Button
@@ -369,12 +590,19 @@ export default function ResultScreen() {
         </Button>
         <Button
           variant="outline"
-          onPress={handleExportPDF}
+          onPress={() => router.push('/(modals)/edit-tailored')}
+          style={styles.footerButton}
+        >
+          Edit
+        </Button>
+        <Button
+          variant="outline"
+          onPress={handleExport}
           disabled={isExporting}
           loading={isExporting}
           style={styles.footerButton}
         >
-          Export PDF
+          Export
         </Button>
         <Button
           onPress={handleNewGeneration}
@@ -387,6 +615,110 @@ export default function ResultScreen() {
   );
 }
 
+const SOURCE_LABELS: Record<MatchSource, string> = {
+  skill: 'Skill',
+  bullet: 'Experience',
+  title: 'Job title',
+  years: 'Years of experience',
+  education: 'Education',
+  certification: 'Certification',
+  raw_text: 'Mentioned in resume',
+};
+
+const SENIORITY_LABELS: Record<SeniorityFit['fit'], string> = {
+  under: 'Below the level this job hires for',
+  match: 'Right level for this job',
+  over: 'Above the level this job hires for',
+};
+
+function ScoreBreakdownView({ breakdown }: { breakdown: ScoreBreakdown }) {
+  const afterDomain = Math.round(breakdown.rawScore * breakdown.domainPenalty);
+  const domainLoss = breakdown.rawScore - afterDomain;
+  const seniorityLoss = afterDomain - breakdown.penalizedScore;
+  const { seniority } = breakdown;
+
+  return (
+    <View style={styles.breakdown}>
+      {breakdown.requirements.map((r, index) => (
+        <View key={index} style={styles.breakdownRow}>
+          <View style={styles.breakdownText}>
+            <Text variant="bodySmall" numberOfLines={2}>
+              {r.status === 'matched' ? '✓' : '✗'} {r.requirement.text}
+            </Text>
+            <Text variant="caption" color="tertiary" numberOfLines={1}>
+              {r.status === 'matched' && r.source
+                ? `${SOURCE_LABELS[r.source]}${r.similarity !== undefined ? ' (similar meaning)' : ''}: ${r.sourceText}`
+                : `${r.requirement.importance} priority, not found`}
+            </Text>
+          </View>
+          <Text
+            variant="caption"
+            color={r.status === 'matched' ? colors.success.main : colors.error.main}
+          >
+            {r.status === 'matched' ? `+${r.points.toFixed(1)}` : `-${r.maxPoints.toFixed(1)}`}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.breakdownTotals}>
+        <Text variant="caption" color="secondary">
+          Requirements met: {breakdown.rawScore}% (gaps count at {Math.round(breakdown.missingWeightFactor * 100)}% weight)
+        </Text>
+        {breakdown.domainMismatch && (
+          <Text variant="caption" color={colors.warning.main}>
+            Different field than this job: -{domainLoss} points
+          </Text>
+        )}
+        {seniority && (
+          <Text variant="caption" color={seniority.fit === 'match' ? 'secondary' : colors.warning.main}>
+            {SENIORITY_LABELS[seniority.fit]} ({seniority.required}; you read as {seniority.candidate}, {seniority.relevantYears} yrs)
+            {seniorityLoss > 0 ? `: -${seniorityLoss} points` : ''}
+          </Text>
+        )}
+        {breakdown.clamp.applied && (
+          <Text variant="caption" color="secondary">
+            Kept within {breakdown.clamp.min}-{breakdown.clamp.max}%: {breakdown.clamp.delta > 0 ? '+' : ''}{breakdown.clamp.delta} points
+          </Text>
+        )}
+        <Text variant="caption" color="secondary">
+          Match score: {breakdown.finalScore}%
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+// Most reports have a handful; the rest are summarized
+const MAX_VIOLATIONS_SHOWN = 5;
+
+function VerificationView({ report }: { report: VerificationReport }) {
+  const shown = report.violations.slice(0, MAX_VIOLATIONS_SHOWN);
+  const hidden = report.violations.length - shown.length;
+
+  return (
+    <Card variant="filled" padding={4} style={styles.fallbackCard}>
+      <Text variant="label" color={colors.warning.main}>
+        {report.mode === 'revert' ? 'Kept your original wording' : 'Check before sending'}
+      </Text>
+      <Text variant="bodySmall" color="secondary">
+        {report.mode === 'revert'
+          ? "The AI added details your resume doesn't have, so those edits were undone:"
+          : "These details aren't in your resume. Edit or remove them if they aren't accurate:"}
+      </Text>
+      {shown.map((violation, index) => (
+        <Text key={`${violation.kind}-${index}`} variant="caption" color="secondary">
+          • {violation.message}
+        </Text>
+      ))}
+      {hidden > 0 && (
+        <Text variant="caption" color="tertiary">
+          and {hidden} more
+        </Text>
+      )}
+    </Card>
+  );
+}
+
 function TabButton({
   label,
   active,
@@ -477,16 +809,56 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: spacing[2],
   },
-  footer: {
+  breakdownToggle: {
+    marginTop: spacing[2],
+  },
+  breakdown: {
+    marginTop: spacing[2],
+    gap: spacing[2],
+  },
+  breakdownRow: {
     flexDirection: 'row',
-    padding: spacing[4],
+    justifyContent: 'space-between',
     gap: spacing[2],
+  },
+  breakdownText: {
+    flex: 1,
+  },
+  breakdownTotals: {
+    paddingTop: spacing[2],
     borderTopWidth: 1,
     borderTopColor: colors.border.light,
+    gap: spacing[1],
+  },
+  // The format row above carries the divider
+  footer: {
+    flexDirection: 'row',
+    padding: spacing[4],
+    gap: spacing[2],
   },
   footerButton: {
     flex: 1,
   },
+  formatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    paddingHorizontal: spacing[4],
+    paddingTop: spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+  formatChip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[1],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  formatChipActive: {
+    borderColor: colors.primary[600],
+    backgroundColor: colors.primary[50],
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
@@ -517,6 +889,12 @@ const styles = StyleSheet.create({
     color: colors.primary[600],
     fontWeight: '600',
   },
+  fallbackCard: {
+    gap: spacing[1],
+    backgroundColor: colors.warning.main + '10',
+    borderWidth: 1,
+    borderColor: colors.warning.main + '30',
+  },
   aiDetectionCard: {
     gap: spacing[2],
   },
@@ -530,6 +908,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.warning.main + '30',
   },
+  aiDetectionUnmeasured: {
+    backgroundColor: colors.background.secondary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
   aiDetectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -551,6 +934,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: spacing[1],
   },
+  flaggedSentence: {
+    backgroundColor: colors.warning.light,
+  },
+  rewriteSection: {
+    gap: spacing[2],
+    marginTop: spacing[1],
+  },
+  iterationList: {
+    gap: spacing[1],
+    paddingTop: spacing[2],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+  iterationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
   helpText: {
     marginTop: spacing[1],
     fontStyle: 'italic',
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Text, Button, Card } from '../../src/components/ui';
+import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
+import { useAuthStore, useResumeStore, ResumeVersion } from '../../src/stores';
+import { formatRelativeDate } from '../../src/utils/formatDate';
+
+export default function ResumeLibraryScreen() {
+  const user = useAuthStore((state) => state.user);
+
+  const versions = useResumeStore((state) => state.versions);
+  const activeId = useResumeStore((state) => state.activeId);
+  const isSyncing = useResumeStore((state) => state.isSyncing);
+  const createVersion = useResumeStore((state) => state.createVersion);
+  const renameVersion = useResumeStore((state) => state.renameVersion);
+  const duplicateVersion = useResumeStore((state) => state.duplicateVersion);
+  const deleteVersion = useResumeStore((state) => state.deleteVersion);
+  const setActiveVersion = useResumeStore((state) => state.setActiveVersion);
+  const loadFromCloud = useResumeStore((state) => state.loadFromCloud);
+  const syncToCloud = useResumeStore((state) => state.syncToCloud);
+
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  // Push anything edited offline, then pick up versions from other devices
+  useEffect(() => {
+    if (!user) return;
+    syncToCloud().then(loadFromCloud);
+  }, [user, syncToCloud, loadFromCloud]);
+
+  const handleCreate = () => {
+    const id = createVersion(newName);
+    setNewName('');
+    router.push({ pathname: '/(modals)/edit-resume', params: { id } });
+  };
+
+  const startRename = (version: ResumeVersion) => {
+    setRenamingId(version.id);
+    setRenameText(version.name);
+  };
+
+  const finishRename = () => {
+    if (renamingId) renameVersion(renamingId, renameText);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (version: ResumeVersion) => {
+    Alert.alert(
+      'Delete Resume',
+      `Delete "${version.name}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteVersion(version.id) },
+      ]
+    );
+  };
+
+  const renderVersion = (version: ResumeVersion) => {
+    const isActive = version.id === activeId;
+    const skillCount = version.parsedData?.skills.length ?? 0;
+    const expCount = version.parsedData?.experiences.length ?? 0;
+
+    return (
+      <Card
+        key={version.id}
+        variant="outlined"
+        padding={4}
+        style={[styles.versionCard, isActive && styles.activeCard]}
+      >
+        {renamingId === version.id ? (
+          <TextInput
+            style={styles.nameInput}
+            value={renameText}
+            onChangeText={setRenameText}
+            onSubmitEditing={finishRename}
+            onBlur={finishRename}
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <View style={styles.versionHeader}>
+            <Text variant="h3" numberOfLines={1} style={styles.versionName}>
+              {version.name}
+            </Text>
+            {isActive && (
+              <Text variant="caption" color={colors.primary[600]}>Default</Text>
+            )}
+          </View>
+        )}
+
+        <Text variant="caption" color="tertiary">
+          {version.rawText
+            ? `${skillCount} skills · ${expCount} experiences · updated ${formatRelativeDate(version.updatedAt)}`
+            : 'Empty'}
+          {user && !version.syncedToCloud && version.rawText ? ' · not synced' : ''}
+        </Text>
+
+        <View style={styles.versionActions}>
+          <Button
+            variant="outline"
+            size="sm"
+            onPress={() => router.push({ pathname: '/(modals)/edit-resume', params: { id: version.id } })}
+          >
+            Edit
+          </Button>
+          <Button variant="ghost" size="sm" onPress={() => startRename(version)}>
+            Rename
+          </Button>
+          <Button variant="ghost" size="sm" onPress={() => duplicateVersion(version.id)}>
+            Duplicate
+          </Button>
+          {!isActive && (
+            <Button variant="ghost" size="sm" onPress={() => setActiveVersion(version.id)}>
+              Make Default
+            </Button>
+          )}
+          <TouchableOpacity onPress={() => handleDelete(version)} style={styles.deleteButton}>
+            <Text variant="bodySmall" color={colors.error.main}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.headerButton} />
+        <Text variant="h2" align="center">Resume Library</Text>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Text variant="body" color={colors.primary[600]} align="right">Done</Text>
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scroll} keyboardShouldPersistTaps="handled">
+          <Text variant="body" color="secondary">
+            Keep a base resume per kind of role. The default is tailored unless you pick
+            another one on the Tailor screen.
+          </Text>
+
+          {isSyncing && (
+            <Text variant="caption" color="tertiary">Syncing...</Text>
+          )}
+
+          {versions.length === 0 && (
+            <Text variant="body" color="tertiary" align="center">
+              No resumes yet
+            </Text>
+          )}
+
+          {versions.map(renderVersion)}
+        </ScrollView>
+
+        {/* Footer with new version */}
+        <View style={styles.footer}>
+          <TextInput
+            style={styles.nameInput}
+            placeholder="New resume name, e.g. Data Analyst"
+            placeholderTextColor={colors.text.tertiary}
+            value={newName}
+            onChangeText={setNewName}
+            returnKeyType="done"
+          />
+          <Button fullWidth disabled={!newName.trim()} onPress={handleCreate}>
+            Add Resume
+          </Button>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scroll: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  versionCard: {
+    gap: spacing[2],
+  },
+  activeCard: {
+    borderColor: colors.primary[600],
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  versionName: {
+    flex: 1,
+  },
+  versionActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: spacing[1],
+  },
+  deleteButton: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+  },
+  nameInput: {
+    ...textStyles.body,
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    color: colors.text.primary,
+  },
+  footer: {
+    padding: spacing[4],
+    gap: spacing[3],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+});
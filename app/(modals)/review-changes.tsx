@@ -0,0 +1,351 @@
+import { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Text, Button } from '../../src/components/ui';
+import { colors, spacing, borderRadius } from '../../src/theme';
+import { useGenerationStore, useHistoryStore } from '../../src/stores';
+import {
+  buildResumeDiff,
+  applyDiffDecisions,
+  skillChangeId,
+  SUMMARY_ID,
+  EXPERIENCE_ORDER_ID,
+} from '../../src/services/tailoring';
+import type { BulletDiff, DiffDecisions, WordDiffSegment } from '../../src/services/tailoring';
+
+const BULLET_LABELS: Record<BulletDiff['status'], string> = {
+  unchanged: '',
+  reworded: 'Reworded',
+  added: 'Added',
+  dropped: 'Removed',
+};
+
+export default function ReviewChangesScreen() {
+  const result = useGenerationStore((state) => state.result);
+  const setResult = useGenerationStore((state) => state.setResult);
+  const historyItems = useHistoryStore((state) => state.items);
+  const updateResult = useHistoryStore((state) => state.updateResult);
+
+  const [decisions, setDecisions] = useState<DiffDecisions>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const diff = useMemo(
+    () => (result?.original ? buildResumeDiff(result.original, result.resume) : null),
+    [result]
+  );
+
+  if (!result || !diff) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyState}>
+          <Text variant="h2">No changes to review</Text>
+          <Text variant="body" color="secondary" align="center">
+            The original resume isn't available for this result.
+          </Text>
+          <Button onPress={() => router.back()}>Go Back</Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isReverted = (id: string) => decisions[id] === 'revert';
+  const toggle = (id: string) =>
+    setDecisions((current) => ({ ...current, [id]: current[id] === 'revert' ? 'accept' : 'revert' }));
+  const revertedCount = Object.values(decisions).filter((d) => d === 'revert').length;
+
+  const handleSave = async () => {
+    if (revertedCount > 0) {
+      const updated = { ...result, resume: applyDiffDecisions(diff, result.resume, decisions) };
+      const historyItem = historyItems.find((item) => item.result === result);
+      setResult(updated);
+      if (historyItem) await updateResult(historyItem.id, updated);
+    }
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Text variant="body" color="secondary">Cancel</Text>
+        </TouchableOpacity>
+        <Text variant="h2" align="center">Review Changes</Text>
+        <TouchableOpacity onPress={handleSave} style={styles.headerButton}>
+          <Text variant="body" color={colors.primary[600]} align="right">
+            Save
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        <Text variant="bodySmall" color="secondary">
+          {diff.changeCount === 0
+            ? 'The tailored resume uses your original wording and order.'
+            : `${diff.changeCount} change${diff.changeCount === 1 ? '' : 's'} from your original resume. Tap Revert on any you don't want before exporting.`}
+        </Text>
+
+        {diff.summary.changed && (
+          <ChangeCard
+            label="Summary"
+            reverted={isReverted(SUMMARY_ID)}
+            onToggle={() => toggle(SUMMARY_ID)}
+          >
+            <DiffText segments={diff.summary.segments} />
+          </ChangeCard>
+        )}
+
+        {diff.experiencesReordered && (
+          <ChangeCard
+            label="Experience order"
+            reverted={isReverted(EXPERIENCE_ORDER_ID)}
+            onToggle={() => toggle(EXPERIENCE_ORDER_ID)}
+          >
+            <Text variant="bodySmall" color="secondary">
+              Roles were reordered to put the most relevant first.
+            </Text>
+          </ChangeCard>
+        )}
+
+        {diff.experiences.map((experience) => (
+          <View key={experience.id} style={styles.experience}>
+            <View style={styles.experienceHeader}>
+              <Text
+                variant="label"
+                style={experience.status === 'dropped' && !isReverted(experience.id) ? styles.struck : undefined}
+              >
+                {experience.title} | {experience.company}
+              </Text>
+              {experience.status !== 'kept' && (
+                <RevertButton
+                  label={experience.status === 'added' ? 'Added role' : 'Removed role'}
+                  reverted={isReverted(experience.id)}
+                  onToggle={() => toggle(experience.id)}
+                />
+              )}
+            </View>
+            {experience.bulletsReordered && (
+              <RevertButton
+                label="Bullets reordered"
+                reverted={isReverted(`${experience.id}:order`)}
+                onToggle={() => toggle(`${experience.id}:order`)}
+              />
+            )}
+
+            {experience.bullets
+              .filter((bullet) => showUnchanged || bullet.status !== 'unchanged' || bullet.moved)
+              .map((bullet) => (
+                <View key={bullet.id} style={styles.bullet}>
+                  <View style={styles.bulletText}>
+                    {bullet.status === 'reworded' && isReverted(bullet.id) ? (
+                      <Text variant="bodySmall">• {bullet.original}</Text>
+                    ) : (
+                      <Text variant="bodySmall">
+                        • <DiffText segments={bullet.segments} />
+                      </Text>
+                    )}
+                    {bullet.moved && (
+                      <Text variant="caption" color="tertiary">
+                        Moved from #{(bullet.originalIndex ?? 0) + 1}
+                      </Text>
+                    )}
+                  </View>
+                  {bullet.status !== 'unchanged' && experience.status === 'kept' && (
+                    <RevertButton
+                      label={BULLET_LABELS[bullet.status]}
+                      reverted={isReverted(bullet.id)}
+                      onToggle={() => toggle(bullet.id)}
+                    />
+                  )}
+                </View>
+              ))}
+          </View>
+        ))}
+
+        {(diff.skills.added.length > 0 || diff.skills.dropped.length > 0) && (
+          <View style={styles.experience}>
+            <Text variant="label">Skills</Text>
+            {diff.skills.added.map((skill) => (
+              <View key={`+${skill}`} style={styles.bullet}>
+                <Text variant="bodySmall" style={[styles.bulletText, styles.inserted]}>{skill}</Text>
+                <RevertButton
+                  label="Added"
+                  reverted={isReverted(skillChangeId('added', skill))}
+                  onToggle={() => toggle(skillChangeId('added', skill))}
+                />
+              </View>
+            ))}
+            {diff.skills.dropped.map((skill) => (
+              <View key={`-${skill}`} style={styles.bullet}>
+                <Text variant="bodySmall" style={[styles.bulletText, styles.deleted]}>{skill}</Text>
+                <RevertButton
+                  label="Removed"
+                  reverted={isReverted(skillChangeId('dropped', skill))}
+                  onToggle={() => toggle(skillChangeId('dropped', skill))}
+                />
+              </View>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity onPress={() => setShowUnchanged(!showUnchanged)}>
+          <Text variant="caption" color={colors.primary[600]} align="center">
+            {showUnchanged ? 'Hide unchanged bullets' : 'Show unchanged bullets'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button onPress={handleSave} fullWidth>
+          {revertedCount > 0 ? `Save with ${revertedCount} reverted` : 'Accept all changes'}
+        </Button>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+/**
+ * Inserted words highlighted, deleted words struck through
+ */
+function DiffText({ segments }: { segments: WordDiffSegment[] }) {
+  return (
+    <Text variant="bodySmall">
+      {segments.map((segment, index) => (
+        <Text
+          key={index}
+          variant="bodySmall"
+          style={segment.type === 'insert' ? styles.inserted : segment.type === 'delete' ? styles.deleted : undefined}
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function ChangeCard({
+  label,
+  reverted,
+  onToggle,
+  children,
+}: {
+  label: string;
+  reverted: boolean;
+  onToggle: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <View style={styles.experience}>
+      <View style={styles.experienceHeader}>
+        <Text variant="label">{label}</Text>
+        <RevertButton label="" reverted={reverted} onToggle={onToggle} />
+      </View>
+      {children}
+    </View>
+  );
+}
+
+function RevertButton({
+  label,
+  reverted,
+  onToggle,
+}: {
+  label: string;
+  reverted: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <TouchableOpacity onPress={onToggle} style={[styles.revertButton, reverted && styles.revertButtonActive]}>
+      <Text variant="caption" color={reverted ? colors.warning.dark : colors.primary[600]}>
+        {label ? `${label} · ` : ''}
+        {reverted ? 'Undo revert' : 'Revert'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: spacing[4],
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerButton: {
+    minWidth: 60,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: spacing[4],
+    padding: spacing[6],
+  },
+  scroll: {
+    padding: spacing[4],
+    gap: spacing[3],
+  },
+  experience: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing[3],
+    gap: spacing[2],
+  },
+  experienceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  bullet: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing[2],
+  },
+  bulletText: {
+    flex: 1,
+    gap: spacing[1],
+  },
+  inserted: {
+    backgroundColor: colors.success.light,
+    color: colors.success.dark,
+  },
+  deleted: {
+    backgroundColor: colors.error.light,
+    color: colors.error.dark,
+    textDecorationLine: 'line-through',
+  },
+  struck: {
+    textDecorationLine: 'line-through',
+    color: colors.text.tertiary,
+  },
+  revertButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing[2],
+    paddingVertical: spacing[1],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.primary[600],
+  },
+  revertButtonActive: {
+    borderColor: colors.warning.main,
+    backgroundColor: colors.warning.light,
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+});
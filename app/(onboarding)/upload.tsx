@@ -7,7 +7,9 @@ import * as Clipboard from 'expo-clipboard';
 import { Text, Button, Card, StepIndicator } from '../../src/components/ui';
 import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
 import { useResumeStore } from '../../src/stores';
-import { extractTextFromPDF, isValidPDF } from '../../src/services/pdfService';
+import { extractResumeText } from '../../src/services/pdfService';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
 
 type UploadMethod = 'file' | 'paste' | null;
 type ProcessingStatus = 'idle' | 'picking' | 'processing' | 'error';
@@ -25,7 +27,7 @@ export default function UploadScreen() {
     try {
       setStatus('picking');
       const result = await DocumentPicker.getDocumentAsync({
-        type: ['application/pdf', 'text/plain', 'application/msword'],
+        type: ['application/pdf', DOCX_MIME, 'text/plain', 'application/msword'],
         copyToCacheDirectory: true,
       });
 
@@ -55,10 +57,15 @@ export default function UploadScreen() {
         return;
       }
 
-      // Handle PDF files
-      if (file.mimeType === 'application/pdf' || file.name?.toLowerCase().endsWith('.pdf')) {
+      // Handle PDF and Word (.docx) files - read on-device
+      const fileName = file.name?.toLowerCase() ?? '';
+      const isPDF = file.mimeType === 'application/pdf' || fileName.endsWith('.pdf');
+      const isDOCX = file.mimeType === DOCX_MIME || fileName.endsWith('.docx');
+
+      if (isPDF || isDOCX) {
+        const label = isPDF ? 'PDF' : 'Word document';
         setStatus('processing');
-        setProcessingMessage('Reading PDF file...');
+        setProcessingMessage(`Reading ${label}...`);
 
         try {
           // Read file as base64
@@ -66,33 +73,39 @@ export default function UploadScreen() {
             encoding: 'base64',
           });
 
-          // Validate it's a real PDF
-          if (!isValidPDF(base64Content)) {
-            Alert.alert('Invalid PDF', 'The file does not appear to be a valid PDF document.');
-            setStatus('idle');
-            return;
-          }
+          setProcessingMessage(`Extracting text from ${label}...`);
 
-          setProcessingMessage('Extracting text from PDF...');
+          const extracted = await extractResumeText(base64Content, {
+            fileName: file.name,
+            mimeType: file.mimeType ?? (isPDF ? 'application/pdf' : DOCX_MIME),
+            // Scanned PDFs have no text layer - they go to the AI reader
+            onFallback: () => setProcessingMessage('This looks like a scanned PDF. Reading it with AI...'),
+          });
 
-          // Extract text using OpenAI
-          const extractedText = await extractTextFromPDF(base64Content);
+          setRawText(extracted.text);
+          setUploadSource('file');
 
-          if (extractedText.trim().length < 50) {
-            throw new Error('Could not extract sufficient text from the PDF.');
+          // Scanned or low-confidence pages: let the user know before moving on
+          if (extracted.warnings.length) {
+            setStatus('idle');
+            Alert.alert(
+              'Check Your Resume Text',
+              `${extracted.warnings.map((w) => `• ${w}`).join('\n')}\n\nYou can review and edit the text later from your profile.`,
+              [{ text: 'Continue', onPress: () => router.push('/(onboarding)/goals') }],
+              { cancelable: false }
+            );
+            return;
           }
 
-          setRawText(extractedText);
-          setUploadSource('file');
           router.push('/(onboarding)/goals');
         } catch (error) {
-          console.error('PDF processing error:', error);
+          console.error('Document processing error:', error);
           setStatus('error');
 
           // Offer to paste text instead
           Alert.alert(
-            'PDF Processing Failed',
-            'We couldn\'t extract text from your PDF. Would you like to paste your resume text instead?',
+            `${isPDF ? 'PDF' : 'Document'} Processing Failed`,
+            `${error instanceof Error ? error.message : `We couldn't extract text from your ${label}.`} Would you like to paste your resume text instead?`,
             [
               { text: 'Cancel', style: 'cancel', onPress: () => setStatus('idle') },
               { text: 'Paste Text', onPress: () => {
@@ -106,13 +119,11 @@ export default function UploadScreen() {
         return;
       }
 
-      // Handle Word docs - prompt to paste for now
-      if (file.mimeType === 'application/msword' ||
-          file.name?.toLowerCase().endsWith('.doc') ||
-          file.name?.toLowerCase().endsWith('.docx')) {
+      // Legacy binary .doc files - ask for .docx or pasted text
+      if (file.mimeType === 'application/msword' || fileName.endsWith('.doc')) {
         Alert.alert(
-          'Word Documents',
-          'Word document support is coming soon. Please paste your resume text instead.',
+          'Older Word Format',
+          'Old .doc files can\'t be read. Save it as .docx or PDF, or paste your resume text instead.',
           [
             { text: 'Cancel', style: 'cancel' },
             { text: 'Paste Text', onPress: () => setMethod('paste') },
@@ -123,7 +134,7 @@ export default function UploadScreen() {
       }
 
       // Unknown format
-      Alert.alert('Unsupported Format', 'Please upload a PDF or TXT file, or paste your resume text.');
+      Alert.alert('Unsupported Format', 'Please upload a PDF, DOCX or TXT file, or paste your resume text.');
       setStatus('idle');
     } catch (error) {
       console.error('File pick error:', error);
@@ -175,7 +186,7 @@ export default function UploadScreen() {
         {status === 'processing' && (
           <Card variant="filled" padding={6}>
             <View style={styles.processingContent}>
-              <Text variant="h2" align="center">Processing PDF</Text>
+              <Text variant="h2" align="center">Processing Resume</Text>
               <Text variant="body" color="secondary" align="center">
                 {processingMessage}
               </Text>
@@ -191,9 +202,9 @@ export default function UploadScreen() {
           <View style={styles.options}>
             <Card variant="outlined" padding={6}>
               <View style={styles.optionContent}>
-                <Text variant="h2">Upload PDF</Text>
+                <Text variant="h2">Upload File</Text>
                 <Text variant="bodySmall" color="secondary">
-                  PDF or TXT format
+                  PDF, Word (.docx) or TXT format
                 </Text>
                 <Button
                   variant="primary"
@@ -1,14 +1,15 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import {
   View,
   StyleSheet,
   SafeAreaView,
   ScrollView,
   TextInput,
+  TouchableOpacity,
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import {
@@ -18,11 +19,65 @@ import {
   ProgressRing,
 } from '../../src/components/ui';
 import { colors, spacing, borderRadius, textStyles } from '../../src/theme';
-import { useGenerationStore, useResumeStore, useHistoryStore, useGoalsStore } from '../../src/stores';
-import { tailorResume } from '../../src/services/tailoring';
+import {
+  useGenerationStore,
+  useResumeStore,
+  useHistoryStore,
+  useGoalsStore,
+  useAuthStore,
+  useTailoringSettingsStore,
+  selectTailoringSettings,
+} from '../../src/stores';
+import {
+  tailorResume,
+  loadTaxonomy,
+  getTaxonomy,
+  TailoringError,
+  DEFAULT_COVER_LETTER_OPTIONS,
+  CoverLetterOptions,
+  CoverLetterTone,
+  CoverLetterLength,
+  CoverLetterStructure,
+} from '../../src/services/tailoring';
+import {
+  importJobFromUrl,
+  extractJobPosting,
+  formatJobDescription,
+  looksLikeUrl,
+  looksLikeHtml,
+  ImportedJob,
+} from '../../src/services/jobImport';
+import { extractJobHeader, MIN_JOB_DESCRIPTION_LENGTH } from '../../src/utils/jobDescription';
+
+const TONE_OPTIONS: { id: CoverLetterTone; label: string }[] = [
+  { id: 'direct', label: 'Direct' },
+  { id: 'warm', label: 'Warm' },
+  { id: 'formal', label: 'Formal' },
+  { id: 'enthusiastic', label: 'Enthusiastic' },
+];
+
+const LENGTH_OPTIONS: { id: CoverLetterLength; label: string }[] = [
+  { id: 'short', label: 'Short' },
+  { id: 'standard', label: 'Standard' },
+  { id: 'long', label: 'Long' },
+];
+
+const STRUCTURE_OPTIONS: { id: CoverLetterStructure; label: string }[] = [
+  { id: 'narrative', label: 'Narrative' },
+  { id: 'bullet-highlights', label: 'Highlights' },
+  { id: 'pain-point', label: 'Problem first' },
+];
 
 export default function GenerateScreen() {
   const [jdText, setJdText] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Posting imported from a link (deep link ?url=, pasted URL or shared page HTML)
+  const { url: sharedUrl } = useLocalSearchParams<{ url?: string }>();
+  const [jobLink, setJobLink] = useState('');
+  const [importedJob, setImportedJob] = useState<ImportedJob | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const {
     status,
@@ -35,9 +90,22 @@ export default function GenerateScreen() {
     reset,
   } = useGenerationStore();
 
-  const resumeText = useResumeStore((state) => state.rawText);
-  const parsedData = useResumeStore((state) => state.parsedData);
+  const versions = useResumeStore((state) => state.versions);
+  const activeId = useResumeStore((state) => state.activeId);
+  // Base resume for this run: a version id, 'auto' (best match) or null (the default)
+  const [baseChoice, setBaseChoice] = useState<string | null>(null);
+  const [coverLetterOptions, setCoverLetterOptions] = useState<CoverLetterOptions>(DEFAULT_COVER_LETTER_OPTIONS);
+  const updateCoverLetter = (changes: Partial<CoverLetterOptions>) =>
+    setCoverLetterOptions((current) => ({ ...current, ...changes }));
   const addHistoryItem = useHistoryStore((state) => state.addItem);
+  const customSynonyms = useAuthStore((state) => state.profile?.custom_synonyms);
+  const tailoringSettings = useTailoringSettingsStore(selectTailoringSettings);
+
+  // Built-in packs plus the user's own synonyms
+  const taxonomy = useMemo(
+    () => (customSynonyms?.length ? loadTaxonomy({ customSynonyms }) : getTaxonomy()),
+    [customSynonyms]
+  );
 
   // Goals/Gamification state - select raw values to avoid infinite loops
   const currentStreak = useGoalsStore((state) => state.currentStreak);
@@ -89,13 +157,61 @@ export default function GenerateScreen() {
     return `${remaining} more this week to hit your goal! 📈`;
   }, [currentStreak, weeklyProgress]);
 
+  const usableVersions = useMemo(() => versions.filter((v) => v.rawText.length > 0), [versions]);
+  const autoPick = baseChoice === 'auto' && usableVersions.length > 1;
+  // Falls back to the default when the chosen version was deleted or emptied
+  const baseVersion =
+    usableVersions.find((v) => v.id === (autoPick ? activeId : baseChoice)) ??
+    usableVersions.find((v) => v.id === activeId) ??
+    usableVersions[0];
+  const resumeText = baseVersion?.rawText ?? '';
+  const parsedData = baseVersion?.parsedData ?? null;
+
   const hasResume = resumeText.length > 0;
-  const canGenerate = hasResume && jdText.trim().length >= 50;
+  const canGenerate = hasResume && jdText.trim().length >= MIN_JOB_DESCRIPTION_LENGTH;
+
+  const applyImportedJob = (job: ImportedJob) => {
+    setImportedJob(job);
+    setJdText(formatJobDescription(job));
+    setJobLink(job.url ?? '');
+  };
+
+  const handleImportLink = async (link: string) => {
+    if (!link.trim() || isImporting) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      applyImportedJob(await importJobFromUrl(link));
+    } catch (err) {
+      setImportError((err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Opened from a shared link: resumatch://generate?url=...
+  useEffect(() => {
+    if (sharedUrl) handleImportLink(sharedUrl);
+  }, [sharedUrl]);
 
   const handlePasteFromClipboard = async () => {
     try {
       const text = await Clipboard.getStringAsync();
-      if (text) {
+      if (!text) return;
+
+      setImportError(null);
+      if (looksLikeUrl(text)) {
+        setJobLink(text.trim());
+        await handleImportLink(text);
+      } else if (looksLikeHtml(text)) {
+        // A saved or shared posting page
+        try {
+          applyImportedJob(extractJobPosting(text));
+        } catch (err) {
+          setImportError((err as Error).message);
+        }
+      } else {
+        setImportedJob(null);
         setJdText(text);
       }
     } catch (err) {
@@ -103,25 +219,57 @@ export default function GenerateScreen() {
     }
   };
 
+  // Stop an in-flight run and return to the form
+  const cancelGeneration = useCallback(() => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    abortRef.current = null;
+    reset();
+  }, [reset]);
+
+  // Leaving the screen cancels the run so nothing writes into the store afterwards
+  useFocusEffect(
+    useCallback(() => {
+      return () => cancelGeneration();
+    }, [cancelGeneration])
+  );
+
   const handleGenerate = async () => {
     if (!canGenerate) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     startGeneration();
 
     try {
-      const tailoringResult = await tailorResume(resumeText, jdText, (p) => {
-        setProgress(p);
-      });
+      const tailoringResult = await tailorResume(
+        resumeText,
+        jdText,
+        (p) => {
+          if (!controller.signal.aborted) setProgress(p);
+        },
+        {
+          signal: controller.signal,
+          taxonomy,
+          baseResumes: autoPick ? usableVersions : undefined,
+          coverLetter: coverLetterOptions,
+          settings: tailoringSettings,
+        }
+      );
+
+      if (controller.signal.aborted) return;
+      abortRef.current = null;
 
       setResult(tailoringResult);
 
       // Success haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
-      // Extract job title and company from the job description (first lines usually)
-      const jdLines = jdText.trim().split('\n').filter(line => line.trim());
-      const jobTitle = jdLines[0]?.substring(0, 50) || 'Position';
-      const company = jdLines[1]?.substring(0, 50) || 'Company';
+      // Imported postings carry their own title and company; otherwise use
+      // the first lines of the job description
+      const { jobTitle, company } = importedJob?.title
+        ? { jobTitle: importedJob.title, company: importedJob.company || 'Company' }
+        : extractJobHeader(jdText);
 
       // Save to history
       addHistoryItem({
@@ -130,11 +278,16 @@ export default function GenerateScreen() {
         matchScore: tailoringResult.matchScore,
         result: tailoringResult,
         jobDescription: jdText,
+        jobUrl: importedJob?.url,
       });
 
       // Navigate to result modal
       router.push('/(modals)/result');
     } catch (err) {
+      // Cancelled runs were already reset by cancelGeneration
+      if (controller.signal.aborted || (err as TailoringError).type === 'cancelled') return;
+      abortRef.current = null;
+
       // Error haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       setError((err as Error).message);
@@ -165,6 +318,17 @@ export default function GenerateScreen() {
     const skillCount = parsedData?.skills.length ?? 0;
     const expCount = parsedData?.experiences.length ?? 0;
 
+    if (autoPick) {
+      return (
+        <Card variant="filled" padding={4}>
+          <Text variant="body" color="secondary">
+            Each of your {usableVersions.length} resumes is scored against the job, and the
+            best match is tailored.
+          </Text>
+        </Card>
+      );
+    }
+
     return (
       <Card variant="filled" padding={4}>
         <View style={styles.resumeSummary}>
@@ -190,6 +354,29 @@ export default function GenerateScreen() {
     );
   };
 
+  const renderChipRow = <T extends string>(
+    options: { id: T; label: string }[],
+    value: T,
+    onSelect: (id: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.baseChips}>
+      {options.map((option) => {
+        const selected = option.id === value;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.baseChip, selected && styles.baseChipSelected]}
+            onPress={() => onSelect(option.id)}
+          >
+            <Text variant="bodySmall" color={selected ? colors.neutral[0] : 'primary'}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
   // Render generating state
   if (status === 'generating') {
     return (
@@ -210,6 +397,9 @@ export default function GenerateScreen() {
             {progress?.step === 'cover_letter' && 'Writing cover letter...'}
             {!progress?.step && 'This usually takes 5-8 seconds'}
           </Text>
+          <Button variant="ghost" onPress={cancelGeneration}>
+            Cancel
+          </Button>
         </View>
       </SafeAreaView>
     );
@@ -281,6 +471,27 @@ export default function GenerateScreen() {
 
           <View style={styles.section}>
             <Text variant="label">Your Resume</Text>
+            {usableVersions.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.baseChips}>
+                {[
+                  { id: 'auto', name: 'Best match' },
+                  ...usableVersions,
+                ].map((option) => {
+                  const selected = option.id === 'auto' ? autoPick : !autoPick && option.id === baseVersion?.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.baseChip, selected && styles.baseChipSelected]}
+                      onPress={() => setBaseChoice(option.id)}
+                    >
+                      <Text variant="bodySmall" color={selected ? colors.neutral[0] : 'primary'}>
+                        {option.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
             {renderResumeSummary()}
           </View>
 
@@ -295,22 +506,87 @@ export default function GenerateScreen() {
                 Paste from Clipboard
               </Button>
             </View>
+            <View style={styles.linkRow}>
+              <TextInput
+                style={styles.linkInput}
+                placeholder="Or paste a job posting link"
+                placeholderTextColor={colors.text.tertiary}
+                value={jobLink}
+                onChangeText={setJobLink}
+                onSubmitEditing={() => handleImportLink(jobLink)}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                returnKeyType="go"
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                loading={isImporting}
+                disabled={!jobLink.trim()}
+                onPress={() => handleImportLink(jobLink)}
+              >
+                Import
+              </Button>
+            </View>
+            {importError && (
+              <Text variant="caption" color={colors.error.main}>
+                {importError}
+              </Text>
+            )}
+            {importedJob && (
+              <Text variant="caption" color="secondary">
+                Imported {[importedJob.title, importedJob.company].filter(Boolean).join(' at ')}
+                {importedJob.warnings.length > 0 && ` - ${importedJob.warnings.join('; ')}`}
+              </Text>
+            )}
             <TextInput
               style={styles.textArea}
               multiline
               placeholder="Paste the full job description here..."
               placeholderTextColor={colors.text.tertiary}
               value={jdText}
-              onChangeText={setJdText}
+              onChangeText={(text) => {
+                setJdText(text);
+                if (!text.trim()) setImportedJob(null);
+              }}
               textAlignVertical="top"
             />
-            {jdText.length > 0 && jdText.length < 50 && (
+            {jdText.length > 0 && jdText.trim().length < MIN_JOB_DESCRIPTION_LENGTH && (
               <Text variant="caption" color={colors.warning.main}>
-                Job description should be at least 50 characters
+                Job description should be at least {MIN_JOB_DESCRIPTION_LENGTH} characters
               </Text>
             )}
           </View>
 
+          <View style={styles.section}>
+            <Text variant="label">Cover Letter</Text>
+            <Text variant="caption" color="secondary">Tone</Text>
+            {renderChipRow(TONE_OPTIONS, coverLetterOptions.tone, (tone) => updateCoverLetter({ tone }))}
+            <Text variant="caption" color="secondary">Length</Text>
+            {renderChipRow(LENGTH_OPTIONS, coverLetterOptions.length, (length) => updateCoverLetter({ length }))}
+            <Text variant="caption" color="secondary">Structure</Text>
+            {renderChipRow(STRUCTURE_OPTIONS, coverLetterOptions.structure, (structure) =>
+              updateCoverLetter({ structure })
+            )}
+            <TextInput
+              style={styles.linkInput}
+              placeholder="Hiring manager's name (optional)"
+              placeholderTextColor={colors.text.tertiary}
+              value={coverLetterOptions.hiringManager ?? ''}
+              onChangeText={(hiringManager) => updateCoverLetter({ hiringManager })}
+              autoCapitalize="words"
+            />
+            <TextInput
+              style={styles.linkInput}
+              placeholder="Referred by (optional)"
+              placeholderTextColor={colors.text.tertiary}
+              value={coverLetterOptions.referral ?? ''}
+              onChangeText={(referral) => updateCoverLetter({ referral })}
+              autoCapitalize="words"
+            />
+          </View>
+
           <Button
             fullWidth
             disabled={!canGenerate}
@@ -318,6 +594,15 @@ export default function GenerateScreen() {
           >
             Generate Tailored Resume
           </Button>
+
+          <Button
+            variant="ghost"
+            fullWidth
+            disabled={!hasResume}
+            onPress={() => router.push('/(modals)/batch')}
+          >
+            Tailor Several Jobs at Once
+          </Button>
         </ScrollView>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -364,6 +649,32 @@ const styles = StyleSheet.create({
   stat: {
     alignItems: 'center',
   },
+  baseChips: {
+    gap: spacing[2],
+  },
+  baseChip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background.secondary,
+  },
+  baseChipSelected: {
+    backgroundColor: colors.primary[600],
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  linkInput: {
+    ...textStyles.body,
+    flex: 1,
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    color: colors.text.primary,
+  },
   textArea: {
     ...textStyles.body,
     backgroundColor: colors.background.secondary,
@@ -1,10 +1,48 @@
-import { View, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { View, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, Alert, Switch } from 'react-native';
 import { router } from 'expo-router';
 import { Text, Button, Card } from '../../src/components/ui';
 import { colors, spacing, borderRadius } from '../../src/theme';
-import { useAuthStore, useResumeStore, useHistoryStore } from '../../src/stores';
+import {
+  useAuthStore,
+  useResumeStore,
+  useHistoryStore,
+  useTailoringSettingsStore,
+  selectTailoringSettings,
+} from '../../src/stores';
+import type { KeepLetterPolicy, SemanticMatchingMode } from '../../src/services/tailoring';
 import { formatRelativeDate } from '../../src/utils/formatDate';
 
+const THRESHOLD_OPTIONS = [
+  { id: 40, label: '40%' },
+  { id: 50, label: '50%' },
+  { id: 60, label: '60%' },
+  { id: 70, label: '70%' },
+];
+
+const ATTEMPT_OPTIONS = [
+  { id: 0, label: 'None' },
+  { id: 1, label: '1' },
+  { id: 2, label: '2' },
+  { id: 3, label: '3' },
+];
+
+const TIME_BUDGET_OPTIONS = [
+  { id: 15000, label: '15s' },
+  { id: 30000, label: '30s' },
+  { id: 60000, label: '60s' },
+];
+
+const KEEP_OPTIONS: { id: KeepLetterPolicy; label: string }[] = [
+  { id: 'best', label: 'Best score' },
+  { id: 'latest', label: 'Latest' },
+];
+
+const SEMANTIC_OPTIONS: { id: SemanticMatchingMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'local', label: 'On-device' },
+  { id: 'remote', label: 'OpenAI' },
+];
+
 export default function ProfileScreen() {
   const setOnboardingComplete = useAuthStore((state) => state.setOnboardingComplete);
 
@@ -12,10 +50,19 @@ export default function ProfileScreen() {
   const parsedData = useResumeStore((state) => state.parsedData);
   const lastUpdated = useResumeStore((state) => state.lastUpdated);
   const clearResume = useResumeStore((state) => state.clearResume);
+  const versionCount = useResumeStore((state) => state.versions.length);
+  const activeName = useResumeStore(
+    (state) => state.versions.find((v) => v.id === state.activeId)?.name
+  );
 
   const historyCount = useHistoryStore((state) => state.items.length);
   const clearHistory = useHistoryStore((state) => state.clearHistory);
 
+  const customSynonymCount = useAuthStore((state) => state.profile?.custom_synonyms?.length ?? 0);
+
+  const tailoringSettings = useTailoringSettingsStore(selectTailoringSettings);
+  const updateTailoringSettings = useTailoringSettingsStore((state) => state.updateSettings);
+
   const hasResume = resumeText.length > 0;
 
   const handleEditResume = () => {
@@ -55,6 +102,29 @@ export default function ProfileScreen() {
     );
   };
 
+  const renderChipRow = <T extends string | number>(
+    options: { id: T; label: string }[],
+    value: T,
+    onSelect: (id: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = option.id === value;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, selected && styles.chipSelected]}
+            onPress={() => onSelect(option.id)}
+          >
+            <Text variant="bodySmall" color={selected ? colors.neutral[0] : 'primary'}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scroll}>
@@ -68,6 +138,9 @@ export default function ProfileScreen() {
           <Card variant="outlined" padding={4}>
             {hasResume ? (
               <View style={styles.resumeContent}>
+                {activeName && (
+                  <Text variant="h3" align="center">{activeName}</Text>
+                )}
                 <View style={styles.resumeStats}>
                   <View style={styles.stat}>
                     <Text variant="h2" color={colors.primary[600]}>
@@ -93,9 +166,14 @@ export default function ProfileScreen() {
                     Last updated {formatRelativeDate(lastUpdated)}
                   </Text>
                 )}
-                <Button variant="outline" size="sm" onPress={handleEditResume}>
-                  Edit Resume
-                </Button>
+                <View style={styles.resumeActions}>
+                  <Button variant="outline" size="sm" onPress={handleEditResume}>
+                    Edit Resume
+                  </Button>
+                  <Button variant="ghost" size="sm" onPress={() => router.push('/(modals)/resumes')}>
+                    {versionCount > 1 ? `All Versions (${versionCount})` : 'Add Version'}
+                  </Button>
+                </View>
               </View>
             ) : (
               <View style={styles.noResumeContent}>
@@ -128,6 +206,20 @@ export default function ProfileScreen() {
               <Text variant="body" color={colors.error.main}>Clear</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.settingsItem}
+              activeOpacity={0.7}
+              onPress={() => router.push('/(modals)/custom-synonyms')}
+            >
+              <View>
+                <Text variant="body">Custom Synonyms</Text>
+                <Text variant="caption" color="tertiary">
+                  {customSynonymCount} term{customSynonymCount !== 1 ? 's' : ''} added to matching
+                </Text>
+              </View>
+              <Text variant="body" color={colors.primary[600]}>Edit</Text>
+            </TouchableOpacity>
+
             <View style={[styles.settingsItem, styles.settingsItemLast]}>
               <Text variant="body">App Version</Text>
               <Text variant="body" color="tertiary">2.0.0</Text>
@@ -135,6 +227,62 @@ export default function ProfileScreen() {
           </Card>
         </View>
 
+        {/* Matching */}
+        <View style={styles.section}>
+          <Text variant="label" color="secondary">Matching</Text>
+          <Card variant="outlined" padding={4} style={styles.preferencesCard}>
+            <View>
+              <Text variant="body">Semantic matching</Text>
+              <Text variant="caption" color="tertiary">
+                Also credit experience that's phrased differently from the job post.
+                OpenAI sends your resume to the embeddings API and is billed per run.
+              </Text>
+            </View>
+            {renderChipRow(SEMANTIC_OPTIONS, tailoringSettings.semanticMatching, (semanticMatching) =>
+              updateTailoringSettings({ semanticMatching })
+            )}
+          </Card>
+        </View>
+
+        {/* Cover Letter Checks */}
+        <View style={styles.section}>
+          <Text variant="label" color="secondary">Cover Letter Checks</Text>
+          <Card variant="outlined" padding={4} style={styles.preferencesCard}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabel}>
+                <Text variant="body">AI detection</Text>
+                <Text variant="caption" color="tertiary">
+                  Score each cover letter and rewrite it if it reads as AI-written
+                </Text>
+              </View>
+              <Switch
+                value={tailoringSettings.aiDetection}
+                onValueChange={(aiDetection) => updateTailoringSettings({ aiDetection })}
+                trackColor={{ true: colors.primary[600], false: colors.border.light }}
+              />
+            </View>
+
+            {tailoringSettings.aiDetection && (
+              <>
+                <Text variant="caption" color="secondary">Rewrite when the AI score is above</Text>
+                {renderChipRow(THRESHOLD_OPTIONS, tailoringSettings.aiScoreThreshold, (aiScoreThreshold) =>
+                  updateTailoringSettings({ aiScoreThreshold })
+                )}
+                <Text variant="caption" color="secondary">Rewrite attempts</Text>
+                {renderChipRow(ATTEMPT_OPTIONS, tailoringSettings.maxHumanizeAttempts, (maxHumanizeAttempts) =>
+                  updateTailoringSettings({ maxHumanizeAttempts })
+                )}
+                <Text variant="caption" color="secondary">Stop rewriting after</Text>
+                {renderChipRow(TIME_BUDGET_OPTIONS, tailoringSettings.timeBudgetMs, (timeBudgetMs) =>
+                  updateTailoringSettings({ timeBudgetMs })
+                )}
+                <Text variant="caption" color="secondary">Keep</Text>
+                {renderChipRow(KEEP_OPTIONS, tailoringSettings.keep, (keep) => updateTailoringSettings({ keep }))}
+              </>
+            )}
+          </Card>
+        </View>
+
         {/* Danger Zone */}
         <View style={styles.section}>
           <Text variant="label" color="secondary">Danger Zone</Text>
@@ -180,6 +328,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-around',
   },
+  resumeActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: spacing[2],
+  },
   stat: {
     alignItems: 'center',
   },
@@ -199,6 +352,32 @@ const styles = StyleSheet.create({
   settingsItemLast: {
     borderBottomWidth: 0,
   },
+  preferencesCard: {
+    gap: spacing[3],
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing[3],
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background.secondary,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary[600],
+  },
   dangerCard: {
     gap: spacing[2],
     borderColor: colors.error.main + '40',
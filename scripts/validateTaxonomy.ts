@@ -0,0 +1,60 @@
+/**
+ * Taxonomy Validation CLI
+ * Execute with: npm run validate:taxonomy [-- extra-pack.json ...]
+ *
+ * Validates the built-in packs, plus any pack files passed as arguments.
+ * Exits 1 on errors (cycles, bad format); warnings are printed only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BUILT_IN_PACKS,
+  hasTaxonomyErrors,
+  loadTaxonomy,
+  validateTaxonomy,
+  type TaxonomyIssue,
+  type TaxonomyPack,
+} from '../src/services/tailoring/taxonomy';
+
+function readPack(file: string): TaxonomyPack {
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  } catch (error) {
+    console.error(`Could not read ${file}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function printIssues(label: string, issues: TaxonomyIssue[]) {
+  if (issues.length === 0) return;
+  console.log(`\n${label} (${issues.length})`);
+  for (const issue of issues) {
+    console.log(`  [${issue.pack ?? '-'}] ${issue.type}: ${issue.message}`);
+  }
+}
+
+function main() {
+  const packs = [...BUILT_IN_PACKS, ...process.argv.slice(2).map(readPack)];
+
+  console.log('Packs:');
+  for (const pack of packs) {
+    const groups = pack.synonyms?.reduce((sum, c) => sum + Object.keys(c.synonyms ?? {}).length, 0) ?? 0;
+    const domains = Object.keys(pack.domains ?? {}).length;
+    console.log(`  ${pack.id}@${pack.version} - ${groups} synonym groups, ${domains} domains`);
+  }
+
+  const issues = validateTaxonomy(packs);
+  printIssues('Errors', issues.filter(i => i.severity === 'error'));
+  printIssues('Warnings', issues.filter(i => i.severity === 'warning'));
+
+  if (hasTaxonomyErrors(issues)) {
+    console.log('\nTaxonomy is INVALID');
+    process.exit(1);
+  }
+
+  const taxonomy = loadTaxonomy({ packs });
+  console.log(`\nTaxonomy ${taxonomy.version} OK: ${taxonomy.synonyms.length} synonym groups, ${taxonomy.domains.length} domains`);
+}
+
+main();
@@ -0,0 +1,414 @@
+/**
+ * AI Detection Tests
+ * The on-device heuristic, fallback from a failing remote detector, the
+ * generic HTTP backend (against a stubbed fetch), unmeasured results, and
+ * highlighting and rewriting just the flagged sentences, and the
+ * settings-driven humanize loop (mock LLM)
+ */
+
+import {
+  AIDetector,
+  configureAIDetection,
+  createHttpDetector,
+  createZeroGPTDetector,
+  detectAIContent,
+  getAIDetectionConfig,
+  measureWriting,
+  registerAIDetector,
+} from '../services/aiDetection';
+import { AIError } from '../services/ai/types';
+import { configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { createMockProvider } from '../services/ai/mockProvider';
+import {
+  getFlaggedSentences,
+  rewriteFlaggedSentences,
+  rewriteSentences,
+  segmentCoverLetter,
+  toDetectionInfo,
+} from '../services/tailoring/revision';
+import { setJDCacheStorage } from '../services/tailoring/jdCache';
+import { resolveTailoringSettings, tailorResume } from '../services/tailoring/orchestrator';
+import { TailoringResult, TailoringSettings } from '../services/tailoring/types';
+import { installMockLLM } from './fixtures/mockLLMResponses';
+import { getResumeById } from './fixtures/testResumes';
+import { getJDById } from './fixtures/testJobDescriptions';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+const STOCK_LETTER = `Dear Hiring Manager,
+
+I am writing to express my keen interest in the Senior Engineer role at Acme. With a proven track record of delivering robust, scalable solutions, I am confident that I would be a valuable asset to your dynamic team. I am passionate about leveraging cutting-edge technologies to drive innovation. Furthermore, my experience aligns with your needs and I am excited to contribute to your mission. Additionally, I have honed my skills in fast-paced environments. I look forward to the opportunity to discuss how I can contribute.
+
+Sincerely,
+Jane`;
+
+const PLAIN_LETTER = `Hi,
+
+I saw the backend role on your site last week. Short version: I've spent four years keeping payment systems up at Initech, mostly in Go. Last spring our settlement job kept timing out at month end, so I rewrote the batching logic and it now finishes in about 40 minutes instead of six hours. Not glamorous. But it meant finance stopped paging us at 2am. I'd like to do more of that kind of work, and your team seems to care about it.
+
+Thanks,
+Sam`;
+
+function createFailingDetector(error: Error): AIDetector {
+  return {
+    id: 'zerogpt',
+    name: 'ZeroGPT',
+    remote: true,
+    async detect() {
+      throw error;
+    },
+  };
+}
+
+/**
+ * Returns the given scores in order (the last one repeats) and counts calls
+ */
+function createScriptedDetector(scores: number[]): AIDetector & { calls: number } {
+  return {
+    id: 'zerogpt',
+    name: 'ZeroGPT',
+    remote: true,
+    calls: 0,
+    async detect() {
+      const score = scores[Math.min(this.calls++, scores.length - 1)];
+      return { score, sentences: [] };
+    },
+  };
+}
+
+interface StubbedFetch {
+  calls: Array<{ url: string; init: RequestInit }>;
+  restore(): void;
+}
+
+function stubFetch(status: number, body: unknown): StubbedFetch {
+  const original = globalThis.fetch;
+  const calls: StubbedFetch['calls'] = [];
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? 'OK' : 'Error',
+      json: async () => body,
+    };
+  }) as unknown as typeof fetch;
+  return { calls, restore: () => { globalThis.fetch = original; } };
+}
+
+/**
+ * Detection config and the zerogpt slot are reset after every case. Backend
+ * failures are recorded instead of logged; a case drains the ones it expects
+ * with takeErrors(), and any left over fail the case.
+ */
+function runDetectionCase(
+  name: string,
+  body: (check: Check, takeErrors: () => string[]) => Promise<void>
+): Promise<CaseResult> {
+  return runCase(name, async (check) => {
+    const config = getAIDetectionConfig();
+    const errors: string[] = [];
+    configureAIDetection({
+      onError: (message, error) => errors.push(`${message} ${error instanceof Error ? error.message : String(error)}`),
+    });
+
+    try {
+      await body(check, () => errors.splice(0));
+      check(errors.length === 0, `Unexpected detection errors: ${errors.join(' | ')}`);
+    } finally {
+      configureAIDetection(config);
+      registerAIDetector('zerogpt', null);
+    }
+  });
+}
+
+function letterResult(coverLetter: string, detection: TailoringResult['aiDetection']): TailoringResult {
+  return {
+    resume: { skills: [], experiences: [], education: [], rawText: '' },
+    coverLetter,
+    coverLetterStrategy: 'natural',
+    matchScore: 80,
+    matchedItems: [],
+    missingItems: [],
+    processingTime: 0,
+    aiDetection: detection,
+  };
+}
+
+/**
+ * Tailor the fixture resume against scripted detector scores
+ */
+async function tailorWithScores(scores: number[], settings: Partial<TailoringSettings>) {
+  const detector = createScriptedDetector(scores);
+  registerAIDetector('zerogpt', detector);
+  configureAIDetection({ detector: 'zerogpt', fallback: null });
+
+  const result = await tailorResume(
+    getResumeById('swe-mid')!.text,
+    getJDById('senior-react')!.text,
+    undefined,
+    { settings }
+  );
+  return { result, detector };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<Error | null> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+}
+
+/**
+ * Run every AI detection check
+ */
+export async function runAIDetectionTests(): Promise<CaseResult[]> {
+  // No AsyncStorage under Node
+  setJDCacheStorage(null);
+
+  return [
+    await runDetectionCase('Heuristic detector', async (check) => {
+      const stock = await detectAIContent(STOCK_LETTER, undefined, { detector: 'heuristic' });
+      const plain = await detectAIContent(PLAIN_LETTER, undefined, { detector: 'heuristic' });
+
+      check(stock.measured && stock.detector === 'heuristic', 'Heuristic should report a real measurement');
+      check(stock.score >= 60, `Stock-phrase letter should score high: ${stock.score}`);
+      check(plain.score < 30, `Plain letter should score low: ${plain.score}`);
+      check(plain.isHumanPassing && !stock.isHumanPassing, 'Pass/fail should follow the score');
+
+      const flagged = stock.sentences.filter((s) => s.isAI).map((s) => s.text);
+      check(flagged.some((s) => s.startsWith('I am passionate about')), 'Sentences with stock phrases should be flagged');
+      check(!plain.sentences.some((s) => s.isAI), 'Plain letter should have no flagged sentences');
+
+      const signals = measureWriting(PLAIN_LETTER);
+      check(signals.sentences === 5, `Greeting, sign-off and fragments aren't sentences: got ${signals.sentences}`);
+      check(signals.lengthVariation > 0.4, `Plain letter varies sentence length: ${signals.lengthVariation.toFixed(2)}`);
+      check(signals.stockPhraseRate === 0, `Plain letter has no stock phrases: ${signals.stockPhrases.join(', ')}`);
+    }),
+
+    await runDetectionCase('Unmeasured results', async (check, takeErrors) => {
+      const short = await detectAIContent('Thanks for reading.', undefined, { detector: 'heuristic' });
+      check(!short.measured, 'Short text should be unmeasured');
+      check(!short.isHumanPassing, 'Unmeasured text should not pass');
+      check(short.feedback === 'Text too short to analyze', `Feedback: ${short.feedback}`);
+
+      const twoSentences = 'I rebuilt the settlement pipeline at Initech over one long winter. It now finishes in forty minutes instead of six hours every month.';
+      const few = await detectAIContent(twoSentences, undefined, { detector: 'heuristic' });
+      check(!few.measured, 'Too few sentences should be unmeasured, not scored');
+      const errors = takeErrors();
+      check(errors[0] === 'On-device check detection failed: Need at least 3 sentences to score', `Errors: ${errors.join(' | ')}`);
+    }),
+
+    await runDetectionCase('Remote fallback', async (check, takeErrors) => {
+      registerAIDetector('zerogpt', createFailingDetector(new AIError('api_error', 'ZeroGPT returned 500')));
+      configureAIDetection({ detector: 'zerogpt', fallback: 'heuristic' });
+
+      const fallback = await detectAIContent(STOCK_LETTER);
+      check(fallback.measured, 'Heuristic fallback should still measure');
+      check(fallback.detector === 'heuristic', `Detector should record the fallback: ${fallback.detector}`);
+      check(fallback.feedback.includes('ZeroGPT was unavailable'), `Feedback should say so: ${fallback.feedback}`);
+      const errors = takeErrors();
+      check(errors.length === 1 && errors[0] === 'ZeroGPT detection failed: ZeroGPT returned 500', `The failure should still be reported: ${errors.join(' | ')}`);
+
+      configureAIDetection({ fallback: null });
+      const none = await detectAIContent(STOCK_LETTER);
+      check(!none.measured && none.score === 0, 'Without a fallback the letter should be unmeasured');
+      check(none.detector === 'zerogpt', `Detector should be the one that failed: ${none.detector}`);
+      check(none.feedback === 'Detection unavailable', `Feedback: ${none.feedback}`);
+
+      registerAIDetector('zerogpt', createFailingDetector(new AIError('timeout', 'AI detection timed out')));
+      const timedOut = await detectAIContent(STOCK_LETTER);
+      check(timedOut.feedback === 'Detection timed out', `Feedback: ${timedOut.feedback}`);
+      check(takeErrors().length === 2, 'Each unmeasured attempt should report its failure');
+
+      const controller = new AbortController();
+      controller.abort();
+      const cancelled = await rejection(detectAIContent(STOCK_LETTER, controller.signal));
+      check(cancelled instanceof AIError && cancelled.type === 'cancelled', 'Cancellation should throw, not fall back');
+    }),
+
+    await runDetectionCase('HTTP detector', async (check) => {
+      const detector = createHttpDetector({
+        url: 'https://detector.example.com/v1/score',
+        apiKey: 'secret',
+        textField: 'content',
+        scorePath: 'result.ai_probability',
+        scoreScale: 'fraction',
+        sentencesPath: 'result.sentences',
+      });
+      check(detector.name === 'detector.example.com', `Name should be the host: ${detector.name}`);
+
+      const ok = stubFetch(200, { result: { ai_probability: 0.42, sentences: [{ text: 'One.', is_ai: true }] } });
+      try {
+        const score = await detector.detect(PLAIN_LETTER);
+        const request = ok.calls[0];
+        const headers = request?.init.headers as Record<string, string>;
+        check(score.score === 42, `Fraction should scale to percent: ${score.score}`);
+        check(score.sentences[0]?.isAI === true, 'Sentences should be read from sentencesPath');
+        check(JSON.parse(String(request?.init.body)).content === PLAIN_LETTER, 'Text should go in textField');
+        check(headers?.Authorization === 'Bearer secret', `Auth header: ${headers?.Authorization}`);
+      } finally {
+        ok.restore();
+      }
+
+      const missing = stubFetch(200, { result: {} });
+      try {
+        const error = await rejection(detector.detect(PLAIN_LETTER));
+        check(error instanceof AIError && error.type === 'invalid_response', 'A missing score should be invalid_response');
+      } finally {
+        missing.restore();
+      }
+
+      const failing = stubFetch(503, {});
+      try {
+        const error = await rejection(detector.detect(PLAIN_LETTER));
+        check(error instanceof AIError && error.type === 'api_error', 'An HTTP error should be api_error');
+      } finally {
+        failing.restore();
+      }
+    }),
+
+    await runDetectionCase('ZeroGPT key from configuration', async (check) => {
+      const fetchStub = stubFetch(200, { data: { fakePercentage: 71.6, textWords: 90 } });
+      try {
+        const error = await rejection(createZeroGPTDetector('').detect(PLAIN_LETTER));
+        check(error instanceof AIError && error.message.includes('not configured'), 'Missing key should fail fast');
+        check(fetchStub.calls.length === 0, 'Nothing should be sent without a key');
+
+        configureAIDetection({ detector: 'zerogpt', zeroGPTApiKey: 'configured-key', fallback: null });
+        const result = await detectAIContent(PLAIN_LETTER);
+        const headers = fetchStub.calls[0]?.init.headers as Record<string, string>;
+        check(headers?.ApiKey === 'configured-key', 'Key should come from the detection config');
+        check(result.measured && result.detector === 'zerogpt', 'ZeroGPT score should be a measurement');
+        check(result.score === 72, `Score should round: ${result.score}`);
+      } finally {
+        fetchStub.restore();
+      }
+    }),
+
+    await runDetectionCase('Flagged sentence highlighting', async (check) => {
+      const detection = toDetectionInfo(await detectAIContent(STOCK_LETTER, undefined, { detector: 'heuristic' }));
+      const segments = segmentCoverLetter(STOCK_LETTER, detection.sentences);
+      const flagged = getFlaggedSentences(STOCK_LETTER, detection);
+
+      check(detection.sentences.length > 0, 'Sentence verdicts should be kept on the result');
+      check(segments.map((seg) => seg.text).join('') === STOCK_LETTER, 'Segments should rebuild the letter exactly');
+      check(
+        JSON.stringify(segments.filter((seg) => seg.flagged).map((seg) => seg.text)) === JSON.stringify(flagged),
+        'Highlighted segments should be the flagged sentences, in order'
+      );
+      check(!segments.some((seg) => seg.flagged && seg.text.startsWith('Dear')), 'Greeting should not be highlighted');
+
+      const edited = STOCK_LETTER.replace(flagged[0], 'I build payment systems.');
+      check(!getFlaggedSentences(edited, detection).includes(flagged[0]), 'Sentences edited away should drop out');
+      check(segmentCoverLetter(PLAIN_LETTER, []).length === 1, 'No verdicts should be one plain segment');
+    }),
+
+    await runDetectionCase('Targeted rewrite', async (check) => {
+      const aiConfig = getAIConfig();
+      try {
+        const mock = installMockLLM();
+        configureAIDetection({ detector: 'heuristic' });
+        const detection = toDetectionInfo(await detectAIContent(STOCK_LETTER));
+        const flagged = getFlaggedSentences(STOCK_LETTER, detection);
+        const before = letterResult(STOCK_LETTER, detection);
+
+        const { result, rewrites } = await rewriteFlaggedSentences(before);
+        const prompt = mock.calls[mock.calls.length - 1]?.prompt ?? '';
+        const promptSentences = prompt.split('FLAGGED SENTENCES:')[1]?.split('RULES:')[0] ?? '';
+        check(promptSentences.trim().split('\n').length === flagged.length, 'Only flagged sentences should be sent for rewriting');
+        check(prompt.includes(STOCK_LETTER), 'The whole letter should be given as context');
+        check(rewrites.length > 0, 'Some flagged sentences should be rewritten');
+        check(result.coverLetter.startsWith('Dear Hiring Manager,\n\n'), 'Unflagged text should be untouched');
+        check(result.coverLetter.endsWith('Sincerely,\nJane'), 'Sign-off should be untouched');
+        check(
+          rewrites.every((r) => !result.coverLetter.includes(r.original) && result.coverLetter.includes(r.rewrite)),
+          'Each rewrite should replace its sentence'
+        );
+        check(
+          (result.aiDetection?.score ?? 100) < detection.score,
+          `Re-score should drop: ${detection.score} -> ${result.aiDetection?.score}`
+        );
+
+        const history = result.coverLetterIterations ?? [];
+        check(
+          history.map((i) => i.kind).join(',') === 'generated,sentence_rewrite',
+          `History should keep the original: ${history.map((i) => i.kind).join(',')}`
+        );
+        check(history[0]?.coverLetter === STOCK_LETTER && history[0]?.aiDetection.score === detection.score, 'First entry is the original letter and score');
+        check(history[1]?.coverLetter === result.coverLetter && history[1]?.rewrittenSentences === rewrites.length, 'Last entry is the current letter');
+        check(before.coverLetter === STOCK_LETTER && !before.coverLetterIterations, 'The input result should not be mutated');
+
+        // A rewrite that invents a number is dropped
+        registerProvider(createMockProvider([
+          { stage: 'cover_letter', response: JSON.stringify({ rewrites: [{ index: 1, text: 'I cut cloud costs 40% at Acme.' }] }) },
+        ]));
+        const guarded = await rewriteSentences(STOCK_LETTER, [flagged[0]]);
+        check(guarded.rewrites.length === 0 && guarded.letter === STOCK_LETTER, 'New numbers should not be accepted');
+      } finally {
+        configureAI(aiConfig);
+      }
+    }),
+
+    await runDetectionCase('Humanize loop settings', async (check) => {
+      const resolved = resolveTailoringSettings({ aiScoreThreshold: 140, maxHumanizeAttempts: 9, timeBudgetMs: -5 });
+      check(resolved.aiScoreThreshold === 100, `Threshold should clamp to 100, got ${resolved.aiScoreThreshold}`);
+      check(resolved.maxHumanizeAttempts === 5, `Attempts should clamp to 5, got ${resolved.maxHumanizeAttempts}`);
+      check(resolved.timeBudgetMs === 0, `Time budget should clamp to 0, got ${resolved.timeBudgetMs}`);
+      check(resolved.aiDetection && resolved.keep === 'latest', 'Unset fields should take the defaults');
+
+      const aiConfig = getAIConfig();
+      try {
+        installMockLLM();
+        const scores = (result: TailoringResult) =>
+          (result.coverLetterIterations ?? []).map((i) => i.aiDetection.score).join(',');
+
+        // Keeps retrying until the attempts run out, recording every score
+        const latest = await tailorWithScores([90, 70, 80, 75], { aiScoreThreshold: 50, maxHumanizeAttempts: 3, keep: 'latest' });
+        check(latest.detector.calls === 4, `Expected 4 detector calls, got ${latest.detector.calls}`);
+        check(scores(latest.result) === '90,70,80,75', `Every attempt should be scored: ${scores(latest.result)}`);
+        check(
+          latest.result.humanization?.attempts === 3 && latest.result.humanization.stopReason === 'max_attempts',
+          `Report: ${JSON.stringify(latest.result.humanization)}`
+        );
+        check(latest.result.aiDetection?.score === 75 && latest.result.humanization?.keptIteration === 3, 'Keep latest returns the last version');
+        check(latest.result.coverLetterStrategy === 'humanized', `Kept strategy: ${latest.result.coverLetterStrategy}`);
+        check(latest.result.aiDetection?.feedback.startsWith('Some AI patterns') ?? false, 'A letter still over the threshold should say so');
+
+        const best = await tailorWithScores([90, 70, 80, 75], { aiScoreThreshold: 50, maxHumanizeAttempts: 3, keep: 'best' });
+        const kept = best.result.coverLetterIterations?.[1];
+        check(best.result.humanization?.keptIteration === 1, `Keep best should pick the 70, got #${best.result.humanization?.keptIteration}`);
+        check(best.result.coverLetter === kept?.coverLetter && best.result.aiDetection?.score === 70, 'The kept version is the returned letter');
+
+        // Stops as soon as a version passes
+        const passed = await tailorWithScores([90, 40, 20], { aiScoreThreshold: 50, maxHumanizeAttempts: 3 });
+        check(passed.result.humanization?.stopReason === 'passed' && passed.result.humanization.attempts === 1, 'Should stop once under the threshold');
+        check(passed.result.aiDetection?.feedback !== 'Some AI patterns detected. Consider minor edits.', 'A passing letter keeps its feedback');
+
+        const outOfTime = await tailorWithScores([90], { aiScoreThreshold: 50, maxHumanizeAttempts: 3, timeBudgetMs: 0 });
+        check(
+          outOfTime.result.humanization?.stopReason === 'time_budget' && outOfTime.result.humanization.attempts === 0,
+          `No time budget means no retries: ${outOfTime.result.humanization?.stopReason}`
+        );
+
+        const disabled = await tailorWithScores([90], { aiDetection: false });
+        check(disabled.detector.calls === 0, 'Disabled detection should not call the detector');
+        check(
+          disabled.result.humanization?.stopReason === 'disabled' && disabled.result.aiDetection?.measured === false,
+          'Disabled detection leaves the letter unmeasured'
+        );
+        check(disabled.result.coverLetterIterations?.length === 1, 'The generated letter is still recorded');
+      } finally {
+        configureAI(aiConfig);
+      }
+    }),
+  ];
+}
+
+/**
+ * Format AI detection results for the log
+ */
+export function formatAIDetectionResults(results: CaseResult[]): string {
+  return formatCaseResults('AI detection', results);
+}
@@ -6,13 +6,20 @@
 import { TailoringResult, ResumeData, JDRequirements, MatchResult, TailoredResume } from '../services/tailoring/types';
 import { parseResume } from '../services/tailoring/parser';
 import { analyzeJobDescription } from '../services/tailoring/jdAnalyzer';
-import { matchResume, calculateMatchScore } from '../services/tailoring/matcher';
+import { matchResume, calculateMatchScore, explainMatchScore } from '../services/tailoring/matcher';
 import { formatTailoredResume } from '../services/tailoring/formatter';
-import { generateCoverLetter, generateQuickCoverLetter } from '../services/tailoring/coverLetter';
+import {
+  generateCoverLetter,
+  generateQuickCoverLetter,
+  COVER_LETTER_LENGTHS,
+  DEFAULT_COVER_LETTER_OPTIONS,
+} from '../services/tailoring/coverLetter';
 import { detectAIContent, AIDetectionResult } from '../services/aiDetection';
 import { TestResume, testResumes } from './fixtures/testResumes';
 import { TestJobDescription, testJobDescriptions, isExpectedMatch, isExpectedMismatch } from './fixtures/testJobDescriptions';
 import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { configureAI, getAIConfig } from '../services/ai/client';
+import { installMockLLM } from './fixtures/mockLLMResponses';
 
 /**
  * Quality thresholds for tests
@@ -30,9 +37,7 @@ export const THRESHOLDS = {
   MIN_JD_REQUIREMENTS: 5,
   MIN_JD_KEYWORDS: 3,
 
-  // Cover letter quality
-  COVER_LETTER_MIN_WORDS: 150,
-  COVER_LETTER_MAX_WORDS: 350,
+  // Cover letter quality (word range comes from the requested length)
   AI_DETECTION_MAX_SCORE: 40, // Must be < 40% AI detected
 
   // Time limits
@@ -127,6 +132,8 @@ export async function runSingleTest(
   let parsedJD: JDRequirements | undefined;
   let result: TailoringResult | undefined;
   let aiDetection: AIDetectionResult | undefined;
+  // Restored afterwards so later suites don't run against the mock
+  const aiConfig = getAIConfig();
 
   try {
     // Step 1: Parse resume
@@ -140,20 +147,21 @@ export async function runSingleTest(
       failures.push(`Resume parsing: Only ${parsedResume.experiences.length} experiences extracted (expected ${THRESHOLDS.MIN_EXPERIENCES_EXTRACTED}+)`);
     }
 
-    // Step 2: Parse JD - use pre-parsed data in offline mode or as fallback
-    if (useOfflineMode && preParsedJDs[jd.id]) {
-      parsedJD = preParsedJDs[jd.id];
-    } else {
-      try {
-        parsedJD = await analyzeJobDescription(jd.text);
-      } catch (error) {
-        // Fallback to pre-parsed data if API fails (rate limit, etc.)
-        if (preParsedJDs[jd.id]) {
-          parsedJD = preParsedJDs[jd.id];
-          warnings.push(`JD analysis fell back to pre-parsed data: ${(error as Error).message}`);
-        } else {
-          throw error;
-        }
+    // Offline mode runs the same LLM code paths against the fixture-backed mock provider
+    if (useOfflineMode) {
+      installMockLLM();
+    }
+
+    // Step 2: Parse JD - pre-parsed data as fallback
+    try {
+      parsedJD = await analyzeJobDescription(jd.text);
+    } catch (error) {
+      // Fallback to pre-parsed data if API fails (rate limit, etc.)
+      if (preParsedJDs[jd.id]) {
+        parsedJD = preParsedJDs[jd.id];
+        warnings.push(`JD analysis fell back to pre-parsed data: ${(error as Error).message}`);
+      } else {
+        throw error;
       }
     }
 
@@ -167,8 +175,15 @@ export async function runSingleTest(
     }
 
     // Step 3: Match
-    const { matched, missing, hasDomainMismatch } = matchResume(parsedResume, parsedJD);
-    const matchScore = calculateMatchScore(matched, missing, hasDomainMismatch);
+    const { matched, missing, hasDomainMismatch, seniority } = matchResume(parsedResume, parsedJD);
+    const matchScore = calculateMatchScore(matched, missing, hasDomainMismatch, seniority);
+
+    // The breakdown shown in the app must add up to the same score
+    const breakdown = explainMatchScore(matched, missing, hasDomainMismatch, seniority);
+    const earnedPoints = breakdown.requirements.reduce((sum, r) => sum + r.points, 0);
+    if (breakdown.finalScore !== matchScore || (breakdown.requirements.length > 0 && Math.abs(earnedPoints - breakdown.rawScore) > 1)) {
+      failures.push(`Score breakdown inconsistent: ${earnedPoints.toFixed(1)} points, raw ${breakdown.rawScore}%, final ${breakdown.finalScore}% vs ${matchScore}%`);
+    }
 
     // Check match score thresholds
     if (expectedMatch) {
@@ -192,33 +207,28 @@ export async function runSingleTest(
     let tailoredResume;
     let coverLetter: string;
 
-    if (useOfflineMode) {
-      // Use quick versions that don't require API
+    try {
+      const [resume, letter] = await Promise.all([
+        formatTailoredResume(parsedResume, matched, parsedJD),
+        generateCoverLetter(matched, parsedJD, parsedResume, false, {}, DEFAULT_COVER_LETTER_OPTIONS),
+      ]);
+      tailoredResume = resume.resume;
+      coverLetter = letter;
+    } catch (error) {
+      // Fallback to quick versions if API fails
       tailoredResume = createQuickTailoredResume(parsedResume, matched);
-      coverLetter = generateQuickCoverLetter(matched, parsedJD, parsedResume);
-    } else {
-      try {
-        const [resume, letter] = await Promise.all([
-          formatTailoredResume(parsedResume, matched, parsedJD),
-          generateCoverLetter(matched, parsedJD, parsedResume, false),
-        ]);
-        tailoredResume = resume;
-        coverLetter = letter;
-      } catch (error) {
-        // Fallback to quick versions if API fails
-        tailoredResume = createQuickTailoredResume(parsedResume, matched);
-        coverLetter = generateQuickCoverLetter(matched, parsedJD, parsedResume);
-        warnings.push(`Resume/cover letter fell back to quick mode: ${(error as Error).message}`);
-      }
+      coverLetter = generateQuickCoverLetter(matched, parsedJD, parsedResume, DEFAULT_COVER_LETTER_OPTIONS);
+      warnings.push(`Resume/cover letter fell back to quick mode: ${(error as Error).message}`);
     }
 
     // Check cover letter length
     const coverLetterWords = coverLetter.split(/\s+/).length;
-    if (coverLetterWords < THRESHOLDS.COVER_LETTER_MIN_WORDS) {
-      failures.push(`Cover letter too short: ${coverLetterWords} words (expected ${THRESHOLDS.COVER_LETTER_MIN_WORDS}+)`);
+    const wordRange = COVER_LETTER_LENGTHS[DEFAULT_COVER_LETTER_OPTIONS.length];
+    if (coverLetterWords < wordRange.min) {
+      failures.push(`Cover letter too short: ${coverLetterWords} words (expected ${wordRange.min}+)`);
     }
-    if (coverLetterWords > THRESHOLDS.COVER_LETTER_MAX_WORDS) {
-      failures.push(`Cover letter too long: ${coverLetterWords} words (expected < ${THRESHOLDS.COVER_LETTER_MAX_WORDS})`);
+    if (coverLetterWords > wordRange.max) {
+      failures.push(`Cover letter too long: ${coverLetterWords} words (expected < ${wordRange.max})`);
     }
 
     // Check cover letter mentions company and title
@@ -249,7 +259,9 @@ export async function runSingleTest(
         aiDetection = await detectAIContent(coverLetter);
         aiScore = aiDetection.score;
 
-        if (aiScore >= THRESHOLDS.AI_DETECTION_MAX_SCORE) {
+        if (!aiDetection.measured) {
+          warnings.push(`AI detection unavailable: ${aiDetection.feedback}`);
+        } else if (aiScore >= THRESHOLDS.AI_DETECTION_MAX_SCORE) {
           failures.push(`AI detection score too high: ${aiScore}% (expected < ${THRESHOLDS.AI_DETECTION_MAX_SCORE}%)`);
         }
       } catch (error) {
@@ -340,6 +352,8 @@ export async function runSingleTest(
       parsedResume,
       parsedJD,
     };
+  } finally {
+    if (useOfflineMode) configureAI(aiConfig);
   }
 }
 
@@ -468,7 +482,7 @@ export async function runAllTests(
   skipAIDetection: boolean = false,
   onProgress?: (completed: number, total: number, currentTest: string) => void,
   delayBetweenTests: number = 2000, // 2 second delay to avoid rate limits
-  useOfflineMode: boolean = false // Skip all API calls, use deterministic fallbacks
+  useOfflineMode: boolean = false // Skip all API calls, use the mock LLM provider
 ): Promise<TestResult[]> {
   const results: TestResult[] = [];
   const total = testResumes.length * testJobDescriptions.length;
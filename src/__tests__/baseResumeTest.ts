@@ -0,0 +1,68 @@
+/**
+ * Base Resume Selection Tests
+ * Ranking a resume library against a JD to suggest which version to tailor
+ */
+
+import { rankBaseResumes } from '../services/tailoring/orchestrator';
+import { BaseResumeCandidate } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+// Library with one resume per career track
+const LIBRARY: BaseResumeCandidate[] = [
+  { id: 'engineer', name: 'Engineering', rawText: testResumes[0].text },
+  { id: 'marketing', name: 'Marketing', rawText: testResumes[1].text },
+  { id: 'ux', name: 'UX', rawText: testResumes[3].text },
+];
+
+const EXPECTED_BEST: Array<[string, string]> = [
+  ['senior-react', 'engineer'],
+  ['growth-marketing', 'marketing'],
+  ['ux-designer-health', 'ux'],
+];
+
+/**
+ * Run every base resume selection check
+ */
+export function runBaseResumeTests(): CaseResult[] {
+  return [
+    runCase('Best-fitting version ranks first', (check) => {
+      for (const [jdId, expected] of EXPECTED_BEST) {
+        const ranking = rankBaseResumes(LIBRARY, preParsedJDs[jdId]);
+        const order = ranking.map((r) => `${r.id} ${r.matchScore}`).join(', ');
+        check(ranking[0]?.id === expected, `${jdId}: expected ${expected} first, got ${order}`);
+        check(
+          ranking.every((r, i) => i === 0 || ranking[i - 1].matchScore >= r.matchScore),
+          `${jdId}: ranking should be sorted by score`
+        );
+      }
+    }),
+
+    runCase('Empty versions are skipped', (check) => {
+      const ranking = rankBaseResumes(
+        [{ id: 'blank', name: 'Blank', rawText: '  ' }, ...LIBRARY],
+        preParsedJDs['senior-react']
+      );
+      check(ranking.length === LIBRARY.length, `Expected ${LIBRARY.length} ranked, got ${ranking.length}`);
+      check(!ranking.some((r) => r.id === 'blank'), 'Blank version should not be ranked');
+    }),
+
+    runCase('Ties keep library order', (check) => {
+      const copies = [
+        { ...LIBRARY[0], id: 'default' },
+        { ...LIBRARY[0], id: 'copy' },
+      ];
+      const ranking = rankBaseResumes(copies, preParsedJDs['senior-react']);
+      check(ranking[0]?.matchScore === ranking[1]?.matchScore, 'Identical resumes should score the same');
+      check(ranking[0]?.id === 'default', `Tie should keep the first version, got ${ranking[0]?.id}`);
+    }),
+  ];
+}
+
+/**
+ * Format base resume results for the log
+ */
+export function formatBaseResumeResults(results: CaseResult[]): string {
+  return formatCaseResults('Base resume selection', results);
+}
@@ -0,0 +1,84 @@
+/**
+ * Batch Tailoring Tests
+ * Splitting pasted postings, ranking and queue handling (no LLM calls -
+ * runs are cancelled before they start)
+ */
+
+import { tailorBatch, rankBatchResults, BatchItemResult } from '../services/tailoring/batch';
+import { TailoringResult } from '../services/tailoring/types';
+import { splitJobDescriptions, extractJobHeader } from '../utils/jobDescription';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const POSTING = (title: string) =>
+  `${title}\nAcme Corp\nWe are looking for someone with 3+ years of experience and strong SQL skills.`;
+
+function resultWithScore(matchScore: number): TailoringResult {
+  return {
+    resume: { skills: [], experiences: [], education: [], rawText: '' },
+    coverLetter: '',
+    matchScore,
+    matchedItems: [],
+    missingItems: [],
+    processingTime: 0,
+  };
+}
+
+/**
+ * Run every batch tailoring check
+ */
+export async function runBatchTests(): Promise<CaseResult[]> {
+  return [
+    await runCase('Splitting pasted postings', (check) => {
+      const parts = splitJobDescriptions(
+        `${POSTING('Data Analyst')}\n---\n${POSTING('BI Developer')}\n\n=====\nToo short\n___\n${POSTING('Analytics Engineer')}`
+      );
+      check(parts.length === 3, `Expected 3 postings, got ${parts.length}`);
+      check(parts[1]?.startsWith('BI Developer'), `Second posting: ${parts[1]?.slice(0, 20)}`);
+      check(
+        splitJobDescriptions('Pipeline work - ETL --- dbt, Airflow and Snowflake across a modern data stack').length === 1,
+        'Inline dashes should not split a posting'
+      );
+
+      const header = extractJobHeader(parts[0]);
+      check(header.jobTitle === 'Data Analyst' && header.company === 'Acme Corp', `Header: ${JSON.stringify(header)}`);
+    }),
+
+    await runCase('Ranking', (check) => {
+      const items: BatchItemResult[] = [
+        { id: 'a', status: 'error', error: { type: 'api_error', message: 'Rate limited' } },
+        { id: 'b', status: 'done', result: resultWithScore(64) },
+        { id: 'c', status: 'cancelled' },
+        { id: 'd', status: 'done', result: resultWithScore(88) },
+      ];
+      const ranked = rankBatchResults(items).map((item) => item.id).join('');
+      check(ranked === 'dbac', `Expected done by score then failures in order, got ${ranked}`);
+    }),
+
+    await runCase('Cancelled batch settles every item', async (check) => {
+      const controller = new AbortController();
+      controller.abort();
+      const completed: string[] = [];
+
+      const results = await tailorBatch(
+        'Resume text',
+        [
+          { id: '1', jobDescription: POSTING('Data Analyst') },
+          { id: '2', jobDescription: POSTING('BI Developer') },
+          { id: '3', jobDescription: POSTING('Analytics Engineer') },
+        ],
+        { signal: controller.signal, concurrency: 2, onItemComplete: (item) => completed.push(item.id) }
+      );
+
+      check(results.length === 3, `Expected 3 results, got ${results.length}`);
+      check(results.every((r) => r.status === 'cancelled'), 'Every item should be cancelled');
+      check(completed.length === 3, `onItemComplete should fire per item, fired ${completed.length}`);
+    }),
+  ];
+}
+
+/**
+ * Format batch results for the log
+ */
+export function formatBatchResults(results: CaseResult[]): string {
+  return formatCaseResults('Batch tailoring', results);
+}
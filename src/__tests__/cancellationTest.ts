@@ -0,0 +1,147 @@
+/**
+ * Cancellation Tests
+ * Aborting tailorResume before, between and during its LLM stages rejects
+ * with a 'cancelled' TailoringError and stops calling the provider (mock
+ * provider)
+ */
+
+import { configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { LLMRequest } from '../services/ai/types';
+import { setJDCacheStorage } from '../services/tailoring/jdCache';
+import { ProgressCallback, tailorResume } from '../services/tailoring/orchestrator';
+import { TailoringError } from '../services/tailoring/types';
+import { createFixtureMockProvider } from './fixtures/mockLLMResponses';
+import { getResumeById } from './fixtures/testResumes';
+import { getJDById } from './fixtures/testJobDescriptions';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+interface CancelHarness {
+  controller: AbortController;
+  // Every provider request so far
+  calls: LLMRequest[];
+  // Route every non-analysis request here instead of the fixtures
+  hold: (handler: (request: LLMRequest) => Promise<{ content: string }>) => void;
+  tailor: (onProgress?: ProgressCallback) => Promise<unknown>;
+}
+
+/**
+ * Run a case against the fixture mock with a fresh JD cache (so analysis
+ * always reaches the provider); the AI config is restored afterwards
+ */
+function runCancelCase(
+  name: string,
+  body: (check: Check, harness: CancelHarness) => Promise<void>
+): Promise<CaseResult> {
+  return runCase(name, async (check) => {
+    const aiConfig = getAIConfig();
+    const fixtures = createFixtureMockProvider();
+    let held: ((request: LLMRequest) => Promise<{ content: string }>) | null = null;
+    registerProvider({
+      ...fixtures,
+      complete: (request) => {
+        if (!held || request.stage === 'jd_analysis') return fixtures.complete(request);
+        fixtures.calls.push(request);
+        return held(request);
+      },
+    });
+    configureAI({ provider: 'mock' });
+    setJDCacheStorage(null);
+
+    const controller = new AbortController();
+    const resume = getResumeById('swe-mid')!;
+    const jd = getJDById('senior-react')!;
+
+    try {
+      await body(check, {
+        controller,
+        calls: fixtures.calls,
+        hold: (handler) => {
+          held = handler;
+        },
+        tailor: (onProgress) =>
+          tailorResume(resume.text, jd.text, onProgress, {
+            signal: controller.signal,
+            settings: { aiDetection: false },
+          }),
+      });
+    } finally {
+      configureAI(aiConfig);
+      setJDCacheStorage(null);
+    }
+  });
+}
+
+/**
+ * The TailoringError a run rejected with, or null if it resolved
+ */
+async function rejection(run: Promise<unknown>): Promise<TailoringError | null> {
+  try {
+    await run;
+    return null;
+  } catch (error) {
+    return error as TailoringError;
+  }
+}
+
+// Let any stray work scheduled by the cancelled run reach the provider
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+/**
+ * Run every cancellation check
+ */
+export async function runCancellationTests(): Promise<CaseResult[]> {
+  return [
+    await runCancelCase('Aborted before start', async (check, { controller, calls, tailor }) => {
+      controller.abort();
+      const error = await rejection(tailor());
+      check(error?.type === 'cancelled', `Rejected with: ${JSON.stringify(error)}`);
+      await settle();
+      check(calls.length === 0, `Expected no provider calls, got ${calls.length}`);
+    }),
+
+    await runCancelCase('Aborted between stages', async (check, { controller, calls, tailor }) => {
+      const steps: string[] = [];
+      const error = await rejection(
+        tailor((progress) => {
+          steps.push(progress.step);
+          if (progress.step === 'matching') controller.abort();
+        })
+      );
+
+      check(error?.type === 'cancelled', `Rejected with: ${JSON.stringify(error)}`);
+      check(error?.message === 'Tailoring was cancelled', `Message: ${error?.message}`);
+      check(!steps.includes('formatting') && !steps.includes('complete'), `Progress after abort: ${steps.join(', ')}`);
+
+      await settle();
+      const stages = calls.map((c) => c.stage);
+      check(stages.join(',') === 'jd_analysis', `Only the JD analysis should run, got ${stages.join(', ')}`);
+    }),
+
+    await runCancelCase('Aborted during generation', async (check, { controller, calls, hold, tailor }) => {
+      // Formatting and the cover letter never answer on their own
+      hold(() => {
+        setTimeout(() => controller.abort(), 0);
+        return new Promise(() => {});
+      });
+
+      const started = Date.now();
+      const error = await rejection(tailor());
+      check(error?.type === 'cancelled', `Rejected with: ${JSON.stringify(error)}`);
+      check(Date.now() - started < 5000, 'In-flight calls should settle on abort, not time out');
+
+      const callsAtAbort = calls.length;
+      check(callsAtAbort === 3, `Expected analysis plus the two parallel calls, got ${callsAtAbort}`);
+      await settle();
+      check(calls.length === callsAtAbort, `Provider called ${calls.length - callsAtAbort} more times after abort`);
+    }),
+  ];
+}
+
+/**
+ * Format cancellation results for the log
+ */
+export function formatCancellationResults(results: CaseResult[]): string {
+  return formatCaseResults('Cancellation', results);
+}
@@ -0,0 +1,239 @@
+/**
+ * Cover Letter Strategy Evaluation
+ * Runs every registered strategy over the fixture resume/JD pairs expected
+ * to match and reports, side by side: word count, AI-detection score,
+ * evidence coverage and fabrication flags. Offline, the LLM strategies run
+ * against the fixture mock provider.
+ */
+
+import {
+  COVER_LETTER_STRATEGIES,
+  COVER_LETTER_LENGTHS,
+  resolveCoverLetterOptions,
+} from '../services/tailoring/coverLetter';
+import { verifyCoverLetter } from '../services/tailoring/verifier';
+import { parseResume } from '../services/tailoring/parser';
+import { matchResume } from '../services/tailoring/matcher';
+import { detectAIContent } from '../services/aiDetection';
+import {
+  CoverLetterOptions,
+  CoverLetterStrategyId,
+  GroundingViolation,
+  MatchResult,
+  ResumeData,
+} from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { testJobDescriptions } from './fixtures/testJobDescriptions';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { installMockLLM } from './fixtures/mockLLMResponses';
+
+export interface CoverLetterEvalOptions {
+  skipAI?: boolean;
+  offline?: boolean;
+  // Defaults to every registered strategy
+  strategies?: CoverLetterStrategyId[];
+  letter?: Partial<CoverLetterOptions>;
+}
+
+export interface CoverLetterEvalRow {
+  strategy: CoverLetterStrategyId;
+  pair: string;
+  words: number;
+  inRange: boolean;
+  // null when detection was skipped or couldn't score the letter
+  aiScore: number | null;
+  // Share of the strongest resume evidence the letter uses (0-1)
+  evidenceCoverage: number;
+  fabrications: GroundingViolation[];
+  error?: string;
+}
+
+export interface CoverLetterEvalSummary {
+  strategy: CoverLetterStrategyId;
+  letters: number;
+  errors: number;
+  averageWords: number;
+  inRangeRate: number;
+  averageAIScore: number | null;
+  averageCoverage: number;
+  flaggedLetters: number;
+  totalFlags: number;
+}
+
+// Same cut as the evidence the LLM prompt is given
+const EVIDENCE_LIMIT = 4;
+// A bullet counts as used when the letter has this share of its content words
+const EVIDENCE_WORD_SHARE = 0.6;
+
+/**
+ * Generate a letter with each strategy for each matching fixture pair
+ */
+export async function runCoverLetterEval(options: CoverLetterEvalOptions = {}): Promise<CoverLetterEvalRow[]> {
+  if (options.offline) installMockLLM();
+
+  const strategies = (options.strategies ?? (Object.keys(COVER_LETTER_STRATEGIES) as CoverLetterStrategyId[])).map(
+    (id) => COVER_LETTER_STRATEGIES[id]
+  );
+  const letterOptions = resolveCoverLetterOptions(options.letter);
+  const { min, max } = COVER_LETTER_LENGTHS[letterOptions.length];
+  const rows: CoverLetterEvalRow[] = [];
+
+  for (const jdFixture of testJobDescriptions) {
+    const jd = preParsedJDs[jdFixture.id];
+    if (!jd) continue;
+
+    for (const resumeId of jdFixture.matchingResumeIds) {
+      const fixture = testResumes.find((r) => r.id === resumeId);
+      if (!fixture) continue;
+
+      const resume = parseResume(fixture.text);
+      const { matched } = matchResume(resume, jd);
+      const evidence = strongestEvidence(matched, resume);
+      const pair = `${resumeId} × ${jdFixture.id}`;
+
+      for (const strategy of strategies) {
+        try {
+          const letter = await strategy.generate({ matched, jd, resume, options: letterOptions });
+          const words = letter.split(/\s+/).filter(Boolean).length;
+
+          let aiScore: number | null = null;
+          if (!options.skipAI) {
+            try {
+              const detection = await detectAIContent(letter);
+              aiScore = detection.measured ? detection.score : null;
+            } catch {
+              aiScore = null;
+            }
+          }
+
+          rows.push({
+            strategy: strategy.id,
+            pair,
+            words,
+            inRange: words >= min && words <= max,
+            aiScore,
+            evidenceCoverage: evidenceCoverage(letter, evidence),
+            fabrications: verifyCoverLetter(letter, resume, jd),
+          });
+        } catch (error) {
+          rows.push({
+            strategy: strategy.id,
+            pair,
+            words: 0,
+            inRange: false,
+            aiScore: null,
+            evidenceCoverage: 0,
+            fabrications: [],
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Per-strategy averages; letters that failed to generate are only counted as errors
+ */
+export function summarizeCoverLetterEval(rows: CoverLetterEvalRow[]): CoverLetterEvalSummary[] {
+  const strategies = [...new Set(rows.map((r) => r.strategy))];
+
+  return strategies.map((strategy) => {
+    const all = rows.filter((r) => r.strategy === strategy);
+    const ok = all.filter((r) => !r.error);
+    const scored = ok.filter((r) => r.aiScore !== null);
+    const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+    return {
+      strategy,
+      letters: ok.length,
+      errors: all.length - ok.length,
+      averageWords: Math.round(average(ok.map((r) => r.words))),
+      inRangeRate: average(ok.map((r) => (r.inRange ? 1 : 0))),
+      averageAIScore: scored.length > 0 ? Math.round(average(scored.map((r) => r.aiScore ?? 0))) : null,
+      averageCoverage: average(ok.map((r) => r.evidenceCoverage)),
+      flaggedLetters: ok.filter((r) => r.fabrications.length > 0).length,
+      totalFlags: ok.reduce((sum, r) => sum + r.fabrications.length, 0),
+    };
+  });
+}
+
+export function formatCoverLetterEval(rows: CoverLetterEvalRow[]): string {
+  const summaries = summarizeCoverLetterEval(rows);
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const lines: string[] = [];
+
+  // Strategies as columns
+  const table: Array<[string, (s: CoverLetterEvalSummary) => string]> = [
+    ['Strategy', (s) => COVER_LETTER_STRATEGIES[s.strategy].label],
+    ['Letters', (s) => `${s.letters}${s.errors > 0 ? ` (+${s.errors} failed)` : ''}`],
+    ['Avg words', (s) => `${s.averageWords}`],
+    ['In word range', (s) => percent(s.inRangeRate)],
+    ['Avg AI score', (s) => (s.averageAIScore === null ? 'skipped' : `${s.averageAIScore}%`)],
+    ['Evidence coverage', (s) => percent(s.averageCoverage)],
+    ['Fabrication flags', (s) => `${s.totalFlags} in ${s.flaggedLetters} letters`],
+  ];
+  for (const [label, value] of table) {
+    lines.push(label.padEnd(20) + summaries.map((s) => value(s).padEnd(22)).join('').trimEnd());
+  }
+
+  // One line per pair, strategies in the same order
+  lines.push('');
+  lines.push(`${'Pair'.padEnd(40)}words / AI / evidence / flags (${summaries.map((s) => s.strategy).join(', ')})`);
+  for (const pair of [...new Set(rows.map((r) => r.pair))]) {
+    const cells = summaries.map(({ strategy }) => {
+      const row = rows.find((r) => r.pair === pair && r.strategy === strategy);
+      if (!row || row.error) return 'error';
+      const ai = row.aiScore === null ? '-' : `${row.aiScore}%`;
+      return `${row.words}${row.inRange ? '' : '!'} / ${ai} / ${percent(row.evidenceCoverage)} / ${row.fabrications.length}`;
+    });
+    lines.push(pair.padEnd(40) + cells.map((c) => c.padEnd(24)).join('').trimEnd());
+  }
+
+  const flagged = rows.flatMap((r) => r.fabrications.map((f) => `  ${r.strategy} · ${r.pair}: ${f.message}`));
+  const failed = rows.filter((r) => r.error).map((r) => `  ${r.strategy} · ${r.pair}: ${r.error}`);
+  if (flagged.length > 0) lines.push('', 'Fabrication flags:', ...flagged);
+  if (failed.length > 0) lines.push('', 'Failed:', ...failed);
+  lines.push('', '! = outside the requested word range');
+
+  return lines.join('\n');
+}
+
+// ============================================
+// EVIDENCE
+// ============================================
+
+const STOPWORDS = new Set(['with', 'from', 'that', 'this', 'into', 'over', 'across', 'through', 'while', 'using']);
+
+/**
+ * Bullets behind the strongest matches, topped up from the two most
+ * recent roles (the prompt's own fallback), each once
+ */
+function strongestEvidence(matched: MatchResult[], resume: ResumeData): string[] {
+  const bullets = matched
+    .filter((m) => m.score >= 50 && m.source === 'bullet' && m.originalText)
+    .map((m) => m.originalText);
+  for (const exp of resume.experiences.slice(0, 2)) {
+    bullets.push(...exp.bullets.slice(0, 2).map((b) => b.text));
+  }
+  return [...new Set(bullets)].slice(0, EVIDENCE_LIMIT);
+}
+
+function evidenceCoverage(letter: string, evidence: string[]): number {
+  if (evidence.length === 0) return 1;
+  const letterWords = new Set(contentWords(letter));
+  const used = evidence.filter((bullet) => {
+    const words = contentWords(bullet);
+    return words.length > 0 && words.filter((w) => letterWords.has(w)).length / words.length >= EVIDENCE_WORD_SHARE;
+  });
+  return used.length / evidence.length;
+}
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#%$]+/)
+    .filter((w) => w.length > 3 && !STOPWORDS.has(w));
+}
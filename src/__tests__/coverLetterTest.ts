@@ -0,0 +1,240 @@
+/**
+ * Cover Letter Option Tests
+ * Tone, length and structure on the offline template across every resume
+ * and job fixture, plus the options reaching the LLM prompt (no LLM)
+ */
+
+import {
+  generateQuickCoverLetter,
+  buildCoverLetterPrompt,
+  getCoverLetterStrategy,
+  COVER_LETTER_STRATEGIES,
+  DEFAULT_COVER_LETTER_STRATEGY,
+  resolveCoverLetterOptions,
+  COVER_LETTER_LENGTHS,
+  DEFAULT_COVER_LETTER_OPTIONS,
+} from '../services/tailoring/coverLetter';
+import { verifyCoverLetter } from '../services/tailoring/verifier';
+import { parseResume } from '../services/tailoring/parser';
+import { matchResume } from '../services/tailoring/matcher';
+import {
+  CoverLetterLength,
+  CoverLetterStrategyId,
+  CoverLetterStructure,
+  CoverLetterTone,
+  JDRequirements,
+  MatchResult,
+  ResumeData,
+} from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const TONES: CoverLetterTone[] = ['formal', 'warm', 'direct', 'enthusiastic'];
+const LENGTHS: CoverLetterLength[] = ['short', 'standard', 'long'];
+const STRUCTURES: CoverLetterStructure[] = ['narrative', 'bullet-highlights', 'pain-point'];
+
+interface Pairing {
+  label: string;
+  resume: ResumeData;
+  jd: JDRequirements;
+  matched: MatchResult[];
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Paragraphs between the greeting and the sign-off
+function bodyParagraphs(letter: string): string[] {
+  return letter.split(/\n\n/).slice(1, -1);
+}
+
+/**
+ * Run every cover letter option check
+ */
+export function runCoverLetterTests(): CaseResult[] {
+  const pairings: Pairing[] = [];
+  for (const fixture of testResumes) {
+    const resume = parseResume(fixture.text);
+    for (const [jdId, jd] of Object.entries(preParsedJDs)) {
+      pairings.push({ label: `${fixture.id} vs ${jdId}`, resume, jd, matched: matchResume(resume, jd).matched });
+    }
+  }
+  const sample = pairings.find((p) => p.label === 'swe-mid vs senior-react');
+  if (!sample) throw new Error('No swe-mid / senior-react pairing');
+  const quick = (options: Parameters<typeof generateQuickCoverLetter>[3] = {}, pairing: Pairing = sample) =>
+    generateQuickCoverLetter(pairing.matched, pairing.jd, pairing.resume, options);
+
+  return [
+    runCase('Resolving options', (check) => {
+      const defaults = resolveCoverLetterOptions();
+      check(
+        defaults.tone === DEFAULT_COVER_LETTER_OPTIONS.tone &&
+          defaults.length === DEFAULT_COVER_LETTER_OPTIONS.length &&
+          defaults.structure === DEFAULT_COVER_LETTER_OPTIONS.structure,
+        `Defaults: ${JSON.stringify(defaults)}`
+      );
+      const partial = resolveCoverLetterOptions({ tone: 'warm', hiringManager: '  ', referral: ' Sam Lee ' });
+      check(partial.tone === 'warm' && partial.length === 'standard', `Partial keeps defaults: ${JSON.stringify(partial)}`);
+      check(partial.hiringManager === undefined, 'Blank hiring manager is unset');
+      check(partial.referral === 'Sam Lee', `Referral trimmed: "${partial.referral}"`);
+      check(quick() === quick(DEFAULT_COVER_LETTER_OPTIONS), 'No options is the default letter');
+    }),
+
+    // Every fixture pairing, tone and structure lands inside each length's range
+    ...LENGTHS.map((length) =>
+      runCase(`Word range: ${length}`, (check) => {
+        const { min, max } = COVER_LETTER_LENGTHS[length];
+        const outside: string[] = [];
+        const missingRole: string[] = [];
+
+        for (const pairing of pairings) {
+          for (const tone of TONES) {
+            for (const structure of STRUCTURES) {
+              const letter = quick({ tone, length, structure }, pairing);
+              const words = wordCount(letter);
+              if (words < min || words > max) outside.push(`${pairing.label} ${tone}/${structure}: ${words}`);
+              if (!letter.includes(pairing.jd.title) || !letter.includes(pairing.jd.company ?? '')) {
+                missingRole.push(`${pairing.label} ${tone}/${structure}`);
+              }
+            }
+          }
+        }
+
+        check(outside.length === 0, `Outside ${min}-${max} words: ${outside.slice(0, 5).join('; ')}`);
+        check(missingRole.length === 0, `Title or company missing: ${missingRole.slice(0, 5).join('; ')}`);
+      })
+    ),
+
+    runCase('Lengths order', (check) => {
+      for (const tone of TONES) {
+        const [short, standard, long] = LENGTHS.map((length) => wordCount(quick({ tone, length })));
+        check(short < standard && standard < long, `${tone}: ${short} < ${standard} < ${long}`);
+      }
+    }),
+
+    runCase('Tone', (check) => {
+      const letters = Object.fromEntries(TONES.map((tone) => [tone, quick({ tone })])) as Record<CoverLetterTone, string>;
+      check(letters.formal.startsWith('Dear Hiring Manager,'), `Formal greeting: ${letters.formal.split('\n')[0]}`);
+      check(/\n\nSincerely,\nALEX CHEN$/.test(letters.formal), 'Formal signs off with "Sincerely,"');
+      check(letters.warm.startsWith('Hi there,'), `Warm greeting: ${letters.warm.split('\n')[0]}`);
+      check(/\n\nBest,\nALEX CHEN$/.test(letters.warm), 'Warm signs off with "Best,"');
+      check(letters.direct.startsWith('Hi,'), `Direct greeting: ${letters.direct.split('\n')[0]}`);
+      check(/\.\n\nALEX CHEN$/.test(letters.direct), 'Direct signs with the name only');
+      check(letters.enthusiastic.startsWith('Hello there!'), `Enthusiastic greeting: ${letters.enthusiastic.split('\n')[0]}`);
+      check(new Set(Object.values(letters)).size === TONES.length, 'Each tone writes a different letter');
+      check(!/\bI'm\b|\bI've\b|\bI'd\b/.test(letters.formal), 'Formal avoids contractions');
+    }),
+
+    runCase('Hiring manager and referral', (check) => {
+      const named = { hiringManager: 'Jane Smith', referral: 'Sam Lee' };
+      check(quick({ ...named, tone: 'formal' }).startsWith('Dear Jane Smith,'), 'Formal uses the full name');
+      check(quick({ ...named, tone: 'warm' }).startsWith('Hi Jane,'), 'Warm uses the first name');
+      check(quick({ ...named, tone: 'direct' }).startsWith('Hi Jane,'), 'Direct uses the first name');
+      check(quick({ tone: 'warm', hiringManager: 'Dr. Kim' }).startsWith('Hi Dr. Kim,'), 'Honorifics kept as written');
+
+      for (const structure of STRUCTURES) {
+        const opening = bodyParagraphs(quick({ ...named, structure }))[0];
+        check(opening.includes('Sam Lee'), `${structure}: referral in the opening paragraph`);
+      }
+      check(!quick().includes('Sam Lee'), 'No referral unless asked for');
+    }),
+
+    runCase('Structure', (check) => {
+      const narrative = quick({ structure: 'narrative' });
+      const highlights = quick({ structure: 'bullet-highlights' });
+      const painPoint = quick({ structure: 'pain-point' });
+
+      check(!/^- /m.test(narrative), 'Narrative has no bullet lines');
+      const bullets = highlights.split('\n').filter((line) => line.startsWith('- '));
+      check(bullets.length >= 2, `Highlights lists bullets: ${bullets.length}`);
+      check(bullets.every((line) => /^- [A-Z0-9].*[.!?]$/.test(line)), 'Bullets are capitalized sentences');
+
+      const narrativeOpening = bodyParagraphs(narrative)[0];
+      const painOpening = bodyParagraphs(painPoint)[0];
+      check(painOpening !== narrativeOpening, 'Pain-point opens differently');
+      check(painOpening.includes(sample.jd.title), `Pain-point names the role: ${painOpening}`);
+
+      const marketing = pairings.find((p) => p.label === 'marketing-senior vs growth-marketing');
+      const opener = marketing && bodyParagraphs(quick({ structure: 'pain-point' }, marketing))[0];
+      const need = opener?.match(/needs to handle (.+?)\. /)?.[1] ?? '';
+      const matchedNeed = marketing?.matched.some(
+        (m) => m.score >= 50 && m.requirement.text.toLowerCase().includes(need.toLowerCase())
+      );
+      check(!!need && !!matchedNeed, `Need is a requirement the resume matched: ${opener}`);
+      check(!/years|preferably|,/.test(need), `Need trimmed to a phrase: ${need}`);
+    }),
+
+    runCase('Strategies', (check) => {
+      const ids = Object.keys(COVER_LETTER_STRATEGIES) as CoverLetterStrategyId[];
+      check(ids.every((id) => COVER_LETTER_STRATEGIES[id].id === id), 'Registry keys match strategy ids');
+      check(getCoverLetterStrategy().id === DEFAULT_COVER_LETTER_STRATEGY, 'No id gets the default');
+      check(
+        getCoverLetterStrategy('unknown' as CoverLetterStrategyId).id === DEFAULT_COVER_LETTER_STRATEGY,
+        'Unknown id gets the default'
+      );
+      check(ids.some((id) => !COVER_LETTER_STRATEGIES[id].usesLLM), 'An offline strategy is registered');
+      for (const id of ids) {
+        const retry = COVER_LETTER_STRATEGIES[id].retryStrategy;
+        check(!retry || (retry !== id && retry in COVER_LETTER_STRATEGIES), `${id} retries with a registered strategy`);
+      }
+    }),
+
+    runCase('Grounding', (check) => {
+      const { resume, jd } = sample;
+      const clean = verifyCoverLetter(quick(), resume, jd);
+      check(clean.length === 0, `Template letter is grounded: ${clean.map((v) => v.message).join('; ')}`);
+
+      const flags = verifyCoverLetter(
+        `${quick()}\n\nAt my time at Initech I grew revenue by $9M using Kubernetes.`,
+        resume,
+        jd
+      );
+      check(flags.some((v) => v.kind === 'metric' && v.value.includes('$9m')), 'Invented number flagged');
+      check(flags.some((v) => v.kind === 'skill' && v.value === 'kubernetes'), 'Unlisted skill flagged');
+      check(flags.some((v) => v.kind === 'employer' && v.value === 'Initech'), 'Unlisted employer flagged');
+      check(flags.every((v) => v.resolution === 'flagged'), 'Letters are only flagged');
+
+      const ungrounded = pairings.filter((p) =>
+        STRUCTURES.some((structure) => verifyCoverLetter(quick({ structure, length: 'long' }, p), p.resume, p.jd).length > 0)
+      );
+      check(ungrounded.length === 0, `Template letters grounded for every pairing: ${ungrounded.map((p) => p.label).join(', ')}`);
+    }),
+
+    runCase('LLM prompt', (check) => {
+      const { matched, jd, resume } = sample;
+      const prompt = buildCoverLetterPrompt(matched, jd, resume, resolveCoverLetterOptions({
+        tone: 'formal',
+        length: 'short',
+        structure: 'bullet-highlights',
+        hiringManager: 'Jane Smith',
+        referral: 'Sam Lee',
+      }));
+      check(prompt.includes('90-150 words'), 'Short word range in the prompt');
+      check(prompt.includes('TONE: Formal'), 'Tone in the prompt');
+      check(prompt.includes('"Dear Jane Smith,"'), 'Greeting with the hiring manager');
+      check(prompt.includes('Sam Lee referred them'), 'Referral in the prompt');
+      check(prompt.includes('"Sincerely,"'), 'Formal sign-off in the prompt');
+      check(prompt.includes('bullet points'), 'Highlights structure in the prompt');
+
+      const humanized = buildCoverLetterPrompt(
+        matched,
+        jd,
+        resume,
+        resolveCoverLetterOptions({ length: 'long', structure: 'pain-point' }),
+        true
+      );
+      check(humanized.includes('250-350 words'), 'Humanize prompt keeps the length');
+      check(humanized.includes('main problem this team needs solved'), 'Humanize prompt keeps the structure');
+
+      const defaults = buildCoverLetterPrompt(matched, jd, resume, DEFAULT_COVER_LETTER_OPTIONS);
+      check(defaults.includes('Start with "Hi,"'), 'Default greeting is "Hi,"');
+      check(defaults.includes('Sign off with just "ALEX CHEN'), 'Default signs with the name only');
+    }),
+  ];
+}
+
+export function formatCoverLetterResults(results: CaseResult[]): string {
+  return formatCaseResults('Cover letter options', results);
+}
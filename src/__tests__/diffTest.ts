@@ -0,0 +1,138 @@
+/**
+ * Resume Diff Tests
+ * Pairing, word diffs and accept/revert on hand-edited tailored versions
+ * of the parsed swe-mid resume (no LLM)
+ */
+
+import {
+  buildResumeDiff,
+  applyDiffDecisions,
+  diffWords,
+  snapshotResume,
+  skillChangeId,
+  SUMMARY_ID,
+  EXPERIENCE_ORDER_ID,
+} from '../services/tailoring/diff';
+import { parseResume } from '../services/tailoring/parser';
+import { TailoredResume } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+function copy(resume: TailoredResume): TailoredResume {
+  return JSON.parse(JSON.stringify(resume));
+}
+
+/**
+ * Run every resume diff check
+ */
+export function runDiffTests(): CaseResult[] {
+  const fixture = testResumes.find((r) => r.id === 'swe-mid');
+  if (!fixture) throw new Error('No swe-mid resume fixture');
+  const original = snapshotResume(parseResume(fixture.text));
+
+  // Formatter-style edits: the API bullet reworded and moved to the top,
+  // the WordPress bullet dropped, one bullet added, roles swapped, a skill added
+  const tailored = copy(original);
+  const [current, previous] = tailored.experiences;
+  const apiBullet = current.bullets[1];
+  current.bullets.splice(1, 1);
+  current.bullets.unshift('Developed scalable RESTful APIs using Node.js and Express, reducing response times by 40%');
+  current.bullets.push('Wrote integration tests for the checkout flow');
+  previous.bullets.splice(1, 1);
+  tailored.experiences.reverse();
+  tailored.skills.push('GraphQL');
+  tailored.summary = `${original.summary} Focused on API performance.`;
+
+  const diff = buildResumeDiff(original, tailored);
+  const currentDiff = diff.experiences.find((e) => e.company === current.company);
+  const previousDiff = diff.experiences.find((e) => e.company === previous.company);
+
+  return [
+    runCase('Word diff', (check) => {
+      const segments = diffWords('Led migration to PostgreSQL', 'Led the migration to PostgreSQL and Redis');
+      const inserted = segments.filter((s) => s.type === 'insert').map((s) => s.text.trim());
+      check(JSON.stringify(inserted) === JSON.stringify(['the', 'and Redis']), `Inserted: ${JSON.stringify(inserted)}`);
+      check(segments.filter((s) => s.type !== 'delete').map((s) => s.text).join('') === 'Led the migration to PostgreSQL and Redis', 'Insert side should rebuild the new text');
+      check(segments.filter((s) => s.type !== 'insert').map((s) => s.text).join('').trim() === 'Led migration to PostgreSQL', 'Delete side should rebuild the old text');
+    }),
+
+    runCase('Bullets are paired with their originals', (check) => {
+      check(!!currentDiff && currentDiff.status === 'kept', 'Current role should be kept');
+      const reworded = currentDiff?.bullets.find((b) => b.status === 'reworded');
+      check(reworded?.original === apiBullet, `Reworded bullet source: ${reworded?.original}`);
+      check(reworded?.segments.some((s) => s.type === 'insert' && s.text.trim() === 'scalable') ?? false, 'Inserted word should be highlighted');
+      check(reworded?.moved === true, 'Reworded bullet moved to the top');
+      check(currentDiff?.bulletsReordered === true, 'Current role bullets were reordered');
+
+      const added = currentDiff?.bullets.filter((b) => b.status === 'added') ?? [];
+      check(added.length === 1 && added[0].tailored === 'Wrote integration tests for the checkout flow', `Added: ${JSON.stringify(added)}`);
+
+      const dropped = previousDiff?.bullets.filter((b) => b.status === 'dropped') ?? [];
+      check(dropped.length === 1 && dropped[0].originalIndex === 1, `Dropped: ${JSON.stringify(dropped)}`);
+      // Shown where it used to be
+      check(previousDiff?.bullets[1]?.status === 'dropped', 'Dropped bullet should sit after its original predecessor');
+      check(previousDiff?.bulletsReordered === false, 'Previous role order is unchanged');
+    }),
+
+    runCase('Resume-level changes', (check) => {
+      check(diff.experiencesReordered, 'Roles were swapped');
+      check(diff.summary.changed, 'Summary changed');
+      check(JSON.stringify(diff.skills.added) === JSON.stringify(['GraphQL']), `Skills added: ${diff.skills.added}`);
+      check(diff.skills.dropped.length === 0, `Skills dropped: ${diff.skills.dropped}`);
+      // Summary, role order, GraphQL, current order, reworded, added, dropped
+      check(diff.changeCount === 7, `Change count: ${diff.changeCount}`);
+
+      const unchanged = buildResumeDiff(original, copy(original));
+      check(unchanged.changeCount === 0, `Identical resumes: ${unchanged.changeCount} changes`);
+    }),
+
+    runCase('Accepting everything keeps the tailored resume', (check) => {
+      check(applyDiffDecisions(diff, tailored, {}) === tailored, 'No decisions, same resume');
+      check(applyDiffDecisions(diff, tailored, { [SUMMARY_ID]: 'accept' }) === tailored, 'Accepted changes, same resume');
+    }),
+
+    runCase('Reverting individual changes', (check) => {
+      const reworded = currentDiff!.bullets.find((b) => b.status === 'reworded')!;
+      const added = currentDiff!.bullets.find((b) => b.status === 'added')!;
+      const dropped = previousDiff!.bullets.find((b) => b.status === 'dropped')!;
+
+      const result = applyDiffDecisions(diff, tailored, {
+        [reworded.id]: 'revert',
+        [added.id]: 'revert',
+        [dropped.id]: 'revert',
+        [skillChangeId('added', 'GraphQL')]: 'revert',
+      });
+
+      const [first, second] = result.experiences;
+      check(first.company === previous.company, 'Role order stays tailored');
+      check(JSON.stringify(first.bullets) === JSON.stringify(original.experiences[1].bullets), 'Dropped bullet restored in place');
+      check(second.bullets[0] === apiBullet, `Reworded bullet reverted, still first: ${second.bullets[0]}`);
+      check(!second.bullets.includes(added.tailored!), 'Added bullet removed');
+      check(!result.skills.includes('GraphQL'), 'Added skill removed');
+      check(result.summary === tailored.summary, 'Summary kept');
+      check(result.rawText.includes(apiBullet), 'Raw text regenerated');
+    }),
+
+    runCase('Reverting order and summary', (check) => {
+      const result = applyDiffDecisions(diff, tailored, {
+        [EXPERIENCE_ORDER_ID]: 'revert',
+        [`${currentDiff!.id}:order`]: 'revert',
+        [SUMMARY_ID]: 'revert',
+      });
+
+      check(result.experiences[0].company === current.company, 'Original role order restored');
+      const bullets = result.experiences[0].bullets;
+      check(bullets[1]?.startsWith('Developed scalable'), `Reworded bullet back in second place: ${bullets[1]}`);
+      // The added bullet stays after the bullet it follows
+      check(bullets[bullets.length - 1] === 'Wrote integration tests for the checkout flow', `Last bullet: ${bullets[bullets.length - 1]}`);
+      check(result.summary === original.summary, 'Original summary restored');
+    }),
+  ];
+}
+
+/**
+ * Format resume diff results for the log
+ */
+export function formatDiffResults(results: CaseResult[]): string {
+  return formatCaseResults('Resume diff', results);
+}
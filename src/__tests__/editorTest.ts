@@ -0,0 +1,122 @@
+/**
+ * Editor Tests
+ * Undo history, resume edit operations, cover letter paragraphs and live
+ * re-scoring on the parsed swe-mid resume against senior-react (no LLM)
+ */
+
+import {
+  applyResumeEdit,
+  splitCoverLetter,
+  joinCoverLetter,
+  scoreTailoredResume,
+  explainTailoredResume,
+} from '../services/tailoring/editor';
+import { snapshotResume } from '../services/tailoring/diff';
+import { parseResume } from '../services/tailoring/parser';
+import { createEditHistory, pushEdit, undo, redo, canUndo, canRedo } from '../utils/editHistory';
+import { testResumes } from './fixtures/testResumes';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+/**
+ * Run every editor check
+ */
+export function runEditorTests(): CaseResult[] {
+  const fixture = testResumes.find((r) => r.id === 'swe-mid');
+  if (!fixture) throw new Error('No swe-mid resume fixture');
+  const resume = snapshotResume(parseResume(fixture.text));
+  const jd = preParsedJDs['senior-react'];
+
+  return [
+    runCase('Undo history', (check) => {
+      let history = createEditHistory('a');
+      history = pushEdit(history, 'ab', 'field');
+      history = pushEdit(history, 'abc', 'field');
+      check(history.past.length === 1, `Typing in one field is one step: ${history.past.length}`);
+
+      history = pushEdit(history, 'abc!', 'other');
+      history = pushEdit(history, 'abc!', 'other');
+      check(history.past.length === 2, `Same state is not recorded: ${history.past.length}`);
+
+      history = undo(history);
+      check(history.present === 'abc', `Undo: ${history.present}`);
+      // An edit after undo starts a new step, even in the same field
+      const branched = pushEdit(history, 'abcd', 'field');
+      check(branched.past.length === 2 && !canRedo(branched), 'Editing after undo drops the redo stack');
+
+      history = undo(undo(history));
+      check(history.present === 'a' && !canUndo(history), `Undo to start: ${history.present}`);
+      history = redo(redo(history));
+      check(history.present === 'abc!' && !canRedo(history), `Redo to end: ${history.present}`);
+      check(undo(createEditHistory('x')).present === 'x', 'Undo with no history is a no-op');
+    }),
+
+    runCase('Resume edits', (check) => {
+      const first = resume.experiences[0];
+
+      const edited = applyResumeEdit(resume, { type: 'set_bullet', experience: 0, bullet: 0, text: 'Shipped the new checkout' });
+      check(edited.experiences[0].bullets[0] === 'Shipped the new checkout', 'Bullet text set');
+      check(edited.rawText.includes('Shipped the new checkout'), 'Raw text regenerated');
+      check(resume.experiences[0].bullets[0] === first.bullets[0], 'Original left untouched');
+      check(edited.experiences[1] === resume.experiences[1], 'Other roles shared');
+
+      const moved = applyResumeEdit(resume, { type: 'move_bullet', experience: 0, from: 0, to: 1 });
+      check(moved.experiences[0].bullets[1] === first.bullets[0] && moved.experiences[0].bullets[0] === first.bullets[1], 'Bullet moved down');
+      check(applyResumeEdit(resume, { type: 'move_bullet', experience: 0, from: 0, to: -1 }) === resume, 'Out-of-range move is a no-op');
+
+      const removed = applyResumeEdit(resume, { type: 'remove_bullet', experience: 0, bullet: 0 });
+      check(removed.experiences[0].bullets.length === first.bullets.length - 1, 'Bullet removed');
+      const added = applyResumeEdit(resume, { type: 'add_bullet', experience: 0 });
+      check(added.experiences[0].bullets[first.bullets.length] === '', 'Empty bullet added at the end');
+
+      const roles = applyResumeEdit(resume, { type: 'move_experience', from: 0, to: 1 });
+      check(roles.experiences[0].company === resume.experiences[1].company, 'Roles swapped');
+
+      const withSkill = applyResumeEdit(resume, { type: 'add_skill', skill: ' GraphQL ' });
+      check(withSkill.skills[withSkill.skills.length - 1] === 'GraphQL', 'Skill added, trimmed');
+      check(applyResumeEdit(withSkill, { type: 'add_skill', skill: 'graphql' }) === withSkill, 'Duplicate skill ignored');
+      const withoutSkill = applyResumeEdit(resume, { type: 'remove_skill', index: 0 });
+      check(!withoutSkill.skills.includes(resume.skills[0]), 'Skill removed');
+
+      const summary = applyResumeEdit(resume, { type: 'set_summary', text: 'Frontend engineer.' });
+      check(summary.rawText.includes('Frontend engineer.'), 'Summary in raw text');
+      check(applyResumeEdit(resume, { type: 'set_bullet', experience: 9, bullet: 0, text: 'x' }) === resume, 'Unknown role is a no-op');
+    }),
+
+    runCase('Cover letter paragraphs', (check) => {
+      const letter = 'Dear team,\n\nI am applying.\nIt would be great.\n\n  \n\nThanks,\nAlex';
+      const paragraphs = splitCoverLetter(letter);
+      check(paragraphs.length === 3, `Paragraphs: ${paragraphs.length}`);
+      check(paragraphs[1] === 'I am applying.\nIt would be great.', 'Line breaks inside a paragraph kept');
+      check(joinCoverLetter([...paragraphs, '  ']) === 'Dear team,\n\nI am applying.\nIt would be great.\n\nThanks,\nAlex', 'Empty paragraphs dropped on join');
+      check(splitCoverLetter('').length === 0, 'Empty letter has no paragraphs');
+    }),
+
+    runCase('Live re-scoring', (check) => {
+      const base = scoreTailoredResume(resume, jd);
+      check(base > 0, `Base score: ${base}`);
+
+      const stripped = resume.experiences.reduce(
+        (r, e, i) => e.bullets.reduce((acc) => applyResumeEdit(acc, { type: 'remove_bullet', experience: i, bullet: 0 }), r),
+        applyResumeEdit(resume, { type: 'set_summary', text: '' })
+      );
+      const strippedScore = scoreTailoredResume({ ...stripped, skills: [] }, jd);
+      check(strippedScore < base, `Removing evidence lowers the score: ${base} -> ${strippedScore}`);
+
+      const restored = applyResumeEdit({ ...stripped, skills: [] }, { type: 'add_skill', skill: 'React' });
+      const restoredScore = scoreTailoredResume(restored, jd);
+      check(restoredScore > strippedScore, `Adding React raises the score: ${strippedScore} -> ${restoredScore}`);
+
+      // What the editor saves with the edit
+      const breakdown = explainTailoredResume(restored, jd);
+      check(breakdown.finalScore === restoredScore, `Saved breakdown matches the live score: ${breakdown.finalScore}`);
+    }),
+  ];
+}
+
+/**
+ * Format editor results for the log
+ */
+export function formatEditorResults(results: CaseResult[]): string {
+  return formatCaseResults('Editor', results);
+}
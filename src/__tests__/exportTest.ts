@@ -0,0 +1,162 @@
+/**
+ * Export Format Tests
+ * The shared document model rendered as plain text, Markdown and DOCX.
+ * Text and DOCX exports are read back through the resume parser (DOCX via
+ * the on-device extractor) to check an ATS would see the same resume.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { buildResumeDocument } from '../templates/documentModel';
+import { buildCoverLetterDocument, generateCoverLetterHTML } from '../templates/coverLetterTemplate';
+import { generateResumeHTML } from '../templates/resumeTemplate';
+import {
+  resumeToPlainText,
+  resumeToMarkdown,
+  coverLetterToPlainText,
+  coverLetterToMarkdown,
+  escapeMarkdown,
+} from '../templates/textExport';
+import { resumeToDocx, coverLetterToDocx } from '../templates/docxExport';
+import { extractDocumentText } from '../services/extraction';
+import { snapshotResume } from '../services/tailoring/diff';
+import { parseResume } from '../services/tailoring/parser';
+import { TailoredResume } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+const CONTACT = { name: 'Alex Rivera', email: 'alex@example.com', phone: '555-0100' };
+
+const COVER_LETTER = `Dear Hiring Manager,
+
+I'm applying for the Senior Frontend role at R&D Labs. I've spent five years building React apps.
+
+Last year I led the checkout rewrite, cutting load time by 40%.
+
+Best regards,
+Alex Rivera`;
+
+/**
+ * Same roles, titles, companies and bullets after a round trip
+ */
+function compareRoundTrip(original: TailoredResume, text: string, label: string, check: Check) {
+  const parsed = snapshotResume(parseResume(text));
+  check(parsed.experiences.length === original.experiences.length, `${label}: ${parsed.experiences.length} roles read back`);
+
+  original.experiences.forEach((exp, i) => {
+    const back = parsed.experiences[i];
+    if (!back) return;
+    check(
+      back.title === exp.title && back.company === exp.company,
+      `${label}: role ${i} read back as ${back.title} | ${back.company}`
+    );
+    check(
+      JSON.stringify(back.bullets) === JSON.stringify(exp.bullets),
+      `${label}: role ${i} bullets ${back.bullets.length}/${exp.bullets.length}`
+    );
+  });
+
+  check(
+    original.skills.every((skill) => parsed.skills.includes(skill)),
+    `${label}: skills read back: ${parsed.skills.length}/${original.skills.length}`
+  );
+}
+
+/**
+ * Run every export check
+ */
+export function runExportTests(): CaseResult[] {
+  const fixture = testResumes.find((r) => r.id === 'swe-mid');
+  if (!fixture) throw new Error('No swe-mid resume fixture');
+  const resume = snapshotResume(parseResume(fixture.text));
+  const doc = buildResumeDocument(resume, CONTACT);
+
+  return [
+    runCase('Document model', (check) => {
+      check(doc.header.name === 'Alex Rivera' && doc.header.contact.length === 2, `Header: ${JSON.stringify(doc.header)}`);
+      const ids = doc.sections.map((s) => s.id);
+      check(JSON.stringify(ids) === JSON.stringify(['summary', 'skills', 'experience', 'education']), `Sections: ${ids}`);
+
+      const academic = buildResumeDocument(resume, { templateId: 'academic' });
+      check(academic.sections[0].id === 'education', 'Layout section order applies');
+      check(academic.header.name === undefined && academic.header.contact.length === 0, 'No contact, empty header');
+
+      const noSummary = buildResumeDocument({ ...resume, summary: undefined });
+      check(!noSummary.sections.some((s) => s.id === 'summary'), 'Empty sections are left out');
+
+      // The HTML renders from the same model
+      const html = generateResumeHTML(resume, CONTACT);
+      check(resume.experiences.every((e) => e.bullets.every((b) => html.includes(b.replace(/&/g, '&amp;')))), 'HTML has every bullet');
+    }),
+
+    runCase('Plain text', (check) => {
+      const text = resumeToPlainText(doc);
+      check(text.startsWith('Alex Rivera\nalex@example.com | 555-0100\n\nPROFESSIONAL SUMMARY\n'), `Starts: ${text.slice(0, 80)}`);
+      compareRoundTrip(resume, text, 'Text', check);
+    }),
+
+    runCase('Markdown', (check) => {
+      const markdown = resumeToMarkdown(doc);
+      check(markdown.startsWith('# Alex Rivera\n'), 'Name is the title');
+      check(markdown.includes('\n## Experience\n'), 'Sections are headings');
+      const first = resume.experiences[0];
+      check(markdown.includes(`### ${escapeMarkdown(first.title)} | ${escapeMarkdown(first.company)}`), 'Roles are subheadings');
+      check(markdown.includes(`\n- ${escapeMarkdown(first.bullets[0])}`), 'Bullets are list items');
+
+      check(escapeMarkdown('Cut *p95* latency by 30%') === 'Cut \\*p95\\* latency by 30%', 'Emphasis escaped');
+      check(escapeMarkdown('- not a list') === '\\- not a list', 'Leading list marker escaped');
+      check(escapeMarkdown('2019. A good year') === '2019\\. A good year', 'Leading number escaped');
+    }),
+
+    runCase('DOCX package', (check) => {
+      const bytes = resumeToDocx(doc, { font: 'serif', margins: 'wide' });
+      const files = unzipSync(bytes);
+      const parts = Object.keys(files).sort();
+      check(
+        ['[Content_Types].xml', 'word/document.xml', 'word/styles.xml', 'word/numbering.xml', '_rels/.rels'].every((p) => parts.includes(p)),
+        `Parts: ${parts.join(', ')}`
+      );
+
+      const documentXml = strFromU8(files['word/document.xml']);
+      const stylesXml = strFromU8(files['word/styles.xml']);
+      check(stylesXml.includes('w:ascii="Georgia"'), 'Font preset applied');
+      check(documentXml.includes('w:left="1296"'), 'Margin preset applied (0.9in)');
+      check(!/<w:tbl\b/.test(documentXml), 'No tables');
+      check((documentXml.match(/<w:numId /g) ?? []).length === resume.experiences.reduce((n, e) => n + e.bullets.length, 0), 'Every bullet is a list paragraph');
+
+      const escaped = resumeToDocx(buildResumeDocument({ ...resume, skills: ['R&D', '<C++>'] }));
+      check(strFromU8(unzipSync(escaped)['word/document.xml']).includes('R&amp;D | &lt;C++&gt;'), 'Text is XML-escaped');
+    }),
+
+    runCase('DOCX reads back', (check) => {
+      const extracted = extractDocumentText(resumeToDocx(doc), { fileName: 'resume.docx' });
+      check(extracted.format === 'docx', `Detected as ${extracted.format}`);
+      check(extracted.text.startsWith('Alex Rivera'), `Starts: ${extracted.text.slice(0, 40)}`);
+      compareRoundTrip(resume, extracted.text, 'DOCX', check);
+    }),
+
+    runCase('Cover letter', (check) => {
+      const letter = buildCoverLetterDocument(COVER_LETTER, { applicantName: 'Alex Rivera', applicantEmail: 'alex@example.com' });
+      check(letter.salutation === 'Dear Hiring Manager,', `Salutation: ${letter.salutation}`);
+      check(letter.body.length === 2, `Body paragraphs: ${letter.body.length}`);
+      check(letter.closing === 'Best regards,' && letter.signature === 'Alex Rivera', `Closing: ${letter.closing} / ${letter.signature}`);
+
+      const text = coverLetterToPlainText(letter);
+      check(text.includes(`Dear Hiring Manager,\n\n${letter.body[0]}\n\n${letter.body[1]}\n\nBest regards,\nAlex Rivera`), 'Plain text keeps the letter');
+      check(coverLetterToMarkdown(letter).includes('Best regards,  \nAlex Rivera'), 'Markdown keeps the sign-off lines');
+
+      const extracted = extractDocumentText(coverLetterToDocx(letter), { fileName: 'letter.docx' }).text;
+      check(letter.body.every((p) => extracted.includes(p)), 'DOCX has every paragraph');
+      check(/Best regards,\s*\n\s*Alex Rivera/.test(extracted), 'DOCX sign-off on two lines');
+
+      const html = generateCoverLetterHTML(COVER_LETTER, { applicantName: 'Alex Rivera' });
+      check(html.includes('R&amp;D Labs'), 'HTML renders from the same model');
+    }),
+  ];
+}
+
+/**
+ * Format export results for the log
+ */
+export function formatExportResults(results: CaseResult[]): string {
+  return formatCaseResults('Export formats', results);
+}
@@ -0,0 +1,207 @@
+/**
+ * Document Extraction Tests
+ * Runs local PDF/DOCX extraction against the sample files in fixtures/documents
+ * and checks the scanned-PDF path reaches the LLM (mocked) with the file attached
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { createMockProvider } from '../services/ai/mockProvider';
+import { extractDocumentText, needsOCR } from '../services/extraction';
+import { extractResumeText } from '../services/pdfService';
+import { parseResume } from '../services/tailoring/parser';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const DOCUMENTS_DIR = path.join(__dirname, 'fixtures', 'documents');
+
+interface ExpectedDocument {
+  file: string;
+  pages: number;
+  needsOCR: boolean;
+  // Lines that must appear, in this order
+  lines: string[];
+  // Experiences the resume parser should find in the extracted text
+  experiences?: Array<{ title: string; company: string; bulletCount: number }>;
+}
+
+const expectedDocuments: ExpectedDocument[] = [
+  {
+    file: 'resume-text.pdf',
+    pages: 2,
+    needsOCR: false,
+    lines: [
+      'Jordan Lee',
+      'jordan.lee@example.com | (555) 123-4567 | Denver, CO',
+      'PROFESSIONAL SUMMARY',
+      // TJ kerning gaps become spaces
+      'Backend engineer with 8 years building data platforms.',
+      // Separate chunks on one baseline join; the wide gap before the dates is a column
+      'Senior Data Engineer | Globex Corporation | Mar 2019 - Present',
+      '• Built streaming pipelines in Kafka and Spark processing 2B events per day',
+      '• Cut warehouse costs by 35% by migrating to Snowflake',
+      '• Mentored 4 engineers on Python and Airflow best practices',
+      'Data Engineer | Initech | Jun 2016 - Feb 2019',
+      '• Reduced nightly batch runtime from 6 hours to 90 minutes',
+      // Page 2: CID font with a ToUnicode CMap, declared inside an object stream
+      'EDUCATION',
+      'B.S. Computer Science, University of Colorado, 2016',
+      "Dean's List",
+      'Python, SQL, Kafka, Spark, Airflow, Snowflake, AWS',
+    ],
+    experiences: [
+      { title: 'Senior Data Engineer', company: 'Globex Corporation', bulletCount: 3 },
+      { title: 'Data Engineer', company: 'Initech', bulletCount: 2 },
+    ],
+  },
+  {
+    file: 'resume-scanned.pdf',
+    pages: 1,
+    needsOCR: true,
+    lines: [],
+  },
+  {
+    file: 'resume.docx',
+    pages: 2,
+    needsOCR: false,
+    lines: [
+      // Header part comes first
+      'Sam Rivera',
+      'sam.rivera@example.com | (555) 010-2000 | Austin, TX',
+      'SUMMARY',
+      'Product designer with 6 years of experience shipping B2B & consumer apps.',
+      // Tab before the dates
+      'Senior Product Designer, Northwind Labs | Mar 2021 – Present',
+      '• Led the redesign of the onboarding flow, lifting activation by 18%',
+      '• Built a Figma design system used by 5 product teams',
+      // Layout table row
+      'Product Designer | Contoso | Jan 2018 – Feb 2021',
+      '• Designed checkout improvements that reduced drop-off by 12%',
+      // Text box, without the duplicate fallback copy
+      'Portfolio: sam-rivera.design',
+      'EDUCATION',
+      '1. Nielsen Norman UX Certification',
+      '2. Google UX Design Certificate',
+      'Figma, Sketch, Prototyping, User Research, HTML, CSS',
+    ],
+    experiences: [
+      { title: 'Senior Product Designer', company: 'Northwind Labs', bulletCount: 3 },
+      { title: 'Product Designer', company: 'Contoso', bulletCount: 1 },
+    ],
+  },
+];
+
+function readDocument(file: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(DOCUMENTS_DIR, file)));
+}
+
+/**
+ * Check one sample file: page count, OCR decision, line order, parse
+ */
+export function runExtractionTest(expected: ExpectedDocument): CaseResult {
+  return runCase(expected.file, (check) => {
+    const result = extractDocumentText(readDocument(expected.file), { fileName: expected.file });
+
+    check(result.pages.length === expected.pages, `Pages: got ${result.pages.length}, expected ${expected.pages}`);
+    check(needsOCR(result) === expected.needsOCR, `needsOCR: got ${needsOCR(result)}, expected ${expected.needsOCR}`);
+
+    result.pages.forEach((page) => {
+      const lowConfidence = page.confidence < 0.5;
+      check(
+        lowConfidence === expected.needsOCR,
+        `Page ${page.pageNumber} confidence ${page.confidence} is ${lowConfidence ? 'low' : 'high'}`
+      );
+    });
+
+    // Each expected line must exist, after the previous one
+    const lines = result.text.split('\n');
+    let cursor = 0;
+    for (const line of expected.lines) {
+      const index = lines.indexOf(line, cursor);
+      check(index !== -1, lines.includes(line) ? `Out of order: "${line}"` : `Missing line: "${line}"`);
+      if (index !== -1) cursor = index + 1;
+    }
+
+    if (expected.file.endsWith('.docx')) {
+      check(
+        result.text.split('Portfolio: sam-rivera.design').length === 2,
+        'Text box content should appear exactly once'
+      );
+    }
+
+    if (expected.experiences) {
+      const parsed = parseResume(result.text);
+      check(
+        parsed.experiences.length === expected.experiences.length,
+        `Parsed experiences: got ${parsed.experiences.length}, expected ${expected.experiences.length}`
+      );
+      expected.experiences.forEach((exp, i) => {
+        const actual = parsed.experiences[i];
+        check(
+          actual?.title === exp.title && actual?.company === exp.company && actual?.bullets.length === exp.bulletCount,
+          `Parsed experience ${i + 1}: got "${actual?.title}" at "${actual?.company}" (${actual?.bullets.length} bullets)`
+        );
+      });
+    }
+  });
+}
+
+/**
+ * Scanned PDFs go to the model with the file attached; text PDFs never do
+ */
+export function runFallbackTest(): Promise<CaseResult> {
+  return runCase('Scanned PDF fallback', async (check) => {
+    const previousConfig = getAIConfig();
+    const provider = createMockProvider([
+      {
+        stage: 'pdf_extraction',
+        response: 'Jordan Lee\nEXPERIENCE\nSenior Data Engineer | Globex Corporation | 2019 - Present\n- Built pipelines',
+      },
+    ]);
+    registerProvider(provider);
+    configureAI({ stages: { ...previousConfig.stages, pdf_extraction: { provider: 'mock' } } });
+
+    try {
+      const toBase64 = (file: string) => fs.readFileSync(path.join(DOCUMENTS_DIR, file)).toString('base64');
+
+      const text = await extractResumeText(toBase64('resume-text.pdf'), { fileName: 'resume-text.pdf' });
+      check(text.method === 'local', `Text PDF method: got ${text.method}, expected local`);
+      check(provider.calls.length === 0, `Text PDF made ${provider.calls.length} LLM calls`);
+
+      let fellBack = false;
+      const scanned = await extractResumeText(toBase64('resume-scanned.pdf'), {
+        fileName: 'resume-scanned.pdf',
+        onFallback: () => {
+          fellBack = true;
+        },
+      });
+      check(scanned.method === 'llm', `Scanned PDF method: got ${scanned.method}, expected llm`);
+      check(fellBack, 'onFallback was not called for the scanned PDF');
+      check(scanned.text.startsWith('Jordan Lee'), 'Scanned PDF text should come from the model');
+
+      const attachment = provider.calls[0]?.attachments?.[0];
+      check(attachment?.mimeType === 'application/pdf', 'Scanned PDF request should attach the PDF');
+      check(attachment?.data === toBase64('resume-scanned.pdf'), 'Attachment should carry the original file');
+    } finally {
+      // configureAI merges stages, so clear the override explicitly
+      configureAI({
+        ...previousConfig,
+        stages: { ...previousConfig.stages, pdf_extraction: previousConfig.stages.pdf_extraction },
+      });
+    }
+  });
+}
+
+/**
+ * Run every extraction check
+ */
+export async function runExtractionTests(): Promise<CaseResult[]> {
+  return [...expectedDocuments.map(runExtractionTest), await runFallbackTest()];
+}
+
+/**
+ * Format extraction results for the log
+ */
+export function formatExtractionResults(results: CaseResult[]): string {
+  return formatCaseResults('Document extraction', results);
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock LLM fixtures for offline test runs
+ * Lets the real analyzer/formatter/cover letter code run without API calls
+ */
+
+import { createMockProvider, MockFixture, MockProvider } from '../../services/ai/mockProvider';
+import { configureAI, registerProvider } from '../../services/ai/client';
+import { LLMRequest } from '../../services/ai/types';
+import { testJobDescriptions } from './testJobDescriptions';
+import { preParsedJDs } from './parsedJobDescriptions';
+
+/**
+ * JD analysis: return the pre-parsed requirements for whichever fixture JD is in the prompt
+ */
+const jdAnalysisFixtures: MockFixture[] = testJobDescriptions
+  .filter((jd) => preParsedJDs[jd.id])
+  .map((jd) => ({
+    stage: 'jd_analysis',
+    match: jd.text,
+    response: JSON.stringify(preParsedJDs[jd.id]),
+  }));
+
+/**
+ * Formatting: echo the prioritized bullets back, grouped by experience (no rewording)
+ */
+function mockFormatResponse(request: LLMRequest): string {
+  const experiences: Array<{ title: string; company: string; bullets: string[] }> = [];
+
+  for (const line of request.prompt.split('\n')) {
+    const match = line.match(/^\d+\.\s+\[(.+?) at (.+?)\]\s+(.+)$/);
+    if (!match) continue;
+
+    const [, title, company, bullet] = match;
+    let exp = experiences.find((e) => e.title === title && e.company === company);
+    if (!exp) {
+      exp = { title, company, bullets: [] };
+      experiences.push(exp);
+    }
+    exp.bullets.push(bullet);
+  }
+
+  return JSON.stringify({ experiences });
+}
+
+/**
+ * Cover letter: fill a fixed template from the facts given in the prompt
+ */
+function mockCoverLetterResponse(request: LLMRequest): string {
+  const target = request.prompt.match(/(?:for|For:)\s+(.+?) applying to (.+?) at (.+?)[.\n]/);
+  const name = target?.[1] ?? '[Your Name]';
+  const jobTitle = target?.[2] ?? 'this role';
+  const company = target?.[3] ?? 'your company';
+
+  const evidence = [...request.prompt.matchAll(/^• For ".+?": (.+)$/gm)].map((m) => m[1]);
+  const [first, second, ...rest] = evidence;
+
+  const paragraphs = [
+    'Hi,',
+    `I saw the ${jobTitle} opening at ${company} and it lines up closely with the work I've been doing. ` +
+      `I've spent the last few years on problems that look a lot like the ones described in the posting, and I'd like to bring that to your team.`,
+    first
+      ? `The most relevant example: ${first}. That project taught me how to balance speed with getting the details right, and it's the kind of work I want more of.`
+      : `I've worked across a range of projects that map to what you're looking for, and I'm comfortable picking up whatever the team needs.`,
+    second
+      ? `I've also ${lowerFirst(second)}. But the part I enjoyed most was working with the people around me to figure out what actually mattered.`
+      : `I'm a quick learner. And I like working closely with teammates to figure out what actually matters before building anything.`,
+    rest.length > 0
+      ? `Beyond that, ${lowerFirst(rest[0])}. I think that background would let me contribute at ${company} from the first few weeks.`
+      : `I think that background would let me contribute at ${company} from the first few weeks, and I'd be glad to walk through specifics.`,
+    `Happy to chat more whenever works for you. I can bring examples of past work, ` +
+      `or talk through how I'd spend my first couple of months getting up to speed with the team.`,
+    name,
+  ];
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Sentence rewrite: swap stock phrasing for plain words, sentence by sentence
+ */
+const PLAIN_WORDING: Array<[RegExp, string]> = [
+  [/\bI am writing to express my keen interest in\b/g, "I'm applying for"],
+  [/\bI look forward to the opportunity to\b/g, "I'd like to"],
+  [/\bI am\b/g, "I'm"],
+  [/\bpassionate about\b/gi, 'into'],
+  [/\b(?:excited|thrilled) to\b/gi, 'glad to'],
+  [/\bleverag(?:e|ing)\b/gi, 'using'],
+  [/\b(?:Furthermore|Moreover|Additionally),\s*/g, 'And '],
+  [/\bproven track record of\b/gi, 'history of'],
+  [/\bcutting-edge\b/gi, 'new'],
+  [/\b(?:robust|dynamic|fast-paced),?\s+/gi, ''],
+  [/\bvaluable asset\b/gi, 'real help'],
+  [/\baligns? with\b/gi, 'fits'],
+  [/\bhoned\b/gi, 'built'],
+  [/\bcontribute to your\b/gi, 'help with your'],
+];
+
+function mockSentenceRewriteResponse(request: LLMRequest): string {
+  const section = request.prompt.split('FLAGGED SENTENCES:')[1]?.split('RULES:')[0] ?? '';
+  const rewrites = [...section.matchAll(/^(\d+)\. (.+)$/gm)].map(([, index, text]) => ({
+    index: Number(index),
+    text: PLAIN_WORDING.reduce((out, [pattern, plain]) => out.replace(pattern, plain), text),
+  }));
+  return JSON.stringify({ rewrites });
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * Build a mock provider preloaded with every fixture
+ */
+export function createFixtureMockProvider(): MockProvider {
+  return createMockProvider([
+    ...jdAnalysisFixtures,
+    { stage: 'formatting', response: mockFormatResponse },
+    { stage: 'cover_letter', match: 'FLAGGED SENTENCES:', response: mockSentenceRewriteResponse },
+    { stage: 'cover_letter', response: mockCoverLetterResponse },
+  ]);
+}
+
+/**
+ * Route all LLM calls to the fixture-backed mock provider
+ */
+export function installMockLLM(): MockProvider {
+  const provider = createFixtureMockProvider();
+  registerProvider(provider);
+  configureAI({ provider: 'mock' });
+  return provider;
+}
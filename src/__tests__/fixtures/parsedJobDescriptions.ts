@@ -3,7 +3,8 @@
  * Allows tests to run without API calls
  */
 
-import { JDRequirements, Requirement } from '../../services/tailoring/types';
+import { JDRequirements } from '../../services/tailoring/types';
+import { analyzeJobDescriptionOffline } from '../../services/tailoring/jdRuleAnalyzer';
 
 /**
  * Deterministic JD parser - extracts requirements without API
@@ -15,177 +16,8 @@ export function parseJobDescriptionDeterministic(jdText: string, jdId: string):
     return preParsed;
   }
 
-  // Fallback: extract from text deterministically
-  return extractRequirementsFromText(jdText);
-}
-
-/**
- * Extract requirements from JD text using patterns
- */
-function extractRequirementsFromText(text: string): JDRequirements {
-  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
-  const required: Requirement[] = [];
-  const preferred: Requirement[] = [];
-  const keywords: string[] = [];
-
-  let inRequirements = false;
-  let inPreferred = false;
-  let title = 'Unknown Position';
-  let company: string | undefined;
-
-  // First line is usually title
-  if (lines.length > 0) {
-    title = lines[0];
-  }
-
-  // Second line often has company
-  if (lines.length > 1 && lines[1].includes('|')) {
-    company = lines[1].split('|')[0].trim();
-  }
-
-  for (const line of lines) {
-    const lineLower = line.toLowerCase();
-
-    // Detect section headers
-    if (lineLower.includes('requirement') || lineLower.includes('minimum qualification') ||
-        lineLower.includes('what you need') || lineLower === 'responsibilities') {
-      inRequirements = true;
-      inPreferred = false;
-      continue;
-    }
-    if (lineLower.includes('nice to have') || lineLower.includes('preferred') ||
-        lineLower.includes('bonus')) {
-      inRequirements = false;
-      inPreferred = true;
-      continue;
-    }
-    if (lineLower.includes('about') || lineLower.includes('benefit') ||
-        lineLower.includes('compensation') || lineLower === 'the role' ||
-        lineLower === 'the opportunity') {
-      inRequirements = false;
-      inPreferred = false;
-      continue;
-    }
-
-    // Extract bullet points
-    if (line.startsWith('-') || line.startsWith('•')) {
-      const text = line.replace(/^[-•]\s*/, '').trim();
-      if (text.length > 10 && text.length < 200) {
-        const req = classifyRequirement(text);
-        if (inPreferred) {
-          preferred.push(req);
-        } else if (inRequirements) {
-          required.push(req);
-        }
-      }
-    }
-
-    // Extract keywords
-    extractKeywordsFromLine(line, keywords);
-  }
-
-  return {
-    title,
-    company,
-    required,
-    preferred,
-    keywords: [...new Set(keywords)].slice(0, 15),
-    context: inferContext(text),
-  };
-}
-
-/**
- * Classify a requirement by type and importance
- */
-function classifyRequirement(text: string): Requirement {
-  const lower = text.toLowerCase();
-
-  // Determine type
-  let type: Requirement['type'] = 'other';
-  if (lower.includes('year') && lower.includes('experience')) {
-    type = 'experience';
-  } else if (lower.includes('degree') || lower.includes('bachelor') ||
-             lower.includes('master') || lower.includes('phd')) {
-    type = 'education';
-  } else if (lower.includes('certif')) {
-    type = 'certification';
-  } else if (containsTechnicalSkill(lower)) {
-    type = 'skill';
-  }
-
-  // Determine importance
-  let importance: Requirement['importance'] = 'medium';
-  if (lower.includes('must') || lower.includes('required') ||
-      (lower.includes('year') && lower.includes('experience'))) {
-    importance = 'critical';
-  } else if (lower.includes('strong') || lower.includes('excellent')) {
-    importance = 'high';
-  } else if (lower.includes('familiar') || lower.includes('knowledge of')) {
-    importance = 'low';
-  }
-
-  return { text, type, importance };
-}
-
-/**
- * Check if text contains technical skills
- */
-function containsTechnicalSkill(text: string): boolean {
-  const technicalTerms = [
-    'react', 'javascript', 'typescript', 'python', 'java', 'node', 'sql',
-    'api', 'rest', 'css', 'html', 'testing', 'git', 'docker', 'aws',
-    'figma', 'design', 'wireframe', 'prototype', 'ux', 'ui',
-    'hubspot', 'marketo', 'salesforce', 'marketing', 'abm', 'pipeline',
-    'crm', 'quota', 'enterprise', 'saas',
-  ];
-  return technicalTerms.some(term => text.includes(term));
-}
-
-/**
- * Extract keywords from a line
- */
-function extractKeywordsFromLine(line: string, keywords: string[]): void {
-  const technicalKeywords = [
-    'React', 'TypeScript', 'JavaScript', 'Python', 'Java', 'Node.js', 'SQL',
-    'REST', 'API', 'CSS', 'Redux', 'Jest', 'Next.js', 'Git', 'Docker', 'AWS',
-    'Figma', 'Sketch', 'wireframe', 'prototype', 'UX', 'UI', 'user research',
-    'accessibility', 'WCAG', 'usability testing',
-    'HubSpot', 'Marketo', 'Salesforce', 'ABM', 'demand generation',
-    'MQL', 'pipeline', 'marketing automation', 'B2B', 'SaaS',
-    'enterprise', 'quota', 'ACV', 'ARR', 'revenue', 'Fortune 500',
-  ];
-
-  for (const keyword of technicalKeywords) {
-    if (line.includes(keyword) && !keywords.includes(keyword)) {
-      keywords.push(keyword);
-    }
-  }
-}
-
-/**
- * Infer context from JD text
- */
-function inferContext(text: string): JDRequirements['context'] {
-  const lower = text.toLowerCase();
-
-  let seniorityLevel: 'entry' | 'mid' | 'senior' | 'lead' | 'executive' | undefined;
-  if (lower.includes('vp') || lower.includes('vice president') ||
-      lower.includes('director') || lower.includes('head of')) {
-    seniorityLevel = 'executive';
-  } else if (lower.includes('senior') || lower.includes('lead')) {
-    seniorityLevel = 'senior';
-  } else if (lower.includes('junior') || lower.includes('entry') ||
-             lower.includes('graduate') || lower.includes('intern')) {
-    seniorityLevel = 'entry';
-  } else {
-    seniorityLevel = 'mid';
-  }
-
-  return {
-    seniorityLevel,
-    workStyle: lower.includes('remote') ? 'remote' :
-               lower.includes('hybrid') ? 'hybrid' : 'onsite',
-  };
+  // Fallback: the rule-based analyzer quick mode uses
+  return analyzeJobDescriptionOffline(jdText);
 }
 
 /**
@@ -9,9 +9,19 @@ export interface TestResume {
   category: string;
   expectedSkillCount: number;
   expectedExperienceCount: number;
+  // Exact parser output to assert against (see parserTest.ts)
+  expectedParse?: ExpectedParse;
   text: string;
 }
 
+export interface ExpectedParse {
+  experiences: Array<{ title: string; company: string; dateRange?: string; bulletCount: number }>;
+  hasSummary: boolean;
+  projects?: string[];
+  certifications?: string[];
+  awards?: string[];
+}
+
 export const testResumes: TestResume[] = [
   {
     id: 'swe-mid',
@@ -19,6 +29,13 @@ export const testResumes: TestResume[] = [
     category: 'tech',
     expectedSkillCount: 8,
     expectedExperienceCount: 2,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Software Engineer', company: 'TechStartup Inc', dateRange: 'Jan 2022 - Present', bulletCount: 6 },
+        { title: 'Junior Developer', company: 'WebAgency Co', dateRange: 'Jun 2020 - Dec 2021', bulletCount: 4 },
+      ],
+    },
     text: `ALEX CHEN
 San Francisco, CA | alex.chen@email.com | (415) 555-0123 | linkedin.com/in/alexchen
 
@@ -59,6 +76,14 @@ Tools: Git, Docker, AWS, GitHub Actions, Jira, Figma
     category: 'marketing',
     expectedSkillCount: 10,
     expectedExperienceCount: 3,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Senior Marketing Manager', company: 'CloudSoft Solutions', dateRange: 'Mar 2021 - Present', bulletCount: 6 },
+        { title: 'Marketing Manager', company: 'DataTech Inc', dateRange: 'Jan 2019 - Feb 2021', bulletCount: 5 },
+        { title: 'Marketing Coordinator', company: 'StartupHub', dateRange: 'Jun 2017 - Dec 2018', bulletCount: 4 },
+      ],
+    },
     text: `SARAH JOHNSON
 Boston, MA | sarah.johnson@email.com | (617) 555-0456 | linkedin.com/in/sarahjohnson
 
@@ -106,6 +131,14 @@ Leadership: Team Management, Budget Planning, Cross-functional Collaboration
     category: 'tech',
     expectedSkillCount: 6,
     expectedExperienceCount: 2,
+    expectedParse: {
+      hasSummary: false,
+      experiences: [
+        { title: 'Software Engineering Intern', company: 'BigTech Corp', dateRange: 'May 2023 - Aug 2023', bulletCount: 4 },
+        { title: 'Research Assistant', company: 'UT Austin CS Department', dateRange: 'Jan 2023 - May 2023', bulletCount: 3 },
+      ],
+      projects: ['TaskFlow', 'ML Stock Predictor'],
+    },
     text: `JORDAN PATEL
 Austin, TX | jordan.patel@email.com | (512) 555-0789 | github.com/jordanpatel
 
@@ -156,6 +189,20 @@ ACTIVITIES
     category: 'design',
     expectedSkillCount: 7,
     expectedExperienceCount: 3,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Freelance UX Designer', company: 'Self-Employed', dateRange: 'Jan 2023 - Present', bulletCount: 5 },
+        { title: 'High School English Teacher', company: 'Seattle Public Schools', dateRange: 'Aug 2015 - Dec 2022', bulletCount: 5 },
+        { title: 'Curriculum Designer', company: 'EduTech Startup', dateRange: 'Jan 2020 - Aug 2020', bulletCount: 3 },
+      ],
+      projects: [
+        'Nonprofit Mobile App Redesign',
+        'Healthcare Patient Portal UX Improvement',
+        'E-commerce Checkout Flow Optimization',
+      ],
+      certifications: ['Google UX Design Professional Certificate'],
+    },
     text: `MARIA GONZALEZ
 Seattle, WA | maria.gonzalez@email.com | (206) 555-0321 | portfolio.mariagonzalez.design
 
@@ -207,6 +254,15 @@ PORTFOLIO PROJECTS
     category: 'executive',
     expectedSkillCount: 10,
     expectedExperienceCount: 4,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Vice President of Sales', company: 'EnterpriseSoft Inc', dateRange: 'Jan 2020 - Present', bulletCount: 7 },
+        { title: 'Senior Director of Sales', company: 'CloudServices Co', dateRange: 'Mar 2016 - Dec 2019', bulletCount: 5 },
+        { title: 'Regional Sales Manager', company: 'TechSolutions Ltd', dateRange: 'Jun 2012 - Feb 2016', bulletCount: 4 },
+        { title: 'Account Executive', company: 'StartupTech', dateRange: 'Jan 2009 - May 2012', bulletCount: 3 },
+      ],
+    },
     text: `MICHAEL THOMPSON
 New York, NY | michael.thompson@email.com | (212) 555-0654 | linkedin.com/in/michaelthompson
 
@@ -255,6 +311,108 @@ Industries: SaaS, FinTech, Healthcare IT, Enterprise Software
   },
 ];
 
+/**
+ * Parser-only fixtures: header layouts the main resumes don't cover
+ * (not part of the resume x JD matrix)
+ */
+export const parserTestResumes: TestResume[] = [
+  {
+    id: 'multiline-headers',
+    name: 'Backend Engineer (multi-line job headers)',
+    category: 'parser',
+    expectedSkillCount: 0,
+    expectedExperienceCount: 3,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Senior Software Engineer', company: 'Stripe', dateRange: 'Mar 2021 - Present', bulletCount: 2 },
+        { title: 'Backend Developer', company: 'Acme Logistics', dateRange: '2018 – 2021', bulletCount: 2 },
+        { title: 'Software Engineer Intern', company: 'Globex Corporation', dateRange: 'Jun 2017 - Aug 2017', bulletCount: 1 },
+      ],
+      certifications: ['AWS Certified Solutions Architect', 'Certified Kubernetes Administrator (CKA)'],
+      awards: ['Engineering Excellence Award, Stripe', "Dean's List"],
+    },
+    text: `PRIYA RAMAN
+Denver, CO | priya.raman@email.com | (303) 555-0147
+
+PROFILE
+Backend engineer focused on payments infrastructure and reliability.
+
+WORK EXPERIENCE
+
+Senior Software Engineer
+Stripe | Denver, CO
+Mar 2021 - Present
+- Designed idempotent payment retry service handling 2M requests per day
+- Cut p99 latency by 35% by moving ledger writes to an async queue
+  and batching reconciliation jobs
+
+Acme Logistics — Boulder, CO
+Backend Developer
+2018 – 2021
+- Built shipment tracking APIs in Go serving 400 enterprise customers
+- Migrated cron jobs to Kubernetes CronJobs with alerting
+
+Software Engineer Intern | Jun 2017 - Aug 2017
+Globex Corporation
+- Wrote integration tests for the billing service
+
+CERTIFICATIONS
+AWS Certified Solutions Architect | Amazon Web Services | 2022
+Certified Kubernetes Administrator (CKA) | 2021
+
+HONORS & AWARDS
+- Engineering Excellence Award, Stripe (2023)
+- Dean's List, 2016 | University of Colorado
+`,
+  },
+
+  {
+    id: 'title-at-company',
+    name: 'Product Manager ("Title at Company" headers)',
+    category: 'parser',
+    expectedSkillCount: 0,
+    expectedExperienceCount: 2,
+    expectedParse: {
+      hasSummary: true,
+      experiences: [
+        { title: 'Product Manager', company: 'Shopify', dateRange: '2020 - Present', bulletCount: 2 },
+        { title: 'Associate Product Manager', company: 'Hootsuite', dateRange: '2018 - 2020', bulletCount: 1 },
+      ],
+      projects: ['Budget Buddy'],
+      certifications: ['Project Management Professional (PMP)', 'Certified ScrumMaster (CSM)'],
+      awards: ["President's Club"],
+    },
+    text: `DANA WHITE
+dana.white@email.com | (613) 555-0199
+
+SUMMARY
+Product manager who ships merchant-facing tools, with a background in analytics.
+
+EXPERIENCE
+Product Manager at Shopify
+Ottawa, ON
+2020 - Present
+• Owned the checkout roadmap for 1M merchants
+• Ran 30+ A/B tests on payment flows, lifting conversion by 4%
+Associate Product Manager @ Hootsuite
+Vancouver, BC | 2018 - 2020
+• Launched scheduling analytics used by 20% of customers
+
+PROJECTS
+Budget Buddy: expense tracker for students | https://github.com/danawhite/budget-buddy
+- Built with React Native and Firebase
+
+LICENSES & CERTIFICATIONS
+• Project Management Professional (PMP), PMI, 2021
+• Certified ScrumMaster (CSM) - Scrum Alliance
+
+AWARDS
+President's Club 2022
+`,
+  },
+];
+
 /**
  * Get resume by ID
  */
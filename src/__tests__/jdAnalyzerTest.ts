@@ -0,0 +1,173 @@
+/**
+ * Offline JD Analyzer Tests
+ * Benchmarks the rule-based analyzer against the hand-parsed fixtures in
+ * parsedJobDescriptions.ts, plus layouts those fixtures don't cover
+ */
+
+import { analyzeJobDescriptionOffline } from '../services/tailoring/jdRuleAnalyzer';
+import { tailorResumeQuick } from '../services/tailoring/orchestrator';
+import { JDRequirements, Requirement } from '../services/tailoring/types';
+import { testJobDescriptions } from './fixtures/testJobDescriptions';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { testResumes } from './fixtures/testResumes';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+// Agreement with the hand-parsed fixtures, across every benchmark JD
+const MIN_TYPE_AGREEMENT = 0.9;
+const MIN_IMPORTANCE_AGREEMENT = 0.6;
+const MIN_KEYWORD_RECALL = 0.75;
+
+interface BenchmarkTotals {
+  requirements: number;
+  typeMatches: number;
+  importanceMatches: number;
+  keywords: number;
+  keywordsFound: number;
+}
+
+/**
+ * Compare one analysis with its fixture, adding to the running totals
+ */
+function compareWithFixture(actual: JDRequirements, expected: JDRequirements, totals: BenchmarkTotals, check: Check) {
+  check(actual.title === expected.title, `Title: expected "${expected.title}", got "${actual.title}"`);
+  check(actual.company === expected.company, `Company: expected "${expected.company}", got "${actual.company}"`);
+  check(
+    actual.context.seniorityLevel === expected.context.seniorityLevel,
+    `Seniority: expected ${expected.context.seniorityLevel}, got ${actual.context.seniorityLevel}`
+  );
+  check(
+    actual.context.workStyle === expected.context.workStyle,
+    `Work style: expected ${expected.context.workStyle}, got ${actual.context.workStyle}`
+  );
+
+  const compare = (label: string, actualList: Requirement[], expectedList: Requirement[]) => {
+    for (const requirement of expectedList) {
+      const found = actualList.find((r) => r.text === requirement.text);
+      check(!!found, `${label} missing: "${requirement.text}"`);
+      if (!found) continue;
+      totals.requirements++;
+      if (found.type === requirement.type) totals.typeMatches++;
+      if (found.importance === requirement.importance) totals.importanceMatches++;
+    }
+  };
+  compare('Required', actual.required, expected.required);
+  compare('Preferred', actual.preferred, expected.preferred);
+
+  // Phrases count: "B2B marketing" covers B2B, "wireframes" covers wireframe
+  const keywords = actual.keywords.map((k) => k.toLowerCase());
+  for (const keyword of expected.keywords) {
+    totals.keywords++;
+    const stem = keyword.toLowerCase().replace(/s$/, '');
+    if (keywords.some((k) => k.includes(stem))) totals.keywordsFound++;
+  }
+}
+
+function percent(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 100);
+}
+
+/**
+ * Run every offline analyzer check
+ */
+export async function runJDAnalyzerTests(): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  const totals: BenchmarkTotals = { requirements: 0, typeMatches: 0, importanceMatches: 0, keywords: 0, keywordsFound: 0 };
+
+  for (const jd of testJobDescriptions) {
+    const expected = preParsedJDs[jd.id];
+    if (!expected) continue;
+    results.push(
+      await runCase(`Benchmark: ${jd.id}`, (check) =>
+        compareWithFixture(analyzeJobDescriptionOffline(jd.text), expected, totals, check)
+      )
+    );
+  }
+
+  const typeRate = totals.typeMatches / totals.requirements;
+  const importanceRate = totals.importanceMatches / totals.requirements;
+  const keywordRate = totals.keywordsFound / totals.keywords;
+  results.push(
+    await runCase(
+      `Benchmark agreement (type ${percent(totals.typeMatches, totals.requirements)}%, ` +
+        `importance ${percent(totals.importanceMatches, totals.requirements)}%, ` +
+        `keywords ${percent(totals.keywordsFound, totals.keywords)}%)`,
+      (check) => {
+        check(typeRate >= MIN_TYPE_AGREEMENT, `Type agreement ${percent(totals.typeMatches, totals.requirements)}% is below target`);
+        check(importanceRate >= MIN_IMPORTANCE_AGREEMENT, `Importance agreement ${percent(totals.importanceMatches, totals.requirements)}% is below target`);
+        check(keywordRate >= MIN_KEYWORD_RECALL, `Keyword recall ${percent(totals.keywordsFound, totals.keywords)}% is below target`);
+      }
+    )
+  );
+
+  results.push(
+    await runCase('Colon headings and numbered lists', (check) => {
+      const jd = analyzeJobDescriptionOffline(
+        [
+          'Data Engineer at Riverbend Analytics',
+          'Fully remote within the US.',
+          'What you will do:',
+          '1. Build batch and streaming pipelines in Airflow and Spark',
+          '2. Own data quality for the finance warehouse',
+          'What we are looking for:',
+          '1. 3+ years of experience with Python and SQL',
+          "2. Bachelor's degree in a quantitative field",
+          '3. AWS certification is a plus',
+          'Bonus points:',
+          '- Familiarity with dbt',
+        ].join('\n')
+      );
+
+      check(jd.title === 'Data Engineer' && jd.company === 'Riverbend Analytics', `Header: ${jd.title} / ${jd.company}`);
+      check(jd.required.length === 2, `Expected 2 required, got ${jd.required.map((r) => r.text).join(' | ')}`);
+      check(jd.required[0]?.type === 'skill' && jd.required[0]?.importance === 'critical', `Years requirement: ${JSON.stringify(jd.required[0])}`);
+      check(jd.required[1]?.type === 'education', `Degree requirement: ${JSON.stringify(jd.required[1])}`);
+
+      const certification = jd.preferred.find((r) => r.type === 'certification');
+      check(certification?.text === 'AWS certification', `Inline "a plus" should move to preferred: ${JSON.stringify(jd.preferred)}`);
+      check(jd.preferred.some((r) => r.text === 'Familiarity with dbt' && r.importance === 'low'), 'Bonus section should be preferred');
+
+      check(jd.context.workStyle === 'remote', `Work style: ${jd.context.workStyle}`);
+      check(jd.context.seniorityLevel === 'mid', `Seniority from years: ${jd.context.seniorityLevel}`);
+      check(['Python', 'SQL', 'AWS'].every((k) => jd.keywords.includes(k)), `Keywords: ${jd.keywords.join(', ')}`);
+    })
+  );
+
+  results.push(
+    await runCase('Postings without section headings', (check) => {
+      const jd = analyzeJobDescriptionOffline(
+        [
+          'Line Cook',
+          'The Copper Pot',
+          'We are a neighborhood bistro looking for a line cook to join our evening team.',
+          'You should have 2+ years of experience on a busy line and knowledge of food safety.',
+          'A food handler certificate is required within 30 days of hire.',
+          'We offer shift meals and paid time off.',
+        ].join('\n')
+      );
+
+      check(jd.required.length === 2, `Expected 2 qualification sentences, got ${jd.required.length}`);
+      check(jd.required.some((r) => r.type === 'certification'), 'Certificate sentence should be a certification');
+      check(jd.preferred.length === 0, 'Nothing should be preferred');
+    }),
+
+    await runCase('Quick tailoring runs without an LLM', async (check) => {
+      const jd = testJobDescriptions[0];
+      const result = await tailorResumeQuick(testResumes[0].text, jd.text);
+      const analyze = result.trace?.stages.find((stage) => stage.stage === 'analyze');
+
+      check(!!analyze, 'Trace should include the analyze stage');
+      check(!analyze?.llmCalls, `Analyze stage made ${analyze?.llmCalls} LLM calls`);
+      check(result.matchedItems.length + result.missingItems.length >= 7, 'Requirements should come from the offline analysis');
+      check(result.matchScore > 0, `Match score: ${result.matchScore}`);
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Format offline analyzer results for the log
+ */
+export function formatJDAnalyzerResults(results: CaseResult[]): string {
+  return formatCaseResults('Offline JD analyzer', results);
+}
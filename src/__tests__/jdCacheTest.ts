@@ -0,0 +1,239 @@
+/**
+ * JD Cache Tests
+ * TTL expiry, LRU eviction, invalidation, cache keys and in-flight
+ * deduplication (including cancellation of shared analyses) for
+ * analyzeJobDescriptionCached (in-memory storage, fake clock, mock provider)
+ */
+
+import { AIError, configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { JD_ANALYSIS_PROMPT_VERSION } from '../services/tailoring/jdAnalyzer';
+import {
+  analyzeJobDescriptionCached,
+  configureJDCache,
+  DEFAULT_JD_CACHE_CONFIG,
+  getJDCacheStats,
+  invalidateJDCache,
+  JDCacheStorage,
+  resetJDCacheStats,
+  setJDCacheClock,
+  setJDCacheStorage,
+} from '../services/tailoring/jdCache';
+import { createFixtureMockProvider } from './fixtures/mockLLMResponses';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { testJobDescriptions } from './fixtures/testJobDescriptions';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+// JDs the mock provider can analyze
+const [jdA, jdB, jdC] = testJobDescriptions.filter((jd) => preParsedJDs[jd.id]).map((jd) => jd.text);
+
+interface CacheHarness {
+  // Move the fake clock to this timestamp (ms)
+  setTime: (ms: number) => void;
+  // Analyze and report whether the cache answered
+  isHit: (jdText: string) => Promise<boolean>;
+  // LLM calls made for JD analysis so far
+  analysisCalls: () => number;
+}
+
+/**
+ * Run a case against an empty in-memory cache; the clock, cache config and
+ * AI config are restored afterwards
+ */
+function runCacheCase(
+  name: string,
+  body: (check: Check, harness: CacheHarness) => Promise<void>
+): Promise<CaseResult> {
+  return runCase(name, async (check) => {
+    const aiConfig = getAIConfig();
+    const provider = createFixtureMockProvider();
+    registerProvider(provider);
+    configureAI({ provider: 'mock' });
+
+    let time = 0;
+    setJDCacheClock(() => time);
+    setJDCacheStorage(null);
+    resetJDCacheStats();
+
+    try {
+      await body(check, {
+        setTime: (ms) => {
+          time = ms;
+        },
+        isHit: async (jdText) => (await analyzeJobDescriptionCached(jdText)).cacheHit,
+        analysisCalls: () => provider.calls.filter((c) => c.stage === 'jd_analysis').length,
+      });
+    } finally {
+      configureAI(aiConfig);
+      configureJDCache(DEFAULT_JD_CACHE_CONFIG);
+      setJDCacheClock();
+      setJDCacheStorage(null);
+      resetJDCacheStats();
+    }
+  });
+}
+
+/**
+ * String storage that keeps everything in a plain object (inspectable)
+ */
+function createMemoryStorage(): JDCacheStorage & { data: Record<string, string> } {
+  const data: Record<string, string> = {};
+  return {
+    data,
+    getItem: async (key) => data[key] ?? null,
+    setItem: async (key, value) => {
+      data[key] = value;
+    },
+  };
+}
+
+/**
+ * The value or the error a call settled with
+ */
+async function settled<T>(promise: Promise<T>): Promise<T | Error> {
+  try {
+    return await promise;
+  } catch (error) {
+    return error as Error;
+  }
+}
+
+function isCancelled(result: unknown): boolean {
+  return result instanceof AIError && result.type === 'cancelled';
+}
+
+/**
+ * Run every JD cache check
+ */
+export async function runJDCacheTests(): Promise<CaseResult[]> {
+  return [
+    await runCacheCase('TTL expiry', async (check, { setTime, isHit, analysisCalls }) => {
+      configureJDCache({ ttlMs: 1000 });
+
+      check(!(await isHit(jdA)), 'First analysis should miss');
+      setTime(999);
+      check(await isHit(jdA), 'Should hit just inside the TTL');
+      setTime(1000);
+      check(!(await isHit(jdA)), 'Should miss once the TTL has passed');
+      check(getJDCacheStats().expired === 1, `Expired count: ${getJDCacheStats().expired}`);
+      check(analysisCalls() === 2, `Expected 2 analysis calls, got ${analysisCalls()}`);
+
+      // The re-analysis starts a fresh TTL
+      setTime(1999);
+      check(await isHit(jdA), 'Re-analyzed entry should be fresh');
+    }),
+
+    await runCacheCase('LRU eviction', async (check, { setTime, isHit, analysisCalls }) => {
+      configureJDCache({ maxEntries: 2 });
+
+      await isHit(jdA);
+      setTime(1);
+      await isHit(jdB);
+      setTime(2);
+      check(await isHit(jdA), 'A should still be cached');
+
+      // B is now least recently used
+      setTime(3);
+      await isHit(jdC);
+      const stats = getJDCacheStats();
+      check(stats.size === 2 && stats.evictions === 1, `Size ${stats.size}, evictions ${stats.evictions}`);
+      check(await isHit(jdA), 'Recently used A should survive');
+      check(await isHit(jdC), 'Newest entry C should be cached');
+
+      const callsBefore = analysisCalls();
+      check(!(await isHit(jdB)), 'Least recently used B should be evicted');
+      check(analysisCalls() === callsBefore + 1, 'Evicted entry should be re-analyzed');
+
+      configureJDCache({ maxEntries: 1 });
+      check(getJDCacheStats().size === 1, 'Shrinking the limit should evict immediately');
+    }),
+
+    await runCacheCase('Invalidation', async (check, { isHit }) => {
+      await isHit(jdA);
+      await isHit(jdB);
+
+      // Same normalization as the key, so pasted variants drop the same entry
+      await invalidateJDCache(`  ${jdA.toUpperCase()}\n`);
+      check(!(await isHit(jdA)), 'Invalidated JD should miss');
+      check(await isHit(jdB), 'Other JDs should stay cached');
+
+      await invalidateJDCache();
+      check(getJDCacheStats().size === 0, `Clearing should empty the cache, size ${getJDCacheStats().size}`);
+      check(!(await isHit(jdA)) && !(await isHit(jdB)), 'Everything should miss after clearing');
+    }),
+
+    await runCacheCase('Cache key', async (check, { isHit }) => {
+      await isHit(jdA);
+      check(await isHit(jdA.replace(/\s+/g, '  ').toLowerCase()), 'Whitespace and case should not change the key');
+
+      configureAI({ model: 'mock-2' });
+      check(!(await isHit(jdA)), 'A different model should miss');
+      configureAI({ stages: { jd_analysis: { model: 'mock-3' } } });
+      check(!(await isHit(jdA)), 'A per-stage model should miss');
+      configureAI({ model: undefined, stages: { jd_analysis: {} } });
+      check(await isHit(jdA), 'Switching back should reuse the original entry');
+
+      // Entries written under an older prompt version are never reused
+      const storage = createMemoryStorage();
+      setJDCacheStorage(storage);
+      await isHit(jdB);
+      const [persisted] = Object.values(storage.data);
+      check(persisted?.includes(`"v${JD_ANALYSIS_PROMPT_VERSION}:mock:mock-1:`) ?? false, 'Key should name the prompt version and model');
+
+      setJDCacheStorage(storage);
+      check(await isHit(jdB), 'Persisted entry should load back');
+
+      for (const key of Object.keys(storage.data)) {
+        storage.data[key] = storage.data[key].split(`"v${JD_ANALYSIS_PROMPT_VERSION}:`).join(`"v${JD_ANALYSIS_PROMPT_VERSION - 1}:`);
+      }
+      setJDCacheStorage(storage);
+      check(!(await isHit(jdB)), 'An entry from another prompt version should miss');
+    }),
+
+    await runCacheCase('In-flight deduplication', async (check, { isHit, analysisCalls }) => {
+      const results = await Promise.all([isHit(jdA), isHit(jdA), isHit(jdB)]);
+      check(analysisCalls() === 2, `Expected one call per distinct JD, got ${analysisCalls()}`);
+      // Whichever caller started the analysis, the other one waits on it
+      check(results[0] !== results[1] && !results[2], `Cache hits: ${results.join(', ')}`);
+
+      const stats = getJDCacheStats();
+      check(stats.hits === 1 && stats.misses === 2, `Hits ${stats.hits}, misses ${stats.misses}`);
+    }),
+
+    await runCacheCase('Waiter cancels alone', async (check, { isHit, analysisCalls }) => {
+      // Load the cache first so both callers reach the in-flight check in order
+      await isHit(jdB);
+
+      const controller = new AbortController();
+      const first = analyzeJobDescriptionCached(jdA);
+      const waiter = settled(analyzeJobDescriptionCached(jdA, { signal: controller.signal }));
+      controller.abort();
+
+      check(isCancelled(await waiter), 'The waiter should reject with its own cancellation');
+      check((await first).cacheHit === false, 'The first caller should finish its analysis');
+      check(analysisCalls() === 2, `Expected one analysis for A, got ${analysisCalls() - 1}`);
+      check(await isHit(jdA), 'The finished analysis should be cached');
+    }),
+
+    await runCacheCase('Waiter outlives a cancelled starter', async (check, { isHit, analysisCalls }) => {
+      await isHit(jdB);
+
+      const controller = new AbortController();
+      const first = settled(analyzeJobDescriptionCached(jdA, { signal: controller.signal }));
+      const waiter = settled(analyzeJobDescriptionCached(jdA));
+      controller.abort();
+
+      check(isCancelled(await first), 'The starter should reject as cancelled');
+      const result = await waiter;
+      check(!(result instanceof Error) && result.cacheHit === false, `The waiter should run its own analysis, got ${String(result)}`);
+      check(analysisCalls() === 2, `Expected the waiter's analysis only, got ${analysisCalls() - 1}`);
+      check(await isHit(jdA), "The waiter's analysis should be cached");
+    }),
+  ];
+}
+
+/**
+ * Format JD cache results for the log
+ */
+export function formatJDCacheResults(results: CaseResult[]): string {
+  return formatCaseResults('JD cache', results);
+}
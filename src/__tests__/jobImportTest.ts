@@ -0,0 +1,215 @@
+/**
+ * Job Import Tests
+ * Extraction from saved ATS pages in fixtures/jobPages (no network)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  extractJobPosting,
+  normalizeJobUrl,
+  formatJobDescription,
+  looksLikeUrl,
+  looksLikeHtml,
+  JobImportError,
+  JobSource,
+} from '../services/jobImport';
+import { extractJobHeader } from '../utils/jobDescription';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+interface FixtureCase {
+  file: string;
+  url: string | null;
+  title: string;
+  company: string;
+  location: string;
+  source: JobSource;
+  // Text the description must contain
+  snippets: string[];
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'jobPages');
+
+const FIXTURE_CASES: FixtureCase[] = [
+  {
+    file: 'greenhouse.html',
+    url: 'https://boards.greenhouse.io/northwindlabs/jobs/4012345',
+    title: 'Senior Backend Engineer',
+    company: 'Northwind Labs',
+    location: 'Chicago, IL (Hybrid)',
+    source: 'greenhouse',
+    snippets: ['- Design and ship services in Go and PostgreSQL', '- Mentor engineers & review designs'],
+  },
+  {
+    file: 'lever.html',
+    url: 'https://jobs.lever.co/brightline/8c1d-22',
+    title: 'Product Designer',
+    company: 'Brightline Health',
+    location: 'Remote - US',
+    source: 'lever',
+    snippets: ['- Lead design for scheduling and telehealth features'],
+  },
+  {
+    file: 'workday.html',
+    url: 'https://contoso.wd5.myworkdayjobs.com/en-US/Careers/job/Austin-TX/Data-Analyst-II_R-1234',
+    title: 'Data Analyst II',
+    company: 'Contoso Retail',
+    location: 'Austin, TX',
+    source: 'workday',
+    snippets: ['- Write SQL against our Snowflake warehouse'],
+  },
+  {
+    file: 'ashby.html',
+    url: 'https://jobs.ashbyhq.com/quanta/7f3c',
+    title: 'Machine Learning Engineer',
+    company: 'Quanta AI',
+    location: 'New York, NY',
+    source: 'ashby',
+    snippets: ['- Train and evaluate time-series models in PyTorch', '- Strong Python and SQL'],
+  },
+  {
+    // Saved page shared without its URL - identified by markup
+    file: 'linkedin.html',
+    url: null,
+    title: 'Registered Nurse - ICU',
+    company: 'Fabrikam Health',
+    location: 'Denver, CO',
+    source: 'linkedin',
+    snippets: ['- Active Colorado RN license'],
+  },
+  {
+    file: 'generic.html',
+    url: 'https://coppersauce.example.com/careers/line-cook',
+    title: 'Line Cook',
+    company: 'The Copper Pot',
+    location: '',
+    source: 'generic',
+    snippets: [],
+  },
+];
+
+function readFixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8');
+}
+
+/**
+ * Run every job import check
+ */
+export function runJobImportTests(): CaseResult[] {
+  const results = FIXTURE_CASES.map((fixture) =>
+    runCase(`Fixture: ${fixture.file}`, (check) => {
+      const job = extractJobPosting(readFixture(fixture.file), fixture.url);
+
+      check(job.source === fixture.source, `Source: expected ${fixture.source}, got ${job.source}`);
+      check(job.title === fixture.title, `Title: expected "${fixture.title}", got "${job.title}"`);
+      check(job.company === fixture.company, `Company: expected "${fixture.company}", got "${job.company}"`);
+      if (fixture.location) {
+        check(job.location === fixture.location, `Location: expected "${fixture.location}", got "${job.location}"`);
+      }
+      check(job.url === fixture.url, `URL: expected ${fixture.url}, got ${job.url}`);
+      check(!/<\/?[a-z][^>]*>/i.test(job.description), 'Description still contains HTML tags');
+      check(!/&(amp|lt|gt|nbsp|#\d+);/.test(job.description), 'Description still contains HTML entities');
+      check(/^- \S/m.test(job.description), 'Description lost its bullet points');
+      for (const snippet of fixture.snippets) {
+        check(job.description.includes(snippet), `Description missing "${snippet}"`);
+      }
+      check(
+        (fixture.source === 'generic') === job.warnings.length > 0,
+        `Warnings: ${JSON.stringify(job.warnings)}`
+      );
+    })
+  );
+
+  results.push(
+    runCase('JSON-LD only', (check) => {
+      // Just the <head> of the LinkedIn page: no top card, only the JobPosting block
+      const head = readFixture('linkedin.html').split('<body')[0];
+      const job = extractJobPosting(head, null);
+
+      check(job.source === 'json_ld', `Source: expected json_ld, got ${job.source}`);
+      check(job.title === 'Registered Nurse - ICU', `Title: ${job.title}`);
+      check(job.company === 'Fabrikam Health', `Company: ${job.company}`);
+      check(job.description.includes('- Active Colorado RN license'), 'Escaped description should decode to bullets');
+    }),
+
+    runCase('URL normalization', (check) => {
+      const cases: Array<[string, string]> = [
+        ['jobs.lever.co/brightline/8c1d-22', 'https://jobs.lever.co/brightline/8c1d-22'],
+        [
+          'https://www.linkedin.com/jobs/search/?currentJobId=3812345678&keywords=nurse',
+          'https://www.linkedin.com/jobs/view/3812345678',
+        ],
+        [
+          'https://boards.greenhouse.io/embed/job_app?for=northwindlabs&token=4012345',
+          'https://boards.greenhouse.io/northwindlabs/jobs/4012345',
+        ],
+        [
+          'http://jobs.ashbyhq.com/quanta/7f3c?utm_source=linkedin&gh_src=abc#apply',
+          'https://jobs.ashbyhq.com/quanta/7f3c',
+        ],
+      ];
+      for (const [input, expected] of cases) {
+        const actual = normalizeJobUrl(input);
+        check(actual === expected, `${input}: expected ${expected}, got ${actual}`);
+      }
+
+      let error: unknown = null;
+      try {
+        normalizeJobUrl('mailto:jobs@example.com');
+      } catch (e) {
+        error = e;
+      }
+      check(error instanceof JobImportError && error.type === 'invalid_url', 'mailto: should be an invalid_url error');
+    }),
+
+    runCase('Paste detection', (check) => {
+      check(looksLikeUrl('  https://jobs.lever.co/brightline/8c1d-22\n'), 'URL with whitespace');
+      check(looksLikeUrl('boards.greenhouse.io/northwindlabs/jobs/4012345'), 'URL without scheme');
+      check(!looksLikeUrl('Senior Engineer at example.com'), 'Sentence mentioning a domain');
+      check(looksLikeHtml(readFixture('generic.html')), 'Saved page');
+      check(!looksLikeHtml('Must know <b>SQL</b> and Python'), 'Description with an inline tag');
+    }),
+
+    runCase('Pages without a posting', (check) => {
+      let error: unknown = null;
+      try {
+        extractJobPosting('<html><head><title>Sign in</title></head><body><form>Email</form></body></html>');
+      } catch (e) {
+        error = e;
+      }
+      check(error instanceof JobImportError && error.type === 'not_a_job', 'Login page should be a not_a_job error');
+    }),
+
+    runCase('Malformed page data', (check) => {
+      const description = 'We need someone who ships. &#99999999; &#xD800; Caf&#xe9; &amp; more. '.repeat(4);
+      const html = `<html><head><title>Data Engineer @ Quanta</title></head><body>
+        <script>window.__appData = {"posting":{"title":42,"descriptionHtml":"<p>${description}</p>"},"organization":"Quanta"};</script>
+        </body></html>`;
+      const job = extractJobPosting(html, 'https://jobs.ashbyhq.com/quanta/7f3c');
+
+      check(job.title === 'Data Engineer', `Non-string app data title should fall back to the title tag: ${job.title}`);
+      check(job.company === 'Quanta', `Company: ${job.company}`);
+      check(job.description.includes('&#99999999;') && job.description.includes('&#xD800;'), 'Out-of-range entities stay as written');
+      check(job.description.includes('Café & more'), 'Valid entities still decode');
+    }),
+
+    runCase('Formatted description feeds history', (check) => {
+      const job = extractJobPosting(readFixture('greenhouse.html'), FIXTURE_CASES[0].url);
+      const text = formatJobDescription(job);
+      const header = extractJobHeader(text);
+
+      check(header.jobTitle === job.title, `Header title: ${header.jobTitle}`);
+      check(header.company === job.company, `Header company: ${header.company}`);
+      check(text.endsWith(job.description), 'Description should follow the header');
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Format job import results for the log
+ */
+export function formatJobImportResults(results: CaseResult[]): string {
+  return formatCaseResults('Job import', results);
+}
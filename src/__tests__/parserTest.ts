@@ -0,0 +1,80 @@
+/**
+ * Parser Accuracy Tests
+ * Compares parseResume output against the expectedParse of each fixture
+ */
+
+import { parseResume } from '../services/tailoring/parser';
+import { TestResume, testResumes, parserTestResumes } from './fixtures/testResumes';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+/**
+ * Run parser assertions for every fixture that declares expectedParse
+ */
+export function runParserTests(
+  resumes: TestResume[] = [...testResumes, ...parserTestResumes]
+): CaseResult[] {
+  return resumes.filter((r) => r.expectedParse).map(runParserTest);
+}
+
+/**
+ * Check one resume field by field
+ */
+export function runParserTest(resume: TestResume): CaseResult {
+  return runCase(resume.name, (check) => checkParse(resume, check));
+}
+
+function checkParse(resume: TestResume, check: Check): void {
+  const expected = resume.expectedParse!;
+  const parsed = parseResume(resume.text);
+
+  // Experiences: count, then each header field and bullet count
+  check(
+    parsed.experiences.length === expected.experiences.length,
+    `Experiences: got ${parsed.experiences.length}, expected ${expected.experiences.length}`
+  );
+  expected.experiences.forEach((exp, i) => {
+    const actual = parsed.experiences[i];
+    const label = `Experience ${i + 1}`;
+    check(actual?.title === exp.title, `${label} title: got "${actual?.title}", expected "${exp.title}"`);
+    check(actual?.company === exp.company, `${label} company: got "${actual?.company}", expected "${exp.company}"`);
+    check(
+      actual?.dateRange === exp.dateRange,
+      `${label} dates: got "${actual?.dateRange}", expected "${exp.dateRange}"`
+    );
+    check(
+      actual?.bullets.length === exp.bulletCount,
+      `${label} bullets: got ${actual?.bullets.length}, expected ${exp.bulletCount}`
+    );
+  });
+
+  check(
+    Boolean(parsed.summary) === expected.hasSummary,
+    expected.hasSummary ? 'Summary: not found' : `Summary: unexpected "${parsed.summary?.slice(0, 40)}..."`
+  );
+
+  compareNames('Projects', parsed.projects.map((p) => p.name), expected.projects ?? [], check);
+  compareNames('Certifications', parsed.certifications.map((c) => c.name), expected.certifications ?? [], check);
+  compareNames('Awards', parsed.awards.map((a) => a.name), expected.awards ?? [], check);
+}
+
+/**
+ * Ordered list comparison with a readable diff
+ */
+function compareNames(
+  label: string,
+  actual: string[],
+  expected: string[],
+  check: Check
+): void {
+  check(
+    actual.length === expected.length && actual.every((name, i) => name === expected[i]),
+    `${label}: got [${actual.join(', ')}], expected [${expected.join(', ')}]`
+  );
+}
+
+/**
+ * Format parser results for the log
+ */
+export function formatParserResults(results: CaseResult[]): string {
+  return formatCaseResults('Parser accuracy', results);
+}
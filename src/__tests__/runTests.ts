@@ -15,8 +15,31 @@ import {
   TestSummary,
   THRESHOLDS,
 } from './algorithmTest';
+import { COVER_LETTER_LENGTHS, DEFAULT_COVER_LETTER_OPTIONS } from '../services/tailoring/coverLetter';
 import { testResumes } from './fixtures/testResumes';
 import { testJobDescriptions } from './fixtures/testJobDescriptions';
+import { runStructuredOutputTests, formatStructuredOutputResults } from './structuredOutputTest';
+import { runCancellationTests, formatCancellationResults } from './cancellationTest';
+import { runTelemetryTests, formatTelemetryResults } from './telemetryTest';
+import { runJDCacheTests, formatJDCacheResults } from './jdCacheTest';
+import { runParserTests, formatParserResults } from './parserTest';
+import { runExtractionTests, formatExtractionResults } from './extractionTest';
+import { runTaxonomyTests, formatTaxonomyResults } from './taxonomyTest';
+import { runSemanticTests, formatSemanticResults } from './semanticTest';
+import { runBaseResumeTests, formatBaseResumeResults } from './baseResumeTest';
+import { runBatchTests, formatBatchResults } from './batchTest';
+import { runJobImportTests, formatJobImportResults } from './jobImportTest';
+import { runJDAnalyzerTests, formatJDAnalyzerResults } from './jdAnalyzerTest';
+import { runTenureTests, formatTenureResults } from './tenureTest';
+import { runVerifierTests, formatVerifierResults } from './verifierTest';
+import { runDiffTests, formatDiffResults } from './diffTest';
+import { runEditorTests, formatEditorResults } from './editorTest';
+import { runTemplateTests, formatTemplateResults } from './templateTest';
+import { runExportTests, formatExportResults } from './exportTest';
+import { runCoverLetterTests, formatCoverLetterResults } from './coverLetterTest';
+import { runCoverLetterEval, formatCoverLetterEval } from './coverLetterEval';
+import { runAIDetectionTests, formatAIDetectionResults } from './aiDetectionTest';
+import { configureAIDetection } from '../services/aiDetection';
 
 // Results log file path
 const RESULTS_LOG_PATH = path.join(__dirname, 'results.log');
@@ -62,7 +85,8 @@ Started: ${startTime.toISOString()}
   log(`- Match Score (matching pairs): ${THRESHOLDS.MATCH_SCORE_MIN_FOR_MATCH}-${THRESHOLDS.MATCH_SCORE_MAX_FOR_MATCH}%`, RESULTS_LOG_PATH);
   log(`- Match Score (mismatched pairs): ${THRESHOLDS.MATCH_SCORE_MIN_FOR_MISMATCH}-${THRESHOLDS.MATCH_SCORE_MAX_FOR_MISMATCH}%`, RESULTS_LOG_PATH);
   log(`- AI Detection Max: ${THRESHOLDS.AI_DETECTION_MAX_SCORE}%`, RESULTS_LOG_PATH);
-  log(`- Cover Letter Words: ${THRESHOLDS.COVER_LETTER_MIN_WORDS}-${THRESHOLDS.COVER_LETTER_MAX_WORDS}`, RESULTS_LOG_PATH);
+  const coverLetterRange = COVER_LETTER_LENGTHS[DEFAULT_COVER_LETTER_OPTIONS.length];
+  log(`- Cover Letter Words: ${coverLetterRange.min}-${coverLetterRange.max} (${DEFAULT_COVER_LETTER_OPTIONS.length})`, RESULTS_LOG_PATH);
   log(`- Min Skills: ${THRESHOLDS.MIN_SKILLS_EXTRACTED}`, RESULTS_LOG_PATH);
   log(`- Min Experiences: ${THRESHOLDS.MIN_EXPERIENCES_EXTRACTED}`, RESULTS_LOG_PATH);
   log(`- Min Requirements: ${THRESHOLDS.MIN_JD_REQUIREMENTS}`, RESULTS_LOG_PATH);
@@ -80,6 +104,8 @@ Started: ${startTime.toISOString()}
   }
   if (offlineMode) {
     log(`[INFO] Running in offline mode (no API calls)`, RESULTS_LOG_PATH);
+    // Score letters on-device instead of calling a detection API
+    configureAIDetection({ detector: 'heuristic', fallback: null });
   }
   log('', RESULTS_LOG_PATH);
 
@@ -117,6 +143,194 @@ Started: ${startTime.toISOString()}
 
   analyzeFailures(results, RESULTS_LOG_PATH);
 
+  // Schema validation, the repair call and the formatting fallback (mock provider)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`STRUCTURED OUTPUT`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const structuredOutputResults = await runStructuredOutputTests();
+  log(formatStructuredOutputResults(structuredOutputResults), RESULTS_LOG_PATH);
+  const structuredOutputFailed = structuredOutputResults.some((r) => !r.passed);
+
+  // Aborting a run before, between and during its LLM stages (mock provider)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`CANCELLATION`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const cancellationResults = await runCancellationTests();
+  log(formatCancellationResults(cancellationResults), RESULTS_LOG_PATH);
+  const cancellationFailed = cancellationResults.some((r) => !r.passed);
+
+  // Per-stage tokens, cost estimates and run totals
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`TELEMETRY`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const telemetryResults = await runTelemetryTests();
+  log(formatTelemetryResults(telemetryResults), RESULTS_LOG_PATH);
+  const telemetryFailed = telemetryResults.some((r) => !r.passed);
+
+  // TTL, eviction, invalidation, keys and in-flight sharing of JD analyses (mock provider)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`JD CACHE`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const jdCacheResults = await runJDCacheTests();
+  log(formatJDCacheResults(jdCacheResults), RESULTS_LOG_PATH);
+  const jdCacheFailed = jdCacheResults.some((r) => !r.passed);
+
+  // Parser accuracy (field-level, independent of the JD matrix)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`PARSER ACCURACY`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const parserResults = runParserTests();
+  log(formatParserResults(parserResults), RESULTS_LOG_PATH);
+  const parserFailed = parserResults.some((r) => !r.passed);
+
+  // Local PDF/DOCX extraction against the sample files
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`DOCUMENT EXTRACTION`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const extractionResults = await runExtractionTests();
+  log(formatExtractionResults(extractionResults), RESULTS_LOG_PATH);
+  const extractionFailed = extractionResults.some((r) => !r.passed);
+
+  // Synonym/domain packs and the validator
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`TAXONOMY`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const taxonomyResults = runTaxonomyTests();
+  log(formatTaxonomyResults(taxonomyResults), RESULTS_LOG_PATH);
+  const taxonomyFailed = taxonomyResults.some((r) => !r.passed);
+
+  // Embedding tier (local hashing and stub providers - no network)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`SEMANTIC MATCHING`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const semanticResults = await runSemanticTests();
+  log(formatSemanticResults(semanticResults), RESULTS_LOG_PATH);
+  const semanticFailed = semanticResults.some((r) => !r.passed);
+
+  // Base resume selection
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`BASE RESUME SELECTION`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const baseResumeResults = runBaseResumeTests();
+  log(formatBaseResumeResults(baseResumeResults), RESULTS_LOG_PATH);
+  const baseResumeFailed = baseResumeResults.some((r) => !r.passed);
+
+  // Batch tailoring (queue handling only - no LLM calls)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`BATCH TAILORING`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const batchResults = await runBatchTests();
+  log(formatBatchResults(batchResults), RESULTS_LOG_PATH);
+  const batchFailed = batchResults.some((r) => !r.passed);
+
+  // Job posting import (saved HTML fixtures - no network)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`JOB IMPORT`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const jobImportResults = runJobImportTests();
+  log(formatJobImportResults(jobImportResults), RESULTS_LOG_PATH);
+  const jobImportFailed = jobImportResults.some((r) => !r.passed);
+
+  // Offline JD analyzer, benchmarked against the pre-parsed fixtures
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`OFFLINE JD ANALYZER`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const jdAnalyzerResults = await runJDAnalyzerTests();
+  log(formatJDAnalyzerResults(jdAnalyzerResults), RESULTS_LOG_PATH);
+  const jdAnalyzerFailed = jdAnalyzerResults.some((r) => !r.passed);
+
+  // Tenure and seniority, measured from a fixed date
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`TENURE & SENIORITY`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const tenureResults = runTenureTests();
+  log(formatTenureResults(tenureResults), RESULTS_LOG_PATH);
+  const tenureFailed = tenureResults.some((r) => !r.passed);
+
+  // Fabrication guard on hand-edited formatter output
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`FABRICATION GUARD`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const verifierResults = runVerifierTests();
+  log(formatVerifierResults(verifierResults), RESULTS_LOG_PATH);
+  const verifierFailed = verifierResults.some((r) => !r.passed);
+
+  // Original vs tailored resume diff and accept/revert
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`RESUME DIFF`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const diffResults = runDiffTests();
+  log(formatDiffResults(diffResults), RESULTS_LOG_PATH);
+  const diffFailed = diffResults.some((r) => !r.passed);
+
+  // Editor operations, undo history and live re-scoring
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`EDITOR`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const editorResults = runEditorTests();
+  log(formatEditorResults(editorResults), RESULTS_LOG_PATH);
+  const editorFailed = editorResults.some((r) => !r.passed);
+
+  // Resume layouts, one-page fitting and ATS safety
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`RESUME TEMPLATES`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const templateResults = runTemplateTests();
+  log(formatTemplateResults(templateResults), RESULTS_LOG_PATH);
+  const templateFailed = templateResults.some((r) => !r.passed);
+
+  // DOCX, plain text and Markdown export
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`EXPORT FORMATS`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const exportResults = runExportTests();
+  log(formatExportResults(exportResults), RESULTS_LOG_PATH);
+  const exportFailed = exportResults.some((r) => !r.passed);
+
+  // Cover letter tone, length and structure
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`COVER LETTER OPTIONS`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const coverLetterResults = runCoverLetterTests();
+  log(formatCoverLetterResults(coverLetterResults), RESULTS_LOG_PATH);
+  const coverLetterFailed = coverLetterResults.some((r) => !r.passed);
+
+  // Detector backends, fallback and unmeasured results
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`AI DETECTION`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const aiDetectionResults = await runAIDetectionTests();
+  log(formatAIDetectionResults(aiDetectionResults), RESULTS_LOG_PATH);
+  const aiDetectionFailed = aiDetectionResults.some((r) => !r.passed);
+
+  // Every cover letter strategy over the matching pairs, side by side (report only)
+  log(`\n${'='.repeat(80)}`, RESULTS_LOG_PATH);
+  log(`COVER LETTER STRATEGIES`, RESULTS_LOG_PATH);
+  log(`${'='.repeat(80)}\n`, RESULTS_LOG_PATH);
+
+  const strategyRows = await runCoverLetterEval({ skipAI, offline: offlineMode });
+  log(formatCoverLetterEval(strategyRows), RESULTS_LOG_PATH);
+
   // Final status
   const endTime = new Date();
   const duration = (endTime.getTime() - startTime.getTime()) / 1000;
@@ -130,7 +344,67 @@ Started: ${startTime.toISOString()}
 
   // Return exit code
   const passRate = summary.passRate;
-  if (passRate >= 90) {
+  if (structuredOutputFailed) {
+    log(`\n STRUCTURED OUTPUT FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (cancellationFailed) {
+    log(`\n CANCELLATION FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (telemetryFailed) {
+    log(`\n TELEMETRY FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (jdCacheFailed) {
+    log(`\n JD CACHE FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (parserFailed) {
+    log(`\n PARSER ACCURACY FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (extractionFailed) {
+    log(`\n DOCUMENT EXTRACTION FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (taxonomyFailed) {
+    log(`\n TAXONOMY FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (semanticFailed) {
+    log(`\n SEMANTIC MATCHING FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (baseResumeFailed) {
+    log(`\n BASE RESUME SELECTION FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (batchFailed) {
+    log(`\n BATCH TAILORING FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (jobImportFailed) {
+    log(`\n JOB IMPORT FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (jdAnalyzerFailed) {
+    log(`\n OFFLINE JD ANALYZER FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (tenureFailed) {
+    log(`\n TENURE & SENIORITY FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (verifierFailed) {
+    log(`\n FABRICATION GUARD FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (diffFailed) {
+    log(`\n RESUME DIFF FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (editorFailed) {
+    log(`\n EDITOR FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (templateFailed) {
+    log(`\n RESUME TEMPLATE FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (exportFailed) {
+    log(`\n EXPORT FORMAT FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (coverLetterFailed) {
+    log(`\n COVER LETTER OPTION FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (aiDetectionFailed) {
+    log(`\n AI DETECTION FAILURES (see above)`, RESULTS_LOG_PATH);
+    process.exit(1);
+  } else if (passRate >= 90) {
     log(`\n SUCCESS: ${passRate}% pass rate meets 90% target!`, RESULTS_LOG_PATH);
     process.exit(0);
   } else {
@@ -178,7 +452,7 @@ function analyzeFailures(results: TestResult[], logFile: string) {
     if (tooLow.length > 0) {
       log(`\nScores too low for expected matches: ${tooLow.length}`, logFile);
       log(`Recommendations:`, logFile);
-      log(`  1. Check matcher.ts synonym lists - add missing synonyms`, logFile);
+      log(`  1. Check the taxonomy packs (tailoring/taxonomy/packs) - add missing synonyms`, logFile);
       log(`  2. Check scoring weights - may be too harsh`, logFile);
       log(`  3. Check parser.ts - may be missing skills extraction`, logFile);
 
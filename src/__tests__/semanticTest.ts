@@ -0,0 +1,209 @@
+/**
+ * Semantic Matching Tests
+ * Local hashing embeddings, the per-resume vector cache, provider fallback
+ * blending into matchResume and embedding usage on the run trace (with a
+ * stub provider standing in for a real embedding model)
+ */
+
+import { matchResume } from '../services/tailoring/matcher';
+import { parseResume } from '../services/tailoring/parser';
+import { tailorResumeQuick } from '../services/tailoring/orchestrator';
+import {
+  EmbeddingProvider,
+  buildSemanticIndex,
+  clearSemanticCache,
+  createHashingEmbeddingProvider,
+  hashEmbed,
+} from '../services/tailoring/semantic';
+import { JDRequirements } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const RESUME_TEXT = `Casey Morgan
+casey@example.com
+
+EXPERIENCE
+Product Manager | Shopline | 2020 - Present
+- Owned the checkout funnel end to end
+- Ran weekly planning with engineering and design
+
+SKILLS
+Roadmapping, SQL, Jira`;
+
+const JD: JDRequirements = {
+  title: 'Growth Product Manager',
+  required: [{ text: 'Conversion optimization', type: 'skill', importance: 'high' }],
+  preferred: [],
+  keywords: [],
+  context: {},
+};
+
+const GROWTH_JD = `Growth Product Manager
+Acme
+
+We're hiring a product manager to own conversion optimization across our checkout.
+Requirements:
+- 3+ years of product management
+- Conversion optimization
+- SQL`;
+
+// Stub model: texts about the same concept get nearly the same vector
+const CONCEPTS: Array<[RegExp, number[]]> = [
+  [/conversion|checkout funnel/i, [1, 0, 0]],
+  [/planning|roadmap/i, [0, 1, 0]],
+];
+
+function createStubProvider(calls: string[][] = []): EmbeddingProvider {
+  return {
+    id: 'stub',
+    floor: 0.3,
+    ceiling: 0.9,
+    async embed(texts) {
+      calls.push(texts);
+      return texts.map((text) => CONCEPTS.find(([pattern]) => pattern.test(text))?.[1] ?? [0, 0, 1]);
+    },
+  };
+}
+
+/**
+ * Run every semantic matching check
+ */
+export async function runSemanticTests(): Promise<CaseResult[]> {
+  clearSemanticCache();
+
+  return [
+    await runCase('Hashing embedder', async (check) => {
+      const a = hashEmbed('Optimized conversion rates on landing pages');
+      const length = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+      check(Math.abs(length - 1) < 1e-9, `Vector should be unit length, got ${length}`);
+      check(
+        JSON.stringify(a) === JSON.stringify(hashEmbed('Optimized conversion rates on landing pages')),
+        'Embedding should be deterministic'
+      );
+
+      const dot = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0);
+      const related = dot(hashEmbed('Conversion optimization'), a);
+      const unrelated = dot(hashEmbed('Managed payroll for 40 employees'), a);
+      check(related > 0.25, `Inflected overlap should score above the floor: ${related.toFixed(3)}`);
+      check(unrelated < 0.1, `Unrelated text should score near zero: ${unrelated.toFixed(3)}`);
+    }),
+
+    await runCase('Semantic matches', async (check) => {
+      const resume = parseResume(RESUME_TEXT);
+
+      const lexical = matchResume(resume, JD);
+      check(lexical.matched.length === 0, 'Paraphrase should not match lexically');
+
+      const index = await buildSemanticIndex(resume, JD, { provider: createStubProvider() });
+      const semantic = matchResume(resume, JD, undefined, index);
+      const match = semantic.matched[0];
+      check(semantic.matched.length === 1, 'Semantic tier should match the paraphrase');
+      check(match?.matchType === 'semantic', `Match type: got ${match?.matchType}, expected semantic`);
+      check(match?.originalText === 'Owned the checkout funnel end to end', `Matched: ${match?.originalText}`);
+      check((match?.similarity ?? 0) > 0.99, `Similarity should be reported: ${match?.similarity}`);
+      check((match?.score ?? 100) < 85, `Semantic matches should not reach exact: ${match?.score}`);
+    }),
+
+    await runCase('Scores only go up', async (check) => {
+      const resume = parseResume(testResumes[0].text);
+      const jd = preParsedJDs['senior-react'];
+      const index = await buildSemanticIndex(resume, jd, { provider: createHashingEmbeddingProvider() });
+
+      const before = matchResume(resume, jd);
+      const after = matchResume(resume, jd, undefined, index);
+      const scores = (r: typeof before) =>
+        new Map([...r.matched, ...r.missing].map((m) => [m.requirement.text, m.score]));
+      const lexicalScores = scores(before);
+
+      for (const [text, score] of scores(after)) {
+        check(score >= (lexicalScores.get(text) ?? 0), `"${text}" dropped from ${lexicalScores.get(text)} to ${score}`);
+      }
+    }),
+
+    await runCase('Vector cache', async (check) => {
+      clearSemanticCache();
+      const calls: string[][] = [];
+      const provider = createStubProvider(calls);
+      const resume = parseResume(RESUME_TEXT);
+
+      await buildSemanticIndex(resume, JD, { provider });
+      await buildSemanticIndex(resume, JD, { provider });
+      check(calls.length === 2, `Expected one request per build, got ${calls.length}`);
+      check(calls[0]?.length > 1, 'First build should embed requirements and resume items');
+      check(
+        calls[1]?.length === 1 && calls[1][0] === 'Conversion optimization',
+        `Second build should only embed requirements, embedded: ${calls[1]?.join(' / ')}`
+      );
+    }),
+
+    await runCase('Provider fallback', async (check) => {
+      const failing: EmbeddingProvider = {
+        id: 'offline',
+        floor: 0.3,
+        ceiling: 0.6,
+        async embed() {
+          throw new Error('Network request failed');
+        },
+      };
+      const resume = parseResume(RESUME_TEXT);
+      const errors: string[] = [];
+      const onError = (message: string, error: unknown) => errors.push(`${message} ${(error as Error).message}`);
+
+      const index = await buildSemanticIndex(resume, JD, { provider: failing, onError });
+      check(index?.provider === 'hashing-1024', `Should fall back to hashing, got ${index?.provider}`);
+      check(
+        errors.length === 1 && errors[0] === 'Embedding provider offline failed, using hashing-1024: Network request failed',
+        `Fallback should report the failure: ${errors.join(' | ')}`
+      );
+
+      const none = await buildSemanticIndex(resume, JD, { provider: failing, fallback: null, onError });
+      check(none === null, 'No fallback should skip the tier');
+      check(errors[1] === 'Semantic matching unavailable: Network request failed', `Skipping should report why: ${errors[1]}`);
+    }),
+
+    await runCase('Embedding usage on the trace', async (check) => {
+      clearSemanticCache();
+      const calls: string[][] = [];
+      const stub = createStubProvider(calls);
+      const billed: EmbeddingProvider = {
+        ...stub,
+        id: 'billed-stub',
+        async embed(texts, options) {
+          options?.onUsage?.({
+            provider: 'openai',
+            model: 'text-embedding-3-small',
+            promptTokens: 50_000,
+            completionTokens: 0,
+            durationMs: 1,
+            estimated: false,
+          });
+          return stub.embed(texts, options);
+        },
+      };
+
+      const result = await tailorResumeQuick(RESUME_TEXT, GROWTH_JD, undefined, { semantic: { provider: billed } });
+      const match = result.trace?.stages.find((stage) => stage.stage === 'match');
+      check(match?.promptTokens === 50_000, `Match stage tokens: ${match?.promptTokens}`);
+      check(match?.model === 'text-embedding-3-small', `Match stage model: ${match?.model}`);
+      check(Math.abs((match?.estimatedCost ?? 0) - 0.001) < 1e-9, `Match stage cost: ${match?.estimatedCost}`);
+      check(result.trace?.promptTokens === 50_000, `Run total tokens: ${result.trace?.promptTokens}`);
+
+      // The semantic tier is off unless a run or its settings turn it on
+      calls.length = 0;
+      const plain = await tailorResumeQuick(RESUME_TEXT, GROWTH_JD);
+      check(calls.length === 0, 'Nothing should be embedded by default');
+      check(plain.trace?.stages.find((stage) => stage.stage === 'match')?.promptTokens === undefined, 'No embedding usage by default');
+
+      const local = await tailorResumeQuick(RESUME_TEXT, GROWTH_JD, undefined, { settings: { semanticMatching: 'local' } });
+      check(local.trace?.stages.find((stage) => stage.stage === 'match')?.promptTokens === undefined, 'On-device embeddings are free');
+    }),
+  ];
+}
+
+/**
+ * Format semantic results for the log
+ */
+export function formatSemanticResults(results: CaseResult[]): string {
+  return formatCaseResults('Semantic matching', results);
+}
@@ -0,0 +1,150 @@
+/**
+ * Structured Output Tests
+ * callStructured's validate -> repair -> StructuredOutputError path, and
+ * the orchestrator's fallback to the original wording when formatting
+ * can't be validated (mock provider)
+ */
+
+import { configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { createMockProvider, MockFixture } from '../services/ai/mockProvider';
+import { callStructured, s, StructuredOutputError } from '../services/ai/structuredOutput';
+import { setJDCacheStorage } from '../services/tailoring/jdCache';
+import { tailorResume } from '../services/tailoring/orchestrator';
+import { createFixtureMockProvider } from './fixtures/mockLLMResponses';
+import { getResumeById } from './fixtures/testResumes';
+import { getJDById } from './fixtures/testJobDescriptions';
+import { CaseResult, Check, runCase, formatCaseResults } from './testCase';
+
+const itemSchema = s.object({
+  name: s.string({ minLength: 1 }),
+  count: s.number(),
+});
+
+const PROMPT = 'Return JSON: {"name": string, "count": number}';
+
+/**
+ * Route calls to a mock with these fixtures; the previous AI config is
+ * restored after the case
+ */
+function runMockCase(
+  name: string,
+  fixtures: MockFixture[],
+  body: (check: Check, calls: ReturnType<typeof createMockProvider>['calls']) => Promise<void>
+): Promise<CaseResult> {
+  return runCase(name, async (check) => {
+    const aiConfig = getAIConfig();
+    const provider = createMockProvider(fixtures);
+    registerProvider(provider);
+    configureAI({ provider: 'mock' });
+
+    try {
+      await body(check, provider.calls);
+    } finally {
+      configureAI(aiConfig);
+    }
+  });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+/**
+ * Run every structured output check
+ */
+export async function runStructuredOutputTests(): Promise<CaseResult[]> {
+  // No AsyncStorage under Node
+  setJDCacheStorage(null);
+
+  return [
+    await runMockCase(
+      'Valid first response',
+      [{ response: '{"name": "Ada", "count": 3}' }],
+      async (check, calls) => {
+        const data = await callStructured({ prompt: PROMPT, stage: 'formatting', schema: itemSchema });
+        check(data.name === 'Ada' && data.count === 3, `Parsed: ${JSON.stringify(data)}`);
+        check(calls.length === 1, `Expected 1 call, got ${calls.length}`);
+        check(calls[0]?.jsonMode === true, 'Structured calls should use JSON mode');
+      }
+    ),
+
+    await runMockCase(
+      'Repaired response',
+      [
+        { match: 'Validation errors:', response: '{"name": "Ada", "count": 3}' },
+        { response: '{"name": "Ada", "count": "three"}' },
+      ],
+      async (check, calls) => {
+        const data = await callStructured({ prompt: PROMPT, stage: 'formatting', schema: itemSchema });
+        check(data.count === 3, `Repaired count: ${data.count}`);
+        check(calls.length === 2, `Expected the original call and one repair, got ${calls.length}`);
+
+        const repair = calls[1]?.prompt ?? '';
+        check(repair.includes('- count: expected number, got string'), 'Repair prompt should list the failing field');
+        check(repair.includes(PROMPT), 'Repair prompt should repeat the original instructions');
+        check(repair.includes('"count": "three"'), 'Repair prompt should include the invalid response');
+        check(calls[1]?.temperature === 0, `Repair should be deterministic, temperature ${calls[1]?.temperature}`);
+      }
+    ),
+
+    await runMockCase(
+      'Double failure',
+      [
+        { match: 'Validation errors:', response: 'Sorry, here is the data: name Ada' },
+        { response: '{"name": ""}' },
+      ],
+      async (check, calls) => {
+        const error = await rejection(callStructured({ prompt: PROMPT, stage: 'formatting', schema: itemSchema }));
+        check(error instanceof StructuredOutputError, `Expected StructuredOutputError, got ${String(error)}`);
+        if (error instanceof StructuredOutputError) {
+          check(error.stage === 'formatting', `Error stage: ${error.stage}`);
+          check(error.issues[0]?.path === '$' && /not valid JSON/.test(error.issues[0].message), 'Issues describe the repaired response');
+          check(error.rawResponse.startsWith('Sorry'), 'Raw repaired response is kept');
+        }
+        check(calls.length === 2, `Only one repair should be attempted, got ${calls.length} calls`);
+      }
+    ),
+
+    await runCase('Formatting fallback', async (check) => {
+      const aiConfig = getAIConfig();
+      const fixtures = createFixtureMockProvider();
+      // Every formatting response (and its repair) is unusable
+      registerProvider({
+        ...fixtures,
+        complete: (request) =>
+          request.stage === 'formatting'
+            ? Promise.resolve({ content: '{"experiences": "none"}' })
+            : fixtures.complete(request),
+      });
+      configureAI({ provider: 'mock' });
+
+      try {
+        const resume = getResumeById('swe-mid')!;
+        const result = await tailorResume(resume.text, getJDById('senior-react')!.text, undefined, {
+          settings: { aiDetection: false },
+        });
+
+        const fallback = result.fallbacks?.[0];
+        check(fallback?.stage === 'formatting', `Fallbacks: ${JSON.stringify(result.fallbacks)}`);
+        check((fallback?.issues?.length ?? 0) > 0, 'The fallback should carry the validation issues');
+        check(result.resume.experiences.length > 0, 'The original resume should stand in');
+        check(!result.verification, 'Unformatted output has nothing to verify');
+        check(result.coverLetter.length > 0, 'The rest of the run still completes');
+      } finally {
+        configureAI(aiConfig);
+      }
+    }),
+  ];
+}
+
+/**
+ * Format structured output results for the log
+ */
+export function formatStructuredOutputResults(results: CaseResult[]): string {
+  return formatCaseResults('Structured output', results);
+}
@@ -0,0 +1,133 @@
+/**
+ * Taxonomy Tests
+ * Built-in packs must load cleanly; the validator must catch cycles,
+ * conflicting aliases and malformed packs; custom synonyms must reach
+ * the matcher
+ */
+
+import { matchResume } from '../services/tailoring/matcher';
+import { parseResume } from '../services/tailoring/parser';
+import {
+  BUILT_IN_PACKS,
+  TaxonomyError,
+  TaxonomyPack,
+  loadTaxonomy,
+  validateTaxonomy,
+} from '../services/tailoring/taxonomy';
+import { JDRequirements } from '../services/tailoring/types';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+function makePack(id: string, synonyms: Record<string, string[]>): TaxonomyPack {
+  return { format: 1, id, name: id, version: '0.0.1', synonyms: [{ category: 'TEST', synonyms }] };
+}
+
+/**
+ * Run every taxonomy check
+ */
+export function runTaxonomyTests(): CaseResult[] {
+  return [
+    runCase('Built-in packs', (check) => {
+      const errors = validateTaxonomy().filter((i) => i.severity === 'error');
+      check(errors.length === 0, `Built-in packs have errors: ${errors.map((e) => e.message).join('; ')}`);
+
+      const taxonomy = loadTaxonomy();
+      const domainIds = taxonomy.domains.map((d) => d.id);
+      for (const pack of BUILT_IN_PACKS) {
+        check(taxonomy.packs.includes(pack.id), `Pack ${pack.id} not loaded`);
+        for (const id of Object.keys(pack.domains ?? {})) {
+          check(domainIds.includes(id), `Domain ${id} from ${pack.id} missing`);
+        }
+      }
+      check(
+        taxonomy.synonyms.every((g) => g.terms.every((t) => t === t.toLowerCase())),
+        'Compiled terms should be lowercase'
+      );
+    }),
+
+    runCase('Cycle detection', (check) => {
+      const issues = validateTaxonomy([
+        makePack('a', { 'front end': ['ui engineering'], 'ui engineering': ['web ui'] }),
+        makePack('b', { 'web ui': ['front end'] }),
+      ]);
+      const cycles = issues.filter((i) => i.type === 'cycle');
+      check(cycles.length === 1, `Expected 1 cycle, got ${cycles.length}`);
+      check(cycles[0]?.severity === 'error', 'Cycles should be errors');
+      check(
+        ['front end', 'ui engineering', 'web ui'].every((t) => cycles[0]?.terms?.includes(t)),
+        `Cycle terms: ${cycles[0]?.terms?.join(', ')}`
+      );
+
+      // A narrower term listed under a broader one is not a cycle
+      const hierarchy = validateTaxonomy([makePack('c', { analytics: ['reporting'], reporting: ['dashboards'] })]);
+      check(!hierarchy.some((i) => i.type === 'cycle'), 'One-way link reported as a cycle');
+    }),
+
+    runCase('Conflicting aliases', (check) => {
+      const issues = validateTaxonomy([makePack('a', { scheduling: ['rostering'], staffing: ['rostering'] })]);
+      const conflict = issues.find((i) => i.type === 'conflicting_alias');
+      check(!!conflict, 'Shared alias not reported');
+      check(conflict?.severity === 'warning', 'Conflicts should be warnings');
+
+      const custom = validateTaxonomy(BUILT_IN_PACKS, [{ term: 'payroll', aliases: ['budget', 'rostering'] }]);
+      check(custom.every((i) => i.severity !== 'error'), 'Valid custom synonyms reported as errors');
+
+      const shortAlias = validateTaxonomy([makePack('a', { 'registered nurse': ['rn'] })]);
+      check(shortAlias.some((i) => i.type === 'short_alias'), 'Two-letter alias not reported');
+    }),
+
+    runCase('Invalid packs', (check) => {
+      const bad = { ...makePack('bad', {}), format: 99 };
+      check(
+        validateTaxonomy([bad]).some((i) => i.type === 'invalid_format'),
+        'Unsupported format not reported'
+      );
+
+      let threw = false;
+      try {
+        loadTaxonomy({ packs: [bad] });
+      } catch (error) {
+        threw = error instanceof TaxonomyError;
+      }
+      check(threw, 'loadTaxonomy should throw TaxonomyError for a bad pack');
+
+      const custom = validateTaxonomy([], [{ term: '', aliases: ['x'] }]);
+      check(custom.some((i) => i.type === 'invalid_format'), 'Empty custom term not reported');
+    }),
+
+    runCase('Custom synonyms in matching', (check) => {
+      const resume = parseResume(`Alex Kim
+alex@example.com
+
+EXPERIENCE
+Sous Chef | Harbor Bistro | 2019 - Present
+- Ran the pass during dinner service for a 120-seat dining room
+- Trained six line cooks on plating standards
+
+SKILLS
+Menu costing, Plating, Team leadership`);
+      const jd: JDRequirements = {
+        title: 'Kitchen Manager',
+        company: 'Test',
+        required: [{ text: 'Expeditor', type: 'skill', importance: 'high' }],
+        preferred: [],
+        keywords: [],
+        context: {},
+      };
+
+      const builtIn = matchResume(resume, jd);
+      check(builtIn.matched.length === 0, 'Requirement should be missing without custom synonyms');
+
+      const taxonomy = loadTaxonomy({ customSynonyms: [{ term: 'expeditor', aliases: ['ran the pass'] }] });
+      check(taxonomy.version.endsWith('+custom'), `Version should mark custom terms: ${taxonomy.version}`);
+      const custom = matchResume(resume, jd, taxonomy);
+      check(custom.matched.length === 1, 'Custom synonym should match the bullet');
+    }),
+  ];
+}
+
+/**
+ * Format taxonomy results for the log
+ */
+export function formatTaxonomyResults(results: CaseResult[]): string {
+  return formatCaseResults('Taxonomy', results);
+}
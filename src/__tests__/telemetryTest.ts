@@ -0,0 +1,133 @@
+/**
+ * Telemetry Tests
+ * Per-stage token counts, cost estimates and run totals from the trace
+ * recorder, and the trace a mock-backed tailorResume run carries
+ */
+
+import { configureAI, getAIConfig, registerProvider } from '../services/ai/client';
+import { estimateCost } from '../services/ai/pricing';
+import { AIProviderName, LLMUsage } from '../services/ai/types';
+import { setJDCacheStorage } from '../services/tailoring/jdCache';
+import { tailorResume } from '../services/tailoring/orchestrator';
+import { createTraceRecorder } from '../services/tailoring/telemetry';
+import { createFixtureMockProvider } from './fixtures/mockLLMResponses';
+import { getResumeById } from './fixtures/testResumes';
+import { getJDById } from './fixtures/testJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+/**
+ * One reported LLM call
+ */
+function usage(
+  promptTokens: number,
+  completionTokens: number,
+  model = 'gpt-4o-mini',
+  provider: AIProviderName = 'openai',
+  estimated = false
+): LLMUsage {
+  return { promptTokens, completionTokens, provider, model, durationMs: 1, estimated };
+}
+
+// Costs are fractions of a cent; compare to well below that
+function sameCost(a: number | undefined, b: number): boolean {
+  return a !== undefined && Math.abs(a - b) < 1e-12;
+}
+
+/**
+ * Run every telemetry check
+ */
+export async function runTelemetryTests(): Promise<CaseResult[]> {
+  return [
+    await runCase('Per-stage tokens', async (check) => {
+      const trace = createTraceRecorder();
+      await trace.time('parse', () => 'no model');
+      await trace.time('analyze', (context) => {
+        context.onUsage?.(usage(1200, 300));
+        // A schema repair is a second call on the same stage
+        context.onUsage?.(usage(800, 200, 'gpt-4o-mini', 'openai', true));
+      });
+      await trace.time('format', (context) => context.onUsage?.(usage(2000, 700)));
+
+      const summary = trace.finish();
+      const [parse, analyze, format] = summary.stages;
+      check(summary.stages.map((s) => s.stage).join(',') === 'parse,analyze,format', 'Stages keep run order');
+      check(parse.llmCalls === undefined && parse.promptTokens === undefined, 'Stages without a model have no LLM fields');
+      check(analyze.llmCalls === 2, `Analyze calls: ${analyze.llmCalls}`);
+      check(analyze.promptTokens === 2000 && analyze.completionTokens === 500, `Analyze tokens: ${analyze.promptTokens}/${analyze.completionTokens}`);
+      check(analyze.tokensEstimated === true, 'One estimated call marks the stage estimated');
+      check(format.tokensEstimated === false, 'Reported usage is not estimated');
+      check(analyze.provider === 'openai' && analyze.model === 'gpt-4o-mini', `Analyze target: ${analyze.provider}/${analyze.model}`);
+      check(summary.promptTokens === 4000 && summary.completionTokens === 1200, `Run tokens: ${summary.promptTokens}/${summary.completionTokens}`);
+    }),
+
+    await runCase('Cost totals', async (check) => {
+      const trace = createTraceRecorder();
+      await trace.time('analyze', (context) => context.onUsage?.(usage(1_000_000, 1_000_000)));
+      await trace.time('format', (context) => context.onUsage?.(usage(2000, 1000, 'gpt-4o')));
+      await trace.time('cover_letter', (context) => {
+        context.onUsage?.(usage(500, 500, 'some-unlisted-model'));
+        context.onUsage?.(usage(500, 500));
+      });
+      await trace.time('match', (context) => context.onUsage?.(usage(5000, 0, 'text-embedding-3-small')));
+
+      const [analyze, format, coverLetter, match] = trace.finish().stages;
+      check(sameCost(analyze.estimatedCost, 0.75), `gpt-4o-mini at 1M/1M: ${analyze.estimatedCost}`);
+      check(sameCost(format.estimatedCost, 0.015), `gpt-4o at 2k/1k: ${format.estimatedCost}`);
+      check(coverLetter.estimatedCost === undefined, 'An unpriced call leaves the stage cost unknown');
+      check(sameCost(match.estimatedCost, 0.0001), `Embeddings at 5k: ${match.estimatedCost}`);
+
+      const total = trace.finish().estimatedCost;
+      check(sameCost(total, 0.75 + 0.015 + 0.0001), `Run cost sums priced stages: ${total}`);
+    }),
+
+    runCase('Price table', (check) => {
+      check(estimateCost('mock', 'mock-1', usage(10_000, 10_000)) === 0, 'Mock provider is free');
+      check(estimateCost('local', 'llama3', usage(10_000, 10_000)) === 0, 'Local models are free');
+      check(sameCost(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage(1_000_000, 0)), 0.15), 'Dated model names use the mini price');
+      check(sameCost(estimateCost('openai', 'gpt-4o-2024-08-06', usage(0, 1_000_000)), 10), 'gpt-4o completion price');
+      check(sameCost(estimateCost('anthropic', 'claude-3-5-haiku-latest', usage(1_000_000, 1_000_000)), 4.8), 'Claude prices by prefix');
+      check(estimateCost('openai', 'o9-preview', usage(1000, 1000)) === undefined, 'Unknown models are unpriced');
+    }),
+
+    await runCase('Trace on a tailoring run', async (check) => {
+      const aiConfig = getAIConfig();
+      registerProvider(createFixtureMockProvider());
+      configureAI({ provider: 'mock' });
+      setJDCacheStorage(null);
+
+      try {
+        const resume = getResumeById('swe-mid')!;
+        const result = await tailorResume(resume.text, getJDById('senior-react')!.text, undefined, {
+          settings: { aiDetection: false },
+        });
+
+        const { stages, promptTokens, completionTokens, estimatedCost } = result.trace!;
+        const byStage = (name: string) => stages.find((s) => s.stage === name);
+        for (const name of ['parse', 'analyze', 'match', 'format', 'cover_letter']) {
+          check(byStage(name) !== undefined, `Missing ${name} stage`);
+        }
+
+        const analyze = byStage('analyze');
+        check(analyze?.llmCalls === 1 && analyze.cacheHit === false, `Analyze: ${JSON.stringify(analyze)}`);
+        check(analyze?.tokensEstimated === true, 'Mock usage is estimated from text length');
+        check(byStage('format')?.model === 'mock-1', `Format model: ${byStage('format')?.model}`);
+
+        const sum = (pick: (s: (typeof stages)[number]) => number | undefined) =>
+          stages.reduce((total, s) => total + (pick(s) ?? 0), 0);
+        check(promptTokens > 0 && promptTokens === sum((s) => s.promptTokens), `Prompt tokens: ${promptTokens}`);
+        check(completionTokens === sum((s) => s.completionTokens), `Completion tokens: ${completionTokens}`);
+        check(estimatedCost === 0, `Mock runs cost nothing, got ${estimatedCost}`);
+      } finally {
+        configureAI(aiConfig);
+        setJDCacheStorage(null);
+      }
+    }),
+  ];
+}
+
+/**
+ * Format telemetry results for the log
+ */
+export function formatTelemetryResults(results: CaseResult[]): string {
+  return formatCaseResults('Telemetry', results);
+}
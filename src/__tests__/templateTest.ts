@@ -0,0 +1,137 @@
+/**
+ * Resume Template Tests
+ * Layout registry, section ordering, one-page fitting and the ATS safety
+ * check, on parsed fixture resumes (no LLM, no rendering)
+ */
+
+import { generateResumeHTML } from '../templates/resumeTemplate';
+import {
+  RESUME_LAYOUTS,
+  resolveLayout,
+  normalizeSectionOrder,
+  getResumeLayout,
+} from '../templates/resumeLayouts';
+import { fitResumeToOnePage, estimateResumeHeight } from '../templates/onePageFit';
+import { checkATSSafety, checkTemplateATSSafety } from '../templates/atsCheck';
+import { snapshotResume } from '../services/tailoring/diff';
+import { parseResume } from '../services/tailoring/parser';
+import { TailoredResume } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+// A long history: every role padded to eight bullets
+function padResume(resume: TailoredResume): TailoredResume {
+  return {
+    ...resume,
+    experiences: resume.experiences.map((exp, e) => ({
+      ...exp,
+      bullets: [
+        ...exp.bullets,
+        ...Array.from(
+          { length: Math.max(0, 8 - exp.bullets.length) },
+          (_, b) => `Extra bullet ${e}-${b} describing routine work on internal tooling and team processes`
+        ),
+      ],
+    })),
+  };
+}
+
+/**
+ * Run every template check
+ */
+export function runTemplateTests(): CaseResult[] {
+  const fixture = testResumes.find((r) => r.id === 'swe-mid');
+  if (!fixture) throw new Error('No swe-mid resume fixture');
+  const resume = snapshotResume(parseResume(fixture.text));
+
+  const sectionPositions = (html: string, titles: string[]) =>
+    titles.map((title) => html.indexOf(`>${title}</h2>`));
+
+  return [
+    runCase('Registry and presets', (check) => {
+      const ids = RESUME_LAYOUTS.map((layout) => layout.id);
+      check(JSON.stringify(ids) === JSON.stringify(['classic', 'compact', 'modern', 'academic']), `Layouts: ${ids}`);
+      check(new Set(ids).size === ids.length, 'Layout ids are unique');
+      check(getResumeLayout(undefined).id === 'classic', 'Classic is the default');
+
+      const academic = resolveLayout({ templateId: 'academic' });
+      check(academic.font.id === 'serif' && academic.margins.id === 'wide', 'Layout defaults apply');
+      const overridden = resolveLayout({ templateId: 'academic', font: 'sans', margins: 'narrow' });
+      check(overridden.font.id === 'sans' && overridden.margins.id === 'narrow', 'Presets override defaults');
+
+      const html = generateResumeHTML(resume, { templateId: 'compact', font: 'serif', margins: 'wide' });
+      check(html.includes('Georgia') && html.includes('padding: 0.75in 0.9in'), 'Presets reach the stylesheet');
+    }),
+
+    runCase('Section ordering', (check) => {
+      check(
+        JSON.stringify(normalizeSectionOrder(['education', 'education', 'skills'])) ===
+          JSON.stringify(['education', 'skills', 'summary', 'experience']),
+        'Repeats dropped, missing sections appended'
+      );
+
+      const classic = generateResumeHTML(resume);
+      const [summary, skills, experience, education] = sectionPositions(classic, [
+        'Professional Summary',
+        'Skills',
+        'Experience',
+        'Education',
+      ]);
+      check(summary < skills && skills < experience && experience < education, 'Classic order');
+
+      const academic = generateResumeHTML(resume, { templateId: 'academic' });
+      const [edu, exp] = sectionPositions(academic, ['Education', 'Appointments &amp; Experience']);
+      check(edu !== -1 && edu < exp, 'Academic puts education first');
+
+      const custom = generateResumeHTML(resume, { sectionOrder: ['experience', 'education', 'skills', 'summary'] });
+      const positions = sectionPositions(custom, ['Experience', 'Education', 'Skills', 'Professional Summary']);
+      check(positions.every((p, i) => p !== -1 && (i === 0 || p > positions[i - 1])), `Custom order: ${positions}`);
+    }),
+
+    runCase('One-page fitting', (check) => {
+      const short = fitResumeToOnePage(resume);
+      check(short.fits && short.trimmedBullets.length === 0 && short.resume === resume, 'A short resume is left alone');
+
+      const long = padResume(resume);
+      const resolved = resolveLayout();
+      check(estimateResumeHeight(long, resolved) > short.pageHeight, 'Padded resume runs over a page');
+
+      const fit = fitResumeToOnePage(long);
+      check(fit.fits, `Fits after trimming: ${Math.round(fit.estimatedHeight)} / ${Math.round(fit.pageHeight)}`);
+      check(fit.trimmedBullets.length > 0, 'Bullets were trimmed');
+      check(fit.trimmedBullets.every((b) => b.startsWith('Extra bullet')), `Only trailing bullets trimmed: ${fit.trimmedBullets[0]}`);
+      check(fit.resume.experiences.every((e) => e.bullets.length >= 1), 'Every role keeps a bullet');
+      const [first, last] = [fit.resume.experiences[0], fit.resume.experiences[fit.resume.experiences.length - 1]];
+      check(first.bullets.length >= last.bullets.length, 'Later roles lose bullets first');
+      check(!fit.resume.rawText.includes(fit.trimmedBullets[0]), 'Raw text follows the trimmed resume');
+
+      const compact = fitResumeToOnePage(long, { templateId: 'compact' });
+      check(compact.trimmedBullets.length < fit.trimmedBullets.length, 'Compact layout needs fewer cuts');
+
+      const html = generateResumeHTML(long, { fitToOnePage: true });
+      check(!html.includes(fit.trimmedBullets[0]), 'Export applies the fit');
+    }),
+
+    runCase('ATS safety', (check) => {
+      for (const layout of RESUME_LAYOUTS) {
+        const result = checkTemplateATSSafety(layout.id);
+        check(result.safe, `${layout.name}: ${result.issues.map((i) => i.rule).join(', ')}`);
+      }
+
+      const unsafe = checkATSSafety(
+        '<table><tr><td>Skills</td></tr></table><style>.a { column-count: 2; float: left; } .b::before { content: "Email"; }</style>'
+      );
+      const rules = unsafe.issues.map((i) => i.rule).sort();
+      check(!unsafe.safe, 'Unsafe markup fails');
+      check(JSON.stringify(rules) === JSON.stringify(['columns', 'css-text', 'float', 'table']), `Rules: ${rules}`);
+      check(checkATSSafety('<style>li::before { content: "•"; }</style>').safe, 'Bullet glyphs are fine');
+    }),
+  ];
+}
+
+/**
+ * Format template results for the log
+ */
+export function formatTemplateResults(results: CaseResult[]): string {
+  return formatCaseResults('Resume templates', results);
+}
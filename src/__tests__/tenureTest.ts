@@ -0,0 +1,188 @@
+/**
+ * Tenure & Seniority Tests
+ * Date-range parsing, overlap merging, per-domain and per-skill years, and
+ * seniority fit. Dates are measured from a fixed "now" so "Present" roles
+ * don't drift.
+ */
+
+import {
+  parseDateRange,
+  mergeRanges,
+  totalYearsOfExperience,
+  tenureByDomain,
+  tenureForTerm,
+  parseYearsRequirement,
+  evaluateYearsRequirement,
+  evaluateSeniority,
+  MonthRange,
+} from '../services/tailoring/tenure';
+import { parseResume } from '../services/tailoring/parser';
+import { matchResume, explainMatchScore } from '../services/tailoring/matcher';
+import { getTaxonomy } from '../services/tailoring/taxonomy';
+import { ResumeData } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { preParsedJDs } from './fixtures/parsedJobDescriptions';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const NOW = new Date(2025, 5, 15); // June 2025
+
+// [input, start "YYYY-MM", months] - null when unreadable
+const DATE_CASES: Array<[string, string | null, number]> = [
+  ['Jan 2022 - Present', '2022-01', 42],
+  ['Jun 2020 - Dec 2021', '2020-06', 19],
+  ['03/2019 – 06/2021', '2019-03', 28],
+  ['12/2019 - 2/2020', '2019-12', 3],
+  ['2019-01 to 2020-12', '2019-01', 24],
+  ['2018 - 2021', '2018-01', 36],
+  ["Mar '19 - Sept '20", '2019-03', 19],
+  ['September 2019 – Current', '2019-09', 70],
+  ['Since 2020', '2020-01', 66],
+  ['Summer 2021', '2021-06', 3],
+  ['2022', '2022-01', 12],
+  ['2021 - 2021', '2021-01', 12],
+  ['Jan 2020 - Aug 2020 (Part-time)', '2020-01', 8],
+  ['n/a', null, 0],
+];
+
+function resume(id: string): ResumeData {
+  const fixture = testResumes.find((r) => r.id === id);
+  if (!fixture) throw new Error(`No resume fixture "${id}"`);
+  return parseResume(fixture.text);
+}
+
+function monthLabel(month: number): string {
+  return `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Run every tenure and seniority check
+ */
+export function runTenureTests(): CaseResult[] {
+  const taxonomy = getTaxonomy();
+
+  return [
+    runCase('Date range formats', (check) => {
+      for (const [input, start, months] of DATE_CASES) {
+        const range = parseDateRange(input, NOW);
+        if (start === null) {
+          check(range === null, `"${input}" should not parse`);
+          continue;
+        }
+        const actual = range ? `${monthLabel(range.start)} (${range.end - range.start}m)` : 'null';
+        check(actual === `${start} (${months}m)`, `"${input}": expected ${start} (${months}m), got ${actual}`);
+      }
+      check(parseDateRange('Jan 2022 - Present', NOW)?.ongoing === true, '"Present" should be ongoing');
+      check(parseDateRange('Jan 2030 - Present', NOW) === null, 'Future start should not parse');
+    }),
+
+    runCase('Overlapping roles count once', (check) => {
+      const ranges: MonthRange[] = [
+        { start: 100, end: 120, ongoing: false },
+        { start: 110, end: 130, ongoing: true },
+        { start: 130, end: 140, ongoing: false },
+        { start: 150, end: 160, ongoing: false },
+      ];
+      const merged = mergeRanges(ranges);
+      check(merged.length === 2, `Expected 2 merged ranges, got ${merged.length}`);
+      check(merged[0]?.start === 100 && merged[0]?.end === 140 && merged[0]?.ongoing, `First range: ${JSON.stringify(merged[0])}`);
+
+      // Part-time Curriculum Designer role sits inside the teaching years
+      const total = totalYearsOfExperience(resume('career-changer'), NOW);
+      check(total === 9.9, `Career changer total years: expected 9.9, got ${total}`);
+      const swe = totalYearsOfExperience(resume('swe-mid'), NOW);
+      check(swe === 5.1, `Mid-level engineer total years: expected 5.1, got ${swe}`);
+    }),
+
+    runCase('Years per domain and skill', (check) => {
+      const marketer = tenureByDomain(resume('marketing-senior'), taxonomy, NOW);
+      check(marketer.marketing === 8.1, `Marketer marketing years: ${marketer.marketing}`);
+      check(!marketer.software, `Marketer should have no software years: ${marketer.software}`);
+
+      const changer = tenureByDomain(resume('career-changer'), taxonomy, NOW);
+      check(changer.design === 2.5, `Career changer design years: ${changer.design}`);
+
+      const react = tenureForTerm(resume('swe-mid'), 'React', taxonomy, NOW);
+      check(react > 0 && react <= 5.1, `React years: ${react}`);
+      check(tenureForTerm(resume('swe-mid'), 'Salesforce', taxonomy, NOW) === 0, 'No Salesforce years');
+    }),
+
+    runCase('Years requirements', (check) => {
+      const parses: Array<[string, number, number | undefined, string]> = [
+        ['5+ years of B2B SaaS marketing experience, preferably in SaaS', 5, undefined, 'b2b saas marketing'],
+        ['3+ years of experience with React and modern JavaScript', 3, undefined, 'react and modern javascript'],
+        ['At least two years of professional experience', 2, undefined, 'professional'],
+        ['3-5 years in a customer-facing role', 3, 5, 'customer-facing role'],
+      ];
+      for (const [text, minYears, maxYears, subject] of parses) {
+        const parsed = parseYearsRequirement(text);
+        check(
+          parsed?.minYears === minYears && parsed?.maxYears === maxYears && parsed?.subject === subject,
+          `"${text}": ${JSON.stringify(parsed)}`
+        );
+      }
+      check(parseYearsRequirement('Strong SQL skills') === null, 'No years in the text');
+
+      // Eight years of total experience, but only 4.3 of it in sales
+      const marketer = resume('marketing-senior');
+      const sales = evaluateYearsRequirement('12+ years of enterprise software sales experience', marketer, taxonomy, NOW);
+      check(sales?.actualYears === 4.3 && sales?.score === 40, `Sales years: ${JSON.stringify(sales)}`);
+      const marketing = evaluateYearsRequirement('5+ years of B2B marketing experience', marketer, taxonomy, NOW);
+      check(marketing?.actualYears === 8.1 && marketing?.score === 90, `Marketing years: ${JSON.stringify(marketing)}`);
+
+      // Teaching years don't count toward design
+      const design = evaluateYearsRequirement('5+ years of UX design experience', resume('career-changer'), taxonomy, NOW);
+      check(design?.actualYears === 2.5 && design?.totalYears === 9.9, `Design years: ${JSON.stringify(design)}`);
+
+      const generic = evaluateYearsRequirement('5+ years of professional experience', resume('swe-mid'), taxonomy, NOW);
+      check(generic?.subject === undefined && generic?.actualYears === 5.1, `Generic ask uses total: ${JSON.stringify(generic)}`);
+    }),
+
+    runCase('Seniority fit', (check) => {
+      const cases: Array<[string, 'entry' | 'mid' | 'senior' | 'lead' | 'executive', string, 'under' | 'match' | 'over']> = [
+        ['swe-mid', 'senior', 'senior', 'match'],
+        ['new-grad', 'senior', 'entry', 'under'],
+        ['new-grad', 'entry', 'entry', 'match'],
+        ['career-changer', 'senior', 'mid', 'under'],
+        ['exec-sales', 'entry', 'executive', 'over'],
+        ['exec-sales', 'executive', 'executive', 'match'],
+      ];
+      for (const [id, required, candidate, fit] of cases) {
+        const result = evaluateSeniority(resume(id), required, taxonomy, NOW);
+        check(
+          result?.candidate === candidate && result?.fit === fit,
+          `${id} vs ${required}: expected ${candidate}/${fit}, got ${result?.candidate}/${result?.fit}`
+        );
+      }
+      check(evaluateSeniority(resume('swe-mid'), undefined, taxonomy, NOW) === null, 'No JD level, no fit');
+    }),
+
+    runCase('Seniority in the match score', (check) => {
+      // Junior posting against a VP: everything matches, the level doesn't
+      const jd = preParsedJDs['junior-swe-google'];
+      const newGrad = matchResume(resume('new-grad'), jd, taxonomy);
+      const executive = matchResume(resume('exec-sales'), preParsedJDs['vp-sales-enterprise'], taxonomy);
+      check(newGrad.seniority?.fit === 'match', `New grad vs junior role: ${newGrad.seniority?.fit}`);
+      check(executive.seniority?.fit === 'match', `VP vs VP role: ${executive.seniority?.fit}`);
+
+      const underqualified = matchResume(resume('new-grad'), preParsedJDs['vp-sales-enterprise'], taxonomy);
+      check(underqualified.seniority?.fit === 'under', `New grad vs VP role: ${underqualified.seniority?.fit}`);
+
+      const withLevel = explainMatchScore(underqualified.matched, underqualified.missing, underqualified.hasDomainMismatch, underqualified.seniority);
+      const withoutLevel = explainMatchScore(underqualified.matched, underqualified.missing, underqualified.hasDomainMismatch);
+      check(withLevel.seniority?.fit === 'under', 'Breakdown should report the seniority fit');
+      check(withLevel.seniorityPenalty < 1, `Seniority penalty: ${withLevel.seniorityPenalty}`);
+      check(withoutLevel.seniorityPenalty === 1, 'No fit, no penalty');
+      check(
+        withLevel.finalScore <= withoutLevel.finalScore,
+        `Penalized score ${withLevel.finalScore} should not exceed ${withoutLevel.finalScore}`
+      );
+    }),
+  ];
+}
+
+/**
+ * Format tenure results for the log
+ */
+export function formatTenureResults(results: CaseResult[]): string {
+  return formatCaseResults('Tenure & seniority', results);
+}
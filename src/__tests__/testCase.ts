@@ -0,0 +1,64 @@
+/**
+ * Test Case Helpers
+ * The check-counting scaffold the unit suites share: each case runs a body
+ * that calls check() per assertion, and a suite formats its cases into the
+ * results log
+ */
+
+export interface CaseResult {
+  name: string;
+  passed: boolean;
+  checks: number;
+  failures: string[];
+}
+
+export type Check = (ok: boolean, message: string) => void;
+
+/**
+ * Run one named case. A throw counts as a failed check; async bodies
+ * return a promise of the result.
+ */
+export function runCase(name: string, body: (check: Check) => Promise<void>): Promise<CaseResult>;
+export function runCase(name: string, body: (check: Check) => void): CaseResult;
+export function runCase(
+  name: string,
+  body: (check: Check) => Promise<void> | void
+): CaseResult | Promise<CaseResult> {
+  const failures: string[] = [];
+  let checks = 0;
+  const check: Check = (ok, message) => {
+    checks++;
+    if (!ok) failures.push(message);
+  };
+  const fail = (error: unknown) => check(false, `Threw: ${(error as Error).message}`);
+  const result = () => ({ name, passed: failures.length === 0, checks, failures });
+
+  let pending: Promise<void> | void;
+  try {
+    pending = body(check);
+  } catch (error) {
+    fail(error);
+    return result();
+  }
+
+  return pending ? pending.then(result, (error) => (fail(error), result())) : result();
+}
+
+/**
+ * One line per case, failures indented under it, then the suite total
+ */
+export function formatCaseResults(label: string, results: CaseResult[]): string {
+  const lines: string[] = [];
+  const totalChecks = results.reduce((sum, r) => sum + r.checks, 0);
+  const failedChecks = results.reduce((sum, r) => sum + r.failures.length, 0);
+
+  for (const result of results) {
+    lines.push(`${result.passed ? '✓' : '✗'} ${result.name} (${result.checks} checks)`);
+    result.failures.forEach((f) => lines.push(`    - ${f}`));
+  }
+
+  lines.push('');
+  lines.push(`${label}: ${totalChecks - failedChecks}/${totalChecks} checks passed`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,162 @@
+/**
+ * Fabrication Guard Tests
+ * Hand-edited formatter outputs checked against the parsed swe-mid resume
+ * (no LLM): faithful edits pass, invented numbers, skills, employers,
+ * titles and dates are reverted or flagged
+ */
+
+import { verifyTailoredResume } from '../services/tailoring/verifier';
+import { parseResume } from '../services/tailoring/parser';
+import { ResumeData, TailoredResume } from '../services/tailoring/types';
+import { testResumes } from './fixtures/testResumes';
+import { CaseResult, runCase, formatCaseResults } from './testCase';
+
+const REACT_BULLET = 'Built and maintained React/TypeScript frontend serving 50,000+ daily active users';
+const API_BULLET = 'Developed RESTful APIs using Node.js and Express, reducing response times by 40%';
+
+/**
+ * The source resume as the formatter would return it unchanged
+ */
+function untouched(source: ResumeData): TailoredResume {
+  return {
+    summary: source.summary,
+    skills: source.skills.map((s) => s.name),
+    experiences: source.experiences.map((e) => ({
+      title: e.title,
+      company: e.company,
+      dateRange: e.dateRange,
+      bullets: e.bullets.map((b) => b.text),
+    })),
+    education: source.education.map((e) => e.originalText),
+    rawText: '',
+  };
+}
+
+/**
+ * Run every fabrication guard check
+ */
+export function runVerifierTests(): CaseResult[] {
+  const fixture = testResumes.find((r) => r.id === 'swe-mid');
+  if (!fixture) throw new Error('No swe-mid resume fixture');
+  const source = parseResume(fixture.text);
+
+  return [
+    runCase('Unchanged resume passes', (check) => {
+      const { resume, report } = verifyTailoredResume(untouched(source), source);
+      check(report.passed, `Violations: ${report.violations.map((v) => v.message).join(' | ')}`);
+      check(report.bullets.length === 10, `Expected 10 bullets, got ${report.bullets.length}`);
+      check(report.bullets.every((b) => b.status === 'verbatim'), 'Every bullet should be verbatim');
+      check(resume.experiences[0].bullets[0] === REACT_BULLET, 'Text should be kept');
+    }),
+
+    runCase('Reordering and light keyword edits pass', (check) => {
+      const tailored = untouched(source);
+      const [first] = tailored.experiences;
+      // Reordered, one keyword from the resume's own skills, a trimmed bullet
+      first.bullets = [
+        'Developed RESTful APIs using Node.js, Express and PostgreSQL, reducing response times by 40%',
+        REACT_BULLET,
+        'Led migration from MongoDB to PostgreSQL',
+      ];
+      first.title = 'Software Eng.';
+      first.dateRange = 'January 2022 – Present';
+      tailored.experiences.reverse();
+
+      const { report } = verifyTailoredResume(tailored, source);
+      check(report.passed, `Violations: ${report.violations.map((v) => v.message).join(' | ')}`);
+
+      const edited = report.bullets.find((b) => b.generatedText.includes('PostgreSQL, reducing'));
+      check(edited?.status === 'edited' && edited.source === API_BULLET, `Aligned to: ${edited?.source}`);
+      check((edited?.similarity ?? 0) >= 0.8, `Similarity: ${edited?.similarity}`);
+    }),
+
+    runCase('Invented numbers are reverted', (check) => {
+      const tailored = untouched(source);
+      tailored.experiences[0].bullets[0] = REACT_BULLET.replace('50,000+', '250,000+');
+      tailored.experiences[0].bullets[1] = API_BULLET.replace('40%', '40%, saving $2M a year');
+
+      const { resume, report } = verifyTailoredResume(tailored, source);
+      const metrics = report.violations.filter((v) => v.kind === 'metric');
+      check(metrics.length === 2, `Expected 2 metric violations, got ${metrics.length}`);
+      check(metrics[0]?.value === '250000', `New number: ${metrics[0]?.value}`);
+      check(metrics.every((v) => v.resolution === 'reverted'), 'Metrics should be reverted');
+      check(resume.experiences[0].bullets[0] === REACT_BULLET, `Reverted text: ${resume.experiences[0].bullets[0]}`);
+      check(resume.experiences[0].bullets[1] === API_BULLET, `Reverted text: ${resume.experiences[0].bullets[1]}`);
+      check(report.bullets[0].status === 'reverted', `Status: ${report.bullets[0].status}`);
+    }),
+
+    runCase('Numbers from another role are not grounded', (check) => {
+      const tailored = untouched(source);
+      // The 50% page load win belongs to the Junior Developer role
+      tailored.experiences[0].bullets[0] = `${REACT_BULLET}, cutting page load times by 50%`;
+      const { report } = verifyTailoredResume(tailored, source);
+      check(report.violations.some((v) => v.kind === 'metric' && v.value === '50%'), 'Borrowed number should be flagged');
+    }),
+
+    runCase('Invented skills are removed', (check) => {
+      const tailored = untouched(source);
+      tailored.skills.push('Kubernetes', 'Docker');
+      tailored.experiences[0].bullets[4] = 'Implemented CI/CD pipelines with GitHub Actions and Kubernetes, cutting deployment time from 2 hours to 15 minutes';
+      tailored.experiences[0].bullets.splice(2, 1);
+
+      const { resume, report } = verifyTailoredResume(tailored, source);
+      const skills = report.violations.filter((v) => v.kind === 'skill');
+      check(skills.length === 2, `Expected 2 skill violations, got ${skills.map((v) => v.value).join(', ')}`);
+      check(!resume.skills.includes('Kubernetes'), 'Kubernetes should be dropped from skills');
+      check(resume.skills.includes('Docker'), 'Docker is on the resume');
+      check(!resume.experiences[0].bullets.some((b) => b.includes('Kubernetes')), 'Bullet should be reverted');
+    }),
+
+    runCase('Employer, title and date changes', (check) => {
+      const tailored = untouched(source);
+      tailored.experiences[0].title = 'Senior Software Engineer';
+      tailored.experiences[1].dateRange = 'Jun 2019 - Dec 2021';
+      tailored.experiences.push({
+        title: 'Platform Engineer',
+        company: 'CloudScale',
+        dateRange: '2019 - 2020',
+        bullets: ['Ran Kubernetes clusters for 300 services'],
+      });
+
+      const { resume, report } = verifyTailoredResume(tailored, source);
+      const kinds = report.violations.map((v) => v.kind).sort();
+      check(JSON.stringify(kinds) === JSON.stringify(['date', 'employer', 'title']), `Kinds: ${kinds.join(', ')}`);
+      check(resume.experiences.length === 2, `Invented role should be removed: ${resume.experiences.length}`);
+      check(resume.experiences[0].title === 'Software Engineer', `Title: ${resume.experiences[0].title}`);
+      check(resume.experiences[1].dateRange === 'Jun 2020 - Dec 2021', `Dates: ${resume.experiences[1].dateRange}`);
+      check(report.bullets.some((b) => b.experienceIndex === 2 && b.status === 'removed'), 'Invented role bullets are removed');
+    }),
+
+    runCase('Unsupported bullets and summaries', (check) => {
+      const tailored = untouched(source);
+      tailored.experiences[1].bullets.push('Architected a machine learning recommendation engine');
+      tailored.summary = 'Full-stack software engineer with 8 years of experience building scalable web applications.';
+
+      const { resume, report } = verifyTailoredResume(tailored, source);
+      check(report.violations.some((v) => v.kind === 'bullet' && v.resolution === 'removed'), 'New bullet should be removed');
+      check(resume.experiences[1].bullets.length === 4, `Junior role bullets: ${resume.experiences[1].bullets.length}`);
+      check(report.violations.some((v) => v.kind === 'metric' && v.value === '8'), 'Summary years should be flagged');
+      check(resume.summary === source.summary, 'Summary should fall back to the original');
+    }),
+
+    runCase('Flag mode keeps the output', (check) => {
+      const tailored = untouched(source);
+      tailored.experiences[0].bullets[0] = REACT_BULLET.replace('50,000+', '250,000+');
+      tailored.skills.push('Kubernetes');
+
+      const { resume, report } = verifyTailoredResume(tailored, source, { mode: 'flag' });
+      check(report.mode === 'flag' && !report.passed, 'Report should fail in flag mode');
+      check(report.violations.every((v) => v.resolution === 'flagged'), 'Everything should be flagged');
+      check(resume.experiences[0].bullets[0].includes('250,000+'), 'Text should be kept');
+      check(resume.skills.includes('Kubernetes'), 'Skill should be kept');
+      check(report.bullets[0].source === REACT_BULLET, 'Provenance still points at the original');
+    }),
+  ];
+}
+
+/**
+ * Format fabrication guard results for the log
+ */
+export function formatVerifierResults(results: CaseResult[]): string {
+  return formatCaseResults('Fabrication guard', results);
+}
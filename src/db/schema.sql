@@ -18,6 +18,7 @@ CREATE TABLE profiles (
   weekly_applications INT DEFAULT 0,
   week_start_date TIMESTAMP,
   last_application_date TIMESTAMP,
+  custom_synonyms JSONB DEFAULT '[]', -- [{ term, aliases }] added to the matching taxonomy
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -77,10 +78,13 @@ CREATE TABLE applications (
   job_title TEXT,
   company TEXT,
   job_description TEXT,
+  job_url TEXT,
   match_score INT,
   ai_detection_score INT,
   tailored_resume JSONB,
   cover_letter TEXT,
+  cover_letter_options JSONB, -- tone/length/structure the letter was generated with
+  trace JSONB, -- per-stage timing/token/cost telemetry
   status TEXT DEFAULT 'generated' CHECK (status IN ('generated', 'applied', 'replied', 'interviewing', 'offer', 'rejected')),
   applied_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT NOW(),
@@ -156,3 +160,12 @@ CREATE INDEX idx_resumes_user_id ON resumes(user_id);
 CREATE INDEX idx_applications_user_id ON applications(user_id);
 CREATE INDEX idx_applications_status ON applications(status);
 CREATE INDEX idx_applications_created_at ON applications(created_at DESC);
+
+
+-- ============================================
+-- MIGRATIONS (for databases created before these columns existed)
+-- ============================================
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS trace JSONB;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS custom_synonyms JSONB DEFAULT '[]';
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS job_url TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS cover_letter_options JSONB;
@@ -1,111 +1,221 @@
 /**
- * OpenAI Client Wrapper
+ * LLM Client Wrapper
  * Centralized API calls with timeout, retry, and error handling
+ * Routes each call to a configured provider (OpenAI, Anthropic, local, mock)
  */
 
-import OpenAI from 'openai';
-
-// Load API key from environment variable
+import {
+  AICallOptions,
+  AIConfig,
+  AIError,
+  AIProviderName,
+  AIStage,
+  AIStageConfig,
+  LLMProvider,
+  LLMTokenUsage,
+} from './types';
+import { createAnthropicProvider, createLocalProvider, createOpenAIProvider } from './providers';
+
+const PROVIDER_NAMES: readonly AIProviderName[] = ['openai', 'anthropic', 'local', 'mock'];
+
+// Load API keys and provider selection from environment variables
 const API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
+const ANTHROPIC_API_KEY = process.env.EXPO_PUBLIC_ANTHROPIC_API_KEY || '';
+const LOCAL_LLM_URL = process.env.EXPO_PUBLIC_LOCAL_LLM_URL || undefined;
+const DEFAULT_PROVIDER = parseProviderName(process.env.EXPO_PUBLIC_AI_PROVIDER);
 
 // Types
-export interface OpenAICallOptions {
-  prompt: string;
-  jsonMode?: boolean;
-  maxTokens?: number;
-  temperature?: number;
-  model?: string;
-}
-
-export type AIErrorType =
-  | 'timeout'
-  | 'rate_limit'
-  | 'invalid_response'
-  | 'api_error'
-  | 'network_error';
-
-export class AIError extends Error {
-  type: AIErrorType;
-  retryable: boolean;
-
-  constructor(type: AIErrorType, message: string, retryable = false) {
-    super(message);
-    this.type = type;
-    this.retryable = retryable;
-    this.name = 'AIError';
-  }
-}
+export type {
+  AICallOptions,
+  OpenAICallOptions,
+  AIConfig,
+  AIErrorType,
+  AIProviderName,
+  AIStage,
+  AIStageConfig,
+  AICallContext,
+  LLMAttachment,
+  LLMCompletion,
+  LLMProvider,
+  LLMRequest,
+  LLMTokenUsage,
+  LLMUsage,
+} from './types';
+export { AIError } from './types';
 
 // Configuration
-const DEFAULT_MODEL = 'gpt-4o';
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 const MAX_RETRIES = 1;
 
-let openaiClient: OpenAI | null = null;
+let config: AIConfig = {
+  provider: DEFAULT_PROVIDER,
+  stages: {},
+};
+
+const providers = new Map<AIProviderName, LLMProvider>();
 
 /**
  * Initialize OpenAI client
  */
 export function initializeOpenAI(apiKey: string): void {
-  openaiClient = new OpenAI({
-    apiKey,
-    timeout: DEFAULT_TIMEOUT,
-    maxRetries: 0, // We handle retries ourselves
-  });
+  providers.set('openai', createOpenAIProvider(apiKey, { timeout: DEFAULT_TIMEOUT }));
 }
 
 /**
- * Ensure the client is initialized
+ * Register (or replace) a provider instance, e.g. a mock with fixtures
  */
-function ensureInitialized(): void {
-  if (!openaiClient) {
-    if (!API_KEY) {
-      throw new AIError('api_error', 'OpenAI API key not configured.');
-    }
-    initializeOpenAI(API_KEY);
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Select the default provider/model and per-stage overrides
+ */
+export function configureAI(updates: Partial<AIConfig>): void {
+  config = {
+    ...config,
+    ...updates,
+    stages: { ...config.stages, ...updates.stages },
+  };
+}
+
+/**
+ * Current provider configuration
+ */
+export function getAIConfig(): AIConfig {
+  return config;
+}
+
+/**
+ * Get a provider, creating it from environment config on first use
+ */
+function getProvider(name: AIProviderName): LLMProvider {
+  const existing = providers.get(name);
+  if (existing) return existing;
+
+  const provider = createProvider(name);
+  providers.set(name, provider);
+  return provider;
+}
+
+/**
+ * Build a provider from environment config
+ */
+function createProvider(name: AIProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      if (!API_KEY) {
+        throw new AIError('api_error', 'OpenAI API key not configured.');
+      }
+      return createOpenAIProvider(API_KEY, { timeout: DEFAULT_TIMEOUT });
+    case 'anthropic':
+      if (!ANTHROPIC_API_KEY) {
+        throw new AIError('api_error', 'Anthropic API key not configured.');
+      }
+      return createAnthropicProvider(ANTHROPIC_API_KEY);
+    case 'local':
+      return createLocalProvider(LOCAL_LLM_URL);
+    case 'mock':
+      throw new AIError('api_error', 'Mock provider not registered. Call registerProvider first.');
+    default:
+      // Names from config objects built outside TypeScript (e.g. persisted settings)
+      throw new AIError('api_error', `Unknown AI provider "${String(name)}".`);
   }
 }
 
 /**
- * Main function to call OpenAI
+ * Provider named by EXPO_PUBLIC_AI_PROVIDER; unknown names fall back to OpenAI
  */
-export async function callOpenAI(options: OpenAICallOptions): Promise<string> {
-  // Auto-initialize if not already initialized
-  ensureInitialized();
+function parseProviderName(value: string | undefined): AIProviderName {
+  if (!value) return 'openai';
+
+  const name = PROVIDER_NAMES.find((known) => known === value.trim().toLowerCase());
+  if (!name) {
+    console.warn(`Unknown EXPO_PUBLIC_AI_PROVIDER "${value}", using openai`);
+    return 'openai';
+  }
+  return name;
+}
+
+/**
+ * Resolve provider and model for a call:
+ * explicit option > stage override > global config > provider default
+ */
+function resolveTarget(
+  options: AICallOptions
+): { provider: LLMProvider; model: string } {
+  const stageConfig: AIStageConfig = options.stage ? config.stages[options.stage] ?? {} : {};
+  const providerName = options.provider ?? stageConfig.provider ?? config.provider;
+  const provider = getProvider(providerName);
+
+  // A global model only applies when the stage uses the global provider
+  const globalModel = providerName === config.provider ? config.model : undefined;
+  const model = options.model ?? stageConfig.model ?? globalModel ?? provider.defaultModel;
+
+  return { provider, model };
+}
+
+/**
+ * Provider and model a stage would use right now (for cache keys and telemetry)
+ */
+export function getStageTarget(stage: AIStage): { provider: AIProviderName; model: string } {
+  const { provider, model } = resolveTarget({ prompt: '', stage });
+  return { provider: provider.name, model };
+}
+
+/**
+ * Main function to call the configured LLM
+ * (name kept from the OpenAI-only days; routes to any provider)
+ */
+export async function callOpenAI(options: AICallOptions): Promise<string> {
+  // Auto-initialize the provider if not already initialized
+  const { provider, model } = resolveTarget(options);
 
   const {
     prompt,
+    attachments,
     jsonMode = false,
     maxTokens = 1000,
     temperature = 0.7,
-    model = DEFAULT_MODEL,
+    stage,
+    signal,
+    onUsage,
+    timeoutMs = DEFAULT_TIMEOUT,
   } = options;
 
+  const startTime = Date.now();
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    throwIfAborted(signal);
+
     try {
-      const response = await callWithTimeout(
-        openaiClient!.chat.completions.create({
-          model,
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: maxTokens,
-          temperature,
-          response_format: jsonMode ? { type: 'json_object' } : undefined,
-        }),
-        DEFAULT_TIMEOUT
+      const { content, usage } = await callWithTimeout(
+        provider.complete({ prompt, attachments, jsonMode, maxTokens, temperature, model, stage, signal }),
+        timeoutMs,
+        signal
       );
 
-      const content = response.choices[0]?.message?.content;
-
       if (!content) {
-        throw new AIError('invalid_response', 'Empty response from OpenAI');
+        throw new AIError('invalid_response', `Empty response from ${provider.name}`);
       }
 
+      onUsage?.({
+        ...(usage ?? estimateUsage(prompt, content)),
+        provider: provider.name,
+        model,
+        stage,
+        durationMs: Date.now() - startTime,
+        estimated: !usage,
+      });
+
       return content;
     } catch (error) {
       lastError = error as Error;
 
+      // Provider errors after an abort are just the abort surfacing
+      throwIfAborted(signal);
+
       // Don't retry non-retryable errors
       if (error instanceof AIError && !error.retryable) {
         throw error;
@@ -127,32 +237,56 @@ export async function callOpenAI(options: OpenAICallOptions): Promise<string> {
 }
 
 /**
- * Call with timeout wrapper
+ * Rough token counts (~4 characters per token) for backends that don't report usage
+ */
+function estimateUsage(prompt: string, completion: string): LLMTokenUsage {
+  return {
+    promptTokens: Math.ceil(prompt.length / 4),
+    completionTokens: Math.ceil(completion.length / 4),
+  };
+}
+
+/**
+ * Throw a 'cancelled' AIError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AIError('cancelled', 'Request cancelled');
+  }
+}
+
+/**
+ * Call with timeout wrapper (also settles immediately on abort)
  */
 async function callWithTimeout<T>(
   promise: Promise<T>,
-  timeoutMs: number
+  timeoutMs: number,
+  signal?: AbortSignal
 ): Promise<T> {
   let timeoutId: NodeJS.Timeout;
+  let onAbort: (() => void) | undefined;
 
   const timeoutPromise = new Promise<never>((_, reject) => {
     timeoutId = setTimeout(() => {
       reject(new AIError('timeout', `Request timed out after ${timeoutMs}ms`, true));
     }, timeoutMs);
+
+    if (signal) {
+      onAbort = () => reject(new AIError('cancelled', 'Request cancelled'));
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
   });
 
   try {
-    const result = await Promise.race([promise, timeoutPromise]);
-    clearTimeout(timeoutId!);
-    return result;
-  } catch (error) {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
     clearTimeout(timeoutId!);
-    throw error;
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
   }
 }
 
 /**
- * Convert OpenAI/network errors to AIError
+ * Convert provider/network errors to AIError
  */
 function convertToAIError(error: Error): AIError {
   if (error instanceof AIError) {
@@ -191,5 +325,5 @@ function sleep(ms: number): Promise<void> {
  * Check if client is initialized
  */
 export function isOpenAIInitialized(): boolean {
-  return openaiClient !== null;
+  return providers.has('openai');
 }
@@ -0,0 +1,74 @@
+/**
+ * Mock LLM Provider
+ * Deterministic, fixture-backed responses for offline tests and demos
+ */
+
+import { AIError, AIStage, LLMCompletion, LLMProvider, LLMRequest } from './types';
+
+export interface MockFixture {
+  // Only match calls from this pipeline stage
+  stage?: AIStage;
+  // Only match prompts containing this text / matching this pattern
+  match?: string | RegExp;
+  // Canned response, or a function of the request for templated output
+  response: string | ((request: LLMRequest) => string);
+}
+
+export interface MockProvider extends LLMProvider {
+  // Every request received, in order (for assertions)
+  calls: LLMRequest[];
+  addFixture: (fixture: MockFixture) => void;
+  reset: () => void;
+}
+
+/**
+ * Create a mock provider. Fixtures are checked in order; first match wins.
+ * Unmatched prompts throw so tests never silently pass on empty output.
+ */
+export function createMockProvider(fixtures: MockFixture[] = []): MockProvider {
+  const table = [...fixtures];
+  const calls: LLMRequest[] = [];
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock-1',
+    calls,
+
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      calls.push(request);
+
+      const fixture = table.find((f) => fixtureMatches(f, request));
+      if (!fixture) {
+        throw new AIError(
+          'invalid_response',
+          `No mock fixture for ${request.stage ?? 'unknown'} stage prompt`
+        );
+      }
+
+      const content = typeof fixture.response === 'function'
+        ? fixture.response(request)
+        : fixture.response;
+
+      // No usage reported - the client estimates it like any other backend
+      return { content };
+    },
+
+    addFixture: (fixture) => {
+      table.push(fixture);
+    },
+
+    reset: () => {
+      calls.length = 0;
+    },
+  };
+}
+
+/**
+ * Check whether a fixture applies to a request
+ */
+function fixtureMatches(fixture: MockFixture, request: LLMRequest): boolean {
+  if (fixture.stage && fixture.stage !== request.stage) return false;
+  if (fixture.match === undefined) return true;
+  if (typeof fixture.match === 'string') return request.prompt.includes(fixture.match);
+  return fixture.match.test(request.prompt);
+}
@@ -0,0 +1,50 @@
+/**
+ * LLM Pricing
+ * Approximate list prices used to estimate what each generation costs
+ */
+
+import { LLMTokenUsage } from './types';
+
+// USD per 1M tokens
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Checked in order with startsWith, so more specific prefixes come first
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['gpt-4o-mini', { prompt: 0.15, completion: 0.6 }],
+  ['gpt-4o', { prompt: 2.5, completion: 10 }],
+  ['gpt-4.1-mini', { prompt: 0.4, completion: 1.6 }],
+  ['gpt-4.1', { prompt: 2, completion: 8 }],
+  ['gpt-3.5-turbo', { prompt: 0.5, completion: 1.5 }],
+  ['claude-3-5-haiku', { prompt: 0.8, completion: 4 }],
+  ['claude-3-5-sonnet', { prompt: 3, completion: 15 }],
+  ['claude-3-7-sonnet', { prompt: 3, completion: 15 }],
+  ['claude-3-opus', { prompt: 15, completion: 75 }],
+  // Embeddings bill input tokens only
+  ['text-embedding-3-small', { prompt: 0.02, completion: 0 }],
+  ['text-embedding-3-large', { prompt: 0.13, completion: 0 }],
+];
+
+// Providers that run on the user's machine or in tests cost nothing
+const FREE_PROVIDERS = new Set(['local', 'mock']);
+
+/**
+ * Estimated cost in USD, or undefined when the model isn't in the price table
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  usage: LLMTokenUsage
+): number | undefined {
+  if (FREE_PROVIDERS.has(provider)) return 0;
+
+  const entry = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (!entry) return undefined;
+
+  const [, price] = entry;
+  return (
+    (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000
+  );
+}
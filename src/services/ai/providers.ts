@@ -0,0 +1,172 @@
+/**
+ * LLM Providers
+ * OpenAI, Anthropic and OpenAI-compatible local servers behind one interface
+ */
+
+import OpenAI from 'openai';
+import { AIError, LLMAttachment, LLMCompletion, LLMProvider, LLMRequest } from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1'; // Ollama default
+
+// The parts of a Messages API response the provider reads
+interface AnthropicResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * OpenAI provider (also used for OpenAI-compatible servers via baseURL)
+ */
+export function createOpenAIProvider(
+  apiKey: string,
+  options: { baseURL?: string; defaultModel?: string; name?: 'openai' | 'local'; timeout?: number } = {}
+): LLMProvider {
+  const client = new OpenAI({
+    apiKey,
+    baseURL: options.baseURL,
+    timeout: options.timeout,
+    maxRetries: 0, // Retries are handled in client.ts
+  });
+
+  return {
+    name: options.name ?? 'openai',
+    defaultModel: options.defaultModel ?? 'gpt-4o',
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: [{ role: 'user', content: toOpenAIContent(request.prompt, request.attachments) }],
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          response_format: request.jsonMode ? { type: 'json_object' } : undefined,
+        },
+        { signal: request.signal }
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new AIError('invalid_response', `Empty response from ${options.name ?? 'openai'}`);
+      }
+
+      return {
+        content,
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: response.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Local OpenAI-compatible server (Ollama, LM Studio, llama.cpp, vLLM)
+ */
+export function createLocalProvider(
+  baseURL: string = DEFAULT_LOCAL_URL,
+  defaultModel: string = 'llama3.1'
+): LLMProvider {
+  // Local servers ignore the key but the SDK requires one
+  return createOpenAIProvider('local', { baseURL, defaultModel, name: 'local' });
+}
+
+/**
+ * Anthropic Messages API provider (plain fetch, no SDK dependency)
+ */
+export function createAnthropicProvider(
+  apiKey: string,
+  defaultModel: string = 'claude-3-5-sonnet-latest'
+): LLMProvider {
+  return {
+    name: 'anthropic',
+    defaultModel,
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      // No native JSON mode - ask for it explicitly
+      const prompt = request.jsonMode
+        ? `${request.prompt}\n\nRespond with a single valid JSON object and nothing else.`
+        : request.prompt;
+
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: Math.min(request.temperature, 1), // Anthropic caps at 1
+          messages: [{ role: 'user', content: toAnthropicContent(prompt, request.attachments) }],
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Anthropic API error ${response.status}: ${response.statusText}`);
+      }
+
+      const data: AnthropicResponse = await response.json();
+      const content = (data.content ?? [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('');
+
+      if (!content) {
+        throw new AIError('invalid_response', 'Empty response from anthropic');
+      }
+
+      return {
+        content: request.jsonMode ? stripCodeFences(content) : content,
+        usage: data.usage
+          ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens }
+          : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Chat Completions content: plain string, or parts when files are attached
+ */
+function toOpenAIContent(prompt: string, attachments: LLMAttachment[] = []): string | OpenAI.Chat.ChatCompletionContentPart[] {
+  if (!attachments.length) return prompt;
+
+  return [
+    ...attachments.map((file): OpenAI.Chat.ChatCompletionContentPart => {
+      const dataUrl = `data:${file.mimeType};base64,${file.data}`;
+      return file.mimeType.startsWith('image/')
+        ? { type: 'image_url', image_url: { url: dataUrl } }
+        : { type: 'file', file: { file_data: dataUrl, filename: file.fileName ?? 'document.pdf' } };
+    }),
+    { type: 'text', text: prompt },
+  ];
+}
+
+/**
+ * Messages API content: documents/images go before the text block
+ */
+function toAnthropicContent(prompt: string, attachments: LLMAttachment[] = []): string | object[] {
+  if (!attachments.length) return prompt;
+
+  return [
+    ...attachments.map(file => ({
+      type: file.mimeType.startsWith('image/') ? 'image' : 'document',
+      source: { type: 'base64', media_type: file.mimeType, data: file.data },
+    })),
+    { type: 'text', text: prompt },
+  ];
+}
+
+/**
+ * Remove ```json fences some models wrap around JSON output
+ */
+function stripCodeFences(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+}
@@ -0,0 +1,239 @@
+/**
+ * Structured Output
+ * Minimal schema layer for LLM JSON responses: validate, report field-level
+ * issues, and make one targeted repair call before giving up
+ */
+
+import { callOpenAI } from './client';
+import { AICallOptions, AIStage } from './types';
+
+// =============================================================================
+// SCHEMA PRIMITIVES
+// =============================================================================
+
+export interface SchemaIssue {
+  path: string; // e.g. "required[2].importance"
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): SchemaResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Field types of an object schema, read off each field's schema
+export type InferShape<Shape extends Record<string, Schema<unknown>>> = {
+  [K in keyof Shape]: Infer<Shape[K]>;
+};
+
+const ok = <T>(data: T): SchemaResult<T> => ({ success: true, data });
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({
+  success: false,
+  issues: [{ path: path || '$', message }],
+});
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const s = {
+  string(options: { minLength?: number } = {}): Schema<string> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'string') return fail(path, `expected string, got ${describe(value)}`);
+        if (options.minLength && value.trim().length < options.minLength) {
+          return fail(path, `expected at least ${options.minLength} characters`);
+        }
+        return ok(value);
+      },
+    };
+  },
+
+  number(): Schema<number> {
+    return {
+      parse(value, path = '') {
+        return typeof value === 'number' && !Number.isNaN(value)
+          ? ok(value)
+          : fail(path, `expected number, got ${describe(value)}`);
+      },
+    };
+  },
+
+  enum<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+      parse(value, path = '') {
+        return typeof value === 'string' && (values as readonly string[]).includes(value)
+          ? ok(value as T)
+          : fail(path, `expected one of ${values.join('|')}, got ${JSON.stringify(value)}`);
+      },
+    };
+  },
+
+  array<T>(item: Schema<T>, options: { minItems?: number } = {}): Schema<T[]> {
+    return {
+      parse(value, path = '') {
+        if (!Array.isArray(value)) return fail(path, `expected array, got ${describe(value)}`);
+
+        const issues: SchemaIssue[] = [];
+        const data: T[] = [];
+        value.forEach((entry, i) => {
+          const result = item.parse(entry, `${path}[${i}]`);
+          if (result.success) data.push(result.data);
+          else issues.push(...result.issues);
+        });
+
+        if (options.minItems && value.length < options.minItems) {
+          issues.push({ path: path || '$', message: `expected at least ${options.minItems} items` });
+        }
+
+        return issues.length > 0 ? { success: false, issues } : ok(data);
+      },
+    };
+  },
+
+  object<Shape extends Record<string, Schema<unknown>>>(
+    shape: Shape
+  ): Schema<InferShape<Shape>> {
+    return {
+      parse(value, path = '') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return fail(path, `expected object, got ${describe(value)}`);
+        }
+
+        const record = value as Record<string, unknown>;
+        const issues: SchemaIssue[] = [];
+        const data: Record<string, unknown> = {};
+
+        for (const [key, schema] of Object.entries(shape)) {
+          const fieldPath = path ? `${path}.${key}` : key;
+          const result = schema.parse(record[key], fieldPath);
+          if (result.success) {
+            if (result.data !== undefined) data[key] = result.data;
+          } else {
+            issues.push(...result.issues);
+          }
+        }
+
+        return issues.length > 0
+          ? { success: false, issues }
+          : ok(data as InferShape<Shape>);
+      },
+    };
+  },
+
+  /**
+   * Missing or null values are accepted (and dropped)
+   */
+  optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+      parse(value, path = '') {
+        if (value === undefined || value === null) return ok(undefined);
+        return schema.parse(value, path);
+      },
+    };
+  },
+
+  /**
+   * Missing or null values are replaced with a default
+   */
+  withDefault<T>(schema: Schema<T>, fallback: () => T): Schema<T> {
+    return {
+      parse(value, path = '') {
+        if (value === undefined || value === null) return ok(fallback());
+        return schema.parse(value, path);
+      },
+    };
+  },
+};
+
+// =============================================================================
+// LLM CALL WITH VALIDATION + REPAIR
+// =============================================================================
+
+export class StructuredOutputError extends Error {
+  stage?: AIStage;
+  issues: SchemaIssue[];
+  rawResponse: string;
+
+  constructor(stage: AIStage | undefined, issues: SchemaIssue[], rawResponse: string) {
+    const summary = issues.slice(0, 3).map((i) => `${i.path} ${i.message}`).join('; ');
+    super(`Invalid ${stage ?? 'LLM'} response: ${summary}`);
+    this.name = 'StructuredOutputError';
+    this.stage = stage;
+    this.issues = issues;
+    this.rawResponse = rawResponse;
+  }
+}
+
+const REPAIR_PROMPT = `Your previous response did not match the required JSON structure.
+
+Validation errors:
+{ISSUES}
+
+Original instructions:
+{PROMPT}
+
+Your previous response:
+{RESPONSE}
+
+Return the corrected JSON object only. Fix the listed fields and keep everything else unchanged.`;
+
+/**
+ * Call the LLM in JSON mode and validate the response against a schema.
+ * On failure, makes ONE repair call that includes the validation errors.
+ * Throws StructuredOutputError if the repaired response is still invalid.
+ */
+export async function callStructured<T>(
+  options: AICallOptions & { schema: Schema<T> }
+): Promise<T> {
+  const { schema, ...callOptions } = options;
+
+  const response = await callOpenAI({ ...callOptions, jsonMode: true });
+  const first = validateResponse(response, schema);
+  if (first.success) return first.data;
+
+  const repairPrompt = REPAIR_PROMPT
+    .replace('{ISSUES}', formatIssues(first.issues))
+    .replace('{PROMPT}', callOptions.prompt)
+    .replace('{RESPONSE}', response);
+
+  const repaired = await callOpenAI({
+    ...callOptions,
+    prompt: repairPrompt,
+    jsonMode: true,
+    temperature: 0, // Deterministic fix-up
+  });
+  const second = validateResponse(repaired, schema);
+  if (second.success) return second.data;
+
+  throw new StructuredOutputError(callOptions.stage, second.issues, repaired);
+}
+
+/**
+ * Parse JSON and validate in one step
+ */
+export function validateResponse<T>(response: string, schema: Schema<T>): SchemaResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(response);
+  } catch (error) {
+    return fail('$', `response is not valid JSON (${(error as Error).message})`);
+  }
+  return schema.parse(data);
+}
+
+/**
+ * Render issues as "- path: message" lines
+ */
+export function formatIssues(issues: SchemaIssue[], limit = 20): string {
+  const lines = issues.slice(0, limit).map((i) => `- ${i.path}: ${i.message}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+}
@@ -0,0 +1,113 @@
+/**
+ * Type definitions for the LLM provider layer
+ * Every provider speaks the same single-prompt completion contract
+ */
+
+// Supported backends
+export type AIProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+// Pipeline stages that call an LLM (each can pick its own provider/model)
+export type AIStage = 'jd_analysis' | 'formatting' | 'cover_letter' | 'pdf_extraction';
+
+// Token counts for one completion
+export interface LLMTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Reported after each successful callOpenAI
+export interface LLMUsage extends LLMTokenUsage {
+  provider: AIProviderName;
+  model: string;
+  stage?: AIStage;
+  durationMs: number;
+  // True when the provider didn't report usage and tokens were approximated from text length
+  estimated: boolean;
+}
+
+// Per-run plumbing that stage functions pass through to the client
+export interface AICallContext {
+  signal?: AbortSignal;
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+// Options accepted by callOpenAI
+export interface AICallOptions extends AICallContext {
+  prompt: string;
+  attachments?: LLMAttachment[];
+  jsonMode?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  model?: string;
+  provider?: AIProviderName;
+  stage?: AIStage;
+  timeoutMs?: number; // Per attempt; defaults to 30s
+}
+
+/**
+ * @deprecated Use AICallOptions - kept for existing callers
+ */
+export type OpenAICallOptions = AICallOptions;
+
+// File sent alongside the prompt (scanned PDFs, images)
+export interface LLMAttachment {
+  mimeType: string;
+  data: string; // base64, no data: prefix
+  fileName?: string;
+}
+
+// Fully resolved request handed to a provider
+export interface LLMRequest {
+  prompt: string;
+  attachments?: LLMAttachment[];
+  jsonMode: boolean;
+  maxTokens: number;
+  temperature: number;
+  model: string;
+  stage?: AIStage;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage?: LLMTokenUsage; // Omitted when the backend doesn't report it
+}
+
+export interface LLMProvider {
+  name: AIProviderName;
+  defaultModel: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+// Per-stage override
+export interface AIStageConfig {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+export interface AIConfig {
+  provider: AIProviderName;
+  model?: string;
+  stages: Partial<Record<AIStage, AIStageConfig>>;
+}
+
+// Error types
+export type AIErrorType =
+  | 'timeout'
+  | 'rate_limit'
+  | 'invalid_response'
+  | 'api_error'
+  | 'network_error'
+  | 'cancelled';
+
+export class AIError extends Error {
+  type: AIErrorType;
+  retryable: boolean;
+
+  constructor(type: AIErrorType, message: string, retryable = false) {
+    super(message);
+    this.type = type;
+    this.retryable = retryable;
+    this.name = 'AIError';
+  }
+}
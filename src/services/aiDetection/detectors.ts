@@ -0,0 +1,184 @@
+/**
+ * Remote AI Detectors
+ * ZeroGPT, plus a generic backend for any detection API that takes JSON
+ * text and returns a JSON score. Both throw AIError on failure so the
+ * caller can fall back instead of reporting a score of 0.
+ */
+
+import { AIError } from '../ai/types';
+import { throwIfAborted } from '../ai/client';
+import { AIDetectionSentence, AIDetector, AIDetectorScore, HttpDetectorConfig } from './types';
+
+const ZEROGPT_API_URL = 'https://api.zerogpt.com/api/detect/detectText';
+const DEFAULT_TIMEOUT = 10000;
+
+interface ZeroGPTResponse {
+  success?: boolean;
+  error?: string;
+  data?: {
+    fakePercentage?: number;
+    isHuman?: boolean;
+    sentences?: unknown;
+    textWords?: number;
+  };
+}
+
+/**
+ * ZeroGPT returns:
+ * - fakePercentage: percentage of AI-generated content (0-100)
+ * - isHuman: boolean (but we calculate our own threshold)
+ * - sentences: array of { sentence, isAI }
+ * - textWords: word count
+ */
+export function createZeroGPTDetector(apiKey: string): AIDetector {
+  return {
+    id: 'zerogpt',
+    name: 'ZeroGPT',
+    remote: true,
+    async detect(text, options = {}) {
+      if (!apiKey) {
+        throw new AIError('api_error', 'ZeroGPT API key not configured.');
+      }
+
+      const raw = await postJSON(
+        ZEROGPT_API_URL,
+        { 'ApiKey': apiKey },
+        { input_text: text },
+        DEFAULT_TIMEOUT,
+        options.signal
+      );
+      if (!isRecord(raw)) {
+        throw new AIError('invalid_response', 'ZeroGPT returned no JSON object');
+      }
+      const data: ZeroGPTResponse = raw;
+
+      // Check for API errors in response
+      if (data.success === false || data.error) {
+        throw new AIError('api_error', `ZeroGPT returned an error: ${data.error ?? 'unknown'}`);
+      }
+
+      const score = data.data?.fakePercentage;
+      if (typeof score !== 'number') {
+        throw new AIError('invalid_response', 'ZeroGPT response has no score');
+      }
+
+      return {
+        score,
+        sentences: parseSentences(data.data?.sentences),
+        textWords: typeof data.data?.textWords === 'number' ? data.data.textWords : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Generic JSON detection API, described by HttpDetectorConfig
+ */
+export function createHttpDetector(config: HttpDetectorConfig): AIDetector {
+  const {
+    url,
+    apiKey,
+    apiKeyHeader = 'Authorization',
+    textField = 'text',
+    scorePath = 'score',
+    scoreScale = 'percent',
+    sentencesPath,
+    timeoutMs = DEFAULT_TIMEOUT,
+  } = config;
+
+  return {
+    id: 'http',
+    name: hostName(url),
+    remote: true,
+    async detect(text, options = {}): Promise<AIDetectorScore> {
+      if (!url) {
+        throw new AIError('api_error', 'AI detector URL not configured.');
+      }
+
+      const headers: Record<string, string> = {};
+      if (apiKey) {
+        headers[apiKeyHeader] = apiKeyHeader.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey;
+      }
+
+      const data = await postJSON(url, headers, { [textField]: text }, timeoutMs, options.signal);
+      const raw = valueAt(data, scorePath);
+      const score = typeof raw === 'string' ? parseFloat(raw) : raw;
+      if (typeof score !== 'number' || !Number.isFinite(score)) {
+        throw new AIError('invalid_response', `AI detector response has no number at "${scorePath}"`);
+      }
+
+      return {
+        score: scoreScale === 'fraction' ? score * 100 : score,
+        sentences: sentencesPath ? parseSentences(valueAt(data, sentencesPath)) : [],
+      };
+    },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function postJSON(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new AIError('api_error', `AI detector returned ${response.status} ${response.statusText}`);
+    }
+    return await response.json();
+  } catch (error) {
+    // Caller cancelled - surface that rather than a detector failure
+    throwIfAborted(signal);
+
+    if (error instanceof AIError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new AIError('timeout', 'AI detection timed out');
+    }
+    throw new AIError('network_error', `AI detection failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function parseSentences(raw: unknown): AIDetectionSentence[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isRecord).map((s) => ({
+    text: firstString(s.sentence, s.text) ?? '',
+    isAI: s.isAI === true || s.is_ai === true,
+  }));
+}
+
+function valueAt(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), data);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+function hostName(url: string): string {
+  const match = url.match(/^[a-z]+:\/\/([^/:]+)/i);
+  return match ? match[1] : 'Custom detector';
+}
@@ -0,0 +1,167 @@
+/**
+ * Heuristic AI Detector
+ * Offline backend: scores the writing patterns that set generated text
+ * apart - even sentence rhythm, stock phrasing and a narrow vocabulary.
+ * It is a rough signal, not a classifier, but it always answers and
+ * never sends the letter anywhere.
+ */
+
+import { AIError } from '../ai/types';
+import { AIDetectionSentence, AIDetector } from './types';
+
+// Phrases generated cover letters lean on (matched on word boundaries)
+const STOCK_PHRASES = [
+  'passionate about', 'excited to', 'thrilled to', 'delighted to', 'eager to',
+  'leverage', 'leveraging', 'synergy', 'spearhead', 'spearheaded', 'cutting-edge',
+  'unique opportunity', 'great fit', 'perfect fit', 'ideal candidate', 'proven track record',
+  'dynamic', 'fast-paced', 'results-driven', 'detail-oriented', 'self-starter',
+  'i am confident', 'i am writing to', 'i believe i would', 'align with', 'aligns with',
+  'furthermore', 'moreover', 'additionally', 'in today\'s', 'testament to',
+  'foster', 'robust', 'seamless', 'seamlessly', 'invaluable', 'honed', 'keen interest',
+  'valuable asset', 'contribute to your', 'look forward to the opportunity', 'esteemed',
+  'wealth of experience', 'deeply', 'resonates', 'tapestry', 'navigate the',
+];
+
+// Lines shorter than this (greetings, sign-offs, names) aren't sentences
+const MIN_SENTENCE_WORDS = 3;
+const MIN_SENTENCES = 3;
+// Moving window for the type-token ratio, so long letters aren't penalized
+const TTR_WINDOW = 50;
+
+// Share of the rhythm score each signal carries
+const RHYTHM_WEIGHTS = {
+  variance: 0.45,
+  burstiness: 0.35,
+  vocabulary: 0.2,
+};
+// How far a letter full of stock phrases pushes the score on its own
+const LEXICON_WEIGHT = 0.8;
+
+export interface WritingSignals {
+  sentences: number;
+  words: number;
+  // Standard deviation of sentence length over the mean
+  lengthVariation: number;
+  // Mean change in length between neighbouring sentences, over the mean length
+  burstiness: number;
+  // Stock phrases per 100 words
+  stockPhraseRate: number;
+  stockPhrases: string[];
+  // Moving-average type-token ratio
+  typeTokenRatio: number;
+}
+
+export function createHeuristicDetector(): AIDetector {
+  return {
+    id: 'heuristic',
+    name: 'On-device check',
+    remote: false,
+    async detect(text) {
+      const sentences = splitSentences(text);
+      const signals = measureWriting(text);
+      if (signals.sentences < MIN_SENTENCES) {
+        throw new AIError('invalid_response', `Need at least ${MIN_SENTENCES} sentences to score`);
+      }
+
+      return {
+        score: scoreSignals(signals),
+        sentences: sentences.map((sentence): AIDetectionSentence => ({
+          text: sentence,
+          isAI: findStockPhrases(sentence).length > 0,
+        })),
+        textWords: signals.words,
+      };
+    },
+  };
+}
+
+/**
+ * The raw signals behind a heuristic score
+ */
+export function measureWriting(text: string): WritingSignals {
+  const lengths = splitSentences(text)
+    .map(countWords)
+    .filter((n) => n >= MIN_SENTENCE_WORDS);
+  const words = tokens(text);
+  const mean = average(lengths);
+  const stockPhrases = findStockPhrases(text);
+
+  const deviation = Math.sqrt(average(lengths.map((n) => (n - mean) ** 2)));
+  const steps = lengths.slice(1).map((n, i) => Math.abs(n - lengths[i]));
+
+  return {
+    sentences: lengths.length,
+    words: words.length,
+    lengthVariation: mean > 0 ? deviation / mean : 0,
+    burstiness: mean > 0 && steps.length > 0 ? average(steps) / mean : 0,
+    stockPhraseRate: words.length > 0 ? (stockPhrases.length * 100) / words.length : 0,
+    stockPhrases,
+    typeTokenRatio: movingTypeTokenRatio(words),
+  };
+}
+
+/**
+ * Each signal maps onto 0 (reads human) - 1 (reads generated). Rhythm
+ * signals are averaged; stock phrasing then compounds with the rhythm
+ * instead of averaging it away, so either one alone can flag a letter.
+ */
+function scoreSignals(signals: WritingSignals): number {
+  const rhythm =
+    RHYTHM_WEIGHTS.variance * clamp((0.5 - signals.lengthVariation) / 0.4) +
+    RHYTHM_WEIGHTS.burstiness * clamp((0.6 - signals.burstiness) / 0.45) +
+    RHYTHM_WEIGHTS.vocabulary * clamp((0.8 - signals.typeTokenRatio) / 0.2);
+  const lexicon = clamp(signals.stockPhraseRate / 1.5);
+
+  return Math.round((1 - (1 - rhythm) * (1 - LEXICON_WEIGHT * lexicon)) * 100);
+}
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=["'(]?[A-Z0-9])/))
+    .map((s) => s.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+function findStockPhrases(text: string): string[] {
+  const lower = text.toLowerCase().replace(/[’‘]/g, "'");
+  const found: string[] = [];
+  for (const phrase of STOCK_PHRASES) {
+    const pattern = new RegExp(`(^|[^a-z'-])${phrase.replace(/[-']/g, '\\$&')}(?![a-z'-])`, 'g');
+    const hits = lower.match(pattern)?.length ?? 0;
+    for (let i = 0; i < hits; i++) found.push(phrase);
+  }
+  return found;
+}
+
+function movingTypeTokenRatio(words: string[]): number {
+  if (words.length === 0) return 0;
+  if (words.length <= TTR_WINDOW) return new Set(words).size / words.length;
+
+  let total = 0;
+  const windows = words.length - TTR_WINDOW + 1;
+  for (let start = 0; start < windows; start++) {
+    total += new Set(words.slice(start, start + TTR_WINDOW)).size / TTR_WINDOW;
+  }
+  return total / windows;
+}
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
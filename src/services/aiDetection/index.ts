@@ -0,0 +1,248 @@
+/**
+ * AI Detection Service
+ * Scores how AI-generated a cover letter reads, through a pluggable
+ * backend: ZeroGPT, any JSON detection API, or the on-device heuristic.
+ * Remote backends fall back to the heuristic, and a letter nothing could
+ * score is reported as unmeasured rather than as a pass.
+ */
+
+import { throwIfAborted } from '../ai/client';
+import { AIError } from '../ai/types';
+import { createHttpDetector, createZeroGPTDetector } from './detectors';
+import { createHeuristicDetector } from './heuristic';
+import { AIDetectionConfig, AIDetectionResult, AIDetector, AIDetectorId, AIDetectorScore } from './types';
+
+export type {
+  AIDetectionConfig,
+  AIDetectionResult,
+  AIDetectionSentence,
+  AIDetector,
+  AIDetectorId,
+  AIDetectorScore,
+  DetectOptions,
+  HttpDetectorConfig,
+} from './types';
+export { createHttpDetector, createZeroGPTDetector } from './detectors';
+export { createHeuristicDetector, measureWriting, type WritingSignals } from './heuristic';
+
+// Load keys and detector selection from environment variables
+const ZEROGPT_API_KEY = process.env.EXPO_PUBLIC_ZEROGPT_API_KEY || '';
+const DETECTOR_URL = process.env.EXPO_PUBLIC_AI_DETECTOR_URL || '';
+const DETECTOR_API_KEY = process.env.EXPO_PUBLIC_AI_DETECTOR_API_KEY || undefined;
+const DETECTOR_SCORE_PATH = process.env.EXPO_PUBLIC_AI_DETECTOR_SCORE_PATH || undefined;
+const ENV_DETECTOR = process.env.EXPO_PUBLIC_AI_DETECTOR as AIDetectorId | undefined;
+
+// Below this many characters there's nothing to score
+const MIN_TEXT_LENGTH = 100;
+
+export const AI_DETECTOR_NAMES: Record<AIDetectorId, string> = {
+  zerogpt: 'ZeroGPT',
+  http: 'Custom detector',
+  heuristic: 'On-device check',
+};
+
+let config: AIDetectionConfig = {
+  // Explicit choice, else whichever remote backend is configured, else on-device
+  detector: ENV_DETECTOR ?? (ZEROGPT_API_KEY ? 'zerogpt' : DETECTOR_URL ? 'http' : 'heuristic'),
+  fallback: 'heuristic',
+  zeroGPTApiKey: ZEROGPT_API_KEY,
+  http: DETECTOR_URL
+    ? { url: DETECTOR_URL, apiKey: DETECTOR_API_KEY, scorePath: DETECTOR_SCORE_PATH }
+    : null,
+  onError: (message, error) => console.error(message, error instanceof Error ? error.message : error),
+};
+
+const registeredDetectors = new Map<AIDetectorId, AIDetector>();
+
+/**
+ * Select the detector and fallback, or set keys at runtime
+ */
+export function configureAIDetection(updates: Partial<AIDetectionConfig>): void {
+  config = { ...config, ...updates };
+}
+
+export function getAIDetectionConfig(): AIDetectionConfig {
+  return config;
+}
+
+/**
+ * Register (or replace) a detector instance, e.g. a stub in tests;
+ * pass null to go back to the configured one
+ */
+export function registerAIDetector(id: AIDetectorId, detector: AIDetector | null): void {
+  if (detector) registeredDetectors.set(id, detector);
+  else registeredDetectors.delete(id);
+}
+
+/**
+ * Detector for an id (default: the configured one), built from the current config
+ */
+export function getAIDetector(id: AIDetectorId = config.detector): AIDetector {
+  const registered = registeredDetectors.get(id);
+  if (registered) return registered;
+
+  switch (id) {
+    case 'zerogpt':
+      return createZeroGPTDetector(config.zeroGPTApiKey);
+    case 'http':
+      return createHttpDetector(config.http ?? { url: '' });
+    case 'heuristic':
+      return createHeuristicDetector();
+  }
+}
+
+/**
+ * Detect AI-generated content in text
+ * @param text The text to analyze
+ * @param signal Aborting it cancels the request (throws instead of returning a fallback)
+ * @param options.detector Backend to use instead of the configured one
+ * @returns AIDetectionResult with score and analysis; check `measured`
+ *   before trusting the score
+ */
+export async function detectAIContent(
+  text: string,
+  signal?: AbortSignal,
+  options: { detector?: AIDetectorId } = {}
+): Promise<AIDetectionResult> {
+  throwIfAborted(signal);
+  const detector = getAIDetector(options.detector);
+
+  // Skip detection for very short text
+  if (!text || text.trim().length < MIN_TEXT_LENGTH) {
+    return unmeasuredResult(text, detector.id, 'Text too short to analyze');
+  }
+
+  try {
+    return toResult(await detector.detect(text, { signal }), text, detector.id);
+  } catch (error) {
+    // Caller cancelled - don't mask it as a fallback score
+    throwIfAborted(signal);
+    config.onError(`${detector.name} detection failed:`, error);
+
+    const fallbackId = config.fallback;
+    if (detector.remote && fallbackId && fallbackId !== detector.id) {
+      const fallback = getAIDetector(fallbackId);
+      try {
+        const result = toResult(await fallback.detect(text, { signal }), text, fallback.id);
+        return { ...result, feedback: `${result.feedback} (${detector.name} was unavailable, so this is an estimate.)` };
+      } catch {
+        throwIfAborted(signal);
+      }
+    }
+
+    const timedOut = error instanceof AIError && error.type === 'timeout';
+    return unmeasuredResult(text, detector.id, timedOut ? 'Detection timed out' : 'Detection unavailable');
+  }
+}
+
+function toResult(measurement: AIDetectorScore, text: string, detector: AIDetectorId): AIDetectionResult {
+  const score = Math.round(Math.min(100, Math.max(0, measurement.score)));
+  return {
+    score,
+    isHumanPassing: score < 50,
+    sentences: measurement.sentences,
+    textWords: measurement.textWords || text.split(/\s+/).length,
+    // Helpful, encouraging feedback based on score
+    feedback: generateFeedback(score),
+    detector,
+    measured: true,
+  };
+}
+
+/**
+ * Generate user-friendly feedback based on AI score
+ */
+function generateFeedback(aiScore: number): string {
+  if (aiScore < 20) {
+    return 'Excellent! Your writing sounds very natural and human.';
+  }
+  if (aiScore < 35) {
+    return 'Great job! Reads like it was written by a person.';
+  }
+  if (aiScore < 50) {
+    return 'Good. Mostly natural with minor AI-like patterns.';
+  }
+  if (aiScore < 65) {
+    return 'Some AI patterns detected. A few personal edits would help.';
+  }
+  if (aiScore < 80) {
+    return 'Noticeable AI patterns. Consider adding personal touches.';
+  }
+  return 'High AI content detected. We recommend editing before sending.';
+}
+
+/**
+ * Result when nothing could score the text: not a pass, just unknown
+ */
+function unmeasuredResult(text: string, detector: AIDetectorId, reason: string): AIDetectionResult {
+  return {
+    score: 0,
+    isHumanPassing: false,
+    sentences: [],
+    textWords: text ? text.split(/\s+/).length : 0,
+    feedback: reason,
+    detector,
+    measured: false,
+  };
+}
+
+/**
+ * Quick check without full analysis (for validation only)
+ * Returns just the score, or null when the text couldn't be scored
+ */
+export async function quickAICheck(text: string): Promise<number | null> {
+  const result = await detectAIContent(text);
+  return result.measured ? result.score : null;
+}
+
+/**
+ * Human-like writing style instructions for LLM prompts
+ * Use these when generating content that needs to pass AI detection
+ */
+export const HUMAN_WRITING_INSTRUCTIONS = `
+Write like a REAL PERSON, not AI. Follow these rules strictly:
+
+MUST DO:
+- Use contractions: I'm, I've, I'd, don't, can't, won't
+- Vary sentence length dramatically (some short, some longer)
+- Start 1-2 sentences with "And" or "But"
+- Use specific details and numbers (not round numbers)
+- Include one slightly informal phrase
+
+MUST AVOID:
+- "Passionate about" or "excited to"
+- "Leverage", "synergy", "spearhead", "dynamic"
+- "Thrilled", "delighted", "cutting-edge"
+- Perfect parallel structure in every list
+- Overly enthusiastic tone
+- Starting every sentence the same way
+
+TONE:
+- Confident but not arrogant
+- Professional but human
+- Specific but concise
+`;
+
+/**
+ * Cover letter specific instructions to avoid AI detection
+ */
+export const COVER_LETTER_HUMAN_INSTRUCTIONS = `
+Write this cover letter as a REAL PERSON would:
+
+CRITICAL RULES:
+1. Use contractions throughout (I'm, I've, I'd, don't)
+2. Start at least one sentence with "And" or "But"  
+3. Mix very short sentences with longer ones
+4. Include one slightly casual phrase (like "honestly" or "I have to say")
+5. Be matter-of-fact about achievements, don't oversell
+
+BANNED PHRASES (never use these):
+- "passionate about"
+- "excited to" / "thrilled to"
+- "leverage" / "synergy"
+- "unique opportunity"
+- "cutting-edge" / "spearhead"
+- "I believe I would be a great fit"
+
+Keep it under 250 words. Sound like a confident professional, not a robot.
+`;
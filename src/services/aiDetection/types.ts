@@ -0,0 +1,71 @@
+/**
+ * AI Detection Types
+ * Detector backends and the result every backend reports
+ */
+
+export type AIDetectorId = 'zerogpt' | 'http' | 'heuristic';
+
+export interface AIDetectionSentence {
+  text: string;
+  isAI: boolean;
+}
+
+export interface AIDetectionResult {
+  score: number; // 0-100 (percentage AI-generated, lower is better)
+  isHumanPassing: boolean; // true if score < 50
+  sentences: AIDetectionSentence[];
+  textWords: number;
+  feedback: string;
+  // Backend that produced the score
+  detector: AIDetectorId;
+  // False when nothing was scored (text too short, every backend failed);
+  // score is 0 then and means nothing
+  measured: boolean;
+}
+
+export interface DetectOptions {
+  signal?: AbortSignal;
+}
+
+// Raw measurement from one backend, before feedback and pass/fail are applied
+export interface AIDetectorScore {
+  score: number;
+  sentences: AIDetectionSentence[];
+  textWords?: number;
+}
+
+export interface AIDetector {
+  id: AIDetectorId;
+  name: string;
+  // Remote backends get the offline heuristic as a fallback
+  remote: boolean;
+  // Throws AIError when the backend can't score the text
+  detect(text: string, options?: DetectOptions): Promise<AIDetectorScore>;
+}
+
+// Any detection API that takes JSON text and returns a JSON score
+export interface HttpDetectorConfig {
+  url: string;
+  apiKey?: string;
+  // Header carrying the key; 'Authorization' sends "Bearer <key>"
+  apiKeyHeader?: string;
+  // Request body field holding the text
+  textField?: string;
+  // Dot path to the score in the response, e.g. "data.ai_probability"
+  scorePath?: string;
+  // 'fraction' scores are 0-1 and get scaled to 0-100
+  scoreScale?: 'percent' | 'fraction';
+  // Dot path to a [{ text|sentence, isAI|is_ai }] array, if the API has one
+  sentencesPath?: string;
+  timeoutMs?: number;
+}
+
+export interface AIDetectionConfig {
+  detector: AIDetectorId;
+  // Used when a remote detector fails; null reports the letter as unmeasured
+  fallback: AIDetectorId | null;
+  zeroGPTApiKey: string;
+  http: HttpDetectorConfig | null;
+  // Receives the backend failures detection recovers from (console.error by default)
+  onError: (message: string, error: unknown) => void;
+}
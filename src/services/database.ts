@@ -5,6 +5,7 @@
 
 import { supabase } from '../config/supabase';
 import { TailoringResult } from './tailoring/types';
+import type { CustomSynonym } from './tailoring/taxonomy';
 
 // ============================================
 // Types
@@ -22,6 +23,7 @@ export interface Profile {
   weekly_applications: number;
   week_start_date: string | null;
   last_application_date: string | null;
+  custom_synonyms: CustomSynonym[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -42,10 +44,13 @@ export interface Application {
   job_title: string | null;
   company: string | null;
   job_description: string | null;
+  job_url: string | null;
   match_score: number | null;
   ai_detection_score: number | null;
   tailored_resume: TailoringResult['resume'] | null;
   cover_letter: string | null;
+  cover_letter_options: TailoringResult['coverLetterOptions'] | null;
+  trace: TailoringResult['trace'] | null;
   status: 'generated' | 'applied' | 'replied' | 'interviewing' | 'offer' | 'rejected';
   applied_at: string | null;
   created_at: string;
@@ -124,6 +129,26 @@ export async function updateGoals(
   return true;
 }
 
+/**
+ * Replace the user's custom synonyms (validate with validateTaxonomy first)
+ */
+export async function updateCustomSynonyms(
+  userId: string,
+  synonyms: CustomSynonym[]
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ custom_synonyms: synonyms })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating custom synonyms:', error);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Update streak and application counts
  */
@@ -253,6 +278,69 @@ export async function updateResume(
   return true;
 }
 
+/**
+ * Rename a resume version
+ */
+export async function renameResume(
+  resumeId: string,
+  name: string
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('resumes')
+    .update({ name })
+    .eq('id', resumeId);
+
+  if (error) {
+    console.error('Error renaming resume:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Make one resume the primary (default base) resume
+ */
+export async function setPrimaryResume(
+  userId: string,
+  resumeId: string
+): Promise<boolean> {
+  await supabase
+    .from('resumes')
+    .update({ is_primary: false })
+    .eq('user_id', userId)
+    .eq('is_primary', true);
+
+  const { error } = await supabase
+    .from('resumes')
+    .update({ is_primary: true })
+    .eq('id', resumeId);
+
+  if (error) {
+    console.error('Error setting primary resume:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delete a resume version
+ */
+export async function deleteResume(resumeId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('resumes')
+    .delete()
+    .eq('id', resumeId);
+
+  if (error) {
+    console.error('Error deleting resume:', error);
+    return false;
+  }
+
+  return true;
+}
+
 // ============================================
 // Application Operations
 // ============================================
@@ -306,10 +394,13 @@ export async function saveApplication(
     jobTitle: string;
     company: string;
     jobDescription: string;
+    jobUrl?: string | null;
     matchScore: number;
     aiDetectionScore?: number;
     tailoredResume: TailoringResult['resume'];
     coverLetter: string;
+    coverLetterOptions?: TailoringResult['coverLetterOptions'];
+    trace?: TailoringResult['trace'];
     status?: ApplicationStatus;
   }
 ): Promise<Application | null> {
@@ -320,10 +411,13 @@ export async function saveApplication(
       job_title: data.jobTitle,
       company: data.company,
       job_description: data.jobDescription,
+      job_url: data.jobUrl || null,
       match_score: data.matchScore,
       ai_detection_score: data.aiDetectionScore || null,
       tailored_resume: data.tailoredResume,
       cover_letter: data.coverLetter,
+      cover_letter_options: data.coverLetterOptions || null,
+      trace: data.trace || null,
       status: data.status || 'generated',
       applied_at: data.status === 'applied' ? new Date().toISOString() : null,
     })
@@ -365,6 +459,34 @@ export async function updateApplicationStatus(
   return true;
 }
 
+/**
+ * Replace the tailored resume, cover letter and match score (after review or editing)
+ */
+export async function updateApplicationContent(
+  applicationId: string,
+  data: {
+    tailoredResume: TailoringResult['resume'];
+    coverLetter: string;
+    matchScore: number;
+  }
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('applications')
+    .update({
+      tailored_resume: data.tailoredResume,
+      cover_letter: data.coverLetter,
+      match_score: data.matchScore,
+    })
+    .eq('id', applicationId);
+
+  if (error) {
+    console.error('Error updating application content:', error);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Delete application
  */
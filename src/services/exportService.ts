@@ -1,24 +1,59 @@
 /**
- * Export Service - Generate PDFs from tailored resumes and cover letters
+ * Export Service - Generate PDF, DOCX, plain text and Markdown files from
+ * tailored resumes and cover letters
  * Uses ATS-friendly templates for professional output
  */
 
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
 import { TailoredResume } from './tailoring/types';
 import {
   generateResumeHTML,
   generateCoverLetterHTML,
+  buildResumeDocument,
+  buildCoverLetterDocument,
+  resumeToDocx,
+  resumeToMarkdown,
+  resumeToPlainText,
+  coverLetterToDocx,
+  coverLetterToMarkdown,
+  coverLetterToPlainText,
   ResumeTemplateOptions,
+  ResumeLayoutOptions,
   CoverLetterTemplateOptions,
 } from '../templates';
 
+export type ExportFormat = 'pdf' | 'docx' | 'txt' | 'md';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // iOS uniform type identifier, for the share sheet
+  uti: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf', uti: 'com.adobe.pdf' },
+  docx: {
+    label: 'Word',
+    extension: 'docx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    uti: 'org.openxmlformats.wordprocessingml.document',
+  },
+  txt: { label: 'Text', extension: 'txt', mimeType: 'text/plain', uti: 'public.plain-text' },
+  md: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', uti: 'net.daringfireball.markdown' },
+};
+
 export interface ResumeExportOptions {
   name?: string;
   email?: string;
   phone?: string;
   location?: string;
   linkedin?: string;
+  // Template, fonts, margins, section order, one-page fitting
+  layout?: ResumeLayoutOptions;
 }
 
 export interface CoverLetterExportOptions {
@@ -30,6 +65,65 @@ export interface CoverLetterExportOptions {
   recipientName?: string;
 }
 
+/**
+ * Export a tailored resume in any format
+ * @returns URI of the written file
+ */
+export async function exportResume(
+  resume: TailoredResume,
+  format: ExportFormat,
+  options?: ResumeExportOptions
+): Promise<string> {
+  if (format === 'pdf') return generateResumePDF(resume, options);
+
+  const templateOptions = toTemplateOptions(options);
+  const doc = buildResumeDocument(resume, templateOptions);
+  const content = format === 'docx'
+    ? resumeToDocx(doc, templateOptions)
+    : format === 'md'
+      ? resumeToMarkdown(doc)
+      : resumeToPlainText(doc);
+
+  return writeExportFile('Tailored_Resume', format, content);
+}
+
+/**
+ * Export a cover letter in any format
+ * @returns URI of the written file
+ */
+export async function exportCoverLetter(
+  coverLetter: string,
+  format: ExportFormat,
+  options: CoverLetterExportOptions = {}
+): Promise<string> {
+  if (format === 'pdf') {
+    return generateCoverLetterPDF(coverLetter, options.jobTitle, options.companyName, {
+      name: options.applicantName,
+      email: options.applicantEmail,
+      phone: options.applicantPhone,
+    });
+  }
+
+  const doc = buildCoverLetterDocument(coverLetter, options);
+  const content = format === 'docx'
+    ? coverLetterToDocx(doc)
+    : format === 'md'
+      ? coverLetterToMarkdown(doc)
+      : coverLetterToPlainText(doc);
+
+  return writeExportFile('Cover_Letter', format, content);
+}
+
+/**
+ * Write to the cache directory, replacing the previous export
+ */
+function writeExportFile(baseName: string, format: ExportFormat, content: string | Uint8Array): string {
+  const file = new File(Paths.cache, `${baseName}.${EXPORT_FORMATS[format].extension}`);
+  file.create({ overwrite: true });
+  file.write(content);
+  return file.uri;
+}
+
 /**
  * Generate a PDF from a tailored resume using ATS-friendly template
  */
@@ -37,17 +131,30 @@ export async function generateResumePDF(
   resume: TailoredResume,
   options?: ResumeExportOptions
 ): Promise<string> {
-  const templateOptions: ResumeTemplateOptions = {
+  const html = generateResumeHTML(resume, toTemplateOptions(options));
+  const { uri } = await Print.printToFileAsync({ html });
+  return uri;
+}
+
+/**
+ * Open the system print preview for a resume as it would be exported
+ */
+export async function previewResumePDF(
+  resume: TailoredResume,
+  options?: ResumeExportOptions
+): Promise<void> {
+  await Print.printAsync({ html: generateResumeHTML(resume, toTemplateOptions(options)) });
+}
+
+function toTemplateOptions(options?: ResumeExportOptions): ResumeTemplateOptions {
+  return {
     name: options?.name,
     email: options?.email,
     phone: options?.phone,
     location: options?.location,
     linkedin: options?.linkedin,
+    ...options?.layout,
   };
-
-  const html = generateResumeHTML(resume, templateOptions);
-  const { uri } = await Print.printToFileAsync({ html });
-  return uri;
 }
 
 /**
@@ -77,22 +184,30 @@ export async function generateCoverLetterPDF(
 }
 
 /**
- * Share a PDF file
+ * Share an exported file
  */
-export async function sharePDF(uri: string, filename?: string): Promise<void> {
+export async function shareExport(uri: string, format: ExportFormat, filename?: string): Promise<void> {
   const isAvailable = await Sharing.isAvailableAsync();
 
   if (!isAvailable) {
     throw new Error('Sharing is not available on this device');
   }
 
+  const { mimeType, uti } = EXPORT_FORMATS[format];
   await Sharing.shareAsync(uri, {
-    mimeType: 'application/pdf',
+    mimeType,
     dialogTitle: filename || 'Share Document',
-    UTI: 'com.adobe.pdf',
+    UTI: uti,
   });
 }
 
+/**
+ * Share a PDF file
+ */
+export async function sharePDF(uri: string, filename?: string): Promise<void> {
+  await shareExport(uri, 'pdf', filename);
+}
+
 /**
  * Check if sharing is available on this device
  */
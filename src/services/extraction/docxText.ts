@@ -0,0 +1,361 @@
+/**
+ * DOCX Text Extraction
+ * Unzips the package and reads word/document.xml (plus headers, where
+ * Word templates often put the name and contact line). Paragraph order is
+ * document order; list paragraphs get their bullet or number back.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { ExtractionError, type ExtractedPage } from './types';
+
+// ============================================
+// XML
+// ============================================
+
+interface XmlNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: Array<XmlNode | string>;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const TAG = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>/g;
+const ATTR = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Small non-validating XML parser - enough for OOXML parts
+ */
+function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: '#root', attrs: {}, children: [] };
+  const stack: XmlNode[] = [root];
+  let last = 0;
+
+  TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG.exec(xml))) {
+    const parent = stack[stack.length - 1];
+    if (match.index > last) {
+      parent.children.push(decodeEntities(xml.slice(last, match.index)));
+    }
+    last = TAG.lastIndex;
+
+    const [, closing, name, rawAttrs, selfClosing, cdata] = match;
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (!name) {
+      continue; // Declaration or comment
+    } else if (closing) {
+      // Pop to the matching element (tolerates unbalanced markup)
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else {
+      const attrs: Record<string, string> = {};
+      ATTR.lastIndex = 0;
+      let attr: RegExpExecArray | null;
+      while ((attr = ATTR.exec(rawAttrs || ''))) {
+        attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+      }
+      const node: XmlNode = { name, attrs, children: [] };
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function elements(node: XmlNode): XmlNode[] {
+  return node.children.filter((child): child is XmlNode => typeof child !== 'string');
+}
+
+function child(node: XmlNode | undefined, name: string): XmlNode | undefined {
+  return node ? elements(node).find(el => el.name === name) : undefined;
+}
+
+function find(node: XmlNode, name: string): XmlNode | undefined {
+  for (const el of elements(node)) {
+    if (el.name === name) return el;
+    const found = find(el, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// ============================================
+// NUMBERING
+// ============================================
+
+interface ListLevel {
+  format: string; // 'bullet', 'decimal', 'lowerLetter', ...
+}
+
+type Numbering = Map<string, Map<string, ListLevel>>; // numId -> ilvl -> level
+
+function parseNumbering(xml: string | undefined): Numbering {
+  const numbering: Numbering = new Map();
+  if (!xml) return numbering;
+
+  const root = find(parseXml(xml), 'w:numbering');
+  if (!root) return numbering;
+
+  const abstracts = new Map<string, Map<string, ListLevel>>();
+  for (const el of elements(root)) {
+    if (el.name !== 'w:abstractNum') continue;
+    const levels = new Map<string, ListLevel>();
+    for (const lvl of elements(el)) {
+      if (lvl.name !== 'w:lvl') continue;
+      levels.set(lvl.attrs['w:ilvl'] ?? '0', {
+        format: child(lvl, 'w:numFmt')?.attrs['w:val'] ?? 'bullet',
+      });
+    }
+    abstracts.set(el.attrs['w:abstractNumId'], levels);
+  }
+
+  for (const el of elements(root)) {
+    if (el.name !== 'w:num') continue;
+    const abstractId = child(el, 'w:abstractNumId')?.attrs['w:val'];
+    const levels = abstractId !== undefined ? abstracts.get(abstractId) : undefined;
+    if (levels) numbering.set(el.attrs['w:numId'], levels);
+  }
+
+  return numbering;
+}
+
+function formatListMarker(format: string, index: number): string {
+  switch (format) {
+    case 'bullet':
+      return '•';
+    case 'lowerLetter':
+      return `${String.fromCharCode(96 + ((index - 1) % 26) + 1)}.`;
+    case 'upperLetter':
+      return `${String.fromCharCode(64 + ((index - 1) % 26) + 1)}.`;
+    case 'none':
+      return '';
+    default:
+      return `${index}.`;
+  }
+}
+
+// ============================================
+// BODY
+// ============================================
+
+const PAGE_BREAK = '\f';
+
+class DocxWalker {
+  private lines: string[] = [];
+  private counters = new Map<string, number>();
+
+  constructor(private numbering: Numbering) {}
+
+  walkBody(body: XmlNode): string {
+    this.block(body);
+    return this.lines.join('\n');
+  }
+
+  private block(node: XmlNode): void {
+    for (const el of elements(node)) {
+      switch (el.name) {
+        case 'w:p':
+          this.paragraph(el);
+          break;
+        case 'w:tbl':
+          this.table(el);
+          break;
+        case 'w:sdt':
+          this.block(child(el, 'w:sdtContent') ?? el);
+          break;
+        case 'w:sectPr':
+          break;
+        default:
+          // customXml, smartTag and other wrappers
+          this.block(el);
+      }
+    }
+  }
+
+  private paragraph(p: XmlNode): void {
+    const nested: XmlNode[] = [];
+    const text = this.runs(p, nested);
+    const marker = this.listMarker(p);
+
+    let pendingMarker = marker;
+    for (const part of text.split('\n')) {
+      if (part === PAGE_BREAK) {
+        this.lines.push(PAGE_BREAK);
+        continue;
+      }
+      const line = part.replace(/[ \u00A0]+/g, ' ').trim();
+      if (pendingMarker && line) {
+        this.lines.push(`${pendingMarker} ${line}`);
+        pendingMarker = '';
+      } else {
+        this.lines.push(line);
+      }
+    }
+
+    // Text boxes are laid out after their anchor paragraph
+    nested.forEach(box => this.block(box));
+  }
+
+  /**
+   * Collect run text inside a paragraph; text box contents go to `nested`
+   */
+  private runs(node: XmlNode, nested: XmlNode[]): string {
+    let out = '';
+    for (const item of node.children) {
+      if (typeof item === 'string') continue;
+      switch (item.name) {
+        case 'w:t':
+          out += item.children.filter((c): c is string => typeof c === 'string').join('');
+          break;
+        case 'w:tab':
+          out += '\t';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          out += item.attrs['w:type'] === 'page' ? `\n${PAGE_BREAK}\n` : '\n';
+          break;
+        case 'w:lastRenderedPageBreak':
+          // Word records where it last broke the page - good enough for page numbers
+          if (out.trim()) out += `\n${PAGE_BREAK}\n`;
+          else out = `${PAGE_BREAK}\n` + out;
+          break;
+        case 'w:noBreakHyphen':
+          out += '-';
+          break;
+        case 'w:sym':
+          out += item.attrs['w:char'] && /^F0B7$/i.test(item.attrs['w:char']) ? '•' : '';
+          break;
+        case 'w:txbxContent':
+          nested.push(item);
+          break;
+        case 'mc:Fallback':
+        case 'w:instrText':
+        case 'w:delText':
+        case 'w:pPr':
+        case 'w:rPr':
+          break;
+        default:
+          out += this.runs(item, nested);
+      }
+    }
+    return out;
+  }
+
+  private listMarker(p: XmlNode): string {
+    const numPr = child(child(p, 'w:pPr'), 'w:numPr');
+    if (!numPr) return '';
+
+    const numId = child(numPr, 'w:numId')?.attrs['w:val'];
+    const ilvl = child(numPr, 'w:ilvl')?.attrs['w:val'] ?? '0';
+    if (!numId || numId === '0') return '';
+
+    const level = this.numbering.get(numId)?.get(ilvl);
+    const key = `${numId}:${ilvl}`;
+    const index = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, index);
+
+    // Without numbering.xml assume a bullet list, by far the common case
+    return formatListMarker(level?.format ?? 'bullet', index);
+  }
+
+  /**
+   * Layout tables (common in resume templates) become one line per row
+   * when every cell is a single paragraph, otherwise cell by cell
+   */
+  private table(tbl: XmlNode): void {
+    for (const row of elements(tbl).filter(el => el.name === 'w:tr')) {
+      const cells = elements(row).filter(el => el.name === 'w:tc');
+      const simple = cells.every(
+        cell => elements(cell).filter(el => el.name === 'w:p' || el.name === 'w:tbl').length <= 1
+          && !find(cell, 'w:tbl')
+          && !find(cell, 'w:numPr')
+      );
+
+      if (simple) {
+        const texts = cells
+          .map(cell => this.runs(cell, []).replace(/\s+/g, ' ').trim())
+          .filter(Boolean);
+        if (texts.length) this.lines.push(texts.join(' | '));
+      } else {
+        cells.forEach(cell => this.block(cell));
+      }
+    }
+  }
+}
+
+// ============================================
+// PACKAGE
+// ============================================
+
+/**
+ * Extract text from raw DOCX bytes, split on explicit and rendered page breaks
+ */
+export function extractDOCXText(bytes: Uint8Array): ExtractedPage[] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, {
+      filter: file => /^word\/(document|numbering|header\d*)\.xml$/.test(file.name),
+    });
+  } catch {
+    throw new ExtractionError('Could not open the Word document - the file may be damaged');
+  }
+
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw new ExtractionError('Not a Word document (missing word/document.xml)');
+  }
+
+  const numbering = parseNumbering(files['word/numbering.xml'] ? strFromU8(files['word/numbering.xml']) : undefined);
+
+  const headerNames = Object.keys(files).filter(name => /^word\/header\d*\.xml$/.test(name)).sort();
+  const headerLines: string[] = [];
+  for (const name of headerNames) {
+    const header = find(parseXml(strFromU8(files[name])), 'w:hdr');
+    if (!header) continue;
+    const text = new DocxWalker(numbering).walkBody(header).trim();
+    // Different first-page/odd/even headers usually repeat the same text
+    if (text && !headerLines.includes(text)) headerLines.push(text);
+  }
+
+  const body = find(parseXml(strFromU8(documentXml)), 'w:body');
+  const bodyText = body ? new DocxWalker(numbering).walkBody(body) : '';
+
+  const pages = bodyText
+    .split(PAGE_BREAK)
+    .map(page => tidy(page))
+    .filter((page, index, all) => page || (index === 0 && all.length === 1));
+
+  if (headerLines.length) {
+    pages[0] = tidy(`${headerLines.join('\n')}\n\n${pages[0] ?? ''}`);
+  }
+
+  return pages.map((text, index) => ({
+    pageNumber: index + 1,
+    text,
+    // DOCX stores real characters, so anything found is exact
+    confidence: text ? 1 : 0,
+    hasImages: false,
+  }));
+}
+
+function tidy(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\t+/g, ' | ').replace(/^\s*\|\s*|\s*\|\s*$/g, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,128 @@
+/**
+ * Local Document Extraction
+ * On-device text extraction for uploaded resumes (PDF, DOCX, plain text).
+ * Pure TypeScript on top of fflate, so it runs the same in the app and in Node.
+ */
+
+import { strFromU8 } from 'fflate';
+import { extractDOCXText } from './docxText';
+import { extractPDFText } from './pdfText';
+import {
+  DocumentFormat,
+  ExtractedPage,
+  ExtractionError,
+  ExtractionResult,
+} from './types';
+
+export type { DocumentFormat, ExtractedPage, ExtractionResult } from './types';
+export { ExtractionError } from './types';
+export { scorePageText } from './pdfText';
+
+// Pages below this confidence are treated as unreadable
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+// A real resume has more text than this
+const MIN_DOCUMENT_CHARS = 100;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export interface ExtractionOptions {
+  fileName?: string;
+  mimeType?: string;
+}
+
+/**
+ * Decode base64 (as returned by expo-file-system) to bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/^data:[^,]*,/, '').replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Identify the format from magic bytes, falling back to the name/mime type
+ */
+export function detectDocumentFormat(bytes: Uint8Array, options: ExtractionOptions = {}): DocumentFormat | undefined {
+  const head = String.fromCharCode(...Array.from(bytes.subarray(0, 1024)));
+  if (head.includes('%PDF-')) return 'pdf';
+  // DOCX is a zip package
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) return 'docx';
+
+  const name = options.fileName?.toLowerCase() ?? '';
+  const mime = options.mimeType ?? '';
+  if (mime === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (mime === DOCX_MIME || name.endsWith('.docx')) return 'docx';
+  if (mime.startsWith('text/') || /\.(txt|md)$/.test(name)) return 'text';
+  return undefined;
+}
+
+/**
+ * Extract text locally. Never calls a model - callers decide whether a
+ * low-confidence PDF (see needsOCR) is worth sending to one.
+ */
+export function extractDocumentText(bytes: Uint8Array, options: ExtractionOptions = {}): ExtractionResult {
+  const format = detectDocumentFormat(bytes, options);
+  const warnings: string[] = [];
+  let pages: ExtractedPage[];
+
+  switch (format) {
+    case 'pdf': {
+      const result = extractPDFText(bytes);
+      pages = result.pages;
+      if (result.encrypted) {
+        warnings.push('PDF is encrypted - text may be unreadable');
+      }
+      break;
+    }
+    case 'docx':
+      pages = extractDOCXText(bytes);
+      break;
+    case 'text': {
+      const text = strFromU8(bytes).replace(/\r\n?/g, '\n').trim();
+      pages = [{ pageNumber: 1, text, confidence: text ? 1 : 0, hasImages: false }];
+      break;
+    }
+    default:
+      throw new ExtractionError('Unsupported file type. Please upload a PDF or Word (.docx) file.');
+  }
+
+  pages.forEach(page => {
+    if (page.confidence < LOW_CONFIDENCE_THRESHOLD) {
+      warnings.push(
+        page.hasImages && !page.text
+          ? `Page ${page.pageNumber} looks scanned (image only)`
+          : `Page ${page.pageNumber} has little readable text`
+      );
+    }
+  });
+
+  return {
+    format,
+    text: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+    pages,
+    confidence: averageConfidence(pages),
+    method: 'local',
+    warnings,
+  };
+}
+
+/**
+ * True when local extraction didn't recover usable text - a scanned or
+ * image-only PDF that needs OCR
+ */
+export function needsOCR(result: ExtractionResult): boolean {
+  if (result.format !== 'pdf') return false;
+  if (result.text.replace(/\s+/g, '').length < MIN_DOCUMENT_CHARS) return true;
+
+  const lowPages = result.pages.filter(page => page.confidence < LOW_CONFIDENCE_THRESHOLD).length;
+  return lowPages / Math.max(result.pages.length, 1) >= 0.5;
+}
+
+function averageConfidence(pages: ExtractedPage[]): number {
+  if (!pages.length) return 0;
+  const total = pages.reduce((sum, page) => sum + page.confidence, 0);
+  return Math.round((total / pages.length) * 100) / 100;
+}
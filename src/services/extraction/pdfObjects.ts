@@ -0,0 +1,570 @@
+/**
+ * PDF Object Reader
+ * Minimal PDF syntax parser: objects, object streams and stream decoding.
+ * Only what text extraction needs - no rendering, no writing.
+ */
+
+import { unzlibSync, inflateSync } from 'fflate';
+import { ExtractionError } from './types';
+
+export interface PDFName {
+  type: 'name';
+  value: string;
+}
+
+export interface PDFString {
+  type: 'string';
+  value: string; // Raw bytes as a latin1 string (one char per byte)
+}
+
+export interface PDFRef {
+  type: 'ref';
+  num: number;
+  gen: number;
+}
+
+export interface PDFDict {
+  type: 'dict';
+  entries: Record<string, PDFValue>;
+}
+
+export interface PDFStream {
+  type: 'stream';
+  dict: PDFDict;
+  start: number;
+  end: number;
+}
+
+export type PDFValue =
+  | null
+  | boolean
+  | number
+  | PDFName
+  | PDFString
+  | PDFRef
+  | PDFDict
+  | PDFStream
+  | PDFValue[];
+
+// Bare keyword in a content stream (operator) or object body
+export interface PDFKeyword {
+  type: 'keyword';
+  value: string;
+}
+
+export type PDFToken = PDFValue | PDFKeyword;
+
+// ============================================
+// LEXER
+// ============================================
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map(c => c.charCodeAt(0)));
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '(': '(',
+  ')': ')',
+  '\\': '\\',
+};
+
+/**
+ * Tokenizer over a latin1 string view of the file (offsets match byte offsets)
+ */
+export class PDFLexer {
+  constructor(public src: string, public pos: number = 0) {}
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.src.length;
+  }
+
+  skipWhitespace(): void {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const code = src.charCodeAt(this.pos);
+      if (WHITESPACE.has(code)) {
+        this.pos++;
+      } else if (code === 0x25) {
+        // % comment to end of line
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Read one value or keyword. Refs ("12 0 R") are folded into a single token.
+   */
+  readToken(): PDFToken | undefined {
+    this.skipWhitespace();
+    const { src } = this;
+    if (this.pos >= src.length) return undefined;
+
+    const ch = src[this.pos];
+
+    if (ch === '/') return this.readName();
+    if (ch === '(') return this.readLiteralString();
+    if (ch === '[') {
+      this.pos++;
+      return this.readArray();
+    }
+    if (ch === '<') {
+      if (src[this.pos + 1] === '<') {
+        this.pos += 2;
+        return this.readDict();
+      }
+      return this.readHexString();
+    }
+    if (ch === ']' || ch === '>' || ch === ')' || ch === '{' || ch === '}') {
+      // Stray delimiter - surface it so callers can stop
+      this.pos += ch === '>' && src[this.pos + 1] === '>' ? 2 : 1;
+      return { type: 'keyword', value: ch === '>' ? '>>' : ch };
+    }
+
+    const word = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const num = parseFloat(word);
+      // Lookahead for "num gen R"
+      if (/^\d+$/.test(word)) {
+        const saved = this.pos;
+        this.skipWhitespace();
+        const gen = this.readRegular();
+        if (/^\d+$/.test(gen)) {
+          this.skipWhitespace();
+          if (src[this.pos] === 'R' && this.isBoundary(this.pos + 1)) {
+            this.pos++;
+            return { type: 'ref', num, gen: parseInt(gen, 10) };
+          }
+        }
+        this.pos = saved;
+      }
+      return num;
+    }
+
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { type: 'keyword', value: word };
+  }
+
+  /**
+   * Read a value, treating keywords as terminators (object bodies)
+   */
+  readValue(): PDFValue | undefined {
+    const token = this.readToken();
+    if (token && typeof token === 'object' && !Array.isArray(token) && token.type === 'keyword') {
+      return undefined;
+    }
+    return token as PDFValue | undefined;
+  }
+
+  private isBoundary(index: number): boolean {
+    if (index >= this.src.length) return true;
+    const code = this.src.charCodeAt(index);
+    return WHITESPACE.has(code) || DELIMITERS.has(code);
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.src.length && !this.isBoundary(this.pos)) {
+      this.pos++;
+    }
+    // Guarantee progress on unexpected bytes
+    if (this.pos === start) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private readName(): PDFName {
+    this.pos++; // '/'
+    const start = this.pos;
+    while (this.pos < this.src.length && !this.isBoundary(this.pos)) {
+      this.pos++;
+    }
+    const raw = this.src.slice(start, this.pos);
+    return {
+      type: 'name',
+      value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+    };
+  }
+
+  private readLiteralString(): PDFString {
+    const { src } = this;
+    this.pos++; // '('
+    let depth = 1;
+    let out = '';
+
+    while (this.pos < src.length) {
+      const ch = src[this.pos++];
+      if (ch === '\\') {
+        const next = src[this.pos++];
+        if (next === undefined) break;
+        if (ESCAPES[next] !== undefined) {
+          out += ESCAPES[next];
+        } else if (next >= '0' && next <= '7') {
+          let octal = next;
+          while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') {
+            octal += src[this.pos++];
+          }
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r') {
+          // Line continuation
+          if (src[this.pos] === '\n') this.pos++;
+        } else if (next !== '\n') {
+          out += next;
+        }
+      } else if (ch === '(') {
+        depth++;
+        out += ch;
+      } else if (ch === ')') {
+        depth--;
+        if (depth === 0) break;
+        out += ch;
+      } else {
+        out += ch;
+      }
+    }
+
+    return { type: 'string', value: out };
+  }
+
+  private readHexString(): PDFString {
+    this.pos++; // '<'
+    const end = this.src.indexOf('>', this.pos);
+    const stop = end === -1 ? this.src.length : end;
+    let hex = this.src.slice(this.pos, stop).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = stop + 1;
+    if (hex.length % 2) hex += '0';
+
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) {
+      out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    }
+    return { type: 'string', value: out };
+  }
+
+  private readArray(): PDFValue[] {
+    const items: PDFValue[] = [];
+    while (this.pos < this.src.length) {
+      const token = this.readToken();
+      if (token === undefined) break;
+      if (isKeyword(token)) {
+        if (token.value === ']') break;
+        continue; // Unexpected keyword inside an array - skip it
+      }
+      items.push(token);
+    }
+    return items;
+  }
+
+  private readDict(): PDFDict {
+    const entries: Record<string, PDFValue> = {};
+    while (this.pos < this.src.length) {
+      const key = this.readToken();
+      if (key === undefined) break;
+      if (isKeyword(key)) {
+        if (key.value === '>>') break;
+        continue;
+      }
+      if (!isName(key)) continue;
+
+      const value = this.readToken();
+      if (value === undefined) break;
+      if (isKeyword(value)) {
+        if (value.value === '>>') break;
+        continue;
+      }
+      entries[key.value] = value;
+    }
+    return { type: 'dict', entries };
+  }
+}
+
+export function isKeyword(token: PDFToken | undefined): token is PDFKeyword {
+  return !!token && typeof token === 'object' && !Array.isArray(token) && token.type === 'keyword';
+}
+
+export function isName(value: PDFToken | undefined): value is PDFName {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'name';
+}
+
+export function isString(value: PDFToken | undefined): value is PDFString {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'string';
+}
+
+export function isDict(value: PDFToken | undefined): value is PDFDict {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'dict';
+}
+
+export function isStream(value: PDFToken | undefined): value is PDFStream {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'stream';
+}
+
+export function isRef(value: PDFToken | undefined): value is PDFRef {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'ref';
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+const MAX_RESOLVE_DEPTH = 32;
+
+/**
+ * Indexed view of a PDF file. Objects are found by scanning for "n g obj"
+ * rather than trusting the xref table, which is often broken in the wild.
+ */
+export class PDFDocument {
+  readonly src: string;
+  private objects = new Map<number, PDFValue>();
+  private decoded = new Map<PDFStream, Uint8Array>();
+
+  constructor(readonly bytes: Uint8Array) {
+    this.src = bytesToLatin1(bytes);
+    // The header may be preceded by junk, but only a little
+    const header = this.src.indexOf('%PDF-');
+    if (header === -1 || header > 1024) {
+      throw new ExtractionError('Not a PDF file');
+    }
+    this.indexObjects();
+  }
+
+  get(num: number): PDFValue {
+    return this.objects.get(num) ?? null;
+  }
+
+  /**
+   * Follow references until a direct value is reached
+   */
+  resolve(value: PDFValue | undefined): PDFValue {
+    let current: PDFValue | undefined = value;
+    for (let depth = 0; isRef(current) && depth < MAX_RESOLVE_DEPTH; depth++) {
+      current = this.get(current.num);
+    }
+    return current ?? null;
+  }
+
+  /**
+   * Dictionary of a dict or stream value (resolving refs)
+   */
+  dict(value: PDFValue | undefined): PDFDict | undefined {
+    const resolved = this.resolve(value);
+    if (isDict(resolved)) return resolved;
+    if (isStream(resolved)) return resolved.dict;
+    return undefined;
+  }
+
+  lookup(dict: PDFDict | undefined, key: string): PDFValue {
+    return dict ? this.resolve(dict.entries[key]) : null;
+  }
+
+  /**
+   * Catalog of the last trailer / xref stream that has a /Root
+   */
+  get catalog(): PDFDict | undefined {
+    const trailerRoot = this.findTrailerRoot();
+    if (trailerRoot) return this.dict(trailerRoot);
+
+    // Fallback: any object typed as the catalog
+    for (const value of this.objects.values()) {
+      const dict = isStream(value) ? value.dict : value;
+      if (isDict(dict) && nameOf(dict.entries.Type) === 'Catalog') return dict;
+    }
+    return undefined;
+  }
+
+  get isEncrypted(): boolean {
+    return /\/Encrypt\s/.test(this.src.slice(Math.max(0, this.src.lastIndexOf('trailer'))))
+      || Array.from(this.objects.values()).some(
+        value => isStream(value) && nameOf(value.dict.entries.Type) === 'XRef' && !!value.dict.entries.Encrypt
+      );
+  }
+
+  /**
+   * Decoded stream bytes. Unsupported filters return undefined.
+   */
+  streamData(stream: PDFStream): Uint8Array | undefined {
+    if (this.decoded.has(stream)) return this.decoded.get(stream);
+
+    let data: Uint8Array | undefined = this.bytes.subarray(stream.start, stream.end);
+    const filterValue = this.resolve(stream.dict.entries.Filter);
+    const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+      .map(f => nameOf(this.resolve(f)))
+      .filter((f): f is string => !!f);
+
+    for (const filter of filters) {
+      if (!data) break;
+      data = decodeFilter(filter, data);
+    }
+
+    if (data) this.decoded.set(stream, data);
+    return data;
+  }
+
+  private findTrailerRoot(): PDFRef | undefined {
+    const trailerIndex = this.src.lastIndexOf('trailer');
+    if (trailerIndex !== -1) {
+      const lexer = new PDFLexer(this.src, trailerIndex + 'trailer'.length);
+      const trailer = lexer.readValue();
+      if (isDict(trailer) && isRef(trailer.entries.Root)) return trailer.entries.Root;
+    }
+
+    // PDF 1.5+ cross-reference streams carry the trailer keys
+    let root: PDFRef | undefined;
+    for (const value of this.objects.values()) {
+      if (isStream(value) && nameOf(value.dict.entries.Type) === 'XRef' && isRef(value.dict.entries.Root)) {
+        root = value.dict.entries.Root;
+      }
+    }
+    return root;
+  }
+
+  private indexObjects(): void {
+    const { src } = this;
+    const objectStreams: PDFStream[] = [];
+
+    OBJECT_HEADER.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = OBJECT_HEADER.exec(src))) {
+      const num = parseInt(match[1], 10);
+      const lexer = new PDFLexer(src, match.index + match[0].length);
+      let value = lexer.readValue() ?? null;
+
+      if (isDict(value)) {
+        const stream = this.readStreamBody(value, lexer.pos);
+        if (stream) {
+          value = stream;
+          OBJECT_HEADER.lastIndex = stream.end;
+          if (nameOf(stream.dict.entries.Type) === 'ObjStm') objectStreams.push(stream);
+        }
+      }
+
+      // Later definitions (incremental updates) win
+      this.objects.set(num, value);
+    }
+
+    for (const stream of objectStreams) {
+      this.indexObjectStream(stream);
+    }
+  }
+
+  private readStreamBody(dict: PDFDict, pos: number): PDFStream | undefined {
+    const { src } = this;
+    const lexer = new PDFLexer(src, pos);
+    lexer.skipWhitespace();
+    if (!src.startsWith('stream', lexer.pos)) return undefined;
+
+    let start = lexer.pos + 'stream'.length;
+    if (src[start] === '\r') start++;
+    if (src[start] === '\n') start++;
+
+    // /Length may be an indirect ref to an object we haven't indexed yet
+    const lengthValue = dict.entries.Length;
+    let length = typeof lengthValue === 'number' ? lengthValue : -1;
+    if (isRef(lengthValue)) {
+      const resolved = this.resolveLengthRef(lengthValue);
+      if (typeof resolved === 'number') length = resolved;
+    }
+
+    let end = start + length;
+    if (length < 0 || !/^\s*endstream/.test(src.slice(end, end + 20))) {
+      const endstream = src.indexOf('endstream', start);
+      end = endstream === -1 ? src.length : endstream;
+      // Trim the EOL that precedes "endstream"
+      if (src[end - 1] === '\n') end--;
+      if (src[end - 1] === '\r') end--;
+    }
+
+    return { type: 'stream', dict, start, end };
+  }
+
+  private resolveLengthRef(ref: PDFRef): PDFValue | undefined {
+    const known = this.objects.get(ref.num);
+    if (known !== undefined) return known;
+
+    const pattern = new RegExp(`(?:^|[^0-9])${ref.num}\\s+${ref.gen}\\s+obj\\b`);
+    const match = pattern.exec(this.src);
+    if (!match) return undefined;
+    const lexer = new PDFLexer(this.src, match.index + match[0].length);
+    return lexer.readValue();
+  }
+
+  private indexObjectStream(stream: PDFStream): void {
+    const data = this.streamData(stream);
+    const count = this.resolve(stream.dict.entries.N);
+    const first = this.resolve(stream.dict.entries.First);
+    if (!data || typeof count !== 'number' || typeof first !== 'number') return;
+
+    const text = bytesToLatin1(data);
+    const header = new PDFLexer(text.slice(0, first));
+    const offsets: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.readValue();
+      const offset = header.readValue();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      offsets.push([num, offset]);
+    }
+
+    for (const [num, offset] of offsets) {
+      // Direct objects elsewhere in the file take precedence
+      if (this.objects.has(num)) continue;
+      const lexer = new PDFLexer(text, first + offset);
+      this.objects.set(num, lexer.readValue() ?? null);
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function nameOf(value: PDFValue | undefined): string | undefined {
+  return isName(value) ? value.value : undefined;
+}
+
+export function bytesToLatin1(bytes: Uint8Array): string {
+  // Chunked to stay under argument-count limits
+  let out = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+  }
+  return out;
+}
+
+function decodeFilter(filter: string, data: Uint8Array): Uint8Array | undefined {
+  switch (filter) {
+    case 'FlateDecode':
+    case 'Fl':
+      try {
+        return unzlibSync(data);
+      } catch {
+        // Some producers omit the zlib header
+        try {
+          return inflateSync(data);
+        } catch {
+          return undefined;
+        }
+      }
+    case 'ASCIIHexDecode':
+    case 'AHx': {
+      const hex = bytesToLatin1(data).replace(/>.*$/s, '').replace(/[^0-9a-fA-F]/g, '');
+      const out = new Uint8Array(Math.ceil(hex.length / 2));
+      for (let i = 0; i < out.length; i++) {
+        out[i] = parseInt(hex.slice(i * 2, i * 2 + 2).padEnd(2, '0'), 16);
+      }
+      return out;
+    }
+    default:
+      // Image codecs (DCT, JPX, CCITT...) never carry text
+      return undefined;
+  }
+}
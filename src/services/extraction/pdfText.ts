@@ -0,0 +1,706 @@
+/**
+ * PDF Text Extraction
+ * Walks the page tree, interprets text operators in content streams and
+ * rebuilds lines from glyph positions. Reading order is the order the
+ * producer drew the text in, which for resume exporters (Word, Docs, LaTeX)
+ * is the order a person reads it.
+ */
+
+import {
+  PDFDict,
+  PDFDocument,
+  PDFLexer,
+  PDFToken,
+  PDFValue,
+  bytesToLatin1,
+  isDict,
+  isKeyword,
+  isName,
+  isStream,
+  isString,
+  nameOf,
+} from './pdfObjects';
+import type { ExtractedPage } from './types';
+
+// ============================================
+// FONTS
+// ============================================
+
+interface FontDecoder {
+  bytesPerCode: 1 | 2;
+  decode(code: number): string;
+  width(code: number): number; // Glyph space units (1/1000 em)
+}
+
+const DEFAULT_GLYPH_WIDTH = 500;
+const DEFAULT_CID_WIDTH = 1000;
+
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘',
+  0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜',
+  0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+// Only the code points that differ from ASCII and matter for resumes
+const MAC_ROMAN_HIGH: Record<number, string> = {
+  0xa5: '•', 0xc9: '…', 0xd0: '–', 0xd1: '—', 0xd2: '“', 0xd3: '”', 0xd4: '‘', 0xd5: '’',
+};
+
+const STANDARD_HIGH: Record<number, string> = {
+  0x27: '’', 0x60: '‘', 0xb1: '–', 0xb7: '•', 0xd0: '—', 0xaa: '“', 0xba: '”',
+};
+
+const SYMBOL_HIGH: Record<number, string> = {
+  0xb7: '•', 0xd7: '·', 0x2d: '−',
+};
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', underscore: '_', bar: '|', braceleft: '{',
+  braceright: '}', asciitilde: '~', zero: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9', bullet: '•', periodcentered: '·',
+  endash: '–', emdash: '—', quoteleft: '‘', quoteright: '’', quotedblleft: '“',
+  quotedblright: '”', ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+  copyright: '©', registered: '®', trademark: '™', degree: '°', minus: '−', middot: '·',
+};
+
+function baseEncoding(name: string | undefined, fontName: string): (code: number) => string {
+  const isSymbol = /Symbol|Wingdings|Dingbats/i.test(fontName);
+  const high =
+    name === 'MacRomanEncoding' ? MAC_ROMAN_HIGH
+      : name === 'StandardEncoding' ? STANDARD_HIGH
+        : isSymbol ? SYMBOL_HIGH
+          : WIN_ANSI_HIGH;
+
+  return (code: number) => {
+    if (high[code] !== undefined) return high[code];
+    if (isSymbol) return '';
+    if (code >= 0x20 && code < 0x7f) return String.fromCharCode(code);
+    if (code >= 0xa0) return String.fromCharCode(code); // Latin-1 block
+    return '';
+  };
+}
+
+function glyphNameToUnicode(name: string): string | undefined {
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = name.match(/^uni([0-9A-Fa-f]{4,})$/) || name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (uni) return String.fromCodePoint(parseInt(uni[1].slice(0, 6), 16));
+  // Accented letters: "eacute" -> "e" is better than nothing
+  const accented = name.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron)$/);
+  return accented ? accented[1] : undefined;
+}
+
+function decodeUTF16BE(bytes: string): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return out;
+}
+
+function stringToCode(bytes: string): number {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    code = code * 256 + bytes.charCodeAt(i);
+  }
+  return code;
+}
+
+/**
+ * Parse a ToUnicode CMap into code -> text
+ */
+function parseToUnicode(text: string): { map: Map<number, string>; codeLength?: number } {
+  const map = new Map<number, string>();
+  const lexer = new PDFLexer(text);
+  let mode: 'none' | 'codespace' | 'bfchar' | 'bfrange' = 'none';
+  let operands: PDFToken[] = [];
+  let codeLength: number | undefined;
+
+  while (!lexer.done) {
+    const token = lexer.readToken();
+    if (token === undefined) break;
+
+    if (isKeyword(token)) {
+      if (token.value === 'begincodespacerange') mode = 'codespace';
+      else if (token.value === 'beginbfchar') mode = 'bfchar';
+      else if (token.value === 'beginbfrange') mode = 'bfrange';
+      else if (token.value.startsWith('end')) mode = 'none';
+      operands = [];
+      continue;
+    }
+
+    operands.push(token);
+
+    if (mode === 'codespace' && operands.length === 2) {
+      const low = operands[0];
+      if (isString(low)) codeLength = Math.max(codeLength ?? 0, low.value.length);
+      operands = [];
+    } else if (mode === 'bfchar' && operands.length === 2) {
+      const [src, dst] = operands;
+      if (isString(src) && isString(dst)) map.set(stringToCode(src.value), decodeUTF16BE(dst.value));
+      operands = [];
+    } else if (mode === 'bfrange' && operands.length === 3) {
+      const [low, high, dst] = operands;
+      if (isString(low) && isString(high)) {
+        const start = stringToCode(low.value);
+        const end = stringToCode(high.value);
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          const offset = code - start;
+          if (Array.isArray(dst)) {
+            const item = dst[offset];
+            if (isString(item)) map.set(code, decodeUTF16BE(item.value));
+          } else if (isString(dst)) {
+            const base = decodeUTF16BE(dst.value);
+            // Increment the last UTF-16 unit
+            map.set(
+              code,
+              base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + offset)
+            );
+          }
+        }
+      }
+      operands = [];
+    }
+  }
+
+  return { map, codeLength };
+}
+
+/**
+ * Parse a CID font /W array: [c [w1 w2 ...]] or [cFirst cLast w]
+ */
+function parseCIDWidths(doc: PDFDocument, value: PDFValue): Map<number, number> {
+  const widths = new Map<number, number>();
+  const items = doc.resolve(value);
+  if (!Array.isArray(items)) return widths;
+
+  for (let i = 0; i < items.length; ) {
+    const first = doc.resolve(items[i]);
+    const next = doc.resolve(items[i + 1]);
+    if (typeof first !== 'number') break;
+
+    if (Array.isArray(next)) {
+      next.forEach((w, offset) => {
+        const width = doc.resolve(w);
+        if (typeof width === 'number') widths.set(first + offset, width);
+      });
+      i += 2;
+    } else {
+      const last = next;
+      const width = doc.resolve(items[i + 2]);
+      if (typeof last === 'number' && typeof width === 'number') {
+        for (let cid = first; cid <= last && cid - first < 0x10000; cid++) widths.set(cid, width);
+      }
+      i += 3;
+    }
+  }
+
+  return widths;
+}
+
+function buildFont(doc: PDFDocument, font: PDFDict): FontDecoder {
+  const subtype = nameOf(doc.lookup(font, 'Subtype'));
+  const fontName = nameOf(doc.lookup(font, 'BaseFont')) ?? '';
+
+  let toUnicode: Map<number, string> | undefined;
+  let cmapCodeLength: number | undefined;
+  const toUnicodeStream = doc.resolve(font.entries.ToUnicode);
+  if (isStream(toUnicodeStream)) {
+    const data = doc.streamData(toUnicodeStream);
+    if (data) {
+      const parsed = parseToUnicode(bytesToLatin1(data));
+      toUnicode = parsed.map;
+      cmapCodeLength = parsed.codeLength;
+    }
+  }
+
+  if (subtype === 'Type0') {
+    const descendants = doc.lookup(font, 'DescendantFonts');
+    const cidFont = doc.dict(Array.isArray(descendants) ? descendants[0] : descendants);
+    const defaultWidth = doc.lookup(cidFont, 'DW');
+    const widths = cidFont ? parseCIDWidths(doc, cidFont.entries.W) : new Map<number, number>();
+    const dw = typeof defaultWidth === 'number' ? defaultWidth : DEFAULT_CID_WIDTH;
+
+    // Predefined Unicode CMaps (UniJIS-UCS2-H, UniGB-UTF16-H...) encode text directly
+    const unicodeEncoding = /UCS2|UTF16/.test(nameOf(doc.lookup(font, 'Encoding')) ?? '');
+
+    return {
+      bytesPerCode: cmapCodeLength === 1 ? 1 : 2,
+      // Without a ToUnicode map CIDs are glyph ids - unreadable, so report it
+      decode: code => toUnicode?.get(code) ?? (unicodeEncoding ? String.fromCharCode(code) : '�'),
+      width: code => widths.get(code) ?? dw,
+    };
+  }
+
+  // Simple fonts (Type1, TrueType, Type3)
+  const encodingValue = doc.resolve(font.entries.Encoding);
+  const encodingDict = isDict(encodingValue) ? encodingValue : undefined;
+  const base = baseEncoding(
+    nameOf(encodingValue) ?? nameOf(doc.lookup(encodingDict, 'BaseEncoding')),
+    fontName
+  );
+
+  const differences = new Map<number, string>();
+  const diffArray = doc.lookup(encodingDict, 'Differences');
+  if (Array.isArray(diffArray)) {
+    let code = 0;
+    for (const item of diffArray) {
+      if (typeof item === 'number') {
+        code = item;
+      } else if (isName(item)) {
+        const text = glyphNameToUnicode(item.value);
+        if (text !== undefined) differences.set(code, text);
+        code++;
+      }
+    }
+  }
+
+  const firstChar = doc.lookup(font, 'FirstChar');
+  const widthArray = doc.lookup(font, 'Widths');
+  const first = typeof firstChar === 'number' ? firstChar : 0;
+
+  return {
+    bytesPerCode: 1,
+    decode: code => toUnicode?.get(code) ?? differences.get(code) ?? base(code),
+    width: code => {
+      if (Array.isArray(widthArray)) {
+        const width = doc.resolve(widthArray[code - first]);
+        if (typeof width === 'number' && width > 0) return width;
+      }
+      return DEFAULT_GLYPH_WIDTH;
+    },
+  };
+}
+
+// ============================================
+// CONTENT STREAM INTERPRETER
+// ============================================
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function toMatrix(values: PDFToken[]): Matrix | undefined {
+  if (values.length < 6 || values.some(v => typeof v !== 'number')) return undefined;
+  return values.slice(-6) as Matrix;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font?: FontDecoder;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  hScale: number;
+  leading: number;
+  rise: number;
+}
+
+interface TextChunk {
+  text: string;
+  x: number;
+  y: number;
+  endX: number;
+  size: number; // Rendered font size in device space
+}
+
+interface PageContent {
+  chunks: TextChunk[];
+  hasImages: boolean;
+}
+
+class ContentInterpreter {
+  private fonts = new Map<PDFDict, FontDecoder>();
+
+  constructor(private doc: PDFDocument) {}
+
+  run(content: string, resources: PDFDict | undefined, output: PageContent, ctm: Matrix = IDENTITY, depth = 0): void {
+    const { doc } = this;
+    const lexer = new PDFLexer(content);
+    const stack: GraphicsState[] = [];
+    let gs: GraphicsState = {
+      ctm, fontSize: 0, charSpacing: 0, wordSpacing: 0, hScale: 1, leading: 0, rise: 0,
+    };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let operands: PDFToken[] = [];
+
+    const moveLine = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    const show = (bytes: string) => {
+      const font = gs.font;
+      if (!font || !bytes) return;
+
+      const trm = multiply(multiply([gs.fontSize * gs.hScale, 0, 0, gs.fontSize, 0, gs.rise], tm), gs.ctm);
+      const x = trm[4];
+      const y = trm[5];
+      const size = Math.hypot(trm[2], trm[3]) || gs.fontSize;
+
+      let text = '';
+      for (let i = 0; i + font.bytesPerCode <= bytes.length; i += font.bytesPerCode) {
+        const code = font.bytesPerCode === 2
+          ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1)
+          : bytes.charCodeAt(i);
+        text += font.decode(code);
+
+        const isSpace = font.bytesPerCode === 1 && code === 32;
+        const advance =
+          ((font.width(code) / 1000) * gs.fontSize + gs.charSpacing + (isSpace ? gs.wordSpacing : 0)) * gs.hScale;
+        tm = multiply([1, 0, 0, 1, advance, 0], tm);
+      }
+
+      const end = multiply(multiply([1, 0, 0, 1, 0, gs.rise], tm), gs.ctm);
+      if (text) output.chunks.push({ text, x, y, endX: end[4], size });
+    };
+
+    while (!lexer.done) {
+      const token = lexer.readToken();
+      if (token === undefined) break;
+      if (!isKeyword(token)) {
+        operands.push(token);
+        continue;
+      }
+
+      const op = token.value;
+      const num = (index: number) => {
+        const value = operands[operands.length - 1 - index];
+        return typeof value === 'number' ? value : 0;
+      };
+
+      switch (op) {
+        case 'q':
+          stack.push({ ...gs });
+          break;
+        case 'Q':
+          gs = stack.pop() ?? gs;
+          break;
+        case 'cm': {
+          const m = toMatrix(operands);
+          if (m) gs.ctm = multiply(m, gs.ctm);
+          break;
+        }
+        case 'BT':
+          tm = IDENTITY;
+          tlm = IDENTITY;
+          break;
+        case 'Tf': {
+          const name = operands[operands.length - 2];
+          const fontDict = isName(name) ? doc.dict(doc.lookup(doc.dict(doc.lookup(resources, 'Font')), name.value)) : undefined;
+          gs.font = fontDict ? this.font(fontDict) : undefined;
+          gs.fontSize = num(0);
+          break;
+        }
+        case 'Tc':
+          gs.charSpacing = num(0);
+          break;
+        case 'Tw':
+          gs.wordSpacing = num(0);
+          break;
+        case 'Tz':
+          gs.hScale = num(0) / 100;
+          break;
+        case 'TL':
+          gs.leading = num(0);
+          break;
+        case 'Ts':
+          gs.rise = num(0);
+          break;
+        case 'Td':
+          moveLine(num(1), num(0));
+          break;
+        case 'TD':
+          gs.leading = -num(0);
+          moveLine(num(1), num(0));
+          break;
+        case 'Tm': {
+          const m = toMatrix(operands);
+          if (m) {
+            tm = m;
+            tlm = m;
+          }
+          break;
+        }
+        case 'T*':
+          moveLine(0, -gs.leading);
+          break;
+        case 'Tj': {
+          const str = operands[operands.length - 1];
+          if (isString(str)) show(str.value);
+          break;
+        }
+        case "'": {
+          moveLine(0, -gs.leading);
+          const str = operands[operands.length - 1];
+          if (isString(str)) show(str.value);
+          break;
+        }
+        case '"': {
+          gs.wordSpacing = num(2);
+          gs.charSpacing = num(1);
+          moveLine(0, -gs.leading);
+          const str = operands[operands.length - 1];
+          if (isString(str)) show(str.value);
+          break;
+        }
+        case 'TJ': {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (isString(item)) {
+                show(item.value);
+              } else if (typeof item === 'number') {
+                // Kerning: positive values move left
+                const tx = (-item / 1000) * gs.fontSize * gs.hScale;
+                tm = multiply([1, 0, 0, 1, tx, 0], tm);
+              }
+            }
+          }
+          break;
+        }
+        case 'Do': {
+          const name = operands[operands.length - 1];
+          if (isName(name)) this.drawXObject(name.value, resources, gs.ctm, output, depth);
+          break;
+        }
+        case 'BI':
+          this.skipInlineImage(lexer);
+          output.hasImages = true;
+          break;
+      }
+
+      operands = [];
+    }
+  }
+
+  private font(dict: PDFDict): FontDecoder {
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = buildFont(this.doc, dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+
+  private drawXObject(name: string, resources: PDFDict | undefined, ctm: Matrix, output: PageContent, depth: number): void {
+    const { doc } = this;
+    const xobjects = doc.dict(doc.lookup(resources, 'XObject'));
+    const xobject = doc.resolve(xobjects?.entries[name]);
+    if (!isStream(xobject)) return;
+
+    const subtype = nameOf(doc.resolve(xobject.dict.entries.Subtype));
+    if (subtype === 'Image') {
+      output.hasImages = true;
+    } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+      const data = doc.streamData(xobject);
+      if (!data) return;
+      const matrix = doc.resolve(xobject.dict.entries.Matrix);
+      const formCtm = Array.isArray(matrix) ? toMatrix(matrix as PDFToken[]) : undefined;
+      const formResources = doc.dict(xobject.dict.entries.Resources) ?? resources;
+      this.run(bytesToLatin1(data), formResources, output, formCtm ? multiply(formCtm, ctm) : ctm, depth + 1);
+    }
+  }
+
+  private skipInlineImage(lexer: PDFLexer): void {
+    const dataStart = lexer.src.indexOf('ID', lexer.pos);
+    if (dataStart === -1) {
+      lexer.pos = lexer.src.length;
+      return;
+    }
+    const end = /\sEI(?=\s|$)/g;
+    end.lastIndex = dataStart + 3;
+    const match = end.exec(lexer.src);
+    lexer.pos = match ? match.index + match[0].length : lexer.src.length;
+  }
+}
+
+// ============================================
+// LINE ASSEMBLY
+// ============================================
+
+// Fractions of the font size
+const SAME_LINE_TOLERANCE = 0.5;
+const WORD_GAP = 0.15;
+// Wider gaps are tab stops, e.g. right-aligned dates on a job header
+const COLUMN_GAP = 3.0;
+const PARAGRAPH_GAP = 2.0;
+
+// Bullet glyphs, including Word's Symbol/Wingdings bullets mapped into the private use area
+const BULLET_CHARS = /^[•●▪■◦‣⁃·∙\uF000-\uF8FF]\s*/;
+const PRIVATE_USE = /[\uF000-\uF8FF]/g;
+
+function assembleLines(chunks: TextChunk[]): string {
+  interface Line {
+    text: string;
+    y: number;
+    endX: number;
+    size: number;
+  }
+
+  const lines: Line[] = [];
+  for (const chunk of chunks) {
+    const current = lines[lines.length - 1];
+    const tolerance = Math.max(chunk.size * SAME_LINE_TOLERANCE, 1);
+
+    if (current && Math.abs(chunk.y - current.y) <= tolerance) {
+      const gap = chunk.x - current.endX;
+      let separator = '';
+      if (gap > chunk.size * COLUMN_GAP && !/\|\s*$/.test(current.text) && !/^\s*\|/.test(chunk.text)) {
+        separator = ' | ';
+      } else if (gap > chunk.size * WORD_GAP && !/\s$/.test(current.text) && !/^\s/.test(chunk.text)) {
+        separator = ' ';
+      }
+      current.text += separator + chunk.text;
+      current.endX = Math.max(current.endX, chunk.endX);
+    } else {
+      lines.push({ text: chunk.text, y: chunk.y, endX: chunk.endX, size: chunk.size });
+    }
+  }
+
+  const out: string[] = [];
+  lines.forEach((line, index) => {
+    const text = cleanLine(line.text);
+    if (!text) return;
+
+    const previous = lines[index - 1];
+    if (previous && out.length && previous.y - line.y > line.size * PARAGRAPH_GAP) {
+      out.push('');
+    }
+    out.push(text);
+  });
+
+  return out.join('\n');
+}
+
+function cleanLine(text: string): string {
+  const cleaned = text
+    .replace(/[\u0000-\u0008\u000B-\u001F]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Normalise bullet glyphs so the resume parser recognises them
+  if (BULLET_CHARS.test(cleaned)) {
+    return '• ' + cleaned.replace(BULLET_CHARS, '').replace(PRIVATE_USE, '');
+  }
+  return cleaned.replace(PRIVATE_USE, '');
+}
+
+// ============================================
+// CONFIDENCE
+// ============================================
+
+const READABLE_CHAR = /[\p{L}\p{N}\p{P}\p{S}]/u;
+// Below this many visible characters a page is mostly empty or an image
+const MIN_PAGE_CHARS = 40;
+
+/**
+ * 0-1 score for how trustworthy a page's extracted text is.
+ * Missing text, replacement characters and vowel-less gibberish
+ * (fonts with custom encodings) all pull it down.
+ */
+export function scorePageText(text: string): number {
+  const visible = Array.from(text.replace(/\s+/g, ''));
+  if (!visible.length) return 0;
+
+  const readable = visible.filter(ch => ch !== '�' && READABLE_CHAR.test(ch)).length / visible.length;
+
+  const words = text.split(/\s+/).filter(word => /^[A-Za-z]{3,}$/.test(word));
+  const wordLike = words.length
+    ? words.filter(word => /[aeiouy]/i.test(word)).length / words.length
+    : readable;
+
+  const volume = Math.min(1, visible.length / MIN_PAGE_CHARS);
+  const score = readable * Math.min(1, wordLike / 0.8) * volume;
+  return Math.round(score * 100) / 100;
+}
+
+// ============================================
+// PAGE TREE
+// ============================================
+
+interface PageNode {
+  dict: PDFDict;
+  resources?: PDFDict;
+}
+
+function collectPages(doc: PDFDocument): PageNode[] {
+  const pages: PageNode[] = [];
+  const seen = new Set<PDFDict>();
+
+  const walk = (node: PDFDict | undefined, inheritedResources?: PDFDict) => {
+    if (!node || seen.has(node)) return;
+    seen.add(node);
+
+    const resources = doc.dict(node.entries.Resources) ?? inheritedResources;
+    const kids = doc.lookup(node, 'Kids');
+
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => walk(doc.dict(kid), resources));
+    } else if (nameOf(doc.lookup(node, 'Type')) === 'Page' || node.entries.Contents) {
+      pages.push({ dict: node, resources });
+    }
+  };
+
+  walk(doc.dict(doc.lookup(doc.catalog, 'Pages')));
+  return pages;
+}
+
+function pageContent(doc: PDFDocument, page: PDFDict): string {
+  const contents = doc.resolve(page.entries.Contents);
+  const streams = (Array.isArray(contents) ? contents : [contents])
+    .map(item => doc.resolve(item))
+    .filter(isStream);
+
+  return streams
+    .map(stream => doc.streamData(stream))
+    .filter((data): data is Uint8Array => !!data)
+    .map(bytesToLatin1)
+    .join('\n');
+}
+
+export interface PDFTextResult {
+  pages: ExtractedPage[];
+  encrypted: boolean;
+}
+
+/**
+ * Extract text page by page from raw PDF bytes
+ */
+export function extractPDFText(bytes: Uint8Array): PDFTextResult {
+  const doc = new PDFDocument(bytes);
+  const interpreter = new ContentInterpreter(doc);
+
+  const pages = collectPages(doc).map((page, index): ExtractedPage => {
+    const output: PageContent = { chunks: [], hasImages: false };
+    interpreter.run(pageContent(doc, page.dict), page.resources, output);
+
+    const text = assembleLines(output.chunks);
+    return {
+      pageNumber: index + 1,
+      text,
+      confidence: scorePageText(text),
+      hasImages: output.hasImages,
+    };
+  });
+
+  return { pages, encrypted: doc.isEncrypted };
+}
@@ -0,0 +1,30 @@
+/**
+ * Type definitions for local document text extraction
+ */
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+export interface ExtractedPage {
+  pageNumber: number; // 1-based
+  text: string;
+  // 0-1: how much readable text was recovered (0 = nothing, likely scanned)
+  confidence: number;
+  hasImages: boolean;
+}
+
+export interface ExtractionResult {
+  format: DocumentFormat;
+  text: string;
+  pages: ExtractedPage[];
+  confidence: number; // Average over pages
+  // 'llm' when a scanned PDF had to be read by a model
+  method: 'local' | 'llm';
+  warnings: string[];
+}
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Job Page Extractors
+ * One extractor per ATS page layout, plus schema.org JobPosting (JSON-LD)
+ * and bare meta tags. Each returns whatever fields it could find; the
+ * importer merges them, most specific first.
+ */
+
+import { JobSource } from './types';
+import {
+  decodeEntities,
+  findAllByClass,
+  findByAttribute,
+  findByClass,
+  findJsonLd,
+  findTag,
+  getMeta,
+  getTitleTag,
+  htmlToText,
+  inlineText,
+} from './html';
+
+export interface JobFields {
+  title?: string;
+  company?: string;
+  location?: string;
+  description?: string;
+  // Guessed from the URL slug - used only when no page gives a name
+  urlCompany?: string;
+}
+
+type AtsSource = Exclude<JobSource, 'json_ld' | 'generic'>;
+
+// The parts of Ashby's window.__appData the extractor reads
+interface AshbyAppData {
+  posting?: {
+    title?: string;
+    locationName?: string;
+    descriptionHtml?: string;
+  };
+  organization?: {
+    name?: string;
+  };
+}
+
+const HOST_PATTERNS: Array<[RegExp, AtsSource]> = [
+  [/(^|\.)greenhouse\.io$/, 'greenhouse'],
+  [/(^|\.)lever\.co$/, 'lever'],
+  [/(^|\.)myworkdayjobs\.com$|(^|\.)myworkdaysite\.com$/, 'workday'],
+  [/(^|\.)ashbyhq\.com$/, 'ashby'],
+  [/(^|\.)linkedin\.com$/, 'linkedin'],
+];
+
+// Markup fingerprints for pages saved or shared without their URL
+const MARKUP_PATTERNS: Array<[RegExp, AtsSource]> = [
+  [/class="[^"]*\b(app-title|job__title)\b|greenhouse\.io\//, 'greenhouse'],
+  [/class="[^"]*\bposting-headline\b|lever\.co\//, 'lever'],
+  [/data-automation-id="jobPosting(Header|Description)"|myworkdayjobs\.com/, 'workday'],
+  [/window\.__appData|ashbyhq\.com/, 'ashby'],
+  [/class="[^"]*\btop-card-layout__title\b|linkedin\.com\/jobs/, 'linkedin'],
+];
+
+/**
+ * Which ATS produced the page, by URL host and then by markup
+ */
+export function detectAtsSource(html: string, url: string | null): AtsSource | null {
+  const host = url ? hostOf(url) : null;
+  if (host) {
+    const byHost = HOST_PATTERNS.find(([pattern]) => pattern.test(host));
+    if (byHost) return byHost[1];
+  }
+  return MARKUP_PATTERNS.find(([pattern]) => pattern.test(html))?.[1] ?? null;
+}
+
+export const ATS_EXTRACTORS: Record<AtsSource, (html: string, url: string | null) => JobFields> = {
+  greenhouse: (html, url) => ({
+    title: text(findByClass(html, 'app-title') ?? findByClass(html, 'job__title')),
+    // "at Acme"
+    company: text(findByClass(html, 'company-name'))?.replace(/^at\s+/i, ''),
+    urlCompany: companyFromPath(url, /greenhouse\.io\/(?:embed\/job_board\?for=)?([^/?#]+)/),
+    location: text(findByClass(html, 'location') ?? findByClass(html, 'job__location')),
+    description: blockText(findByAttribute(html, 'id', 'content') ?? findByClass(html, 'job__description')),
+  }),
+
+  lever: (html, url) => {
+    const headline = findByClass(html, 'posting-headline');
+    // Description, each requirements list and the closing section - not the apply buttons
+    const sections = findAllByClass(html, 'section')
+      .filter(({ openTag }) => !/last-section-apply|data-qa="btn-apply/.test(openTag))
+      .map(({ inner }) => htmlToText(inner))
+      .filter(Boolean);
+
+    return {
+      title: text(headline && /<h2\b[^>]*>([\s\S]*?)<\/h2>/i.exec(headline)?.[1]),
+      // Title tag: "Acme - Senior Data Engineer"
+      company: getTitleTag(html)?.split(' - ')[0],
+      urlCompany: companyFromPath(url, /lever\.co\/([^/?#]+)/),
+      location: text(findByClass(headline ?? html, 'location')),
+      description: sections.join('\n\n') || undefined,
+    };
+  },
+
+  workday: (html, url) => ({
+    title: text(findByAttribute(html, 'data-automation-id', 'jobPostingHeader')),
+    // <dl><dt>locations</dt><dd>Austin, TX</dd></dl>
+    location: text(findByAttribute(html, 'data-automation-id', 'locations'))?.replace(/^locations\s*/i, ''),
+    description: blockText(findByAttribute(html, 'data-automation-id', 'jobPostingDescription')),
+    // acme.wd5.myworkdayjobs.com
+    urlCompany: companyFromHost(url, /^([^.]+)\.wd\d+\.myworkday(?:jobs|site)\.com$/),
+  }),
+
+  ashby: (html, url) => {
+    const appData = parseAshbyAppData(html);
+    // Title tag: "Senior Engineer @ Acme"
+    const [title, company] = getTitleTag(html)?.split(' @ ') ?? [];
+    return {
+      title: appData?.posting?.title ?? title,
+      company: appData?.organization?.name ?? company,
+      urlCompany: companyFromPath(url, /ashbyhq\.com\/([^/?#]+)/),
+      location: appData?.posting?.locationName,
+      description: appData?.posting?.descriptionHtml ? blockText(appData.posting.descriptionHtml) : undefined,
+    };
+  },
+
+  linkedin: (html) => ({
+    title: text(findByClass(html, 'top-card-layout__title') ?? findByClass(html, 'topcard__title')),
+    company: text(findByClass(html, 'topcard__org-name-link') ?? findByClass(html, 'topcard__org-name')),
+    location: text(findByClass(html, 'topcard__flavor--bullet')),
+    description: blockText(findByClass(html, 'show-more-less-html__markup') ?? findByClass(html, 'description__text')),
+  }),
+};
+
+/**
+ * schema.org JobPosting - embedded by LinkedIn and most ATSes for search engines
+ */
+export function extractJsonLdJob(html: string): JobFields | null {
+  const posting = findJsonLd(html).find(block => {
+    const type = block['@type'];
+    return type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'));
+  });
+  if (!posting) return null;
+
+  const organization = posting.hiringOrganization;
+  const description = typeof posting.description === 'string' ? posting.description : '';
+
+  return {
+    title: stringValue(posting.title),
+    company: typeof organization === 'string' ? organization : stringValue(field(organization, 'name')),
+    location: jsonLdLocation(posting),
+    // Some boards HTML-escape the description twice
+    description: description
+      ? htmlToText(/&lt;\w/.test(description) ? decodeEntities(description) : description)
+      : undefined,
+  };
+}
+
+/**
+ * Open Graph / meta tags and the page body - last resort
+ */
+export function extractGenericJob(html: string): JobFields {
+  const main = findTag(html, 'main') ?? findTag(html, 'article') ?? findTag(html, 'body');
+  return {
+    title: getMeta(html, 'og:title') ?? getTitleTag(html) ?? undefined,
+    company: getMeta(html, 'og:site_name') ?? undefined,
+    description: (main && blockText(main)) || getMeta(html, 'og:description') || getMeta(html, 'description') || undefined,
+  };
+}
+
+function jsonLdLocation(posting: Record<string, unknown>): string | undefined {
+  const locations = ([] as unknown[]).concat(posting.jobLocation ?? []);
+  const names = locations
+    .map((location) => {
+      const address = field(location, 'address');
+      if (typeof address === 'string') return address;
+      if (!isRecord(address)) return stringValue(field(location, 'name'));
+      const country = address.addressCountry;
+      const countryName = typeof country === 'string' ? country : field(country, 'name');
+      return [address.addressLocality, address.addressRegion, countryName]
+        .filter((part): part is string => typeof part === 'string' && part.length > 0)
+        .join(', ');
+    })
+    .filter((name): name is string => !!name);
+
+  if (posting.jobLocationType === 'TELECOMMUTE') names.unshift('Remote');
+  return Array.from(new Set(names)).join(' / ') || undefined;
+}
+
+function parseAshbyAppData(html: string): AshbyAppData | null {
+  const json = /window\.__appData\s*=\s*(\{[\s\S]*?\});?\s*<\/script>/.exec(html)?.[1];
+  if (!json) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  // Keep only string fields, whatever shape the page sent
+  const posting = field(data, 'posting');
+  const organization = field(data, 'organization');
+  return {
+    posting: {
+      title: stringField(posting, 'title'),
+      locationName: stringField(posting, 'locationName'),
+      descriptionHtml: stringField(posting, 'descriptionHtml'),
+    },
+    organization: { name: stringField(organization, 'name') },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function field(value: unknown, key: string): unknown {
+  return isRecord(value) ? value[key] : undefined;
+}
+
+function stringField(value: unknown, key: string): string | undefined {
+  const found = field(value, key);
+  return typeof found === 'string' ? found : undefined;
+}
+
+function companyFromPath(url: string | null, pattern: RegExp): string | undefined {
+  const slug = url ? pattern.exec(url)?.[1] : undefined;
+  return slug ? titleCase(decodeURIComponent(slug)) : undefined;
+}
+
+function companyFromHost(url: string | null, pattern: RegExp): string | undefined {
+  const host = url ? hostOf(url) : null;
+  const slug = host ? pattern.exec(host)?.[1] : undefined;
+  return slug ? titleCase(slug) : undefined;
+}
+
+function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function titleCase(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function text(html: string | null | undefined): string | undefined {
+  return html ? inlineText(html) || undefined : undefined;
+}
+
+function blockText(html: string | null | undefined): string | undefined {
+  return html ? htmlToText(html) || undefined : undefined;
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? decodeEntities(value.trim()) : undefined;
+}
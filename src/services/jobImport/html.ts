@@ -0,0 +1,204 @@
+/**
+ * Minimal HTML helpers
+ * Regex-based - enough for the predictable markup of job boards without
+ * pulling a DOM parser into the app bundle
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  bull: '•',
+  middot: '·',
+};
+
+const BLOCK_TAGS = 'p|div|section|article|header|footer|h[1-6]|ul|ol|table|tr|blockquote|pre';
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isValidCodePoint(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// fromCodePoint throws past U+10FFFF; lone surrogates aren't characters
+function isValidCodePoint(code: number): boolean {
+  return Number.isInteger(code) && code >= 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+}
+
+/**
+ * HTML fragment to readable text: block elements become line breaks,
+ * list items become "- " bullets
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      // A paragraph wrapped in the list item stays on the bullet line
+      .replace(/<li\b[^>]*>(?:\s*<(?:p|div|span)\b[^>]*>)*/gi, '\n- ')
+      .replace(/<\/li>/gi, '\n')
+      .replace(new RegExp(`</?(?:${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(line => line !== '-')
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    // Keep list items together
+    .replace(/^(- .*)\n\n(?=- )/gm, '$1\n')
+    .trim();
+}
+
+/**
+ * Single-line text of an HTML fragment
+ */
+export function inlineText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+export interface HtmlElement {
+  openTag: string;
+  inner: string;
+  end: number; // Index just past the closing tag
+}
+
+/**
+ * First element at or after `from` whose opening tag matches `attribute`
+ * (e.g. /class="[^"]*\bposting-headline\b/), with nesting handled
+ */
+export function matchElement(
+  html: string,
+  attribute: RegExp,
+  tagName = '[a-z][a-z0-9]*',
+  from = 0
+): HtmlElement | null {
+  const open = new RegExp(`<(${tagName})\\b[^>]*?${attribute.source}[^>]*>`, 'gi');
+  open.lastIndex = from;
+  const match = open.exec(html);
+  if (!match) return null;
+
+  const tag = match[1].toLowerCase();
+  const start = match.index + match[0].length;
+  const tags = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  tags.lastIndex = start;
+
+  let depth = 1;
+  let next: RegExpExecArray | null;
+  while ((next = tags.exec(html))) {
+    if (next[0].endsWith('/>')) continue;
+    depth += next[1] ? -1 : 1;
+    if (depth === 0) {
+      return { openTag: match[0], inner: html.slice(start, next.index), end: tags.lastIndex };
+    }
+  }
+  return { openTag: match[0], inner: html.slice(start), end: html.length };
+}
+
+/**
+ * Inner HTML of the first matching element
+ */
+export function findElement(html: string, attribute: RegExp, tagName?: string): string | null {
+  return matchElement(html, attribute, tagName)?.inner ?? null;
+}
+
+/**
+ * Inner HTML of the first element with this tag name (main, article, body...)
+ */
+export function findTag(html: string, tagName: string): string | null {
+  return findElement(html, /(?:)/, tagName);
+}
+
+/**
+ * Every element with this class, in document order (not nested in each other)
+ */
+export function findAllByClass(html: string, className: string): HtmlElement[] {
+  const attribute = classAttribute(className);
+  const found: HtmlElement[] = [];
+  let element: HtmlElement | null;
+  let from = 0;
+  while ((element = matchElement(html, attribute, undefined, from))) {
+    found.push(element);
+    from = element.end;
+  }
+  return found;
+}
+
+/**
+ * Inner HTML of an element by class name
+ */
+export function findByClass(html: string, className: string, tagName?: string): string | null {
+  return findElement(html, classAttribute(className), tagName);
+}
+
+/**
+ * Inner HTML of an element by attribute value (id, data-qa, data-automation-id...)
+ */
+export function findByAttribute(html: string, name: string, value: string, tagName?: string): string | null {
+  return findElement(html, new RegExp(`${escapeRegExp(name)}="${escapeRegExp(value)}"`), tagName);
+}
+
+/**
+ * content of <meta property|name="..."> (og:title, description...)
+ */
+export function getMeta(html: string, key: string): string | null {
+  const escaped = escapeRegExp(key);
+  const tag = new RegExp(`<meta\\b[^>]*(?:property|name)=["']${escaped}["'][^>]*>`, 'i').exec(html)?.[0];
+  const content = tag && /content=(["'])([\s\S]*?)\1/i.exec(tag)?.[2];
+  return content ? decodeEntities(content).trim() : null;
+}
+
+export function getTitleTag(html: string): string | null {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  return title ? inlineText(title) : null;
+}
+
+/**
+ * Every parseable <script type="application/ld+json"> block, flattened
+ * (top-level arrays and @graph containers)
+ */
+export function findJsonLd(html: string): Array<Record<string, unknown>> {
+  const blocks: Array<Record<string, unknown>> = [];
+  const scripts = /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = scripts.exec(html))) {
+    try {
+      const parsed = JSON.parse(match[1].trim());
+      const items = Array.isArray(parsed) ? parsed : [parsed];
+      for (const item of items) {
+        if (!item || typeof item !== 'object') continue;
+        blocks.push(item);
+        if (Array.isArray(item['@graph'])) blocks.push(...item['@graph']);
+      }
+    } catch {
+      // Malformed blocks are common - skip them
+    }
+  }
+
+  return blocks;
+}
+
+// Whole class token: "section" matches class="section page-centered", not "section-wrapper"
+function classAttribute(className: string): RegExp {
+  return new RegExp(`class="(?:[^"]*\\s)?${escapeRegExp(className)}(?:\\s[^"]*)?"`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,161 @@
+/**
+ * Job Posting Import
+ * Turns a posting URL or a shared/saved HTML page into a job description
+ * with title, company and location. Extraction is local (no LLM): the ATS
+ * layout first, then schema.org JobPosting, then meta tags.
+ */
+
+import { ImportedJob, JobImportError, JobSource } from './types';
+import {
+  ATS_EXTRACTORS,
+  detectAtsSource,
+  extractGenericJob,
+  extractJsonLdJob,
+  JobFields,
+} from './extractors';
+
+export type { ImportedJob, JobSource, JobImportErrorType } from './types';
+export { JobImportError } from './types';
+
+const FETCH_TIMEOUT = 15000;
+// Shorter than this is a login wall or an error page, not a posting
+const MIN_DESCRIPTION_LENGTH = 100;
+
+export interface ImportOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Canonical https URL for a posting, unwrapping known embed/search links.
+ * Throws JobImportError('invalid_url') when the text isn't a web URL.
+ */
+export function normalizeJobUrl(input: string): string {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new JobImportError('invalid_url', 'That doesn\'t look like a job posting link.');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new JobImportError('invalid_url', 'That doesn\'t look like a job posting link.');
+  }
+
+  const host = url.hostname.toLowerCase();
+
+  // LinkedIn search/collections pages carry the posting in currentJobId
+  const linkedInJob = url.searchParams.get('currentJobId');
+  if (host.endsWith('linkedin.com') && linkedInJob) {
+    return `https://www.linkedin.com/jobs/view/${linkedInJob}`;
+  }
+
+  // Greenhouse embeds on company sites: ?for=acme&token=123
+  const board = url.searchParams.get('for');
+  const token = url.searchParams.get('token');
+  if (host.endsWith('greenhouse.io') && url.pathname.startsWith('/embed/') && board && token) {
+    return `https://boards.greenhouse.io/${board}/jobs/${token}`;
+  }
+
+  // Tracking parameters don't change the posting
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (/^(utm_|gh_src$|lever-|ref$|source$|trk)/i.test(key)) url.searchParams.delete(key);
+  }
+  url.hash = '';
+  url.protocol = 'https:';
+  return url.toString();
+}
+
+export function looksLikeUrl(text: string): boolean {
+  const trimmed = text.trim();
+  return !/\s/.test(trimmed) && /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(trimmed);
+}
+
+export function looksLikeHtml(text: string): boolean {
+  return /^\s*(<!doctype html|<html\b)/i.test(text) || /<(body|div|script)\b[^>]*>/i.test(text.slice(0, 5000));
+}
+
+/**
+ * Extract a posting from page HTML. `url` helps identify the ATS and fill
+ * in a company name the page doesn't state.
+ */
+export function extractJobPosting(html: string, url: string | null = null): ImportedJob {
+  const ats = detectAtsSource(html, url);
+  const specific = ats ? ATS_EXTRACTORS[ats](html, url) : {};
+  const jsonLd = extractJsonLdJob(html);
+  const generic = extractGenericJob(html);
+
+  // Most specific source wins per field
+  const pick = (field: Exclude<keyof JobFields, 'urlCompany'>) =>
+    specific[field]?.trim() || jsonLd?.[field]?.trim() || generic[field]?.trim() || '';
+
+  const description = pick('description');
+  if (description.length < MIN_DESCRIPTION_LENGTH) {
+    throw new JobImportError(
+      'not_a_job',
+      'Couldn\'t find a job description on that page. Try pasting the description instead.'
+    );
+  }
+
+  const source: JobSource = ats ?? (jsonLd ? 'json_ld' : 'generic');
+  const job: ImportedJob = {
+    url,
+    title: pick('title'),
+    company: pick('company') || specific.urlCompany || '',
+    location: pick('location'),
+    description,
+    source,
+    warnings: [],
+  };
+
+  if (!job.title) job.warnings.push('Job title not found');
+  if (!job.company) job.warnings.push('Company not found');
+  if (source === 'generic') job.warnings.push('Unrecognized job board - check the description for page clutter');
+
+  return job;
+}
+
+/**
+ * Download a posting and extract it
+ */
+export async function importJobFromUrl(input: string, options: ImportOptions = {}): Promise<ImportedJob> {
+  const url = normalizeJobUrl(input);
+
+  // Time out on our own, but still honour the caller's signal
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort);
+
+  let html: string;
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+    });
+    if (!response.ok) {
+      throw new JobImportError('fetch_failed', `The job page returned an error (${response.status}).`);
+    }
+    html = await response.text();
+  } catch (error) {
+    if (error instanceof JobImportError) throw error;
+    if (options.signal?.aborted) throw error;
+    throw new JobImportError(
+      'fetch_failed',
+      controller.signal.aborted ? 'The job page took too long to load.' : 'Couldn\'t load the job page. Check your connection.'
+    );
+  } finally {
+    clearTimeout(timeout);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+
+  return extractJobPosting(html, url);
+}
+
+/**
+ * Job description text for tailoring - title and company on the first two
+ * lines, where history picks them up
+ */
+export function formatJobDescription(job: ImportedJob): string {
+  const header = [job.title, job.company, job.location].filter(Boolean);
+  return [...header, '', job.description].join('\n').trim();
+}
@@ -0,0 +1,36 @@
+/**
+ * Type definitions for job posting import
+ */
+
+// Where the fields came from: an ATS page layout, JSON-LD or bare meta tags
+export type JobSource =
+  | 'greenhouse'
+  | 'lever'
+  | 'workday'
+  | 'ashby'
+  | 'linkedin'
+  | 'json_ld'
+  | 'generic';
+
+export interface ImportedJob {
+  url: string | null;
+  title: string;
+  company: string;
+  location: string;
+  // Plain text, paragraphs and "- " bullets
+  description: string;
+  source: JobSource;
+  warnings: string[];
+}
+
+export type JobImportErrorType = 'invalid_url' | 'fetch_failed' | 'not_a_job';
+
+export class JobImportError extends Error {
+  type: JobImportErrorType;
+
+  constructor(type: JobImportErrorType, message: string) {
+    super(message);
+    this.name = 'JobImportError';
+    this.type = type;
+  }
+}
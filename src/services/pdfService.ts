@@ -1,10 +1,18 @@
 /**
- * PDF Service - Extract text from PDF files using OpenAI Vision
+ * PDF Service - Extract resume text from uploaded files
+ * PDF and DOCX are read on-device; only scanned/image PDFs go to a model.
  */
 
 import { callOpenAI } from './ai/client';
-
-const PDF_EXTRACTION_PROMPT = `Extract all text from this PDF resume. Return the text content exactly as it appears, preserving:
+import {
+  ExtractionError,
+  ExtractionResult,
+  base64ToBytes,
+  extractDocumentText,
+  needsOCR,
+} from './extraction';
+
+const PDF_EXTRACTION_PROMPT = `Extract all text from the attached resume. It is a scanned document, so read it carefully. Return the text content exactly as it appears, preserving:
 - Section headers (Experience, Education, Skills, etc.)
 - Job titles, companies, and dates
 - Bullet points (use - for each)
@@ -14,19 +22,84 @@ const PDF_EXTRACTION_PROMPT = `Extract all text from this PDF resume. Return the
 
 Return ONLY the extracted text, no additional formatting or commentary. Preserve the original structure and line breaks.`;
 
+// Reading a full scanned page takes longer than a normal call
+const OCR_TIMEOUT = 90000;
+
+export interface ResumeFileOptions {
+  fileName?: string;
+  mimeType?: string;
+  signal?: AbortSignal;
+  // Called before a scanned PDF is sent to the model (for progress text)
+  onFallback?: () => void;
+}
+
+/**
+ * Extract resume text from a PDF, DOCX or text file
+ * @param base64Data - Base64 encoded file contents
+ * @returns Text plus per-page confidence and how it was read
+ */
+export async function extractResumeText(
+  base64Data: string,
+  options: ResumeFileOptions = {}
+): Promise<ExtractionResult> {
+  let local: ExtractionResult;
+  try {
+    local = extractDocumentText(base64ToBytes(base64Data), options);
+  } catch (error) {
+    console.error('Document extraction error:', error);
+    throw new Error(
+      error instanceof ExtractionError
+        ? error.message
+        : 'Unable to read this file. Please try pasting your resume text directly.'
+    );
+  }
+
+  if (!needsOCR(local)) {
+    if (local.text.length < 50) {
+      throw new Error('This file has almost no text. Please try pasting your resume text directly.');
+    }
+    return local;
+  }
+
+  options.onFallback?.();
+  const text = await extractTextWithLLM(base64Data, options);
+  return {
+    ...local,
+    text,
+    method: 'llm',
+    warnings: [...local.warnings, 'Scanned PDF was read by AI - check the text for mistakes'],
+  };
+}
+
 /**
- * Extract text from a PDF using OpenAI Vision
+ * Extract text from a PDF
  * @param base64Data - Base64 encoded PDF data
  * @returns Extracted text content
  */
 export async function extractTextFromPDF(base64Data: string): Promise<string> {
+  const result = await extractResumeText(base64Data, { mimeType: 'application/pdf' });
+  return result.text;
+}
+
+/**
+ * OCR fallback: send the file itself to a document-capable model
+ */
+async function extractTextWithLLM(base64Data: string, options: ResumeFileOptions): Promise<string> {
   try {
-    // GPT-4o can process PDFs when sent as images
-    // We'll use a vision-capable prompt
     const response = await callOpenAI({
-      prompt: `${PDF_EXTRACTION_PROMPT}\n\n[PDF Content provided as base64]`,
+      prompt: PDF_EXTRACTION_PROMPT,
+      attachments: [
+        {
+          mimeType: options.mimeType ?? 'application/pdf',
+          data: base64Data,
+          fileName: options.fileName,
+        },
+      ],
       maxTokens: 4000,
       temperature: 0.1, // Low temperature for accurate extraction
+      stage: 'pdf_extraction',
+      signal: options.signal,
+      timeoutMs: OCR_TIMEOUT,
     });
 
     // Clean up the response
@@ -43,46 +116,9 @@ export async function extractTextFromPDF(base64Data: string): Promise<string> {
   } catch (error) {
     console.error('PDF extraction error:', error);
     throw new Error(
-      'Unable to extract text from PDF. Please try pasting your resume text directly.'
-    );
-  }
-}
-
-/**
- * Alternative: Extract text using a simpler OCR-like approach
- * This sends the PDF to OpenAI as a document to analyze
- */
-export async function extractTextFromPDFWithVision(
-  base64Data: string,
-  mimeType: string = 'application/pdf'
-): Promise<string> {
-  // For now, GPT-4o-mini doesn't support direct PDF analysis
-  // We'll use a fallback approach that asks the model to help
-  // In production, you'd use a dedicated PDF parsing library
-
-  const response = await callOpenAI({
-    prompt: `I have a PDF resume that I need to convert to plain text.
-The PDF is encoded in base64 format.
-Please help me extract all the text content from this resume, maintaining the structure.
-
-Base64 PDF data (first 1000 chars for reference):
-${base64Data.substring(0, 1000)}...
-
-Note: If you cannot directly read the PDF, please respond with:
-"CANNOT_PROCESS_PDF"
-
-Otherwise, extract and return all text content.`,
-    maxTokens: 4000,
-    temperature: 0.1,
-  });
-
-  if (response.includes('CANNOT_PROCESS_PDF')) {
-    throw new Error(
-      'Direct PDF processing is not available. Please paste your resume text instead.'
+      'Unable to extract text from this scanned PDF. Please try pasting your resume text directly.'
     );
   }
-
-  return response.trim();
 }
 
 /**
@@ -0,0 +1,116 @@
+/**
+ * Batch Tailoring
+ * Runs one resume against many job descriptions with bounded concurrency.
+ * Each posting is independent: a failure is recorded on its item and the
+ * rest of the batch carries on. JD analyses and resume embeddings are
+ * shared through the existing caches (duplicate postings cost one LLM call).
+ */
+
+import { TailoringResult, TailoringError } from './types';
+import {
+  tailorResume,
+  TailoringOptions,
+  TailoringProgress,
+} from './orchestrator';
+
+// Two runs at a time keeps each one close to single-run latency
+// without tripping provider rate limits
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 4;
+
+export interface BatchJob {
+  id: string;
+  jobDescription: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItemResult {
+  id: string;
+  status: BatchItemStatus;
+  result?: TailoringResult;
+  error?: TailoringError;
+}
+
+export interface BatchOptions extends TailoringOptions {
+  concurrency?: number;
+  onItemStart?: (id: string) => void;
+  onItemProgress?: (id: string, progress: TailoringProgress) => void;
+  // Called as each item settles, in completion order
+  onItemComplete?: (item: BatchItemResult) => void;
+}
+
+/**
+ * Tailor the resume for every job. Resolves once all items have settled,
+ * ranked by match score (failures last); never rejects for a single item.
+ */
+export async function tailorBatch(
+  resumeText: string,
+  jobs: BatchJob[],
+  options: BatchOptions = {}
+): Promise<BatchItemResult[]> {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    onItemStart,
+    onItemProgress,
+    onItemComplete,
+    ...tailoringOptions
+  } = options;
+  const { signal } = tailoringOptions;
+
+  const results = new Map<string, BatchItemResult>();
+  let next = 0;
+
+  const settle = (item: BatchItemResult) => {
+    results.set(item.id, item);
+    onItemComplete?.(item);
+  };
+
+  const worker = async () => {
+    while (next < jobs.length) {
+      const job = jobs[next++];
+
+      if (signal?.aborted) {
+        settle({ id: job.id, status: 'cancelled' });
+        continue;
+      }
+
+      onItemStart?.(job.id);
+      try {
+        const result = await tailorResume(
+          resumeText,
+          job.jobDescription,
+          (progress) => onItemProgress?.(job.id, progress),
+          tailoringOptions
+        );
+        settle({ id: job.id, status: 'done', result });
+      } catch (error) {
+        const tailoringError = error as TailoringError;
+        settle({
+          id: job.id,
+          status: tailoringError.type === 'cancelled' ? 'cancelled' : 'error',
+          error: tailoringError,
+        });
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, MAX_CONCURRENCY, jobs.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return rankBatchResults(jobs.map((job) => results.get(job.id) ?? { id: job.id, status: 'cancelled' }));
+}
+
+/**
+ * Completed items by match score (highest first), then failures in queue order
+ */
+export function rankBatchResults<T extends { status: BatchItemStatus; result?: TailoringResult | null }>(
+  items: T[]
+): T[] {
+  const done = items.filter((item) => item.status === 'done' && item.result);
+  const rest = items.filter((item) => !(item.status === 'done' && item.result));
+  return [
+    ...done.sort((a, b) => (b.result?.matchScore ?? 0) - (a.result?.matchScore ?? 0)),
+    ...rest,
+  ];
+}
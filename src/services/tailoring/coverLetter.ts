@@ -1,10 +1,247 @@
 /**
  * Cover Letter Generator
- * Generates human-sounding cover letters that pass AI detection
+ * Generates human-sounding cover letters that pass AI detection. Tone,
+ * length and structure come from CoverLetterOptions and shape both the LLM
+ * prompt and the offline template. Each way of writing a letter is a named
+ * strategy in COVER_LETTER_STRATEGIES; the orchestrator picks one by id.
  */
 
-import { MatchResult, JDRequirements, ResumeData } from './types';
+import {
+  MatchResult,
+  JDRequirements,
+  ResumeData,
+  Requirement,
+  Skill,
+  CoverLetterOptions,
+  CoverLetterLength,
+  CoverLetterTone,
+  CoverLetterStructure,
+  CoverLetterStrategyId,
+} from './types';
 import { callOpenAI } from '../ai/client';
+import { AICallContext } from '../ai/types';
+
+// ============================================
+// OPTIONS
+// ============================================
+
+// 'direct' is the voice the generator had before tones existed
+export const DEFAULT_COVER_LETTER_OPTIONS: CoverLetterOptions = {
+  tone: 'direct',
+  length: 'standard',
+  structure: 'narrative',
+};
+
+// Word counts for the whole letter, greeting and signature included
+export const COVER_LETTER_LENGTHS: Record<CoverLetterLength, { min: number; max: number }> = {
+  short: { min: 90, max: 150 },
+  standard: { min: 150, max: 250 },
+  long: { min: 250, max: 350 },
+};
+
+/**
+ * Fill in defaults; blank names are treated as unset
+ */
+export function resolveCoverLetterOptions(options: Partial<CoverLetterOptions> = {}): CoverLetterOptions {
+  return {
+    tone: options.tone ?? DEFAULT_COVER_LETTER_OPTIONS.tone,
+    length: options.length ?? DEFAULT_COVER_LETTER_OPTIONS.length,
+    structure: options.structure ?? DEFAULT_COVER_LETTER_OPTIONS.structure,
+    hiringManager: options.hiringManager?.trim() || undefined,
+    referral: options.referral?.trim() || undefined,
+  };
+}
+
+interface ToneSpec {
+  // Voice instructions for the LLM
+  voice: string;
+  temperature: number;
+  greeting: (manager?: string) => string;
+  // Line before the name; null signs with the name alone
+  signOff: string | null;
+  // Offline template phrasing
+  opening: (title: string, company: string) => string;
+  painPoint: (need: string, title: string, company: string) => string;
+  referral: (name: string) => string;
+  evidenceLeads: string[];
+  skills: (list: string) => string;
+  highlightsLead: string;
+  closing: string;
+  // Extra sentences for reaching the minimum length
+  fillers: (title: string, company: string) => string[];
+}
+
+const TONES: Record<CoverLetterTone, ToneSpec> = {
+  formal: {
+    voice: 'Formal and polished, like a letter to a senior executive. Full sentences and few contractions, but still plain and specific - never stiff boilerplate.',
+    temperature: 0.7,
+    greeting: (manager) => `Dear ${manager ?? 'Hiring Manager'},`,
+    signOff: 'Sincerely,',
+    opening: (title, company) => `I am applying for the ${title} position at ${company}.`,
+    painPoint: (need, title, company) =>
+      `${company} needs someone in the ${title} position who can deliver on ${need}. That is the work I have focused on, and it is why I am applying.`,
+    referral: (name) => `${name} suggested that I contact you about it.`,
+    evidenceLeads: ['In my recent work, I', 'In addition, I', 'I have also', 'Beyond that, I', 'Further, I', 'I also'],
+    skills: (list) => `My day-to-day work draws on ${list}.`,
+    highlightsLead: 'The following experience is most relevant to the role:',
+    closing: 'I would be glad to discuss the role in more detail at your convenience. Thank you for your consideration.',
+    fillers: (title, company) => [
+      `The ${title} position lines up closely with the work I have been doing.`,
+      'I take ownership of results from start to finish and work well across teams.',
+      `I would bring the same care and follow-through to ${company}.`,
+      'I am comfortable learning a new domain quickly and explaining my work to people outside my field.',
+      'I set clear priorities, communicate progress early, and hold myself to the commitments I make.',
+      'I value feedback and look for ways to improve how a team works, not only what it delivers.',
+    ],
+  },
+  warm: {
+    voice: "Warm and personable - friendly, like writing to someone you'd like to work with. Contractions are good; let a little personality show.",
+    temperature: 0.85,
+    greeting: (manager) => `Hi ${manager ? firstName(manager) : 'there'},`,
+    signOff: 'Best,',
+    opening: (title, company) =>
+      `I came across the ${title} role at ${company} and it felt like a really good fit for the work I enjoy most.`,
+    painPoint: (need, title, company) =>
+      `It sounds like the ${title} at ${company} will need to take on ${need} - and that's exactly where I've been spending my time.`,
+    referral: (name) => `${name} mentioned you're hiring and thought I should reach out.`,
+    evidenceLeads: ['Most recently, I', 'Along the way I', "One thing I'm proud of: I", 'I also', 'Another highlight: I', 'And I'],
+    skills: (list) => `Day to day I work with ${list}, which seems to line up nicely with what you're using.`,
+    highlightsLead: "A few things I've worked on that seem relevant:",
+    closing: "I'd love to hear more about what the team is working on. Thanks for reading!",
+    fillers: (title, company) => [
+      'I like working closely with people across the team and making things a little easier for everyone around me.',
+      `The ${title} role sounds like a place where I could keep doing my best work.`,
+      "I'm always happy to dig in, learn the context, and help wherever it's needed.",
+      `I'd bring the same care and energy to ${company}.`,
+      "I'm a big believer in clear communication and giving people the context they need to do good work.",
+      "Outside of my main responsibilities, I enjoy helping teammates get unstuck and sharing what I've learned.",
+    ],
+  },
+  direct: {
+    voice: 'Direct and confident - a professional emailing about a job, not a formal letter. Short sentences, contractions, no fluff.',
+    temperature: 0.8,
+    greeting: (manager) => (manager ? `Hi ${firstName(manager)},` : 'Hi,'),
+    signOff: null,
+    opening: (title, company) => `I saw the ${title} role at ${company} and wanted to reach out.`,
+    painPoint: (need, title, company) =>
+      `The ${title} at ${company} needs to handle ${need}. I've been doing exactly that.`,
+    referral: (name) => `${name} pointed me to it.`,
+    evidenceLeads: ['Recently, I', 'I also', 'On top of that, I', 'Beyond that, I', 'And I', 'Separately, I'],
+    skills: (list) => `Day to day I work with ${list}.`,
+    highlightsLead: "What I'd bring:",
+    closing: 'Happy to walk through any of this in more detail. Thanks for reading.',
+    fillers: (title, company) => [
+      `That's the kind of work the ${title} role calls for.`,
+      'I work well with a lot of ownership and little hand-holding.',
+      `I'd bring the same approach to ${company}.`,
+      "I pick up context quickly and I'm comfortable shipping.",
+      'I keep people informed, flag problems early, and follow through on what I commit to.',
+      "When something isn't working, I'd rather fix the process than work around it.",
+      'I write things down, so the people who come after me can pick up where I left off.',
+      "I'm at my best on a small team where the work is clear and the bar is high.",
+    ],
+  },
+  enthusiastic: {
+    voice: 'Enthusiastic and energetic - genuinely keen on this role, with the energy coming from specifics rather than adjectives. Contractions are good.',
+    temperature: 0.9,
+    greeting: (manager) => `Hello ${manager ? firstName(manager) : 'there'}!`,
+    signOff: 'Thanks so much,',
+    opening: (title, company) => `The ${title} role at ${company} is exactly the kind of work I've been hoping to find.`,
+    painPoint: (need, title, company) =>
+      `The ${title} at ${company} gets to take on ${need}, and that's the part of the work I enjoy most.`,
+    referral: (name) => `${name} told me about it, and I knew I had to apply.`,
+    evidenceLeads: ['Recently, I', 'Even better, I', 'Along the way, I', 'I also', 'Plus, I', 'And I'],
+    skills: (list) => `I work with ${list} every day, and that's a big part of why this role stands out to me.`,
+    highlightsLead: "Here's what I'd bring on day one:",
+    closing: "I'd really enjoy talking about how I could help. Thanks for reading!",
+    fillers: (title, company) => [
+      `I love the kind of problems a ${title} gets to work on.`,
+      `I'd bring a lot of energy and follow-through to ${company}.`,
+      'I pick things up fast and I like sharing what I learn with the team.',
+      `Working with the team at ${company} would be a great next step for me.`,
+      'I love collaborating closely with people who care about doing great work.',
+      "Every project I've worked on has taught me something new, and I'm always looking for the next challenge.",
+    ],
+  },
+};
+
+const STRUCTURE_PROMPTS: Record<CoverLetterStructure, string> = {
+  narrative: `- 1 sentence: Why this role caught your attention (be specific to the company)
+- 2-3 sentences: Your most relevant experience (use the facts above)
+- 1-2 sentences: Another relevant point
+- 1 sentence: Simple close`,
+  'bullet-highlights': `- 1-2 sentences: Why you're writing
+- A short lead-in line, then 3-4 bullet points (start each with "- "), one concrete achievement each, taken from the facts above
+- 1 sentence: Simple close`,
+  'pain-point': `- Open with the main problem this team needs solved (infer it from the requirements above) - NOT with who you are
+- 2-3 sentences: How you've solved that kind of problem before (use the facts above)
+- 1 sentence: Another relevant point
+- 1 sentence: Simple close`,
+};
+
+// ============================================
+// STRATEGIES
+// ============================================
+
+export interface CoverLetterInput {
+  matched: MatchResult[];
+  jd: JDRequirements;
+  resume: ResumeData;
+  options?: Partial<CoverLetterOptions>;
+  // Trace context for LLM calls
+  context?: AICallContext;
+}
+
+export interface CoverLetterStrategy {
+  id: CoverLetterStrategyId;
+  label: string;
+  description: string;
+  // Offline runs can only use strategies that don't call the LLM
+  usesLLM: boolean;
+  // Regenerate with this strategy when AI detection flags the letter
+  retryStrategy?: CoverLetterStrategyId;
+  generate: (input: CoverLetterInput) => Promise<string>;
+}
+
+export const COVER_LETTER_STRATEGIES: Record<CoverLetterStrategyId, CoverLetterStrategy> = {
+  natural: {
+    id: 'natural',
+    label: 'Natural',
+    description: 'LLM letter with light style rules',
+    usesLLM: true,
+    retryStrategy: 'humanized',
+    generate: ({ matched, jd, resume, options, context }) =>
+      generateCoverLetter(matched, jd, resume, false, context, options),
+  },
+  humanized: {
+    id: 'humanized',
+    label: 'Humanized',
+    description: 'LLM letter with strict anti-detection rules and a higher temperature',
+    usesLLM: true,
+    generate: ({ matched, jd, resume, options, context }) =>
+      generateCoverLetter(matched, jd, resume, true, context, options),
+  },
+  template: {
+    id: 'template',
+    label: 'Template',
+    description: 'Offline letter assembled from resume bullets',
+    usesLLM: false,
+    generate: async ({ matched, jd, resume, options }) => generateQuickCoverLetter(matched, jd, resume, options),
+  },
+};
+
+export const DEFAULT_COVER_LETTER_STRATEGY: CoverLetterStrategyId = 'natural';
+
+/**
+ * Look up a strategy; unknown ids get the default
+ */
+export function getCoverLetterStrategy(id?: CoverLetterStrategyId): CoverLetterStrategy {
+  return (id && COVER_LETTER_STRATEGIES[id]) || COVER_LETTER_STRATEGIES[DEFAULT_COVER_LETTER_STRATEGY];
+}
+
+// ============================================
+// LLM GENERATION
+// ============================================
 
 /**
  * Generate cover letter based on matched items
@@ -14,8 +251,37 @@ export async function generateCoverLetter(
   matched: MatchResult[],
   jd: JDRequirements,
   resume: ResumeData,
-  humanize: boolean = false
+  humanize: boolean = false,
+  context: AICallContext = {},
+  options: Partial<CoverLetterOptions> = {}
 ): Promise<string> {
+  const resolved = resolveCoverLetterOptions(options);
+  const name = resume.contact?.name || '[Your Name]';
+  const { max } = COVER_LETTER_LENGTHS[resolved.length];
+
+  const response = await callOpenAI({
+    prompt: buildCoverLetterPrompt(matched, jd, resume, resolved, humanize),
+    jsonMode: false,
+    // ~1.4 tokens per word, with room for the model to overshoot a little
+    maxTokens: Math.round(max * 2),
+    temperature: Math.min(1, TONES[resolved.tone].temperature + (humanize ? 0.1 : 0)),
+    stage: 'cover_letter',
+    ...context,
+  });
+
+  return cleanCoverLetter(response, name);
+}
+
+/**
+ * The prompt generateCoverLetter sends, exported for tests
+ */
+export function buildCoverLetterPrompt(
+  matched: MatchResult[],
+  jd: JDRequirements,
+  resume: ResumeData,
+  options: CoverLetterOptions,
+  humanize: boolean = false
+): string {
   const name = resume.contact?.name || '[Your Name]';
   const jobTitle = jd.title;
   const company = jd.company || 'your company';
@@ -47,18 +313,26 @@ export async function generateCoverLetter(
     .map(m => `• For "${m.requirement}": ${m.evidence}`)
     .join('\n');
 
-  const prompt = humanize 
-    ? buildAggressiveHumanPrompt(name, jobTitle, company, matchesText)
-    : buildNaturalPrompt(name, jobTitle, company, matchesText);
-
-  const response = await callOpenAI({
-    prompt,
-    jsonMode: false,
-    maxTokens: 600,
-    temperature: humanize ? 0.95 : 0.8,
-  });
+  return humanize
+    ? buildAggressiveHumanPrompt(name, jobTitle, company, matchesText, options)
+    : buildNaturalPrompt(name, jobTitle, company, matchesText, options);
+}
 
-  return cleanCoverLetter(response, name);
+/**
+ * Greeting, sign-off and referral lines shared by both prompts
+ */
+function letterFormatRules(name: string, options: CoverLetterOptions): string {
+  const tone = TONES[options.tone];
+  const rules = [`Start with "${tone.greeting(options.hiringManager)}"`];
+  if (options.referral) {
+    rules.push(`Mention in the first paragraph that ${options.referral} referred them`);
+  }
+  rules.push(
+    tone.signOff
+      ? `Sign off with "${tone.signOff}" and then "${name}" on the next line`
+      : `Sign off with just "${name}" - no "Sincerely" or "Best regards"`
+  );
+  return rules.join('\n');
 }
 
 /**
@@ -68,31 +342,32 @@ function buildNaturalPrompt(
   name: string,
   jobTitle: string,
   company: string,
-  matches: string
+  matches: string,
+  options: CoverLetterOptions
 ): string {
-  return `Write a brief cover letter for ${name} applying to ${jobTitle} at ${company}.
+  const { min, max } = COVER_LETTER_LENGTHS[options.length];
+  const formal = options.tone === 'formal';
+
+  return `Write a cover letter for ${name} applying to ${jobTitle} at ${company}.
 
 THEIR RELEVANT EXPERIENCE:
 ${matches}
 
+TONE: ${TONES[options.tone].voice}
+
 RULES - READ CAREFULLY:
-1. MAX 200 words. Shorter is better.
-2. Use contractions: I'm, I've, I'd, don't, can't, won't
+1. ${min}-${max} words. Stay inside that range.
+2. ${formal ? 'Contractions only where they read naturally' : "Use contractions: I'm, I've, I'd, don't, can't, won't"}
 3. Mix sentence lengths - some very short (3-5 words), some longer
-4. Start ONE sentence with "And" or "But"
+4. ${formal ? 'Vary how sentences open - not every one with "I"' : 'Start ONE sentence with "And" or "But"'}
 5. Be specific about what you did, not vague claims
 6. NO buzzwords: passionate, leverage, synergy, excited, thrilled, utilize, spearhead
-7. Sound like a confident professional emailing about a job, not a formal letter
-8. End simply - "Thanks for reading" or "Happy to chat more" - NOT "I look forward to the opportunity to discuss"
+7. End simply - NOT "I look forward to the opportunity to discuss"
 
 STRUCTURE:
-- 1 sentence: Why this role caught your attention (be specific to ${company})
-- 2-3 sentences: Your most relevant experience (use the facts above)
-- 1-2 sentences: Another relevant point
-- 1 sentence: Simple close
+${STRUCTURE_PROMPTS[options.structure]}
 
-Start with "Hi," or "Hello," - NOT "Dear Hiring Manager" 
-Sign off with just "${name}" - no "Sincerely" or "Best regards"
+${letterFormatRules(name, options)}
 
 Write the letter now. No preamble:`;
 }
@@ -104,8 +379,11 @@ function buildAggressiveHumanPrompt(
   name: string,
   jobTitle: string,
   company: string,
-  matches: string
+  matches: string,
+  options: CoverLetterOptions
 ): string {
+  const { min, max } = COVER_LETTER_LENGTHS[options.length];
+
   return `You must write a cover letter that sounds 100% human-written, not AI.
 
 For: ${name} applying to ${jobTitle} at ${company}
@@ -113,6 +391,8 @@ For: ${name} applying to ${jobTitle} at ${company}
 Their experience:
 ${matches}
 
+TONE: ${TONES[options.tone].voice}
+
 CRITICAL ANTI-AI RULES:
 1. Use contractions in EVERY paragraph: I'm, I've, I'd, don't, can't, won't, didn't, wasn't
 2. Include ONE minor imperfection - a slightly informal phrase like "honestly" or "I have to say" or "pretty excited"
@@ -130,13 +410,13 @@ CRITICAL ANTI-AI RULES:
    - "unique opportunity"
    - "I am writing to express my interest"
    - "Thank you for considering my application"
-7. Keep it under 180 words
-8. Sound like you're writing a quick email to someone you respect, not a formal document
+7. ${min}-${max} words
+8. Sound like you're writing to someone you respect, not filling in a template
 
-FORMAT:
-- Start with "Hi," (not Dear Hiring Manager)
-- 2-3 short paragraphs
-- End with just your name (no "Sincerely" or "Best regards")
+STRUCTURE:
+${STRUCTURE_PROMPTS[options.structure]}
+
+${letterFormatRules(name, options)}
 
 Remember: Write like a real person. Imperfect but genuine beats polished but robotic.
 
@@ -198,40 +478,221 @@ function cleanCoverLetter(text: string, name: string): string {
   return cleaned;
 }
 
+// ============================================
+// OFFLINE TEMPLATE
+// ============================================
+
+interface Evidence {
+  requirement?: Requirement;
+  text: string;
+}
+
 /**
- * Quick cover letter template (no LLM, for offline/fast mode)
+ * Quick cover letter template (no LLM, for offline/fast mode). Evidence
+ * and filler sentences are added one at a time until the letter reaches
+ * the word range for the requested length.
  */
 export function generateQuickCoverLetter(
   matched: MatchResult[],
   jd: JDRequirements,
-  resume: ResumeData
+  resume: ResumeData,
+  options: Partial<CoverLetterOptions> = {}
 ): string {
-  const name = resume.contact?.name || '[Your Name]';
+  const resolved = resolveCoverLetterOptions(options);
+  const { min, max } = COVER_LETTER_LENGTHS[resolved.length];
+  const tone = TONES[resolved.tone];
+  const evidence = collectEvidence(matched, resume);
+  const skills = matchedSkillNames(matched);
+  const need = describeNeed(matched, resume);
+  const fillers = [
+    ...(skills.length > 1 ? [tone.skills(joinList(skills))] : []),
+    ...tone.fillers(jd.title, jd.company || 'your company'),
+  ];
+
+  let evidenceCount = Math.min(1, evidence.length);
+  let fillerCount = 0;
+  const build = (e: number, f: number) =>
+    assembleQuickLetter(jd, resume, resolved, need, evidence.slice(0, e), fillers.slice(0, f));
+
+  let letter = build(evidenceCount, fillerCount);
+
+  // Grow with evidence first, then fillers, skipping any step that overshoots
+  while (countWords(letter) < min) {
+    const withEvidence = evidenceCount < evidence.length ? build(evidenceCount + 1, fillerCount) : null;
+    if (withEvidence && countWords(withEvidence) <= max) {
+      evidenceCount++;
+      letter = withEvidence;
+      continue;
+    }
+    const withFiller = fillerCount < fillers.length ? build(evidenceCount, fillerCount + 1) : null;
+    if (withFiller && countWords(withFiller) <= max) {
+      fillerCount++;
+      letter = withFiller;
+      continue;
+    }
+    break;
+  }
+
+  // A single long bullet can still overshoot a short letter
+  while (countWords(letter) > max && evidenceCount > 1) {
+    evidenceCount--;
+    letter = build(evidenceCount, fillerCount);
+  }
+
+  return letter;
+}
+
+function assembleQuickLetter(
+  jd: JDRequirements,
+  resume: ResumeData,
+  options: CoverLetterOptions,
+  need: string,
+  evidence: Evidence[],
+  fillers: string[]
+): string {
+  const tone = TONES[options.tone];
+  const name = resume.contact?.name?.trim() || '[Your Name]';
   const company = jd.company || 'your company';
   const title = jd.title;
 
-  const topMatch = matched[0];
-  const secondMatch = matched[1];
+  const intro =
+    options.structure === 'pain-point'
+      ? [tone.painPoint(need, title, company)]
+      : [tone.opening(title, company)];
+  if (options.referral) intro.push(tone.referral(options.referral));
 
-  let para1 = `I saw the ${title} role and wanted to reach out.`;
-  if (topMatch && topMatch.originalText) {
-    para1 += ` My experience with ${topMatch.originalText.slice(0, 80).toLowerCase()} maps pretty directly to what you're looking for.`;
-  }
+  const paragraphs = [intro.join(' ')];
 
-  let para2 = '';
-  if (secondMatch && secondMatch.originalText) {
-    para2 = `I've also done work around ${secondMatch.originalText.slice(0, 60).toLowerCase()}. Happy to share more specifics if helpful.`;
+  if (options.structure === 'bullet-highlights') {
+    if (evidence.length > 0) {
+      paragraphs.push([tone.highlightsLead, ...evidence.map((e) => `- ${asHighlight(e.text)}`)].join('\n'));
+    }
   } else {
-    para2 = `I'd be glad to walk through my background in more detail if you're interested.`;
+    const sentences = evidence.map(
+      (e, i) => `${tone.evidenceLeads[i] ?? 'I'} ${asClause(e.text)}.`
+    );
+    // Up to three evidence sentences per paragraph
+    for (let i = 0; i < sentences.length; i += 3) {
+      paragraphs.push(sentences.slice(i, i + 3).join(' '));
+    }
+  }
+
+  if (fillers.length > 0) paragraphs.push(fillers.join(' '));
+  paragraphs.push(tone.closing);
+
+  const signature = tone.signOff ? `${tone.signOff}\n${name}` : name;
+  return [tone.greeting(options.hiringManager), ...paragraphs, signature].join('\n\n');
+}
+
+/**
+ * Bullets behind the strongest matches first, then the rest of the
+ * experience and projects in resume order, each used once
+ */
+function collectEvidence(matched: MatchResult[], resume: ResumeData): Evidence[] {
+  const evidence: Evidence[] = [];
+  const seen = new Set<string>();
+  const add = (text: string, requirement?: Requirement) => {
+    const key = text.trim().toLowerCase();
+    if (text.length <= 30 || seen.has(key)) return;
+    seen.add(key);
+    evidence.push({ requirement, text: text.trim() });
+  };
+
+  for (const m of matched) {
+    if (m.score >= 50 && m.source === 'bullet' && m.originalText) add(m.originalText, m.requirement);
+  }
+  for (const exp of resume.experiences) {
+    for (const bullet of exp.bullets) add(bullet.text);
+  }
+  // Projects fill out thin work histories (new grads, career changers)
+  for (const project of resume.projects) {
+    for (const bullet of project.bullets) add(bullet.text);
+  }
+  return evidence;
+}
+
+// Skills named in the resume that matched the JD, up to four
+function matchedSkillNames(matched: MatchResult[]): string[] {
+  const names = new Set<string>();
+  for (const m of matched) {
+    if (m.source === 'skill' && m.score >= 50 && m.matchedItem) names.add((m.matchedItem as Skill).name);
+  }
+  return [...names].slice(0, 4);
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+// Requirement phrasing the pain-point opener can use as a noun phrase
+const NEED_PREFIX = /^(?:\d+\+?\s*(?:-\s*\d+\s*)?years?\s+(?:of\s+)?)?(?:(?:proven|strong|solid|hands-on|professional)\s+)?(?:(?:experience|expertise|background)\s+(?:with|in|building)\s+)?/i;
+const NEED_SUFFIX = /\s+(?:experience|expertise|background)$/i;
+const MAX_NEED_WORDS = 10;
+
+const IMPORTANCE_RANK: Record<Requirement['importance'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * The most important skill or experience requirement the resume matched,
+ * phrased to follow "needs to handle...". The opener goes on to claim the
+ * experience, so the phrase must appear in the resume as written; failing
+ * that the matched skill's own name is used, then the role itself.
+ */
+function describeNeed(matched: MatchResult[], resume: ResumeData): string {
+  const resumeText = resume.rawText.toLowerCase().replace(/\s+/g, ' ');
+  const strong = matched
+    .filter((m) => m.score >= 50 && (m.source === 'skill' || m.source === 'bullet'))
+    .filter((m) => m.requirement.type === 'skill' || m.requirement.type === 'experience')
+    .sort((a, b) => IMPORTANCE_RANK[a.requirement.importance] - IMPORTANCE_RANK[b.requirement.importance]);
+
+  for (const { requirement } of strong) {
+    // "B2B marketing experience, preferably in SaaS" -> "B2B marketing"
+    const need = requirement.text
+      .split(/[,;(]/)[0]
+      .replace(/[.:]+$/, '')
+      .replace(NEED_PREFIX, '')
+      .replace(NEED_SUFFIX, '')
+      .trim();
+    if (!need || need.split(/\s+/).length > MAX_NEED_WORDS) continue;
+    if (!resumeText.includes(need.toLowerCase())) continue;
+    // Skill names are usually proper nouns ("Python"), so only experience is lowercased
+    return requirement.type === 'experience' ? lowerFirst(need) : need;
   }
 
-  return `Hi,
+  const skill = strong.find((m) => m.source === 'skill')?.matchedItem as Skill | undefined;
+  return skill?.name ?? 'the day-to-day work of the role';
+}
 
-${para1}
+/**
+ * A resume bullet as the rest of a sentence starting "I ..."
+ */
+function asClause(text: string): string {
+  const clause = text
+    .replace(/^[-•*▪◦]\s*/, '')
+    .replace(/^I\s+/, '')
+    .replace(/^(responsible for|in charge of)\b/i, 'was $1')
+    .replace(/[.;\s]+$/, '');
+  return lowerFirst(clause);
+}
+
+function asHighlight(text: string): string {
+  const highlight = text.replace(/^[-•*▪◦]\s*/, '').replace(/[;\s]+$/, '');
+  const sentence = highlight.charAt(0).toUpperCase() + highlight.slice(1);
+  return /[.!?]$/.test(sentence) ? sentence : `${sentence}.`;
+}
 
-${para2}
+// Keeps acronyms and camel case ("AWS", "TypeScript") as written
+function lowerFirst(text: string): string {
+  if (/^[A-Z]\S*[A-Z]/.test(text)) return text;
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+const HONORIFIC = /^(dr|mr|mrs|ms|mx|prof)\.?\s/i;
 
-Thanks for reading.
+// "Jane Smith" -> "Jane"; "Dr. Smith" stays as written
+function firstName(fullName: string): string {
+  return HONORIFIC.test(fullName) ? fullName : fullName.split(/\s+/)[0];
+}
 
-${name}`;
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
 }
@@ -3,7 +3,8 @@
  * Helps diagnose match score issues
  */
 
-import { ResumeData, JDRequirements, MatchResult } from './types';
+import { ResumeData, JDRequirements, MatchResult, ScoreBreakdown, TailoringTrace } from './types';
+import type { JDCacheStats } from './jdCache';
 
 export function logResumeData(data: ResumeData): void {
   console.log('\n=== PARSED RESUME ===');
@@ -54,33 +55,80 @@ export function logMatchResults(matched: MatchResult[], missing: MatchResult[]):
   }
 }
 
-export function logScoreCalculation(
-  matched: MatchResult[],
-  missing: MatchResult[],
-  score: number
-): void {
-  const importanceWeight: Record<string, number> = { critical: 3, high: 2, medium: 1, low: 0.5 };
-
-  let weightedMatched = 0;
-  let totalWeight = 0;
-
+export function logScoreCalculation(breakdown: ScoreBreakdown): void {
   console.log('\n=== SCORE CALCULATION ===');
 
-  for (const m of matched) {
-    const weight = importanceWeight[m.requirement.importance];
-    const contribution = (m.score / 100) * weight;
-    weightedMatched += contribution;
-    totalWeight += weight;
-    console.log(`  Matched: score=${m.score}, weight=${weight}, contribution=${contribution.toFixed(2)}`);
+  for (const r of breakdown.requirements) {
+    const label = r.status === 'matched' ? 'Matched' : 'Missing';
+    console.log(
+      `  ${label}: score=${r.matchScore}, weight=${r.weight}, contribution=${r.contribution.toFixed(2)}, ` +
+      `points=${r.points}/${r.maxPoints}${r.source ? ` via ${r.source}` : ''}`
+    );
+  }
+
+  console.log(`\nWeighted Matched: ${breakdown.weightedScore.toFixed(2)}`);
+  console.log(`Total Weight: ${breakdown.totalWeight.toFixed(2)} (missing x${breakdown.missingWeightFactor})`);
+  console.log(`Raw Score: ${breakdown.rawScore}%`);
+  if (breakdown.domainMismatch) {
+    console.log(`Domain Mismatch: x${breakdown.domainPenalty} -> ${breakdown.penalizedScore}%`);
+  }
+  if (breakdown.clamp.applied) {
+    console.log(`Clamped to ${breakdown.clamp.applied} (${breakdown.clamp.min}-${breakdown.clamp.max}): ${breakdown.clamp.delta > 0 ? '+' : ''}${breakdown.clamp.delta}`);
   }
+  console.log(`Final Score: ${breakdown.finalScore}%`);
+}
 
-  for (const m of missing) {
-    const weight = importanceWeight[m.requirement.importance];
-    totalWeight += weight;
-    console.log(`  Missing: weight=${weight} (adds to total only)`);
+export function logTrace(trace: TailoringTrace): void {
+  console.log('\n=== STAGE TRACE ===');
+
+  const header = ['Stage', 'Start', 'Duration', 'Model', 'Calls', 'Prompt', 'Completion', 'Cost'];
+  const rows = trace.stages.map((s) => [
+    s.cacheHit ? `${s.stage} (cached)` : s.stage,
+    `${s.startedAt}ms`,
+    `${s.durationMs}ms`,
+    s.model ?? '-',
+    s.llmCalls?.toString() ?? '-',
+    formatTokens(s.promptTokens, s.tokensEstimated),
+    formatTokens(s.completionTokens, s.tokensEstimated),
+    formatCost(s.estimatedCost, s.llmCalls !== undefined),
+  ]);
+  rows.push([
+    'TOTAL',
+    '',
+    `${trace.totalDurationMs}ms`,
+    '',
+    '',
+    trace.promptTokens.toString(),
+    trace.completionTokens.toString(),
+    formatCost(trace.estimatedCost, true),
+  ]);
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ');
+
+  console.log(line(header));
+  console.log(widths.map((w) => '-'.repeat(w)).join('  '));
+  rows.forEach((r) => console.log(line(r)));
+  if (trace.stages.some((s) => s.tokensEstimated)) {
+    console.log('~ = estimated from text length (provider did not report usage)');
   }
+}
+
+function formatTokens(tokens: number | undefined, estimated?: boolean): string {
+  if (tokens === undefined) return '-';
+  return estimated ? `~${tokens}` : tokens.toString();
+}
+
+function formatCost(cost: number | undefined, usedLLM: boolean): string {
+  if (!usedLLM) return '-';
+  return cost === undefined ? 'n/a' : `$${cost.toFixed(4)}`;
+}
+
+export function logJDCacheStats(stats: JDCacheStats): void {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
 
-  console.log(`\nWeighted Matched: ${weightedMatched.toFixed(2)}`);
-  console.log(`Total Weight: ${totalWeight.toFixed(2)}`);
-  console.log(`Final Score: ${score}%`);
+  console.log('\n=== JD CACHE ===');
+  console.log(`Hits: ${stats.hits}, Misses: ${stats.misses} (${hitRate}% hit rate)`);
+  console.log(`Expired: ${stats.expired}, Evictions: ${stats.evictions}, Size: ${stats.size}`);
 }
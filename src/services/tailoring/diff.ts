@@ -0,0 +1,457 @@
+/**
+ * Resume Diff - 0 LLM calls
+ * Pairs each tailored bullet with the original it came from, word-diffs
+ * rewordings, and marks moved, added and dropped bullets, experiences and
+ * skills. applyDiffDecisions rebuilds the resume with any changes the user
+ * reverted, for export and for saving back to history.
+ */
+
+import { ResumeData, TailoredResume, TailoredExperience } from './types';
+import { generateRawText } from './formatter';
+
+export interface WordDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type BulletDiffStatus = 'unchanged' | 'reworded' | 'added' | 'dropped';
+
+export interface BulletDiff {
+  id: string; // Decision key
+  status: BulletDiffStatus;
+  moved: boolean; // Sits in a different place among its role's bullets
+  original?: string;
+  tailored?: string;
+  originalIndex?: number;
+  tailoredIndex?: number;
+  segments: WordDiffSegment[]; // Original -> tailored, words
+}
+
+export interface ExperienceDiff {
+  id: string; // Decision key for an added or dropped role
+  status: 'kept' | 'added' | 'dropped';
+  title: string;
+  company: string;
+  dateRange?: string;
+  originalIndex?: number;
+  tailoredIndex?: number;
+  bulletsReordered: boolean; // Decision key: `${id}:order`
+  // Tailored order, dropped bullets after the original bullet they followed
+  bullets: BulletDiff[];
+}
+
+export interface ResumeDiff {
+  summary: { original?: string; tailored?: string; segments: WordDiffSegment[]; changed: boolean };
+  experiences: ExperienceDiff[];
+  experiencesReordered: boolean;
+  skills: { added: string[]; dropped: string[] };
+  changeCount: number;
+}
+
+// Keyed by BulletDiff.id, ExperienceDiff.id, `${experience.id}:order`,
+// EXPERIENCE_ORDER_ID, SUMMARY_ID or skillChangeId(); missing means accepted
+export type DiffDecisions = Record<string, 'accept' | 'revert'>;
+
+export const SUMMARY_ID = 'summary';
+export const EXPERIENCE_ORDER_ID = 'experiences:order';
+
+// Word overlap (from the word diff) needed to call a bullet a rewording
+const MIN_PAIR_SIMILARITY = 0.5;
+
+/**
+ * The source resume in the formatter's shape, in its own order
+ */
+export function snapshotResume(resume: ResumeData): TailoredResume {
+  return {
+    summary: resume.summary,
+    skills: resume.skills.map((s) => s.name),
+    experiences: resume.experiences.map((e) => ({
+      title: e.title,
+      company: e.company,
+      dateRange: e.dateRange,
+      bullets: e.bullets.map((b) => b.text),
+    })),
+    education: resume.education.map((e) => e.originalText),
+    rawText: resume.rawText,
+  };
+}
+
+export function skillChangeId(change: 'added' | 'dropped', skill: string): string {
+  return `skill:${change === 'added' ? '+' : '-'}${skill.toLowerCase()}`;
+}
+
+// ============================================
+// BUILDING THE DIFF
+// ============================================
+
+/**
+ * Compare the tailored resume with the original it was made from
+ */
+export function buildResumeDiff(original: TailoredResume, tailored: TailoredResume): ResumeDiff {
+  const pairs = pairExperiences(original.experiences, tailored.experiences);
+  const experiences: ExperienceDiff[] = [];
+
+  tailored.experiences.forEach((experience, tailoredIndex) => {
+    const originalIndex = pairs.get(tailoredIndex);
+    if (originalIndex === undefined) {
+      experiences.push({
+        id: `exp:t${tailoredIndex}`,
+        status: 'added',
+        title: experience.title,
+        company: experience.company,
+        dateRange: experience.dateRange,
+        tailoredIndex,
+        bulletsReordered: false,
+        bullets: experience.bullets.map((text, index) => ({
+          id: `exp:t${tailoredIndex}:t${index}`,
+          status: 'added',
+          moved: false,
+          tailored: text,
+          tailoredIndex: index,
+          segments: [{ type: 'insert', text }],
+        })),
+      });
+      return;
+    }
+    experiences.push(diffExperience(original.experiences[originalIndex], originalIndex, experience, tailoredIndex));
+  });
+
+  // Roles the tailored resume left out, after the role they followed
+  const paired = new Set(pairs.values());
+  original.experiences.forEach((experience, originalIndex) => {
+    if (paired.has(originalIndex)) return;
+    const dropped: ExperienceDiff = {
+      id: `exp:o${originalIndex}`,
+      status: 'dropped',
+      title: experience.title,
+      company: experience.company,
+      dateRange: experience.dateRange,
+      originalIndex,
+      bulletsReordered: false,
+      bullets: experience.bullets.map((text, index) => ({
+        id: `exp:o${originalIndex}:o${index}`,
+        status: 'dropped',
+        moved: false,
+        original: text,
+        originalIndex: index,
+        segments: [{ type: 'delete', text }],
+      })),
+    };
+    insertAfterPredecessor(experiences, dropped, originalIndex);
+  });
+
+  const summarySegments = diffWords(original.summary ?? '', tailored.summary ?? '');
+  const summaryChanged = summarySegments.some((s) => s.type !== 'equal');
+
+  const originalSkills = new Set(original.skills.map((s) => s.toLowerCase()));
+  const tailoredSkills = new Set(tailored.skills.map((s) => s.toLowerCase()));
+  const skills = {
+    added: tailored.skills.filter((s) => !originalSkills.has(s.toLowerCase())),
+    dropped: original.skills.filter((s) => !tailoredSkills.has(s.toLowerCase())),
+  };
+
+  const experiencesReordered = isReordered(
+    experiences.filter((e) => e.status === 'kept').map((e) => e.originalIndex!)
+  );
+
+  const changeCount =
+    (summaryChanged ? 1 : 0) +
+    (experiencesReordered ? 1 : 0) +
+    skills.added.length +
+    skills.dropped.length +
+    experiences.reduce(
+      (sum, e) =>
+        sum +
+        (e.status === 'kept'
+          ? (e.bulletsReordered ? 1 : 0) + e.bullets.filter((b) => b.status !== 'unchanged').length
+          : 1),
+      0
+    );
+
+  return {
+    summary: { original: original.summary, tailored: tailored.summary, segments: summarySegments, changed: summaryChanged },
+    experiences,
+    experiencesReordered,
+    skills,
+    changeCount,
+  };
+}
+
+/**
+ * Tailored role index -> original role index, by employer and title, then
+ * by employer alone; each original used once
+ */
+function pairExperiences(original: TailoredExperience[], tailored: TailoredExperience[]): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const used = new Set<number>();
+  const key = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+  const passes: Array<(a: TailoredExperience, b: TailoredExperience) => boolean> = [
+    (a, b) => key(a.company) === key(b.company) && key(a.title) === key(b.title),
+    (a, b) => key(a.company) === key(b.company),
+  ];
+  for (const matches of passes) {
+    tailored.forEach((experience, tailoredIndex) => {
+      if (pairs.has(tailoredIndex)) return;
+      const originalIndex = original.findIndex((candidate, i) => !used.has(i) && matches(candidate, experience));
+      if (originalIndex === -1) return;
+      pairs.set(tailoredIndex, originalIndex);
+      used.add(originalIndex);
+    });
+  }
+  return pairs;
+}
+
+function diffExperience(
+  original: TailoredExperience,
+  originalIndex: number,
+  tailored: TailoredExperience,
+  tailoredIndex: number
+): ExperienceDiff {
+  const id = `exp:o${originalIndex}`;
+  const pairs = pairBullets(original.bullets, tailored.bullets);
+  const bullets: BulletDiff[] = tailored.bullets.map((text, index) => {
+    const pair = pairs.get(index);
+    if (!pair) {
+      return {
+        id: `${id}:t${index}`,
+        status: 'added',
+        moved: false,
+        tailored: text,
+        tailoredIndex: index,
+        segments: [{ type: 'insert', text }],
+      };
+    }
+    const source = original.bullets[pair.originalIndex];
+    return {
+      id: `${id}:o${pair.originalIndex}`,
+      status: source === text ? 'unchanged' : 'reworded',
+      moved: false,
+      original: source,
+      tailored: text,
+      originalIndex: pair.originalIndex,
+      tailoredIndex: index,
+      segments: pair.segments,
+    };
+  });
+
+  const paired = new Set(Array.from(pairs.values(), (p) => p.originalIndex));
+  original.bullets.forEach((text, index) => {
+    if (paired.has(index)) return;
+    insertAfterPredecessor(
+      bullets,
+      {
+        id: `${id}:o${index}`,
+        status: 'dropped',
+        moved: false,
+        original: text,
+        originalIndex: index,
+        segments: [{ type: 'delete', text }],
+      },
+      index
+    );
+  });
+
+  markMoved(bullets.filter((b) => b.originalIndex !== undefined && b.tailoredIndex !== undefined));
+
+  return {
+    id,
+    status: 'kept',
+    title: tailored.title,
+    company: tailored.company,
+    dateRange: tailored.dateRange,
+    originalIndex,
+    tailoredIndex,
+    bulletsReordered: bullets.some((b) => b.moved),
+    bullets,
+  };
+}
+
+/**
+ * Tailored bullet index -> closest original, best pairs first
+ */
+function pairBullets(
+  original: string[],
+  tailored: string[]
+): Map<number, { originalIndex: number; segments: WordDiffSegment[] }> {
+  const candidates: Array<{ tailoredIndex: number; originalIndex: number; similarity: number; segments: WordDiffSegment[] }> = [];
+  tailored.forEach((text, tailoredIndex) => {
+    original.forEach((source, originalIndex) => {
+      const segments = diffWords(source, text);
+      const similarity = wordSimilarity(segments);
+      if (similarity >= MIN_PAIR_SIMILARITY) candidates.push({ tailoredIndex, originalIndex, similarity, segments });
+    });
+  });
+
+  const pairs = new Map<number, { originalIndex: number; segments: WordDiffSegment[] }>();
+  const used = new Set<number>();
+  candidates.sort((a, b) => b.similarity - a.similarity || a.tailoredIndex - b.tailoredIndex);
+  for (const candidate of candidates) {
+    if (pairs.has(candidate.tailoredIndex) || used.has(candidate.originalIndex)) continue;
+    pairs.set(candidate.tailoredIndex, candidate);
+    used.add(candidate.originalIndex);
+  }
+  return pairs;
+}
+
+/**
+ * A paired bullet moved when its rank among paired bullets changed
+ */
+function markMoved(paired: BulletDiff[]) {
+  const byOriginal = [...paired].sort((a, b) => a.originalIndex! - b.originalIndex!);
+  const byTailored = [...paired].sort((a, b) => a.tailoredIndex! - b.tailoredIndex!);
+  byTailored.forEach((bullet, rank) => {
+    bullet.moved = byOriginal[rank] !== bullet;
+  });
+}
+
+function isReordered(originalIndexes: number[]): boolean {
+  return originalIndexes.some((index, i) => i > 0 && index < originalIndexes[i - 1]);
+}
+
+/**
+ * Place a dropped item right after the item that preceded it originally
+ */
+function insertAfterPredecessor<T extends { originalIndex?: number }>(items: T[], item: T, originalIndex: number) {
+  let position = 0;
+  items.forEach((existing, i) => {
+    if (existing.originalIndex !== undefined && existing.originalIndex < originalIndex) position = i + 1;
+  });
+  items.splice(position, 0, item);
+}
+
+// ============================================
+// WORD DIFF
+// ============================================
+
+/**
+ * Word-level diff (longest common subsequence). Whitespace is kept with
+ * the word before it so joining the segments rebuilds either side.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j]: common words in a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = sameWord(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (sameWord(a[i], b[j])) {
+      push('equal', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return segments;
+}
+
+/**
+ * Share of words the two sides have in common (0-1)
+ */
+function wordSimilarity(segments: WordDiffSegment[]): number {
+  let equal = 0;
+  let total = 0;
+  for (const segment of segments) {
+    const count = tokenize(segment.text).length;
+    total += segment.type === 'equal' ? count * 2 : count;
+    if (segment.type === 'equal') equal += count * 2;
+  }
+  return total === 0 ? 1 : equal / total;
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+function sameWord(a: string, b: string): boolean {
+  return a.trim() === b.trim();
+}
+
+// ============================================
+// APPLYING DECISIONS
+// ============================================
+
+/**
+ * The tailored resume with reverted changes put back to the original.
+ * With nothing reverted it's the tailored resume unchanged.
+ */
+export function applyDiffDecisions(
+  diff: ResumeDiff,
+  tailored: TailoredResume,
+  decisions: DiffDecisions
+): TailoredResume {
+  const reverted = (id: string) => decisions[id] === 'revert';
+  if (!Object.values(decisions).includes('revert')) return tailored;
+
+  const kept = diff.experiences.filter((experience) =>
+    experience.status === 'kept' ||
+    (experience.status === 'added' && !reverted(experience.id)) ||
+    (experience.status === 'dropped' && reverted(experience.id))
+  );
+  const ordered = reverted(EXPERIENCE_ORDER_ID) ? originalOrder(kept) : kept;
+
+  const experiences: TailoredExperience[] = ordered.map((experience) => {
+    const bullets = experience.bullets.filter((bullet) => {
+      if (bullet.status === 'added') return experience.status === 'added' || !reverted(bullet.id);
+      if (bullet.status === 'dropped') return experience.status === 'dropped' || reverted(bullet.id);
+      return true;
+    });
+    return {
+      title: experience.title,
+      company: experience.company,
+      dateRange: experience.dateRange,
+      bullets: (reverted(`${experience.id}:order`) ? originalOrder(bullets) : bullets).map((bullet) =>
+        bullet.status === 'reworded' && reverted(bullet.id) ? bullet.original! : (bullet.tailored ?? bullet.original!)
+      ),
+    };
+  });
+
+  const droppedBack = diff.skills.dropped.filter((skill) => reverted(skillChangeId('dropped', skill)));
+  const skills = [
+    ...tailored.skills.filter((skill) => !reverted(skillChangeId('added', skill))),
+    ...droppedBack,
+  ];
+
+  const resume: TailoredResume = {
+    ...tailored,
+    summary: reverted(SUMMARY_ID) ? diff.summary.original : tailored.summary,
+    skills,
+    experiences,
+  };
+  return { ...resume, rawText: generateRawText(resume) };
+}
+
+/**
+ * Original order; items with no original position stay after the item
+ * they follow now
+ */
+function originalOrder<T extends { originalIndex?: number }>(items: T[]): T[] {
+  let previous = -1;
+  const keyed = items.map((item, position) => {
+    const key = item.originalIndex ?? previous + 0.5;
+    previous = item.originalIndex ?? previous;
+    return { item, key, position };
+  });
+  return keyed.sort((a, b) => a.key - b.key || a.position - b.position).map(({ item }) => item);
+}
@@ -0,0 +1,147 @@
+/**
+ * Tailored Resume Editing - 0 LLM calls
+ * Edits to a TailoredResume (and cover letter paragraphs) as plain,
+ * immutable operations for the editor screen and its undo history, plus
+ * re-scoring the edited resume against the job with matchResume.
+ */
+
+import { JDRequirements, ResumeData, ScoreBreakdown, TailoredResume } from './types';
+import { parseResume } from './parser';
+import { matchResume, explainMatchScore } from './matcher';
+import { generateRawText } from './formatter';
+import type { Taxonomy } from './taxonomy';
+
+export type ResumeEdit =
+  | { type: 'set_summary'; text: string }
+  | { type: 'add_skill'; skill: string }
+  | { type: 'remove_skill'; index: number }
+  | { type: 'set_bullet'; experience: number; bullet: number; text: string }
+  | { type: 'add_bullet'; experience: number; text?: string }
+  | { type: 'remove_bullet'; experience: number; bullet: number }
+  | { type: 'move_bullet'; experience: number; from: number; to: number }
+  | { type: 'move_experience'; from: number; to: number }
+  | { type: 'set_education'; index: number; text: string };
+
+/**
+ * Apply one edit; rawText is regenerated so export and copy see it
+ */
+export function applyResumeEdit(resume: TailoredResume, edit: ResumeEdit): TailoredResume {
+  const next = editStructure(resume, edit);
+  return next === resume ? resume : { ...next, rawText: generateRawText(next) };
+}
+
+function editStructure(resume: TailoredResume, edit: ResumeEdit): TailoredResume {
+  switch (edit.type) {
+    case 'set_summary':
+      return { ...resume, summary: edit.text };
+
+    case 'add_skill': {
+      const skill = edit.skill.trim();
+      const exists = resume.skills.some((s) => s.toLowerCase() === skill.toLowerCase());
+      return !skill || exists ? resume : { ...resume, skills: [...resume.skills, skill] };
+    }
+
+    case 'remove_skill':
+      return { ...resume, skills: resume.skills.filter((_, i) => i !== edit.index) };
+
+    case 'set_bullet':
+      return updateBullets(resume, edit.experience, (bullets) =>
+        bullets.map((text, i) => (i === edit.bullet ? edit.text : text))
+      );
+
+    case 'add_bullet':
+      return updateBullets(resume, edit.experience, (bullets) => [...bullets, edit.text ?? '']);
+
+    case 'remove_bullet':
+      return updateBullets(resume, edit.experience, (bullets) => bullets.filter((_, i) => i !== edit.bullet));
+
+    case 'move_bullet':
+      return updateBullets(resume, edit.experience, (bullets) => move(bullets, edit.from, edit.to));
+
+    case 'move_experience': {
+      const experiences = move(resume.experiences, edit.from, edit.to);
+      return experiences === resume.experiences ? resume : { ...resume, experiences };
+    }
+
+    case 'set_education':
+      return {
+        ...resume,
+        education: resume.education.map((text, i) => (i === edit.index ? edit.text : text)),
+      };
+  }
+}
+
+function updateBullets(
+  resume: TailoredResume,
+  experienceIndex: number,
+  update: (bullets: string[]) => string[]
+): TailoredResume {
+  const experience = resume.experiences[experienceIndex];
+  if (!experience) return resume;
+  const bullets = update(experience.bullets);
+  if (bullets === experience.bullets) return resume;
+  return {
+    ...resume,
+    experiences: resume.experiences.map((e, i) => (i === experienceIndex ? { ...e, bullets } : e)),
+  };
+}
+
+/**
+ * Move one item; out-of-range moves are no-ops (same array back)
+ */
+function move<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// ============================================
+// COVER LETTER
+// ============================================
+
+/**
+ * Paragraphs, split on blank lines
+ */
+export function splitCoverLetter(coverLetter: string): string[] {
+  return coverLetter
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+export function joinCoverLetter(paragraphs: string[]): string {
+  return paragraphs
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * The tailored resume as ResumeData, read back from its own text
+ */
+export function tailoredToResumeData(resume: TailoredResume): ResumeData {
+  return parseResume(generateRawText(resume));
+}
+
+/**
+ * Match score of an edited resume against the job (lexical tier only, so
+ * it's cheap enough to rerun as the user types)
+ */
+export function scoreTailoredResume(resume: TailoredResume, jd: JDRequirements, taxonomy?: Taxonomy): number {
+  return explainTailoredResume(resume, jd, taxonomy).finalScore;
+}
+
+/**
+ * Full score breakdown of an edited resume, saved with it so the result
+ * screen explains the score it shows
+ */
+export function explainTailoredResume(resume: TailoredResume, jd: JDRequirements, taxonomy?: Taxonomy): ScoreBreakdown {
+  const { matched, missing, hasDomainMismatch, seniority } = matchResume(tailoredToResumeData(resume), jd, taxonomy);
+  return explainMatchScore(matched, missing, hasDomainMismatch, seniority);
+}
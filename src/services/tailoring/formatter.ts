@@ -8,9 +8,12 @@ import {
   MatchResult,
   JDRequirements,
   TailoredResume,
-  TailoredExperience,
+  VerificationReport,
 } from './types';
-import { callOpenAI } from '../ai/client';
+import { callStructured } from '../ai/structuredOutput';
+import { AICallContext } from '../ai/types';
+import { tailoredResumeSchema } from './schemas';
+import { verifyTailoredResume, type VerifyOptions } from './verifier';
 
 const FORMAT_PROMPT = `You are reformatting a resume to better match a job description.
 
@@ -50,12 +53,18 @@ Remember:
 
 /**
  * Format resume with light reformatting
+ * Throws StructuredOutputError if the response can't be validated after one repair;
+ * the orchestrator decides whether to fall back to the original resume.
+ * The output is checked against the source by the fabrication guard
+ * (./verifier) - reverted by default, or only flagged with guard.mode 'flag'.
  */
 export async function formatTailoredResume(
   resume: ResumeData,
   matched: MatchResult[],
-  jd: JDRequirements
-): Promise<TailoredResume> {
+  jd: JDRequirements,
+  context: AICallContext = {},
+  guard: VerifyOptions = {}
+): Promise<{ resume: TailoredResume; verification: VerificationReport }> {
   // Sort bullets by match score
   const prioritizedBullets = getPrioritizedBullets(resume, matched);
 
@@ -64,14 +73,26 @@ export async function formatTailoredResume(
     .replace('{KEYWORDS}', jd.keywords.slice(0, 10).join(', '))
     .replace('{BULLETS}', formatBulletsForPrompt(prioritizedBullets));
 
-  const response = await callOpenAI({
+  const response = await callStructured({
     prompt,
-    jsonMode: true,
     maxTokens: 2000,
+    stage: 'formatting',
+    ...context,
+    schema: tailoredResumeSchema,
   });
 
-  const parsed = parseFormatResponse(response, resume);
-  return validateTailoredResume(parsed, resume);
+  const tailored: TailoredResume = {
+    summary: response.summary,
+    skills: response.skills || resume.skills.map((s) => s.name),
+    experiences: response.experiences,
+    education: resume.education.map((e) => e.originalText),
+    rawText: '',
+  };
+
+  const verified = verifyTailoredResume(tailored, resume, guard);
+  verified.resume.rawText = generateRawText(verified.resume);
+
+  return { resume: verified.resume, verification: verified.report };
 }
 
 /**
@@ -113,101 +134,10 @@ function formatBulletsForPrompt(
     .join('\n');
 }
 
-/**
- * Parse formatter response
- */
-function parseFormatResponse(response: string, original: ResumeData): TailoredResume {
-  try {
-    const data = JSON.parse(response);
-
-    return {
-      summary: data.summary,
-      skills: data.skills || original.skills.map((s) => s.name),
-      experiences: (data.experiences || []).map(normalizeExperience),
-      education: original.education.map((e) => e.originalText),
-      rawText: '',
-    };
-  } catch {
-    // Fallback to original structure
-    return createFallbackResume(original);
-  }
-}
-
-/**
- * Normalize experience object
- */
-function normalizeExperience(exp: Partial<TailoredExperience>): TailoredExperience {
-  return {
-    title: exp.title || '',
-    company: exp.company || '',
-    dateRange: exp.dateRange,
-    bullets: exp.bullets || [],
-  };
-}
-
-/**
- * Create fallback resume from original
- */
-function createFallbackResume(original: ResumeData): TailoredResume {
-  return {
-    skills: original.skills.map((s) => s.name),
-    experiences: original.experiences.map((e) => ({
-      title: e.title,
-      company: e.company,
-      dateRange: e.dateRange,
-      bullets: e.bullets.map((b) => b.text),
-    })),
-    education: original.education.map((e) => e.originalText),
-    rawText: original.rawText,
-  };
-}
-
-/**
- * Validate tailored resume against original
- * Ensures no hallucinations occurred
- */
-function validateTailoredResume(
-  tailored: TailoredResume,
-  original: ResumeData
-): TailoredResume {
-  // Check that bullets are similar to originals
-  const originalBullets = original.experiences.flatMap((e) =>
-    e.bullets.map((b) => b.text.toLowerCase())
-  );
-
-  for (const exp of tailored.experiences) {
-    exp.bullets = exp.bullets.filter((bullet) => {
-      // Allow if 70%+ similar to any original
-      const similarity = originalBullets.some(
-        (orig) => calculateSimilarity(bullet.toLowerCase(), orig) >= 0.7
-      );
-      return similarity;
-    });
-  }
-
-  // Generate raw text from structured data
-  tailored.rawText = generateRawText(tailored);
-
-  return tailored;
-}
-
-/**
- * Calculate text similarity (simple Jaccard-like)
- */
-function calculateSimilarity(a: string, b: string): number {
-  const wordsA = new Set(a.split(/\s+/));
-  const wordsB = new Set(b.split(/\s+/));
-
-  const intersection = [...wordsA].filter((w) => wordsB.has(w)).length;
-  const union = new Set([...wordsA, ...wordsB]).size;
-
-  return intersection / union;
-}
-
 /**
  * Generate raw text from structured resume
  */
-function generateRawText(resume: TailoredResume): string {
+export function generateRawText(resume: TailoredResume): string {
   const lines: string[] = [];
 
   if (resume.summary) {
@@ -2,17 +2,57 @@
 export {
   tailorResume,
   tailorResumeQuick,
+  rankBaseResumes,
+  resolveTailoringSettings,
+  DEFAULT_TAILORING_SETTINGS,
   type TailoringProgress,
   type ProgressCallback,
+  type TailoringOptions,
 } from './orchestrator';
+export {
+  tailorBatch,
+  rankBatchResults,
+  type BatchJob,
+  type BatchItemStatus,
+  type BatchItemResult,
+  type BatchOptions,
+} from './batch';
 
 // Types
 export type {
   ResumeData,
   JDRequirements,
   MatchResult,
+  MatchSource,
+  ScoreBreakdown,
+  RequirementContribution,
+  SeniorityLevel,
+  SeniorityFit,
+  YearsEvaluation,
+  FabricationGuardMode,
+  GroundingViolation,
+  BulletProvenance,
+  VerificationReport,
+  BaseResumeCandidate,
+  BaseResumeScore,
+  BaseResumeSelection,
   TailoringResult,
+  TailoredResume,
+  CoverLetterOptions,
+  CoverLetterTone,
+  CoverLetterLength,
+  CoverLetterStructure,
+  CoverLetterStrategyId,
+  CoverLetterIteration,
+  CoverLetterIterationKind,
+  AIDetectionInfo,
+  TailoringSettings,
+  KeepLetterPolicy,
+  SemanticMatchingMode,
+  HumanizationReport,
+  HumanizeStopReason,
   TailoringError,
+  TailoringErrorType,
   Skill,
   Experience,
   Bullet,
@@ -22,6 +62,80 @@ export type {
 // Individual modules (for advanced usage)
 export { parseResume } from './parser';
 export { analyzeJobDescription } from './jdAnalyzer';
-export { matchResume, calculateMatchScore } from './matcher';
+export { analyzeJobDescriptionOffline } from './jdRuleAnalyzer';
+export {
+  analyzeJobDescriptionCached,
+  invalidateJDCache,
+  configureJDCache,
+  getJDCacheStats,
+} from './jdCache';
+export { matchResume, calculateMatchScore, explainMatchScore } from './matcher';
+export {
+  parseDateRange,
+  totalYearsOfExperience,
+  tenureByDomain,
+  tenureForTerm,
+  evaluateYearsRequirement,
+  evaluateSeniority,
+} from './tenure';
+export {
+  loadTaxonomy,
+  getTaxonomy,
+  validateTaxonomy,
+  hasTaxonomyErrors,
+  BUILT_IN_PACKS,
+  TaxonomyError,
+  type Taxonomy,
+  type TaxonomyPack,
+  type TaxonomyIssue,
+  type CustomSynonym,
+} from './taxonomy';
+export {
+  buildSemanticIndex,
+  clearSemanticCache,
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  setDefaultEmbeddingProvider,
+  type EmbeddingProvider,
+  type SemanticIndex,
+  type SemanticOptions,
+} from './semantic';
 export { formatTailoredResume } from './formatter';
-export { generateCoverLetter, generateQuickCoverLetter } from './coverLetter';
+export { verifyTailoredResume, verifyCoverLetter } from './verifier';
+export {
+  buildResumeDiff,
+  applyDiffDecisions,
+  diffWords,
+  skillChangeId,
+  SUMMARY_ID,
+  EXPERIENCE_ORDER_ID,
+} from './diff';
+export type { ResumeDiff, ExperienceDiff, BulletDiff, WordDiffSegment, DiffDecisions } from './diff';
+export {
+  applyResumeEdit,
+  splitCoverLetter,
+  joinCoverLetter,
+  scoreTailoredResume,
+  explainTailoredResume,
+} from './editor';
+export type { ResumeEdit } from './editor';
+export {
+  generateCoverLetter,
+  generateQuickCoverLetter,
+  buildCoverLetterPrompt,
+  resolveCoverLetterOptions,
+  getCoverLetterStrategy,
+  COVER_LETTER_STRATEGIES,
+  DEFAULT_COVER_LETTER_STRATEGY,
+  DEFAULT_COVER_LETTER_OPTIONS,
+  COVER_LETTER_LENGTHS,
+} from './coverLetter';
+export type { CoverLetterStrategy, CoverLetterInput } from './coverLetter';
+export {
+  rewriteFlaggedSentences,
+  rewriteSentences,
+  getFlaggedSentences,
+  segmentCoverLetter,
+  appendIteration,
+} from './revision';
+export type { LetterSegment, SentenceRewrite, RewriteOptions } from './revision';
@@ -3,8 +3,13 @@
  * Extracts structured requirements from job descriptions
  */
 
-import { JDRequirements, Requirement, JDContext } from './types';
-import { callOpenAI } from '../ai/client';
+import { JDRequirements } from './types';
+import { callStructured } from '../ai/structuredOutput';
+import { AICallContext } from '../ai/types';
+import { jdRequirementsSchema } from './schemas';
+
+// Bump when the prompt or schema changes so cached analyses are invalidated
+export const JD_ANALYSIS_PROMPT_VERSION = 1;
 
 const JD_ANALYSIS_PROMPT = `Analyze this job description and extract structured requirements.
 
@@ -41,112 +46,26 @@ Rules:
 
 /**
  * Analyze job description using LLM
+ * Response is schema-validated; one repair call is made if it's off-shape,
+ * then a StructuredOutputError is thrown (no silent fallback)
  */
-export async function analyzeJobDescription(jdText: string): Promise<JDRequirements> {
+export async function analyzeJobDescription(
+  jdText: string,
+  context: AICallContext = {}
+): Promise<JDRequirements> {
   const prompt = JD_ANALYSIS_PROMPT.replace('{JD_TEXT}', jdText);
 
-  const response = await callOpenAI({
+  const parsed = await callStructured({
     prompt,
-    jsonMode: true,
     maxTokens: 1500,
+    stage: 'jd_analysis',
+    ...context,
+    schema: jdRequirementsSchema,
   });
 
-  const parsed = parseJDResponse(response);
   return validateJDRequirements(parsed);
 }
 
-/**
- * Parse LLM response into JDRequirements
- */
-function parseJDResponse(response: string): JDRequirements {
-  try {
-    const data = JSON.parse(response);
-
-    return {
-      title: data.title || 'Unknown Position',
-      company: data.company,
-      required: (data.required || []).map(normalizeRequirement),
-      preferred: (data.preferred || []).map(normalizeRequirement),
-      keywords: data.keywords || [],
-      context: normalizeContext(data.context || {}),
-    };
-  } catch (error) {
-    // If JSON parsing fails, try to extract what we can
-    return extractFallbackRequirements(response);
-  }
-}
-
-/**
- * Normalize a requirement object
- */
-function normalizeRequirement(req: Partial<Requirement>): Requirement {
-  return {
-    text: req.text || '',
-    type: validateType(req.type),
-    importance: validateImportance(req.importance),
-  };
-}
-
-/**
- * Validate requirement type
- */
-function validateType(type: string | undefined): Requirement['type'] {
-  const validTypes = ['skill', 'experience', 'education', 'certification', 'other'];
-  if (type && validTypes.includes(type)) {
-    return type as Requirement['type'];
-  }
-  return 'other';
-}
-
-/**
- * Validate importance level
- */
-function validateImportance(importance: string | undefined): Requirement['importance'] {
-  const validLevels = ['critical', 'high', 'medium', 'low'];
-  if (importance && validLevels.includes(importance)) {
-    return importance as Requirement['importance'];
-  }
-  return 'medium';
-}
-
-/**
- * Normalize context object
- */
-function normalizeContext(context: Partial<JDContext>): JDContext {
-  return {
-    industry: context.industry,
-    seniorityLevel: context.seniorityLevel,
-    companyType: context.companyType,
-    workStyle: context.workStyle,
-  };
-}
-
-/**
- * Fallback extraction if JSON parsing fails
- */
-function extractFallbackRequirements(text: string): JDRequirements {
-  const lines = text.split('\n').filter((l) => l.trim());
-  const requirements: Requirement[] = [];
-
-  for (const line of lines) {
-    if (line.length > 10 && line.length < 200) {
-      requirements.push({
-        text: line.trim(),
-        type: 'other',
-        importance: 'medium',
-      });
-    }
-  }
-
-  return {
-    title: 'Position',
-    required: requirements.slice(0, Math.ceil(requirements.length / 2)),
-    preferred: requirements.slice(Math.ceil(requirements.length / 2)),
-    keywords: [],
-    context: {},
-  };
-}
-
 /**
  * Validate and clean JDRequirements
  */
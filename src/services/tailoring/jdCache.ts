@@ -0,0 +1,266 @@
+/**
+ * JD Analysis Cache
+ * Persistent cache of analyzeJobDescription results keyed by a hash of the
+ * normalized JD text, the prompt version and the model that produced them
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { JDRequirements } from './types';
+import { analyzeJobDescription, JD_ANALYSIS_PROMPT_VERSION } from './jdAnalyzer';
+import { AIError, getStageTarget } from '../ai/client';
+import { AICallContext } from '../ai/types';
+
+const STORAGE_KEY = 'jd-analysis-cache';
+
+export interface JDCacheConfig {
+  ttlMs: number;
+  maxEntries: number; // Least recently used entries are evicted first
+}
+
+export interface JDCacheStats {
+  hits: number;
+  misses: number;
+  expired: number;
+  evictions: number;
+  size: number;
+}
+
+// Minimal async key-value store (AsyncStorage by default)
+export interface JDCacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+interface CacheEntry {
+  value: JDRequirements;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export const DEFAULT_JD_CACHE_CONFIG: JDCacheConfig = {
+  ttlMs: 7 * 24 * 60 * 60 * 1000, // 1 week
+  maxEntries: 50,
+};
+
+let config: JDCacheConfig = { ...DEFAULT_JD_CACHE_CONFIG };
+let clock: () => number = Date.now;
+
+let storage: JDCacheStorage | null = AsyncStorage;
+let entries: Map<string, CacheEntry> | null = null;
+let loading: Promise<Map<string, CacheEntry>> | null = null;
+// Analyses still running, so concurrent runs (batch mode) share one LLM call
+const inFlight = new Map<string, Promise<JDRequirements>>();
+const stats = { hits: 0, misses: 0, expired: 0, evictions: 0 };
+
+/**
+ * Analyze a JD, reusing a cached result when the same posting was analyzed
+ * with the same prompt version and model
+ */
+export async function analyzeJobDescriptionCached(
+  jdText: string,
+  context: AICallContext = {}
+): Promise<{ requirements: JDRequirements; cacheHit: boolean }> {
+  const key = buildCacheKey(jdText);
+  const cache = await loadEntries();
+  const now = clock();
+
+  const entry = cache.get(key);
+  if (entry && now - entry.createdAt < config.ttlMs) {
+    stats.hits++;
+    entry.lastUsedAt = now;
+    return { requirements: entry.value, cacheHit: true };
+  }
+
+  if (entry) {
+    stats.expired++;
+    cache.delete(key);
+  }
+  // Usage is recorded on the first caller's context; each waiter can still cancel on its own
+  const pending = inFlight.get(key);
+  if (pending) {
+    try {
+      const requirements = await waitForShared(pending, context.signal);
+      stats.hits++;
+      return { requirements, cacheHit: true };
+    } catch (error) {
+      // The caller that started the analysis cancelled it - run our own instead
+      if (!isCancellation(error) || context.signal?.aborted) throw error;
+      if (inFlight.get(key) === pending) inFlight.delete(key);
+      return analyzeJobDescriptionCached(jdText, context);
+    }
+  }
+
+  stats.misses++;
+
+  const request = analyzeJobDescription(jdText, context);
+  inFlight.set(key, request);
+  let requirements: JDRequirements;
+  try {
+    requirements = await request;
+  } finally {
+    inFlight.delete(key);
+  }
+
+  cache.set(key, { value: requirements, createdAt: now, lastUsedAt: now });
+  evictOverflow(cache);
+  persist(cache);
+
+  return { requirements, cacheHit: false };
+}
+
+/**
+ * Drop the cached analysis for one JD, or everything when no text is given
+ */
+export async function invalidateJDCache(jdText?: string): Promise<void> {
+  const cache = await loadEntries();
+
+  if (jdText === undefined) {
+    cache.clear();
+  } else {
+    cache.delete(buildCacheKey(jdText));
+  }
+
+  persist(cache);
+}
+
+/**
+ * Update TTL / size limit (shrinking the limit evicts immediately)
+ */
+export function configureJDCache(updates: Partial<JDCacheConfig>): void {
+  config = { ...config, ...updates };
+  if (entries) {
+    evictOverflow(entries);
+    persist(entries);
+  }
+}
+
+/**
+ * Swap the persistence backend; null keeps the cache in memory only (tests, Node)
+ */
+export function setJDCacheStorage(next: JDCacheStorage | null): void {
+  storage = next;
+  entries = null;
+  loading = null;
+}
+
+/**
+ * Replace the time source used for TTL and LRU bookkeeping (tests)
+ */
+export function setJDCacheClock(next: () => number = Date.now): void {
+  clock = next;
+}
+
+/**
+ * Hit/miss counters since launch
+ */
+export function getJDCacheStats(): JDCacheStats {
+  return { ...stats, size: entries?.size ?? 0 };
+}
+
+export function resetJDCacheStats(): void {
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.expired = 0;
+  stats.evictions = 0;
+}
+
+/**
+ * Wait on another caller's analysis, but stop as soon as our own signal aborts
+ */
+function waitForShared<T>(shared: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return shared;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new AIError('cancelled', 'Request cancelled'));
+    if (signal.aborted) return onAbort();
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function isCancellation(error: unknown): boolean {
+  return error instanceof AIError && error.type === 'cancelled';
+}
+
+/**
+ * Key: normalized JD hash + prompt version + provider/model
+ */
+function buildCacheKey(jdText: string): string {
+  const { provider, model } = getStageTarget('jd_analysis');
+  return `v${JD_ANALYSIS_PROMPT_VERSION}:${provider}:${model}:${hashText(normalizeJD(jdText))}`;
+}
+
+/**
+ * Ignore whitespace and case differences from copy/paste
+ */
+function normalizeJD(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Two independent 32-bit FNV-1a hashes plus length (no crypto dependency needed)
+ */
+function hashText(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+  }
+
+  return `${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}-${text.length}`;
+}
+
+/**
+ * Remove least recently used entries beyond maxEntries
+ */
+function evictOverflow(cache: Map<string, CacheEntry>): void {
+  if (cache.size <= config.maxEntries) return;
+
+  const byAge = [...cache.entries()].sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+  for (const [key] of byAge.slice(0, cache.size - config.maxEntries)) {
+    cache.delete(key);
+    stats.evictions++;
+  }
+}
+
+/**
+ * Load persisted entries once; storage failures fall back to an empty cache
+ */
+async function loadEntries(): Promise<Map<string, CacheEntry>> {
+  if (entries) return entries;
+
+  if (!loading) {
+    loading = (async () => {
+      const loaded = new Map<string, CacheEntry>();
+      try {
+        const raw = storage ? await storage.getItem(STORAGE_KEY) : null;
+        if (raw) {
+          for (const [key, entry] of Object.entries(JSON.parse(raw) as Record<string, CacheEntry>)) {
+            loaded.set(key, entry);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load JD analysis cache:', error);
+      }
+      entries = loaded;
+      return loaded;
+    })();
+  }
+
+  return loading;
+}
+
+/**
+ * Write the cache back to storage (fire-and-forget)
+ */
+function persist(cache: Map<string, CacheEntry>): void {
+  if (!storage) return;
+
+  storage
+    .setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(cache)))
+    .catch((error) => console.error('Failed to save JD analysis cache:', error));
+}
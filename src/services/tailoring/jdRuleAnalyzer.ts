@@ -0,0 +1,411 @@
+/**
+ * Rule-Based Job Description Analyzer - 0 LLM calls
+ * Produces the same JDRequirements shape as analyzeJobDescription from
+ * section headings, line wording and the matcher taxonomy. Used by quick
+ * (offline) tailoring; deterministic for a given text and taxonomy.
+ */
+
+import { JDContext, JDRequirements, Requirement } from './types';
+import { getTaxonomy, normalizeTerm, type Taxonomy } from './taxonomy';
+
+type Section = 'required' | 'preferred' | 'responsibilities' | 'other';
+
+interface SectionLine {
+  section: Section;
+  text: string;
+  bullet: boolean;
+}
+
+const MAX_KEYWORDS = 20;
+const MIN_REQUIREMENT_LENGTH = 10;
+const MAX_REQUIREMENT_LENGTH = 250;
+
+// ============================================
+// SECTION HEADINGS
+// ============================================
+
+// Checked in order - "Preferred Qualifications" must hit preferred before required
+const HEADING_PATTERNS: Array<[RegExp, Section]> = [
+  [/nice[- ]to[- ]have|preferred|bonus|\bplus\b|desired|extra credit|good to have|ideally/, 'preferred'],
+  [/requirement|qualification|what you('ll)? (need|bring)|must[- ]have|who you are|about you|what we('re| are) looking for|you (have|bring)|skills|what it takes/, 'required'],
+  [/responsibilit|what you('ll)? do|duties|day[- ]to[- ]day|in this role|you will|key tasks|the work/, 'responsibilities'],
+  [/^(about|the (role|opportunity|team|company)|company|who we are|why (join|work)|our |how to apply|equal opportunity|location)|benefits|perks|compensation|salary|overview|what we offer/, 'other'],
+];
+
+const BULLET = /^(?:[-•*▪◦·‣]|\d{1,2}[.)])\s+/;
+
+// Written into a required line when it is really optional
+const INLINE_PREFERRED = /\b(preferred|a plus|nice to have|is a bonus|ideally|desirable)\b/i;
+const TRAILING_PREFERRED = /[\s,(]+(?:is )?(?:strongly )?(preferred|a plus|nice to have|a bonus|desirable)\)?\.?$/i;
+
+// ============================================
+// LINE CLASSIFICATION
+// ============================================
+
+const YEARS = /\b\d+\s*(\+|-\s*\d+)?\s*(years?|yrs?)\b/i;
+const EDUCATION = /\b(degree|bachelor'?s?|master'?s?|mba|ph\.?d|doctorate|diploma|ged|b\.?s\.?c?|m\.?s\.?c?|associate'?s)\b/i;
+const CERTIFICATION = /\b(certif\w*|licen[sc]e[ds]?|credential|registered nurse)\b/i;
+const SOFT_SKILL = /\b(communication|collaborat\w*|problem[- ]solving|interpersonal|presentation|presence|cross-functional|portfolio|self[- ]starter|detail[- ]oriented|work ethic|teamwork|ability to)\b/i;
+// Doing the work, as opposed to knowing a tool
+const EXPERIENCE_PHRASE = /\b(track record|proven|background in|contributions? to|internship|experience (in|selling|leading|managing|building|scaling|running|growing|owning|working in))\b/i;
+const SKILL_PHRASE = /\b(experience (with|using|conducting|designing|developing|writing)|proficien\w*|knowledge of|understanding of|familiar\w*|expertise in|skilled in|fluen\w*|command of)\b/i;
+
+const CRITICAL_WORDS = /\b(must|required|mandatory|essential|minimum)\b/i;
+const HIGH_WORDS = /\b(strong|excellent|proven|deep|extensive|expert|advanced)\b/i;
+const LOW_WORDS = /\b(familiar\w*|exposure to|basic|some experience|interest in|knowledge of)\b/i;
+
+// ============================================
+// CONTEXT PATTERNS
+// ============================================
+
+const SENIORITY_TITLES: Array<[RegExp, NonNullable<JDContext['seniorityLevel']>]> = [
+  [/\b(vice president|vp|svp|evp|chief|c[etfmo]o|director|head of|president)\b/i, 'executive'],
+  [/\b(lead|principal manager|engineering manager|team lead)\b/i, 'lead'],
+  [/\b(senior|sr\.?|staff|principal)\b/i, 'senior'],
+  [/\b(junior|jr\.?|entry[- ]level|intern(ship)?|graduate|new grad|trainee|apprentice)\b/i, 'entry'],
+];
+
+const WORK_STYLES: Array<[RegExp, NonNullable<JDContext['workStyle']>]> = [
+  [/\bhybrid\b|\d+ days?( a week| per week)? in (the )?office|remote[- ]friendly|flexible work(ing)? arrangements?/i, 'hybrid'],
+  [/\b(fully |100% )?remote\b|work from (home|anywhere)|\bwfh\b|telecommut/i, 'remote'],
+  [/\bon[- ]?site\b|in[- ]office\b|in person\b/i, 'onsite'],
+];
+
+const COMPANY_TYPES: Array<[RegExp, NonNullable<JDContext['companyType']>]> = [
+  [/\b(start-?up|seed[- ]stage|early[- ]stage|series [abc])\b/i, 'startup'],
+  [/\b(agency|consultancy)\b/i, 'agency'],
+  [/\b(series [d-f]|mid-?size|growth[- ]stage)\b/i, 'mid-size'],
+  [/\b(fortune 500 company|publicly traded|global leader|market leader|billions of users|\d{1,3},\d{3}\+? employees)\b/i, 'enterprise'],
+];
+
+const INDUSTRIES: Array<[RegExp, string]> = [
+  [/\b(fintech|financial services|banking|payments|insurance)\b/i, 'Financial Services'],
+  [/\b(healthcare|health ?tech|hospital|clinical|patients?)\b/i, 'Healthcare'],
+  [/\b(saas|software solutions|enterprise software)\b/i, 'Software'],
+  [/\b(e-?commerce|retail)\b/i, 'Retail'],
+  [/\b(edtech|k-12|school district|higher education)\b/i, 'Education'],
+  [/\b(restaurant|hospitality|hotel)\b/i, 'Hospitality'],
+  [/\b(law firm|legal services)\b/i, 'Legal'],
+  [/\b(construction|manufacturing)\b/i, 'Manufacturing'],
+];
+
+// US-style "City, ST" - a posting with a location and no remote wording is onsite
+const LOCATION = /\b[A-Z][a-zA-Z .]+, [A-Z]{2}\b/;
+
+// Taxonomy aliases too common in postings to be worth echoing back
+const GENERIC_TERMS = new Set([
+  'lead', 'leading', 'led', 'managed', 'manager', 'management', 'growth', 'training', 'trained',
+  'metrics', 'solutions', 'analytical', 'strategy', 'guided', 'directed', 'developed team',
+]);
+
+const TOKEN_PATTERNS = [
+  // Acronyms, plural or not (APIs, WCAG, ARR) and slash pairs (CI/CD)
+  /\b[A-Z][A-Z0-9&]{1,5}(?:\/[A-Z]{2,5})?s?\b/g,
+  // CamelCase product names and tech (HubSpot, SaaS, Next.js, C++)
+  /\b[A-Za-z]*[a-z][A-Z][A-Za-z]*\b|\b[A-Za-z]+\.js\b|\bC\+\+|\bC#/g,
+  // Capitalized tools listed in parentheses: "(Jest, React Testing Library)"
+  /[(,]\s*(?:e\.g\.,?\s*)?(?:or |and )?([A-Z][\w.+#]*(?: [A-Z][\w.+#]*){0,2})(?=\s*[,)])/g,
+];
+
+// All-caps words that are never skills
+const ACRONYM_STOPWORDS = new Set([
+  'US', 'USA', 'UK', 'EU', 'CEO', 'CTO', 'CFO', 'COO', 'VP', 'HR', 'PTO', 'OTE', 'EEO', 'EOE', 'FAQ', 'ID', 'IT', 'OR', 'AND', 'TBD', 'NYC', 'SF',
+]);
+
+// ============================================
+// ANALYZER
+// ============================================
+
+/**
+ * Analyze a job description without an LLM
+ */
+export function analyzeJobDescriptionOffline(
+  jdText: string,
+  taxonomy: Taxonomy = getTaxonomy()
+): JDRequirements {
+  const lines = jdText
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const { title, company, headerLines } = extractHeader(lines);
+  const segmented = segmentLines(lines.slice(headerLines));
+  const { required, preferred } = extractRequirements(segmented);
+
+  return {
+    title,
+    company,
+    required,
+    preferred,
+    keywords: extractKeywords(segmented, taxonomy, company),
+    context: inferContext(jdText, title, required),
+  };
+}
+
+/**
+ * Title and company from the first lines:
+ * "Title" / "Company | City, ST | Full-time", or "Title at Company"
+ */
+function extractHeader(lines: string[]): { title: string; company?: string; headerLines: number } {
+  const first = (lines[0] ?? '').replace(/^(job )?title:\s*/i, '');
+  if (!first) return { title: 'Unknown Position', headerLines: 0 };
+
+  const at = /^(.+?)\s+(?:at|@)\s+(.+)$/.exec(first);
+  if (at && at[1].length < 80) return { title: at[1].trim(), company: at[2].trim(), headerLines: 1 };
+
+  const second = (lines[1] ?? '').replace(/^company:\s*/i, '');
+  const looksLikeCompany =
+    second.length > 0 &&
+    second.length < 80 &&
+    !BULLET.test(second) &&
+    !/[.!?]$/.test(second) &&
+    !classifyHeading(second);
+
+  return {
+    title: first,
+    company: looksLikeCompany ? second.split(/\s+\|\s+|\s+[-–—]\s+|\s*·\s*/)[0].trim() : undefined,
+    headerLines: looksLikeCompany ? 2 : 1,
+  };
+}
+
+/**
+ * Tag every line with the section it falls under
+ */
+function segmentLines(lines: string[]): SectionLine[] {
+  const tagged: SectionLine[] = [];
+  let section: Section = 'other';
+
+  for (const line of lines) {
+    const bullet = BULLET.test(line);
+    const heading = bullet ? null : classifyHeading(line);
+
+    // About Us, Benefits... end the current section
+    if (heading) {
+      section = heading;
+      continue;
+    }
+
+    tagged.push({ section, text: line.replace(BULLET, '').trim(), bullet });
+  }
+
+  return tagged;
+}
+
+function isHeadingShaped(line: string): boolean {
+  return line.length <= 60 && !/[.,;!?]$/.test(line) && line.split(' ').length <= 7 && /^[A-Z]/.test(line);
+}
+
+function classifyHeading(line: string): Section | null {
+  if (!isHeadingShaped(line.replace(/:$/, '')) && !line.endsWith(':')) return null;
+  const lower = line.toLowerCase();
+  return HEADING_PATTERNS.find(([pattern]) => pattern.test(lower))?.[1] ?? null;
+}
+
+/**
+ * Requirement lines from the required/preferred sections. Postings without
+ * those headings fall back to responsibilities, then to qualification-like
+ * sentences anywhere.
+ */
+function extractRequirements(lines: SectionLine[]): { required: Requirement[]; preferred: Requirement[] } {
+  let requiredLines = sectionItems(lines, 'required');
+  const preferredLines = sectionItems(lines, 'preferred');
+
+  if (requiredLines.length === 0 && preferredLines.length === 0) {
+    requiredLines = sectionItems(lines, 'responsibilities');
+  }
+  if (requiredLines.length === 0 && preferredLines.length === 0) {
+    requiredLines = lines
+      .map((line) => line.text)
+      .filter((text) => isRequirementLength(text) && [YEARS, EDUCATION, CERTIFICATION, SKILL_PHRASE].some((pattern) => pattern.test(text)));
+  }
+
+  // "MBA preferred" under Requirements is really a nice-to-have
+  const movedToPreferred = requiredLines.filter((text) => INLINE_PREFERRED.test(text));
+  const stillRequired = requiredLines.filter((text) => !INLINE_PREFERRED.test(text));
+
+  return {
+    required: stillRequired.map((text, index) =>
+      classifyRequirement(text, requiredImportance(text, index, stillRequired.length))
+    ),
+    preferred: [
+      ...preferredLines.map((text) => classifyRequirement(text, preferredImportance(text))),
+      ...movedToPreferred.map((text) => classifyRequirement(text.replace(TRAILING_PREFERRED, ''), 'medium')),
+    ],
+  };
+}
+
+/**
+ * Lines of one section - bullets only when the section has any, so an
+ * intro sentence ("You'll need:") isn't taken for a requirement
+ */
+function sectionItems(lines: SectionLine[], section: Section): string[] {
+  const inSection = lines.filter((line) => line.section === section);
+  const items = inSection.some((line) => line.bullet) ? inSection.filter((line) => line.bullet) : inSection;
+  return Array.from(new Set(items.map((line) => line.text).filter(isRequirementLength)));
+}
+
+function isRequirementLength(text: string): boolean {
+  return text.length >= MIN_REQUIREMENT_LENGTH && text.length <= MAX_REQUIREMENT_LENGTH;
+}
+
+function classifyRequirement(text: string, importance: Requirement['importance']): Requirement {
+  return { text, type: requirementType(text), importance };
+}
+
+function requirementType(text: string): Requirement['type'] {
+  if (EDUCATION.test(text) && !/\b(in|to) (education|training)\b/i.test(text)) return 'education';
+  if (CERTIFICATION.test(text)) return 'certification';
+
+  // "3+ years of experience with React" is about the skill; "5+ years leading teams" isn't
+  if (YEARS.test(text)) return /experience (with|using|in) [^,]*\b[A-Z]/.test(text) && SKILL_PHRASE.test(text) ? 'skill' : 'experience';
+  if (EXPERIENCE_PHRASE.test(text)) return 'experience';
+  if (SKILL_PHRASE.test(text)) return 'skill';
+  if (SOFT_SKILL.test(text)) return 'other';
+  return /\b(skills?|tools?|software|platforms?|languages?)\b/i.test(text) ? 'skill' : 'other';
+}
+
+/**
+ * Postings list the dealbreakers first: the first ~40% of requirements are
+ * critical, the next ~40% high, the rest medium - adjusted by wording
+ */
+function requiredImportance(text: string, index: number, count: number): Requirement['importance'] {
+  if (CRITICAL_WORDS.test(text) || (YEARS.test(text) && /experience|leading|managing/i.test(text))) return 'critical';
+  if (LOW_WORDS.test(text)) return 'medium';
+
+  const position = count > 1 ? index / count : 0;
+  const byPosition: Requirement['importance'] = position < 0.4 ? 'critical' : position < 0.8 ? 'high' : 'medium';
+  if (byPosition === 'medium' && HIGH_WORDS.test(text) && !SOFT_SKILL.test(text)) return 'high';
+  return byPosition;
+}
+
+function preferredImportance(text: string): Requirement['importance'] {
+  if (LOW_WORDS.test(text)) return 'low';
+  return /\b(experience with|understanding of)\b/i.test(text) ? 'medium' : 'low';
+}
+
+// ============================================
+// KEYWORDS
+// ============================================
+
+/**
+ * Taxonomy terms, acronyms, CamelCase product names and tools listed in
+ * parentheses, ranked by where they appear: requirement sections count
+ * double. Keywords keep the posting's own wording.
+ */
+function extractKeywords(lines: SectionLine[], taxonomy: Taxonomy, company?: string): string[] {
+  // The company's own name isn't a skill ("TechGrowth", "FinTech Startup")
+  const excluded = new Set(company ? [normalizeTerm(company), ...normalizeTerm(company).split(' ')] : []);
+  const scores = new Map<string, { keyword: string; score: number; order: number }>();
+
+  for (const { section, text } of lines) {
+    const weight = section === 'required' || section === 'preferred' ? 2 : section === 'responsibilities' ? 1 : 0.5;
+
+    for (const keyword of lineKeywords(text, taxonomy)) {
+      const key = normalizeTerm(keyword);
+      if (excluded.has(key) || GENERIC_TERMS.has(key)) continue;
+      const existing = scores.get(key);
+      if (existing) existing.score += weight;
+      else scores.set(key, { keyword, score: weight, order: scores.size });
+    }
+  }
+
+  return Array.from(scores.values())
+    .filter(({ score }) => score >= 1)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, MAX_KEYWORDS)
+    .map(({ keyword }) => keyword);
+}
+
+/**
+ * Keywords in one line - longest match wins where candidates overlap
+ * ("marketing analytics" over "analytics", "CI/CD" over "CI")
+ */
+function lineKeywords(text: string, taxonomy: Taxonomy): string[] {
+  const lower = normalizeTerm(text);
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const group of taxonomy.synonyms) {
+    for (const term of group.terms) {
+      const start = findTerm(text, lower, term);
+      if (start >= 0) spans.push({ start, end: start + term.length });
+    }
+  }
+
+  for (const pattern of TOKEN_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const token = match[1] ?? match[0];
+      spans.push({ start: start + match[0].indexOf(token), end: start + match[0].indexOf(token) + token.length });
+    }
+  }
+
+  const accepted: Array<{ start: number; end: number }> = [];
+  for (const span of spans.sort((a, b) => b.end - b.start - (a.end - a.start) || a.start - b.start)) {
+    if (!accepted.some((other) => span.start < other.end && other.start < span.end)) accepted.push(span);
+  }
+
+  return accepted
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, end }) => text.slice(start, end).replace(/^([A-Z][A-Z0-9&/]+)s$/, '$1'))
+    .filter((keyword) => keyword.length > 1 && !ACRONYM_STOPWORDS.has(keyword));
+}
+
+/**
+ * Where the term appears in the line on word boundaries, or -1. Short
+ * aliases ("hs", "sf") only count in capitals, so they aren't read into
+ * ordinary words.
+ */
+function findTerm(text: string, lower: string, term: string): number {
+  if (term.length < 2) return -1;
+  let index = lower.indexOf(term);
+  while (index >= 0) {
+    const before = lower[index - 1];
+    const after = lower[index + term.length];
+    const bounded = (!before || !/[a-z0-9/]/.test(before)) && (!after || !/[a-z0-9+#/]/.test(after));
+    const found = text.slice(index, index + term.length);
+    if (bounded && (term.length > 3 || found === found.toUpperCase())) return index;
+    index = lower.indexOf(term, index + 1);
+  }
+  return -1;
+}
+
+// ============================================
+// CONTEXT
+// ============================================
+
+function inferContext(jdText: string, title: string, required: Requirement[]): JDContext {
+  const context: JDContext = {};
+
+  context.seniorityLevel = SENIORITY_TITLES.find(([pattern]) => pattern.test(title))?.[1] ?? seniorityFromYears(jdText, required);
+  context.workStyle = WORK_STYLES.find(([pattern]) => pattern.test(jdText))?.[1] ?? (LOCATION.test(jdText) ? 'onsite' : undefined);
+
+  const companyType = COMPANY_TYPES.find(([pattern]) => pattern.test(jdText))?.[1];
+  if (companyType) context.companyType = companyType;
+
+  const industry = INDUSTRIES.find(([pattern]) => pattern.test(jdText))?.[1];
+  if (industry) context.industry = industry;
+
+  const teamSize = /\b(?:team|group|organization) of (\d+\+?)/i.exec(jdText)?.[1];
+  if (teamSize) context.teamSize = teamSize;
+
+  return context;
+}
+
+/**
+ * When the title doesn't say: "entry-level" in the text, else the largest
+ * years-of-experience requirement
+ */
+function seniorityFromYears(jdText: string, required: Requirement[]): JDContext['seniorityLevel'] {
+  if (/\bentry[- ]level\b|\bno experience (required|needed)\b/i.test(jdText)) return 'entry';
+
+  const years = required
+    .map((r) => /\b(\d+)\s*(?:\+|-\s*\d+)?\s*(?:years?|yrs?)\b/i.exec(r.text)?.[1])
+    .filter((value): value is string => !!value)
+    .map(Number);
+  const most = years.length > 0 ? Math.max(...years) : null;
+
+  if (most === null) return 'mid';
+  if (most >= 5) return 'senior';
+  if (most >= 2) return 'mid';
+  return 'entry';
+}
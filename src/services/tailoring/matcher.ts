@@ -2,7 +2,15 @@
  * Resume Matcher - Deterministic matching, NO LLM
  * Matches resume items to job requirements
  * 
- * COMPREHENSIVE support for: Software, Marketing, Sales, Design, Data, Finance, Operations
+ * Skill synonyms and domain indicators come from the loaded taxonomy
+ * (see ./taxonomy): core packs for Software, Marketing, Sales, Design, Data,
+ * Finance, Operations plus Healthcare, Legal, Education, Trades, Hospitality
+ *
+ * With a SemanticIndex (see ./semantic) skill and bullet scores are blended
+ * with embedding similarity, so paraphrases match without a synonym entry
+ *
+ * Years-of-experience requirements and seniority use ./tenure: overlapping
+ * jobs count once and "5+ years of B2B marketing" counts marketing roles
  */
 
 import {
@@ -13,240 +21,61 @@ import {
   Skill,
   Bullet,
   Education,
+  Certification,
+  RequirementContribution,
+  ScoreBreakdown,
+  SeniorityFit,
 } from './types';
+import { getTaxonomy, type Taxonomy } from './taxonomy';
+import { evaluateSeniority, evaluateYearsRequirement } from './tenure';
+import type { SemanticIndex } from './semantic';
 
 // =============================================================================
-// COMPREHENSIVE SKILL SYNONYMS
+// CERTIFICATIONS
 // =============================================================================
 
-const SKILL_SYNONYMS: Record<string, string[]> = {
-  // -------------------------------------------------------------------------
-  // MARKETING - Paid Media & Advertising
-  // -------------------------------------------------------------------------
-  'paid media': ['paid advertising', 'paid ads', 'media buying', 'ad spend', 'advertising spend', 'paid social', 'paid search', 'performance marketing', 'digital advertising'],
-  'google ads': ['google adwords', 'adwords', 'google ppc', 'sem', 'search engine marketing', 'google search ads', 'search ads', 'ppc'],
-  'linkedin ads': ['linkedin advertising', 'linkedin campaigns', 'linkedin sponsored', 'b2b advertising'],
-  'facebook ads': ['meta ads', 'fb ads', 'instagram ads', 'social ads', 'facebook advertising', 'meta advertising'],
-  'youtube ads': ['video ads', 'youtube advertising', 'video advertising'],
-  'display ads': ['banner ads', 'programmatic', 'gdn', 'google display network', 'display advertising'],
-  ppc: ['pay per click', 'pay-per-click', 'cpc', 'cost per click', 'paid search'],
-  roas: ['return on ad spend', 'ad roi', 'advertising roi', 'blended roas'],
-  cpa: ['cost per acquisition', 'cost per action', 'acquisition cost'],
-  ctr: ['click through rate', 'click-through rate', 'clickthrough'],
-
-  // -------------------------------------------------------------------------
-  // MARKETING - Demand Gen & ABM
-  // -------------------------------------------------------------------------
-  'demand generation': ['demand gen', 'demandgen', 'lead generation', 'lead gen', 'leadgen', 'pipeline generation', 'pipeline gen'],
-  abm: ['account-based marketing', 'account based marketing', 'abm campaigns', 'abm strategy', 'abm strategies', 'target account', 'account-based'],
-  'lead scoring': ['lead qualification', 'mql scoring', 'lead grading', 'lead prioritization'],
-  mql: ['marketing qualified lead', 'marketing qualified leads', 'marketing-qualified'],
-  'sql lead': ['sales qualified lead', 'sales qualified leads', 'sales-qualified', 'sales ready'],
-  'lead nurturing': ['nurture campaigns', 'drip campaigns', 'email nurturing', 'lead nurture'],
-  pipeline: ['sales pipeline', 'pipeline growth', 'pipeline generation', 'qualified pipeline', 'pipeline value'],
-
-  // -------------------------------------------------------------------------
-  // MARKETING - Tools & Platforms
-  // -------------------------------------------------------------------------
-  hubspot: ['hs', 'hubspot crm', 'hubspot marketing', 'hubspot sales'],
-  marketo: ['adobe marketo', 'marketo engage'],
-  salesforce: ['sfdc', 'salesforce crm', 'sf', 'sales cloud', 'salesforce marketing cloud'],
-  pardot: ['salesforce pardot', 'pardot b2b'],
-  'marketing automation': ['ma platform', 'automation platform', 'email automation', 'marketing ops'],
-  'google analytics': ['ga', 'ga4', 'google analytics 4', 'analytics'],
-  semrush: ['sem rush', 'semrush tools'],
-  ahrefs: ['ahrefs seo', 'backlink analysis'],
-
-  // -------------------------------------------------------------------------
-  // MARKETING - SEO & Content
-  // -------------------------------------------------------------------------
-  seo: ['search engine optimization', 'organic search', 'search optimization', 'organic traffic'],
-  'content marketing': ['content strategy', 'content creation', 'content development', 'blog strategy'],
-  'aeo': ['answer engine optimization', 'ai search optimization', 'generative search', 'geo', 'generative engine optimization'],
-  copywriting: ['copy writing', 'ad copy', 'marketing copy', 'sales copy'],
-
-  // -------------------------------------------------------------------------
-  // MARKETING - Strategy & Analytics
-  // -------------------------------------------------------------------------
-  'b2b marketing': ['b2b', 'business to business', 'enterprise marketing'],
-  'b2c marketing': ['b2c', 'consumer marketing', 'dtc', 'direct to consumer'],
-  'growth marketing': ['growth hacking', 'growth', 'user acquisition'],
-  'brand marketing': ['brand strategy', 'brand awareness', 'branding'],
-  'product marketing': ['pmm', 'product positioning', 'go-to-market', 'gtm'],
-  'marketing analytics': ['marketing data', 'campaign analytics', 'performance analytics', 'marketing metrics'],
-  'a/b testing': ['ab testing', 'split testing', 'multivariate testing', 'experimentation'],
-  cro: ['conversion rate optimization', 'conversion optimization', 'landing page optimization'],
-
-  // -------------------------------------------------------------------------
-  // SALES
-  // -------------------------------------------------------------------------
-  'enterprise sales': ['enterprise selling', 'large account sales', 'strategic sales', 'complex sales'],
-  'saas sales': ['software sales', 'subscription sales', 'recurring revenue sales'],
-  'sales operations': ['sales ops', 'revenue operations', 'rev ops', 'revops'],
-  quota: ['quota attainment', 'sales quota', 'revenue target', 'sales target'],
-  'account management': ['account executive', 'ae', 'customer success', 'client management'],
-  'business development': ['biz dev', 'bd', 'partnerships', 'strategic partnerships'],
-  crm: ['customer relationship management', 'salesforce', 'hubspot crm', 'pipedrive'],
-
-  // -------------------------------------------------------------------------
-  // LEADERSHIP & MANAGEMENT
-  // -------------------------------------------------------------------------
-  leadership: ['lead', 'leading', 'led', 'managed', 'manager', 'management', 'supervised', 'oversaw', 'directed', 'headed', 'spearheaded'],
-  'team management': ['team lead', 'team leadership', 'people management', 'direct reports', 'managing team'],
-  'team leadership': ['leading team', 'led team', 'managed team', 'supervising', 'overseeing'],
-  mentoring: ['mentor', 'mentored', 'coaching', 'coached', 'trained', 'training', 'onboarded', 'guided', 'developed team'],
-  'cross-functional': ['cross functional', 'cross-team', 'stakeholder management', 'collaboration'],
-
-  // -------------------------------------------------------------------------
-  // GENERAL BUSINESS
-  // -------------------------------------------------------------------------
-  revenue: ['revenue growth', 'top line', 'sales revenue', 'arr', 'mrr', 'annual recurring revenue'],
-  budget: ['budget management', 'p&l', 'financial planning', 'cost management', 'spend management'],
-  roi: ['return on investment', 'investment return', 'payback'],
-  kpi: ['key performance indicator', 'kpis', 'metrics', 'okr', 'okrs'],
-  strategy: ['strategic planning', 'strategic thinking', 'business strategy'],
-  analytics: ['data analysis', 'reporting', 'insights', 'dashboards', 'business intelligence'],
-
-  // -------------------------------------------------------------------------
-  // PROGRAMMING LANGUAGES
-  // -------------------------------------------------------------------------
-  javascript: ['js', 'es6', 'es2015', 'ecmascript', 'vanilla js'],
-  typescript: ['ts', 'typed javascript'],
-  python: ['py', 'python3', 'python2'],
-  java: ['jvm', 'j2ee', 'java ee', 'spring boot', 'spring'],
-  'c++': ['cpp', 'c plus plus'],
-  csharp: ['c#', '.net', 'dotnet'],
-  ruby: ['rails', 'ruby on rails', 'ror'],
-  go: ['golang'],
-  rust: ['rustlang'],
-  php: ['laravel', 'symfony'],
-  swift: ['ios development', 'ios'],
-  kotlin: ['android development', 'android'],
-
-  // -------------------------------------------------------------------------
-  // FRONTEND
-  // -------------------------------------------------------------------------
-  react: ['reactjs', 'react.js', 'react native', 'rn', 'next.js', 'nextjs', 'redux'],
-  vue: ['vuejs', 'vue.js', 'nuxt', 'nuxtjs'],
-  angular: ['angularjs', 'angular.js', 'ng'],
-  frontend: ['front-end', 'front end', 'ui development', 'client-side'],
-  html: ['html5', 'markup'],
-  css: ['css3', 'scss', 'sass', 'less', 'styled-components', 'tailwind'],
-
-  // -------------------------------------------------------------------------
-  // BACKEND & INFRASTRUCTURE
-  // -------------------------------------------------------------------------
-  nodejs: ['node.js', 'node', 'express', 'expressjs', 'nestjs', 'koa'],
-  backend: ['back-end', 'back end', 'server-side', 'api development'],
-  api: ['rest', 'restful', 'graphql', 'grpc', 'soap', 'web services'],
-  microservices: ['micro-services', 'service-oriented', 'soa'],
-  aws: ['amazon web services', 'ec2', 's3', 'lambda', 'cloudformation', 'dynamodb', 'rds', 'eks', 'ecs'],
-  gcp: ['google cloud', 'google cloud platform', 'bigquery', 'cloud run'],
-  azure: ['microsoft azure', 'azure devops'],
-  cloud: ['cloud computing', 'cloud infrastructure', 'cloud services'],
-  docker: ['containerization', 'containers', 'dockerfile'],
-  kubernetes: ['k8s', 'kubectl', 'helm', 'container orchestration'],
-  devops: ['dev ops', 'infrastructure', 'sre', 'site reliability'],
-  cicd: ['ci/cd', 'ci cd', 'continuous integration', 'continuous deployment', 'jenkins', 'github actions', 'gitlab ci'],
-
-  // -------------------------------------------------------------------------
-  // DATABASES
-  // -------------------------------------------------------------------------
-  sql: ['mysql', 'postgresql', 'postgres', 'mssql', 'sql server', 'oracle', 'relational database'],
-  nosql: ['mongodb', 'dynamodb', 'cassandra', 'redis', 'couchdb', 'document database'],
-  database: ['db', 'data storage', 'rdbms'],
-  postgresql: ['postgres', 'psql'],
-  mongodb: ['mongo', 'document db'],
-
-  // -------------------------------------------------------------------------
-  // DATA & ML
-  // -------------------------------------------------------------------------
-  'machine learning': ['ml', 'deep learning', 'ai', 'artificial intelligence', 'neural networks'],
-  'data science': ['data analysis', 'data analytics', 'data engineering', 'statistical analysis'],
-  tensorflow: ['keras', 'pytorch', 'deep learning framework'],
-
-  // -------------------------------------------------------------------------
-  // DESIGN
-  // -------------------------------------------------------------------------
-  figma: ['figma design', 'figma prototyping'],
-  sketch: ['sketch app', 'sketch design'],
-  'ux design': ['user experience', 'ux', 'user research', 'usability'],
-  'ui design': ['user interface', 'ui', 'visual design', 'interface design'],
-  'product design': ['digital product design', 'app design'],
-  wireframing: ['wireframes', 'low fidelity', 'lo-fi'],
-  prototyping: ['prototypes', 'high fidelity', 'hi-fi', 'interactive prototype'],
-
-  // -------------------------------------------------------------------------
-  // PROJECT MANAGEMENT
-  // -------------------------------------------------------------------------
-  agile: ['scrum', 'kanban', 'sprint', 'agile methodology', 'ceremonies', 'standups', 'retrospectives'],
-  'project management': ['pm', 'program management', 'project delivery'],
-  jira: ['jira software', 'atlassian jira'],
-
-  // -------------------------------------------------------------------------
-  // SOFT SKILLS
-  // -------------------------------------------------------------------------
-  communication: ['communicating', 'presenting', 'presentations', 'stakeholder', 'collaborated', 'collaboration', 'liaison'],
-  'problem-solving': ['problem solving', 'troubleshooting', 'debugging', 'analytical', 'critical thinking', 'solutions'],
-  teamwork: ['team player', 'collaborative', 'collaboration', 'worked with', 'partnered'],
+// Acronyms and common spellings that refer to the same credential
+const CERTIFICATION_ALIASES: Record<string, string[]> = {
+  pmp: ['project management professional'],
+  capm: ['certified associate in project management'],
+  csm: ['certified scrummaster', 'certified scrum master', 'scrum master certification'],
+  cpa: ['certified public accountant'],
+  cfa: ['chartered financial analyst'],
+  cissp: ['certified information systems security professional'],
+  cka: ['certified kubernetes administrator'],
+  'aws certified': ['aws certification', 'aws solutions architect', 'aws developer associate'],
+  'google analytics certification': ['gaiq', 'google analytics individual qualification', 'google analytics certified'],
+  'google ads certification': ['google ads certified', 'adwords certification'],
+  'hubspot certification': ['hubspot certified', 'hubspot inbound', 'hubspot academy'],
+  'salesforce administrator': ['salesforce certified administrator', 'salesforce admin'],
+  'six sigma': ['lean six sigma', 'green belt', 'black belt'],
+  'shrm-cp': ['shrm certified professional', 'shrm-scp'],
+  'google ux design certificate': ['google ux design professional certificate', 'google ux certificate'],
 };
 
+// Words that say "a certification" without saying which one
+const GENERIC_CERT_WORDS = new Set([
+  'certification', 'certifications', 'certified', 'certificate', 'certificates',
+  'professional', 'relevant', 'industry', 'preferred', 'required', 'equivalent',
+  'or', 'and', 'the', 'with', 'a', 'an', 'in', 'of', 'plus', 'is',
+]);
+
 // =============================================================================
 // DOMAIN DETECTION
 // =============================================================================
 
-const DOMAIN_INDICATORS: Record<string, string[]> = {
-  marketing: [
-    'marketing', 'demand gen', 'demand generation', 'paid media', 'paid ads',
-    'google ads', 'linkedin ads', 'facebook ads', 'abm', 'account-based',
-    'seo', 'sem', 'ppc', 'lead gen', 'mql', 'hubspot', 'marketo',
-    'content marketing', 'brand', 'growth marketing', 'campaign',
-    'roas', 'ctr', 'conversion', 'digital marketing', 'performance marketing',
-    'b2b marketing', 'marketing manager', 'marketing lead', 'marketing director'
-  ],
-  sales: [
-    'sales', 'account executive', 'business development', 'quota', 'pipeline',
-    'enterprise sales', 'saas sales', 'b2b sales', 'revenue', 'deals',
-    'account management', 'sales operations', 'sales manager'
-  ],
-  software: [
-    'software engineer', 'software developer', 'programming', 'coding',
-    'full stack', 'fullstack', 'frontend developer', 'backend developer',
-    'react', 'angular', 'vue', 'javascript', 'typescript', 'python', 'java',
-    'api', 'microservices', 'aws', 'cloud', 'devops', 'computer science'
-  ],
-  design: [
-    'ux designer', 'ui designer', 'product designer', 'design system',
-    'user research', 'usability', 'wireframe', 'prototype', 'figma', 'sketch',
-    'visual design', 'interaction design', 'design lead'
-  ],
-  data: [
-    'data scientist', 'data analyst', 'data engineer', 'machine learning',
-    'analytics', 'statistical', 'sql', 'python', 'tableau', 'power bi',
-    'data visualization', 'big data'
-  ],
-  finance: [
-    'financial analyst', 'finance manager', 'accounting', 'budget',
-    'forecasting', 'fp&a', 'controller', 'cfo', 'investment'
-  ],
-  operations: [
-    'operations manager', 'ops', 'process improvement', 'supply chain',
-    'logistics', 'project manager', 'program manager'
-  ],
-};
-
 /**
  * Detect domains in text
  */
-function detectDomain(text: string): string[] {
+function detectDomain(text: string, taxonomy: Taxonomy): string[] {
   const textLower = text.toLowerCase();
   const detected: string[] = [];
 
-  for (const [domain, indicators] of Object.entries(DOMAIN_INDICATORS)) {
+  for (const { id, indicators } of taxonomy.domains) {
     const matches = indicators.filter(ind => textLower.includes(ind)).length;
     // Require at least 2 indicators OR 1 very specific one
     if (matches >= 2 || indicators.some(ind => ind.length > 10 && textLower.includes(ind))) {
-      detected.push(domain);
+      detected.push(id);
     }
   }
 
@@ -256,22 +85,14 @@ function detectDomain(text: string): string[] {
 /**
  * Check if domains overlap
  */
-function domainsOverlap(reqDomains: string[], resumeDomains: string[]): boolean {
+function domainsOverlap(reqDomains: string[], resumeDomains: string[], taxonomy: Taxonomy): boolean {
   if (reqDomains.length === 0) return true;
   if (resumeDomains.length === 0) return true; // Be generous if we can't detect
 
-  // Marketing and Sales often overlap
-  const related: Record<string, string[]> = {
-    marketing: ['sales', 'operations'],
-    sales: ['marketing', 'operations'],
-    software: ['data'],
-    data: ['software'],
-  };
-
   return reqDomains.some(rd => {
     if (resumeDomains.includes(rd)) return true;
-    // Check related domains
-    const relatedDomains = related[rd] || [];
+    // Related domains (e.g. marketing and sales) often overlap
+    const relatedDomains = taxonomy.domains.find(d => d.id === rd)?.related || [];
     return relatedDomains.some(rel => resumeDomains.includes(rel));
   });
 }
@@ -285,8 +106,10 @@ function domainsOverlap(reqDomains: string[], resumeDomains: string[]): boolean
  */
 export function matchResume(
   resume: ResumeData,
-  jd: JDRequirements
-): { matched: MatchResult[]; missing: MatchResult[]; hasDomainMismatch: boolean } {
+  jd: JDRequirements,
+  taxonomy: Taxonomy = getTaxonomy(),
+  semantic: SemanticIndex | null = null
+): { matched: MatchResult[]; missing: MatchResult[]; hasDomainMismatch: boolean; seniority: SeniorityFit | null } {
   const allRequirements = [
     ...jd.required.map((r) => ({ ...r, isRequired: true })),
     ...jd.preferred.map((r) => ({ ...r, isRequired: false })),
@@ -298,15 +121,16 @@ export function matchResume(
   // Detect domains
   const resumeText = getResumeFullText(resume);
   const jdText = getJDFullText(jd);
-  const resumeDomains = detectDomain(resumeText);
-  const jdDomains = detectDomain(jdText);
-  const hasDomainMismatch = !domainsOverlap(jdDomains, resumeDomains);
+  const resumeDomains = detectDomain(resumeText, taxonomy);
+  const jdDomains = detectDomain(jdText, taxonomy);
+  const hasDomainMismatch = !domainsOverlap(jdDomains, resumeDomains, taxonomy);
+  const seniority = evaluateSeniority(resume, jd.context?.seniorityLevel, taxonomy);
 
   // Lower thresholds for matching
   const MATCH_THRESHOLD = 55; // Was 70-80, now 55
 
   for (const req of allRequirements) {
-    const match = findBestMatch(req, resume, jd.keywords, resumeDomains, jdDomains);
+    const match = findBestMatch(req, resume, jd.keywords, resumeDomains, jdDomains, taxonomy, semantic);
 
     if (match.score >= MATCH_THRESHOLD) {
       matched.push(match);
@@ -322,7 +146,7 @@ export function matchResume(
     return impOrder[a.requirement.importance] - impOrder[b.requirement.importance];
   });
 
-  return { matched, missing, hasDomainMismatch };
+  return { matched, missing, hasDomainMismatch, seniority };
 }
 
 /**
@@ -356,7 +180,9 @@ function findBestMatch(
   resume: ResumeData,
   keywords: string[],
   resumeDomains: string[],
-  jdDomains: string[]
+  jdDomains: string[],
+  taxonomy: Taxonomy,
+  semantic: SemanticIndex | null
 ): MatchResult {
   let bestMatch: MatchResult = {
     requirement,
@@ -370,14 +196,15 @@ function findBestMatch(
 
   // 1. Check skills
   for (const skill of resume.skills) {
-    const score = scoreSkillMatch(reqLower, skill.name.toLowerCase());
-    if (score > bestMatch.score) {
+    const lexical = scoreSkillMatch(reqLower, skill.name.toLowerCase(), taxonomy);
+    const blended = blendSemantic(lexical, requirement.text, skill.name, semantic);
+    if (blended.score > bestMatch.score) {
       bestMatch = {
         requirement,
         matchedItem: skill,
-        score,
-        matchType: getMatchType(score),
+        ...blended,
         originalText: skill.originalText,
+        source: 'skill',
       };
     }
   }
@@ -385,14 +212,15 @@ function findBestMatch(
   // 2. Check experience bullets
   for (const exp of resume.experiences) {
     for (const bullet of exp.bullets) {
-      const score = scoreBulletMatch(reqLower, bullet.text.toLowerCase(), keywords);
-      if (score > bestMatch.score) {
+      const lexical = scoreBulletMatch(reqLower, bullet.text.toLowerCase(), keywords, taxonomy);
+      const blended = blendSemantic(lexical, requirement.text, bullet.text, semantic);
+      if (blended.score > bestMatch.score) {
         bestMatch = {
           requirement,
           matchedItem: bullet,
-          score,
-          matchType: getMatchType(score),
+          ...blended,
           originalText: bullet.text,
+          source: 'bullet',
         };
       }
     }
@@ -406,22 +234,25 @@ function findBestMatch(
         score: titleScore,
         matchType: getMatchType(titleScore),
         originalText: `${exp.title} at ${exp.company}`,
+        source: 'title',
       };
     }
   }
 
   // 3. Check for experience years
-  if (reqLower.includes('year') || reqLower.includes('experience')) {
-    const yearsScore = scoreExperienceYears(requirement.text, resume);
-    if (yearsScore > bestMatch.score) {
-      bestMatch = {
-        requirement,
-        matchedItem: null,
-        score: yearsScore,
-        matchType: getMatchType(yearsScore),
-        originalText: `${getTotalYears(resume)}+ years of experience`,
-      };
-    }
+  const years = evaluateYearsRequirement(requirement.text, resume, taxonomy);
+  if (years && years.score > bestMatch.score) {
+    bestMatch = {
+      requirement,
+      matchedItem: null,
+      score: years.score,
+      matchType: getMatchType(years.score),
+      originalText: years.subject
+        ? `${years.actualYears} years of ${years.subject} experience`
+        : `${years.totalYears} years of experience`,
+      source: 'years',
+      years,
+    };
   }
 
   // 4. Check education
@@ -434,12 +265,28 @@ function findBestMatch(
         score,
         matchType: getMatchType(score),
         originalText: edu.originalText,
+        source: 'education',
+      };
+    }
+  }
+
+  // 5. Check certifications
+  for (const cert of resume.certifications) {
+    const score = scoreCertificationMatch(reqLower, cert, requirement.type === 'certification');
+    if (score > bestMatch.score) {
+      bestMatch = {
+        requirement,
+        matchedItem: cert,
+        score,
+        matchType: getMatchType(score),
+        originalText: cert.originalText,
+        source: 'certification',
       };
     }
   }
 
-  // 5. Raw text fallback for specific terms
-  const rawScore = scoreRawTextMatch(reqLower, resume.rawText.toLowerCase());
+  // 6. Raw text fallback for specific terms
+  const rawScore = scoreRawTextMatch(reqLower, resume.rawText.toLowerCase(), taxonomy);
   if (rawScore > bestMatch.score) {
     bestMatch = {
       requirement,
@@ -447,12 +294,40 @@ function findBestMatch(
       score: rawScore,
       matchType: getMatchType(rawScore),
       originalText: 'Found in resume',
+      source: 'raw_text',
     };
   }
 
   return bestMatch;
 }
 
+// Share of the gap between lexical and semantic score that the blend closes
+const SEMANTIC_WEIGHT = 0.8;
+
+/**
+ * Blend embedding similarity into a lexical score. Similarity can only
+ * raise the score, by SEMANTIC_WEIGHT of the gap; results it lifted are
+ * reported as 'semantic' matches with their similarity.
+ */
+function blendSemantic(
+  lexical: number,
+  requirement: string,
+  item: string,
+  semantic: SemanticIndex | null
+): Pick<MatchResult, 'score' | 'matchType' | 'similarity'> {
+  const semanticScore = semantic ? semantic.score(requirement, item) : 0;
+  if (semanticScore <= lexical) {
+    return { score: lexical, matchType: getMatchType(lexical) };
+  }
+
+  const score = Math.round(lexical + (semanticScore - lexical) * SEMANTIC_WEIGHT);
+  return {
+    score,
+    matchType: score >= 60 ? 'semantic' : getMatchType(score),
+    similarity: semantic!.similarity(requirement, item),
+  };
+}
+
 // =============================================================================
 // SCORING FUNCTIONS
 // =============================================================================
@@ -460,18 +335,16 @@ function findBestMatch(
 /**
  * Score skill match
  */
-function scoreSkillMatch(requirement: string, skill: string): number {
+function scoreSkillMatch(requirement: string, skill: string, taxonomy: Taxonomy): number {
   // Direct match
   if (requirement.includes(skill) || skill.includes(requirement)) {
     return 95;
   }
 
   // Synonym match
-  for (const [canonical, synonyms] of Object.entries(SKILL_SYNONYMS)) {
-    const allTerms = [canonical.toLowerCase(), ...synonyms.map(s => s.toLowerCase())];
-
-    const reqMatch = allTerms.some(t => requirement.includes(t));
-    const skillMatch = allTerms.some(t => skill.includes(t));
+  for (const { terms } of taxonomy.synonyms) {
+    const reqMatch = terms.some(t => requirement.includes(t));
+    const skillMatch = terms.some(t => skill.includes(t));
 
     if (reqMatch && skillMatch) {
       return 90;
@@ -493,15 +366,18 @@ function scoreSkillMatch(requirement: string, skill: string): number {
 /**
  * Score bullet match - the core matching logic
  */
-function scoreBulletMatch(requirement: string, bullet: string, keywords: string[]): number {
+function scoreBulletMatch(
+  requirement: string,
+  bullet: string,
+  keywords: string[],
+  taxonomy: Taxonomy
+): number {
   let score = 0;
 
   // 1. Check synonym groups (ALL of them, not just technical)
-  for (const [canonical, synonyms] of Object.entries(SKILL_SYNONYMS)) {
-    const allTerms = [canonical.toLowerCase(), ...synonyms.map(s => s.toLowerCase())];
-
-    const reqHasTerm = allTerms.some(t => requirement.includes(t));
-    const bulletHasTerm = allTerms.some(t => bullet.includes(t));
+  for (const { terms } of taxonomy.synonyms) {
+    const reqHasTerm = terms.some(t => requirement.includes(t));
+    const bulletHasTerm = terms.some(t => bullet.includes(t));
 
     if (reqHasTerm && bulletHasTerm) {
       score += 40; // Strong semantic match
@@ -572,62 +448,6 @@ function scoreTitleMatch(requirement: string, title: string): number {
   return 0;
 }
 
-/**
- * Score experience years
- */
-function scoreExperienceYears(requirement: string, resume: ResumeData): number {
-  const reqLower = requirement.toLowerCase();
-
-  // Extract required years
-  const yearsMatch = reqLower.match(/(\d+)\+?\s*years?/i);
-  if (!yearsMatch) return 0;
-
-  const requiredYears = parseInt(yearsMatch[1]);
-  const actualYears = getTotalYears(resume);
-
-  if (actualYears >= requiredYears) return 90;
-  if (actualYears >= requiredYears * 0.8) return 75;
-  if (actualYears >= requiredYears * 0.6) return 60;
-  if (actualYears > 0) return 40;
-
-  return 0;
-}
-
-/**
- * Get total years of experience
- */
-function getTotalYears(resume: ResumeData): number {
-  let totalYears = 0;
-  const currentYear = new Date().getFullYear();
-
-  for (const exp of resume.experiences) {
-    if (exp.dateRange) {
-      const years = extractYearsFromDateRange(exp.dateRange, currentYear);
-      totalYears += years;
-    } else {
-      totalYears += 1; // Assume at least 1 year
-    }
-  }
-
-  return totalYears;
-}
-
-/**
- * Extract years from date range
- */
-function extractYearsFromDateRange(dateRange: string, currentYear: number): number {
-  const presentMatch = /present|current|now/i.test(dateRange);
-  const yearsMatch = dateRange.match(/(\d{4})/g);
-
-  if (yearsMatch && yearsMatch.length >= 1) {
-    const startYear = parseInt(yearsMatch[0]);
-    const endYear = presentMatch ? currentYear : (yearsMatch[1] ? parseInt(yearsMatch[1]) : currentYear);
-    return Math.max(1, endYear - startYear);
-  }
-
-  return 1;
-}
-
 /**
  * Score education match
  */
@@ -663,16 +483,49 @@ function scoreEducationMatch(requirement: string, education: Education): number
   return 0;
 }
 
+/**
+ * Score certification match
+ * @param isCertRequirement Generic asks ("relevant certifications") only count for certification requirements
+ */
+function scoreCertificationMatch(
+  requirement: string,
+  cert: Certification,
+  isCertRequirement: boolean
+): number {
+  const certText = `${cert.name} ${cert.issuer ?? ''}`.toLowerCase();
+
+  // Same credential under a different name (PMP vs Project Management Professional)
+  for (const [canonical, aliases] of Object.entries(CERTIFICATION_ALIASES)) {
+    const allTerms = [canonical, ...aliases];
+    if (allTerms.some(t => requirement.includes(t)) && allTerms.some(t => certText.includes(t))) {
+      return 95;
+    }
+  }
+
+  // Specific words the requirement names (vendor, product, level)
+  const reqWords = requirement
+    .split(/[^a-z0-9+#-]+/)
+    .filter(w => w.length > 1 && !GENERIC_CERT_WORDS.has(w));
+
+  if (reqWords.length === 0) {
+    return isCertRequirement ? 65 : 0;
+  }
+
+  const overlap = reqWords.filter(w => certText.includes(w)).length / reqWords.length;
+  if (overlap >= 0.6) return 90;
+  if (overlap >= 0.3 && isCertRequirement) return 70;
+
+  return 0;
+}
+
 /**
  * Score raw text match (fallback)
  */
-function scoreRawTextMatch(requirement: string, rawText: string): number {
+function scoreRawTextMatch(requirement: string, rawText: string, taxonomy: Taxonomy): number {
   // Check for specific term matches
-  for (const [canonical, synonyms] of Object.entries(SKILL_SYNONYMS)) {
-    const allTerms = [canonical.toLowerCase(), ...synonyms.map(s => s.toLowerCase())];
-
-    const reqHasTerm = allTerms.some(t => requirement.includes(t));
-    const textHasTerm = allTerms.some(t => rawText.includes(t));
+  for (const { terms } of taxonomy.synonyms) {
+    const reqHasTerm = terms.some(t => requirement.includes(t));
+    const textHasTerm = terms.some(t => rawText.includes(t));
 
     if (reqHasTerm && textHasTerm) {
       return 60; // Found via synonym in raw text
@@ -696,43 +549,139 @@ function getMatchType(score: number): MatchResult['matchType'] {
 // SCORE CALCULATION
 // =============================================================================
 
+// Weight by importance
+export const IMPORTANCE_WEIGHTS: Record<Requirement['importance'], number> = {
+  critical: 3,
+  high: 2,
+  medium: 1.5,
+  low: 0.5,
+};
+// Missing items count against the score, but not as harshly
+export const MISSING_WEIGHT_FACTOR = 0.7;
+export const DOMAIN_MISMATCH_PENALTY = 0.7;
+// Two or more levels off (a new grad for a senior role, a VP for a mid-level one)
+export const UNDER_QUALIFIED_PENALTY = 0.85;
+export const OVER_QUALIFIED_PENALTY = 0.9;
+export const MIN_MATCH_SCORE = 20;
+export const MAX_MATCH_SCORE = 95;
+// Score when the JD had no requirements to match
+const DEFAULT_MATCH_SCORE = 50;
+
 /**
  * Calculate overall match score
  */
 export function calculateMatchScore(
   matched: MatchResult[],
   missing: MatchResult[],
-  hasDomainMismatch: boolean = false
+  hasDomainMismatch: boolean = false,
+  seniority: SeniorityFit | null = null
 ): number {
-  const total = matched.length + missing.length;
-  if (total === 0) return 50; // Default if no requirements
-
-  // Weight by importance
-  const weights = { critical: 3, high: 2, medium: 1.5, low: 0.5 };
+  return explainMatchScore(matched, missing, hasDomainMismatch, seniority).finalScore;
+}
 
+/**
+ * Calculate the match score with every step kept: per-requirement
+ * contribution, the domain and seniority penalties and the clamp
+ */
+export function explainMatchScore(
+  matched: MatchResult[],
+  missing: MatchResult[],
+  hasDomainMismatch: boolean = false,
+  seniority: SeniorityFit | null = null
+): ScoreBreakdown {
+  const requirements: RequirementContribution[] = [];
   let weightedScore = 0;
   let totalWeight = 0;
 
   // Score matched items
   for (const m of matched) {
-    const weight = weights[m.requirement.importance];
-    weightedScore += (m.score / 100) * weight;
+    const weight = IMPORTANCE_WEIGHTS[m.requirement.importance];
+    const contribution = (m.score / 100) * weight;
+    weightedScore += contribution;
     totalWeight += weight;
+    requirements.push(toContribution(m, 'matched', weight, weight, contribution));
   }
 
   // Penalize missing items (but not as harshly)
   for (const m of missing) {
-    const weight = weights[m.requirement.importance] * 0.7; // Reduced penalty
+    const importanceWeight = IMPORTANCE_WEIGHTS[m.requirement.importance];
+    const weight = importanceWeight * MISSING_WEIGHT_FACTOR;
     totalWeight += weight;
+    requirements.push(toContribution(m, 'missing', importanceWeight, weight, 0));
   }
 
-  let score = Math.round((weightedScore / totalWeight) * 100);
+  for (const r of requirements) {
+    r.points = totalWeight > 0 ? round2((r.contribution / totalWeight) * 100) : 0;
+    r.maxPoints = totalWeight > 0 ? round2((r.weight / totalWeight) * 100) : 0;
+  }
+
+  const rawScore = requirements.length === 0
+    ? DEFAULT_MATCH_SCORE
+    : Math.round((weightedScore / totalWeight) * 100);
 
   // Domain mismatch penalty (but not too severe)
-  if (hasDomainMismatch) {
-    score = Math.round(score * 0.7);
-  }
+  const domainMismatch = requirements.length > 0 && hasDomainMismatch;
+  const domainPenalty = domainMismatch ? DOMAIN_MISMATCH_PENALTY : 1;
+  const seniorityPenalty = requirements.length > 0 && seniority ? seniorityMultiplier(seniority) : 1;
+  const penalizedScore = domainPenalty === 1 && seniorityPenalty === 1
+    ? rawScore
+    : Math.round(rawScore * domainPenalty * seniorityPenalty);
 
   // Ensure reasonable bounds
-  return Math.min(Math.max(score, 20), 95);
+  const finalScore = requirements.length === 0
+    ? DEFAULT_MATCH_SCORE
+    : Math.min(Math.max(penalizedScore, MIN_MATCH_SCORE), MAX_MATCH_SCORE);
+
+  return {
+    requirements,
+    weightedScore: round2(weightedScore),
+    totalWeight: round2(totalWeight),
+    missingWeightFactor: MISSING_WEIGHT_FACTOR,
+    rawScore,
+    domainMismatch,
+    domainPenalty,
+    seniority: seniority ?? undefined,
+    seniorityPenalty,
+    penalizedScore,
+    clamp: {
+      min: MIN_MATCH_SCORE,
+      max: MAX_MATCH_SCORE,
+      applied: finalScore > penalizedScore ? 'min' : finalScore < penalizedScore ? 'max' : null,
+      delta: finalScore - penalizedScore,
+    },
+    finalScore,
+  };
+}
+
+function seniorityMultiplier(seniority: SeniorityFit): number {
+  if (seniority.levelGap <= -2) return UNDER_QUALIFIED_PENALTY;
+  if (seniority.levelGap >= 2) return OVER_QUALIFIED_PENALTY;
+  return 1;
+}
+
+function toContribution(
+  m: MatchResult,
+  status: RequirementContribution['status'],
+  importanceWeight: number,
+  weight: number,
+  contribution: number
+): RequirementContribution {
+  return {
+    requirement: m.requirement,
+    status,
+    matchType: m.matchType,
+    matchScore: m.score,
+    importanceWeight,
+    weight: round2(weight),
+    contribution: round2(contribution),
+    points: 0,
+    maxPoints: 0,
+    source: m.source,
+    sourceText: m.originalText,
+    similarity: m.similarity,
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
 }
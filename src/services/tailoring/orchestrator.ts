@@ -3,24 +3,85 @@
  * Coordinates the 2-pass tailoring process
  * Target: 5-8 seconds total (without AI detection)
  * Target: 8-15 seconds (with AI detection)
+ * Actual per-stage timings and token costs are recorded in result.trace
  */
 
-import { TailoringResult, TailoringError, ResumeData, JDRequirements, AIDetectionInfo } from './types';
+import {
+  TailoringResult,
+  TailoringError,
+  TailoringFallback,
+  ResumeData,
+  JDRequirements,
+  MatchResult,
+  TailoredResume,
+  AIDetectionInfo,
+  StageTrace,
+  BaseResumeCandidate,
+  BaseResumeScore,
+  BaseResumeSelection,
+  FabricationGuardMode,
+  VerificationReport,
+  CoverLetterOptions,
+  CoverLetterStrategyId,
+  CoverLetterIteration,
+  TailoringSettings,
+  SemanticMatchingMode,
+  HumanizationReport,
+  HumanizeStopReason,
+} from './types';
 import { parseResume } from './parser';
-import { analyzeJobDescription } from './jdAnalyzer';
-import { matchResume, calculateMatchScore } from './matcher';
+import { analyzeJobDescriptionCached, getJDCacheStats } from './jdCache';
+import { analyzeJobDescriptionOffline } from './jdRuleAnalyzer';
+import { matchResume, explainMatchScore } from './matcher';
+import type { Taxonomy } from './taxonomy';
+import { buildSemanticIndex, createHashingEmbeddingProvider, type SemanticOptions } from './semantic';
 import { formatTailoredResume } from './formatter';
-import { generateCoverLetter, generateQuickCoverLetter } from './coverLetter';
-import { logResumeData, logJDRequirements, logMatchResults, logScoreCalculation } from './debug';
+import { snapshotResume } from './diff';
+import {
+  COVER_LETTER_STRATEGIES,
+  getCoverLetterStrategy,
+  resolveCoverLetterOptions,
+  type CoverLetterInput,
+  type CoverLetterStrategy,
+} from './coverLetter';
+import { createIteration, toDetectionInfo } from './revision';
+import {
+  logResumeData,
+  logJDRequirements,
+  logMatchResults,
+  logScoreCalculation,
+  logTrace,
+  logJDCacheStats,
+} from './debug';
+import { createTraceRecorder, type TraceRecorder } from './telemetry';
 import { detectAIContent } from '../aiDetection';
+import { StructuredOutputError } from '../ai/structuredOutput';
+import { AIError, throwIfAborted } from '../ai/client';
+import { AICallContext } from '../ai/types';
 
 // Set to true to enable debug logging
-const DEBUG = __DEV__ || false;
-
-// AI Detection settings
-const AI_DETECTION_ENABLED = true;
-const AI_SCORE_THRESHOLD = 60; // Regenerate if above this
-const MAX_HUMANIZE_ATTEMPTS = 1; // Only try once to avoid long waits
+const DEBUG = (typeof __DEV__ !== 'undefined' && __DEV__) || false;
+
+// Per-run preferences (AI detection, the humanize loop and semantic matching);
+// any setting can be overridden per run
+export const DEFAULT_TAILORING_SETTINGS: TailoringSettings = {
+  aiDetection: true,
+  aiScoreThreshold: 60, // Regenerate if above this
+  maxHumanizeAttempts: 1, // One retry keeps the wait short
+  timeBudgetMs: 30000,
+  keep: 'latest', // The humanized version is usually better even when it scores no lower
+  semanticMatching: 'off',
+};
+const MAX_HUMANIZE_ATTEMPTS = 5;
+
+const SKIPPED_DETECTION: AIDetectionInfo = {
+  score: 0,
+  isHumanPassing: false,
+  feedback: 'Detection skipped',
+  detector: null,
+  measured: false,
+  sentences: [],
+};
 
 export interface TailoringProgress {
   step: 'parsing' | 'analyzing' | 'matching' | 'formatting' | 'cover_letter' | 'ai_check' | 'complete';
@@ -30,6 +91,31 @@ export interface TailoringProgress {
 
 export type ProgressCallback = (progress: TailoringProgress) => void;
 
+export interface TailoringOptions {
+  // Aborting stops the run between stages and cancels in-flight LLM/detection calls
+  signal?: AbortSignal;
+  // Synonyms/domains for matching - pass loadTaxonomy({ customSynonyms }) to
+  // include the user's own terms; defaults to the built-in packs
+  taxonomy?: Taxonomy;
+  // Blend embedding similarity into matching (true = default provider);
+  // unset follows settings.semanticMatching
+  semantic?: boolean | SemanticOptions;
+  // Several base resumes: the one scoring highest against the JD is tailored
+  // instead of resumeText, and the ranking is returned as result.baseResume
+  baseResumes?: BaseResumeCandidate[];
+  // What to do with formatter output the source resume doesn't support:
+  // 'revert' (default) restores the original, 'flag' only reports it
+  fabricationGuard?: FabricationGuardMode;
+  // Tone, length and structure of the cover letter; unset fields use the defaults
+  coverLetter?: Partial<CoverLetterOptions>;
+  // Which registered cover letter strategy writes the letter (default 'natural');
+  // quick mode falls back to 'template' for strategies that call the LLM
+  coverLetterStrategy?: CoverLetterStrategyId;
+  // Detection on/off, threshold, attempts, time budget, which version to keep
+  // and the semantic matching tier; unset fields use DEFAULT_TAILORING_SETTINGS
+  settings?: Partial<TailoringSettings>;
+}
+
 /**
  * Main tailoring function
  * Orchestrates the 2-pass algorithm
@@ -37,131 +123,98 @@ export type ProgressCallback = (progress: TailoringProgress) => void;
 export async function tailorResume(
   resumeText: string,
   jdText: string,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: TailoringOptions = {}
 ): Promise<TailoringResult> {
-  const startTime = Date.now();
+  const { signal } = options;
+  const trace = createTraceRecorder(signal);
+  const coverLetterOptions = resolveCoverLetterOptions(options.coverLetter);
+  const settings = resolveTailoringSettings(options.settings);
 
   try {
     // ============================================
     // PASS 1: Extraction & Matching (fast, mostly deterministic)
     // ============================================
 
-    // Step 1A: Parse resume (no LLM) - ~10ms
+    // Step 1A: Parse resume (no LLM)
+    throwIfAborted(signal);
     onProgress?.({ step: 'parsing', progress: 10, message: 'Parsing resume...' });
-    const resumeData = parseResume(resumeText);
-    if (DEBUG) logResumeData(resumeData);
+    const parsedResume = await trace.time('parse', () => parseResume(resumeText));
+    if (DEBUG) logResumeData(parsedResume);
 
-    // Step 1B: Analyze JD (1 LLM call) - ~3-5s
+    // Step 1B: Analyze JD (1 LLM call, skipped on a cache hit)
     onProgress?.({ step: 'analyzing', progress: 25, message: 'Analyzing job description...' });
-    const jdRequirements = await analyzeJobDescription(jdText);
-    if (DEBUG) logJDRequirements(jdRequirements);
+    const jdRequirements = await trace.time('analyze', (ctx, entry) =>
+      analyzeWithCache(jdText, ctx, entry)
+    );
+    if (DEBUG) {
+      logJDRequirements(jdRequirements);
+      logJDCacheStats(getJDCacheStats());
+    }
 
-    // Step 1C: Match resume to JD (no LLM) - ~10ms
+    const { resumeData, baseResume } = pickBaseResume(parsedResume, jdRequirements, options);
+
+    // Step 1C: Match resume to JD (no LLM)
     onProgress?.({ step: 'matching', progress: 40, message: 'Matching qualifications...' });
-    const { matched, missing, hasDomainMismatch } = matchResume(resumeData, jdRequirements);
-    const matchScore = calculateMatchScore(matched, missing, hasDomainMismatch);
+    const { matched, missing, matchScore, scoreBreakdown } = await trace.time('match', async (context) => {
+      const semantic = await buildSemanticTier(resumeData, jdRequirements, options, settings, context);
+      const result = matchResume(resumeData, jdRequirements, options.taxonomy, semantic);
+      const scoreBreakdown = explainMatchScore(result.matched, result.missing, result.hasDomainMismatch, result.seniority);
+      return { ...result, scoreBreakdown, matchScore: scoreBreakdown.finalScore };
+    });
     if (DEBUG) {
       logMatchResults(matched, missing);
-      logScoreCalculation(matched, missing, matchScore);
+      logScoreCalculation(scoreBreakdown);
     }
 
     // ============================================
-    // PASS 2: Generation (parallel LLM calls) - ~5-8s total
+    // PASS 2: Generation (parallel LLM calls)
     // ============================================
 
+    throwIfAborted(signal);
     onProgress?.({ step: 'formatting', progress: 55, message: 'Generating content...' });
 
     // Run formatting and cover letter generation in parallel
-    const [tailoredResume, coverLetter] = await Promise.all([
-      formatTailoredResume(resumeData, matched, jdRequirements),
-      generateCoverLetter(matched, jdRequirements, resumeData, false),
+    const strategy = getCoverLetterStrategy(options.coverLetterStrategy);
+    const letterInput = { matched, jd: jdRequirements, resume: resumeData, options: coverLetterOptions };
+    const [formatted, coverLetter] = await Promise.all([
+      trace.time('format', (ctx) => formatWithFallback(resumeData, matched, jdRequirements, ctx, options)),
+      trace.time('cover_letter', (context) => strategy.generate({ ...letterInput, context })),
     ]);
+    const tailoredResume = formatted.resume;
+    const fallbacks: TailoringFallback[] = formatted.fallback ? [formatted.fallback] : [];
 
     // ============================================
-    // PASS 3: AI Detection (optional, adds ~5-10s if triggered)
+    // PASS 3: AI Detection + humanize loop (per settings)
     // ============================================
-    
-    let finalCoverLetter = coverLetter;
-    let aiDetection: AIDetectionInfo = {
-      score: 0,
-      isHumanPassing: true,
-      feedback: 'Detection skipped',
-    };
 
-    if (AI_DETECTION_ENABLED) {
-      onProgress?.({ step: 'ai_check', progress: 75, message: 'Checking content quality...' });
-
-      try {
-        const detectionResult = await detectAIContent(coverLetter);
-        
-        if (DEBUG) {
-          console.log(`Initial AI score: ${detectionResult.score}%`);
-        }
-
-        // If score is too high, try ONE humanized regeneration
-        if (detectionResult.score > AI_SCORE_THRESHOLD) {
-          onProgress?.({ step: 'cover_letter', progress: 85, message: 'Improving cover letter...' });
-          
-          if (DEBUG) {
-            console.log(`AI score ${detectionResult.score}% > ${AI_SCORE_THRESHOLD}%, regenerating...`);
-          }
-
-          // Regenerate with humanize=true
-          finalCoverLetter = await generateCoverLetter(matched, jdRequirements, resumeData, true);
-
-          // Check again (but don't loop)
-          const recheck = await detectAIContent(finalCoverLetter);
-          
-          if (DEBUG) {
-            console.log(`After humanization: ${recheck.score}%`);
-          }
-
-          aiDetection = {
-            score: recheck.score,
-            isHumanPassing: recheck.score < 50,
-            feedback: recheck.feedback,
-          };
-
-          // If still failing, keep the humanized version anyway (it's usually better)
-          // but update the feedback
-          if (recheck.score > AI_SCORE_THRESHOLD) {
-            aiDetection.feedback = 'Some AI patterns detected. Consider minor edits.';
-          }
-        } else {
-          // First attempt passed
-          aiDetection = {
-            score: detectionResult.score,
-            isHumanPassing: detectionResult.score < 50,
-            feedback: detectionResult.feedback,
-          };
-        }
-      } catch (error) {
-        // AI detection failed - continue without it
-        if (DEBUG) console.log('AI detection error:', error);
-        aiDetection = {
-          score: 0,
-          isHumanPassing: true,
-          feedback: 'Detection unavailable',
-        };
-      }
-    }
+    const humanized = await humanizeCoverLetter(coverLetter, strategy, letterInput, settings, trace, signal, onProgress);
 
+    throwIfAborted(signal);
     onProgress?.({ step: 'complete', progress: 100, message: 'Complete!' });
 
-    const processingTime = Date.now() - startTime;
-    
-    if (DEBUG) {
-      console.log(`Total processing time: ${processingTime}ms`);
-    }
+    const traceSummary = trace.finish();
+    if (DEBUG) logTrace(traceSummary);
 
     return {
       resume: tailoredResume,
-      coverLetter: finalCoverLetter,
+      original: snapshotResume(resumeData),
+      jobRequirements: jdRequirements,
+      coverLetter: humanized.coverLetter,
+      coverLetterOptions,
+      coverLetterStrategy: humanized.strategy,
       matchScore,
+      scoreBreakdown,
+      baseResume,
       matchedItems: matched,
       missingItems: missing,
-      processingTime,
-      aiDetection,
+      processingTime: traceSummary.totalDurationMs,
+      aiDetection: humanized.aiDetection,
+      coverLetterIterations: humanized.iterations,
+      humanization: humanized.report,
+      fallbacks,
+      verification: formatted.verification,
+      trace: traceSummary,
     };
   } catch (error) {
     throw createTailoringError(error as Error);
@@ -169,53 +222,347 @@ export async function tailorResume(
 }
 
 /**
- * Quick tailoring (minimal LLM, for offline/fast mode)
- * Uses only 1 LLM call for JD analysis, no AI detection
+ * Quick tailoring (offline/fast mode)
+ * No LLM calls: rule-based JD analysis, template formatting and cover
+ * letter, no AI detection. Only the remote semantic tier reaches the network.
  */
 export async function tailorResumeQuick(
   resumeText: string,
   jdText: string,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: TailoringOptions = {}
 ): Promise<TailoringResult> {
-  const startTime = Date.now();
+  const { signal } = options;
+  const trace = createTraceRecorder(signal);
+  const coverLetterOptions = resolveCoverLetterOptions(options.coverLetter);
+  const settings = resolveTailoringSettings(options.settings);
 
   try {
+    throwIfAborted(signal);
     onProgress?.({ step: 'parsing', progress: 20, message: 'Parsing...' });
-    const resumeData = parseResume(resumeText);
+    const parsedResume = await trace.time('parse', () => parseResume(resumeText));
 
     onProgress?.({ step: 'analyzing', progress: 50, message: 'Analyzing...' });
-    const jdRequirements = await analyzeJobDescription(jdText);
+    const jdRequirements = await trace.time('analyze', () =>
+      analyzeJobDescriptionOffline(jdText, options.taxonomy)
+    );
+    throwIfAborted(signal);
+
+    const { resumeData, baseResume } = pickBaseResume(parsedResume, jdRequirements, options);
 
     onProgress?.({ step: 'matching', progress: 70, message: 'Matching...' });
-    const { matched, missing, hasDomainMismatch } = matchResume(resumeData, jdRequirements);
-    const matchScore = calculateMatchScore(matched, missing, hasDomainMismatch);
+    const { matched, missing, matchScore, scoreBreakdown } = await trace.time('match', async (context) => {
+      const semantic = await buildSemanticTier(resumeData, jdRequirements, options, settings, context);
+      const result = matchResume(resumeData, jdRequirements, options.taxonomy, semantic);
+      const scoreBreakdown = explainMatchScore(result.matched, result.missing, result.hasDomainMismatch, result.seniority);
+      return { ...result, scoreBreakdown, matchScore: scoreBreakdown.finalScore };
+    });
 
     onProgress?.({ step: 'complete', progress: 100, message: 'Complete!' });
 
     // Use quick templates instead of LLM
-    const tailoredResume = createQuickTailoredResume(resumeData, matched);
-    const coverLetter = generateQuickCoverLetter(matched, jdRequirements, resumeData);
+    const tailoredResume = await trace.time('format', () =>
+      createQuickTailoredResume(resumeData, matched)
+    );
+    const configured = getCoverLetterStrategy(options.coverLetterStrategy);
+    const strategy = configured.usesLLM ? COVER_LETTER_STRATEGIES.template : configured;
+    const coverLetter = await trace.time('cover_letter', () =>
+      strategy.generate({ matched, jd: jdRequirements, resume: resumeData, options: coverLetterOptions })
+    );
+
+    const traceSummary = trace.finish();
 
     return {
       resume: tailoredResume,
+      original: snapshotResume(resumeData),
+      jobRequirements: jdRequirements,
       coverLetter,
+      coverLetterOptions,
+      coverLetterStrategy: strategy.id,
       matchScore,
+      scoreBreakdown,
+      baseResume,
       matchedItems: matched,
       missingItems: missing,
-      processingTime: Date.now() - startTime,
+      processingTime: traceSummary.totalDurationMs,
+      trace: traceSummary,
     };
   } catch (error) {
     throw createTailoringError(error as Error);
   }
 }
 
+/**
+ * Score each base resume against the JD (lexical matching only, so it
+ * stays cheap with many versions). Highest first.
+ */
+export function rankBaseResumes(
+  candidates: BaseResumeCandidate[],
+  jdRequirements: JDRequirements,
+  taxonomy?: Taxonomy
+): BaseResumeScore[] {
+  return scoreBaseResumes(candidates, jdRequirements, taxonomy).map(({ candidate, matchScore }) => ({
+    id: candidate.id,
+    name: candidate.name,
+    matchScore,
+  }));
+}
+
+function scoreBaseResumes(
+  candidates: BaseResumeCandidate[],
+  jdRequirements: JDRequirements,
+  taxonomy?: Taxonomy
+) {
+  return candidates
+    .filter((candidate) => candidate.rawText.trim())
+    .map((candidate) => {
+      const resumeData = candidate.parsedData ?? parseResume(candidate.rawText);
+      const { matched, missing, hasDomainMismatch, seniority } = matchResume(resumeData, jdRequirements, taxonomy);
+      const matchScore = explainMatchScore(matched, missing, hasDomainMismatch, seniority).finalScore;
+      return { candidate, resumeData, matchScore };
+    })
+    // Stable sort keeps the caller's order (e.g. the default resume first) on ties
+    .sort((a, b) => b.matchScore - a.matchScore);
+}
+
+/**
+ * Swap in the best-scoring base resume when candidates were given
+ */
+function pickBaseResume(
+  parsedResume: ResumeData,
+  jdRequirements: JDRequirements,
+  options: TailoringOptions
+): { resumeData: ResumeData; baseResume?: BaseResumeSelection } {
+  if (!options.baseResumes?.length) return { resumeData: parsedResume };
+
+  const scored = scoreBaseResumes(options.baseResumes, jdRequirements, options.taxonomy);
+  if (scored.length === 0) return { resumeData: parsedResume };
+
+  const [best] = scored;
+  if (DEBUG) console.log(`Base resume: ${best.candidate.name} (${best.matchScore}%)`);
+
+  return {
+    resumeData: best.resumeData,
+    baseResume: {
+      id: best.candidate.id,
+      name: best.candidate.name,
+      matchScore: best.matchScore,
+      ranking: scored.map(({ candidate, matchScore }) => ({
+        id: candidate.id,
+        name: candidate.name,
+        matchScore,
+      })),
+    },
+  };
+}
+
+/**
+ * Embed requirements and resume items when the semantic tier is on.
+ * Embedding usage lands on the match stage of the trace.
+ */
+async function buildSemanticTier(
+  resumeData: ResumeData,
+  jdRequirements: JDRequirements,
+  options: TailoringOptions,
+  settings: TailoringSettings,
+  context: AICallContext
+) {
+  const semantic = options.semantic ?? semanticForMode(settings.semanticMatching);
+  if (!semantic) return null;
+  const semanticOptions = semantic === true ? {} : semantic;
+  return buildSemanticIndex(resumeData, jdRequirements, {
+    ...semanticOptions,
+    signal: semanticOptions.signal ?? context.signal,
+    onUsage: semanticOptions.onUsage ?? context.onUsage,
+  });
+}
+
+function semanticForMode(mode: SemanticMatchingMode): boolean | SemanticOptions {
+  switch (mode) {
+    case 'off':
+      return false;
+    case 'local':
+      return { provider: createHashingEmbeddingProvider(), fallback: null };
+    case 'remote':
+      return true;
+  }
+}
+
+/**
+ * Analyze the JD through the cache, noting hits on the trace entry
+ */
+async function analyzeWithCache(
+  jdText: string,
+  context: AICallContext,
+  entry: StageTrace
+): Promise<JDRequirements> {
+  const { requirements, cacheHit } = await analyzeJobDescriptionCached(jdText, context);
+  entry.cacheHit = cacheHit;
+  return requirements;
+}
+
+/**
+ * Format with the LLM, falling back to the original resume (reordered)
+ * when the response can't be validated. The fallback is recorded, not silent.
+ */
+async function formatWithFallback(
+  resume: ResumeData,
+  matched: MatchResult[],
+  jd: JDRequirements,
+  context: AICallContext,
+  options: TailoringOptions
+): Promise<{ resume: TailoredResume; verification?: VerificationReport; fallback?: TailoringFallback }> {
+  try {
+    return await formatTailoredResume(resume, matched, jd, context, {
+      mode: options.fabricationGuard,
+      taxonomy: options.taxonomy,
+    });
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+
+    if (DEBUG) console.log('Formatter output invalid, using original resume:', error.issues);
+
+    return {
+      resume: createQuickTailoredResume(resume, matched),
+      fallback: {
+        stage: 'formatting',
+        reason: 'AI formatting returned invalid output, so your original resume wording is shown.',
+        issues: error.issues,
+      },
+    };
+  }
+}
+
+/**
+ * Settings for one run: defaults for anything unset, limits clamped
+ */
+export function resolveTailoringSettings(settings: Partial<TailoringSettings> = {}): TailoringSettings {
+  const defaults = DEFAULT_TAILORING_SETTINGS;
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  return {
+    aiDetection: settings.aiDetection ?? defaults.aiDetection,
+    aiScoreThreshold: clamp(settings.aiScoreThreshold ?? defaults.aiScoreThreshold, 0, 100),
+    maxHumanizeAttempts: clamp(Math.round(settings.maxHumanizeAttempts ?? defaults.maxHumanizeAttempts), 0, MAX_HUMANIZE_ATTEMPTS),
+    timeBudgetMs: Math.max(0, settings.timeBudgetMs ?? defaults.timeBudgetMs),
+    keep: settings.keep ?? defaults.keep,
+    semanticMatching: settings.semanticMatching ?? defaults.semanticMatching,
+  };
+}
+
+interface HumanizeOutcome {
+  coverLetter: string;
+  strategy: CoverLetterStrategyId;
+  aiDetection: AIDetectionInfo;
+  iterations: CoverLetterIteration[];
+  report: HumanizationReport;
+}
+
+/**
+ * Score the letter, then regenerate it with the strategy's retry while it
+ * scores above the threshold - up to maxHumanizeAttempts, and only while
+ * the time budget lasts. Every version is recorded; settings.keep picks
+ * the one returned.
+ */
+async function humanizeCoverLetter(
+  coverLetter: string,
+  strategy: CoverLetterStrategy,
+  input: Omit<CoverLetterInput, 'context'>,
+  settings: TailoringSettings,
+  trace: TraceRecorder,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<HumanizeOutcome> {
+  const iterations: CoverLetterIteration[] = [];
+  let attempts = 0;
+
+  const finish = (stopReason: HumanizeStopReason): HumanizeOutcome => {
+    const keptIteration = settings.keep === 'best' ? bestIteration(iterations) : iterations.length - 1;
+    const kept = iterations[keptIteration];
+    let aiDetection = kept.aiDetection;
+
+    // Still failing after retries: keep the letter, but say so
+    if (attempts > 0 && aiDetection.measured && aiDetection.score > settings.aiScoreThreshold) {
+      aiDetection = { ...aiDetection, feedback: 'Some AI patterns detected. Consider minor edits.' };
+    }
+    if (DEBUG) {
+      console.log(`Humanize loop: ${attempts} attempt(s), stopped (${stopReason}), kept #${keptIteration + 1}`);
+    }
+
+    return {
+      coverLetter: kept.coverLetter,
+      strategy: kept.strategy ?? strategy.id,
+      aiDetection,
+      iterations,
+      report: { settings, attempts, stopReason, keptIteration },
+    };
+  };
+
+  if (!settings.aiDetection) {
+    iterations.push(createIteration('generated', coverLetter, { ...SKIPPED_DETECTION }, { strategy: strategy.id }));
+    return finish('disabled');
+  }
+
+  onProgress?.({ step: 'ai_check', progress: 75, message: 'Checking content quality...' });
+  const startedAt = Date.now();
+  // Detector failures come back unmeasured; only cancellation throws
+  const detect = async (letter: string) =>
+    toDetectionInfo(await trace.time('ai_check', () => detectAIContent(letter, signal)));
+
+  iterations.push(createIteration('generated', coverLetter, await detect(coverLetter), { strategy: strategy.id }));
+  const retry = strategy.retryStrategy ? getCoverLetterStrategy(strategy.retryStrategy) : null;
+
+  for (;;) {
+    const current = iterations[iterations.length - 1].aiDetection;
+    if (DEBUG) console.log(`AI score: ${current.score}% (${current.detector})`);
+
+    // An unmeasured letter has no score to act on
+    if (!current.measured) return finish('unmeasured');
+    if (current.score <= settings.aiScoreThreshold) return finish('passed');
+    if (!retry) return finish('no_retry');
+    if (attempts >= settings.maxHumanizeAttempts) return finish('max_attempts');
+    if (Date.now() - startedAt >= settings.timeBudgetMs) return finish('time_budget');
+
+    attempts++;
+    onProgress?.({
+      step: 'cover_letter',
+      progress: Math.min(95, 80 + attempts * 5),
+      message: attempts > 1 ? `Improving cover letter (attempt ${attempts})...` : 'Improving cover letter...',
+    });
+
+    try {
+      const letter = await trace.time('humanize', (context) => retry.generate({ ...input, context }));
+      iterations.push(createIteration('regenerated', letter, await detect(letter), { strategy: retry.id }));
+    } catch (error) {
+      // Cancellation isn't a failed attempt
+      throwIfAborted(signal);
+      if (DEBUG) console.log('Humanize attempt failed:', error);
+      return finish('error');
+    }
+  }
+}
+
+/**
+ * Lowest measured score (the later version on a tie); the last version
+ * when none were measured
+ */
+function bestIteration(iterations: CoverLetterIteration[]): number {
+  let best = iterations.length - 1;
+  iterations.forEach((iteration, index) => {
+    const current = iterations[best].aiDetection;
+    if (!iteration.aiDetection.measured) return;
+    if (!current.measured || iteration.aiDetection.score <= current.score) best = index;
+  });
+  return best;
+}
+
 /**
  * Create quick tailored resume without LLM formatting
  */
 function createQuickTailoredResume(
   resume: ResumeData,
   matched: ReturnType<typeof matchResume>['matched']
-) {
+): TailoredResume {
   // Just reorder experiences to prioritize matched ones
   const matchedExps = new Set(
     matched
@@ -246,6 +593,20 @@ function createQuickTailoredResume(
  * Convert error to TailoringError
  */
 function createTailoringError(error: Error): TailoringError {
+  if (error instanceof AIError && error.type === 'cancelled') {
+    return { type: 'cancelled', message: 'Tailoring was cancelled', details: error };
+  }
+
+  // Schema validation failures carry field-level issues
+  if (error instanceof StructuredOutputError) {
+    return {
+      type: error.stage === 'jd_analysis' ? 'jd_analysis_error' : 'formatting_error',
+      message: error.message,
+      details: error,
+      issues: error.issues,
+    };
+  }
+
   const message = error.message.toLowerCase();
 
   if (message.includes('parse')) {
@@ -11,6 +11,9 @@ import {
   Metric,
   Education,
   ContactInfo,
+  Project,
+  Certification,
+  Award,
 } from './types';
 
 // Common section headers
@@ -20,9 +23,29 @@ const SECTION_PATTERNS = {
   skills: /^(skills|technical\s*skills|core\s*competencies|technologies|expertise|ux\s*design\s*skills|design\s*skills|marketing\s*skills|sales\s*skills|skills\s*&\s*expertise)/i,
   summary: /^(summary|profile|objective|about|executive\s*summary|professional\s*summary)/i,
   projects: /^(projects|personal\s*projects|portfolio|portfolio\s*projects)/i,
-  activities: /^(activities|certifications|awards|achievements)/i,
+  certifications: /^(certifications?|licenses?(\s*(&|and)\s*certifications?)?|certificates?)\b/i,
+  awards: /^(awards?|honors?(\s*(&|and)\s*awards?)?|achievements)\b/i,
+  activities: /^(activities|extracurricular|volunteer(ing)?)\b/i,
 };
 
+// Job titles (used to spot header lines and tell title from company)
+const TITLE_PATTERN = /(engineer|developer|manager|analyst|designer|lead|director|specialist|assistant|intern|coordinator|associate|executive|president|consultant|researcher|teacher|educator|scientist|architect|administrator|officer|representative|strategist|recruiter|founder|head of|accountant|writer|editor|producer|technician|advisor)/i;
+
+// "Jan 2022 - Present", "2019 – 2022", "05/2020 to 03/2021"
+const DATE_RANGE_PATTERN = /((?:[A-Za-z]{3,9}\.?\s+)?(?:\d{1,2}\/)?\d{4})\s*(?:-|–|—|to)\s*((?:[A-Za-z]{3,9}\.?\s+)?(?:\d{1,2}\/)?\d{4}|present|current|now)/i;
+
+// "San Francisco, CA", "Remote"
+const LOCATION_PATTERN = /^([A-Z][A-Za-z.'\s]+,\s*[A-Z]{2}|remote|hybrid|on-?site)$/i;
+
+// Header lines can split title/company/date with any of these
+const HEADER_SEPARATORS = /\s*[|•·]\s*|\s+[–—]\s+/;
+
+// ", 2021" / "(2021)" after a certification or award name
+const YEAR_NOTE_PATTERN = /,?\s*\(?\b(19|20)\d{2}\b\)?/g;
+
+// A header (single or multi-line) spans at most this many lines
+const MAX_HEADER_LINES = 3;
+
 // Metric patterns (numbers with context)
 const METRIC_PATTERNS = [
   /(\d+(?:\.\d+)?%)\s+(.+)/i,
@@ -48,9 +71,17 @@ export function parseResume(text: string): ResumeData {
 
   return {
     rawText: text,
+    summary: extractSummary(sections.summary || []),
     skills: extractSkills(sections.skills || []),
     experiences: extractExperiences(sections.experience || []),
     education: extractEducation(sections.education || []),
+    projects: extractProjects(sections.projects || []),
+    certifications: [
+      ...extractCertifications(sections.certifications || []),
+      // Certificates are often listed under education
+      ...extractCertifications((sections.education || []).filter(isCertificationLine)),
+    ],
+    awards: extractAwards(sections.awards || []),
     contact: extractContactInfo(lines.slice(0, 10)), // Contact usually at top
   };
 }
@@ -158,81 +189,165 @@ function categorizeSkill(skill: string): Skill['category'] {
 
 /**
  * Extract experiences from experience section
+ * Headers can be one line ("Title | Company | Dates") or spread over
+ * two or three lines in any order (title, company, dates)
  */
 function extractExperiences(lines: string[]): Experience[] {
   const experiences: Experience[] = [];
-  let current: Partial<Experience> | null = null;
+  let header: HeaderLine[] = [];
   let bullets: Bullet[] = [];
 
-  for (const line of lines) {
-    // Check if this is a new job entry (usually has company/date)
-    if (isJobHeader(line)) {
-      if (current && current.title) {
-        experiences.push({
-          ...current,
-          bullets,
-          originalText: [current.title, current.company, ...bullets.map((b) => b.text)].join('\n'),
-        } as Experience);
-      }
-      current = parseJobHeader(line);
-      bullets = [];
-    } else if (isBulletPoint(line)) {
+  const flush = () => {
+    const parsed = header.length > 0 ? mergeHeaderLines(header) : null;
+    if (parsed?.title) {
+      experiences.push({
+        ...parsed,
+        bullets,
+        originalText: [parsed.title, parsed.company, ...bullets.map((b) => b.text)].join('\n'),
+      });
+    }
+    header = [];
+    bullets = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isBulletPoint(line)) {
       bullets.push(parseBullet(line));
-    } else if (current && (line.includes('|') || line.match(/\d{4}/))) {
-      // Might be a date line
-      const dateMatch = line.match(/\d{4}\s*[-–]\s*(\d{4}|present|current)/i);
-      if (dateMatch) {
-        current.dateRange = dateMatch[0];
+      continue;
+    }
+
+    // After bullets, a plain line is either the next job or a wrapped bullet
+    if (bullets.length > 0) {
+      if (startsJobHeader(lines, i)) {
+        flush();
+      } else {
+        const last = bullets[bullets.length - 1];
+        bullets[bullets.length - 1] = parseBullet(`- ${last.text} ${line}`);
+        continue;
       }
     }
-  }
 
-  // Don't forget the last experience
-  if (current && current.title) {
-    experiences.push({
-      ...current,
-      bullets,
-      originalText: [current.title, current.company, ...bullets.map((b) => b.text)].join('\n'),
-    } as Experience);
+    const parsed = parseHeaderLine(line);
+    if (header.length > 0 && headerConflicts(header, parsed)) {
+      flush();
+    }
+    header.push(parsed);
   }
 
+  flush();
+
   return experiences;
 }
 
+interface HeaderLine {
+  names: string[]; // Title/company candidates, in order
+  hasTitle: boolean;
+  dateRange?: string;
+}
+
 /**
  * Check if line looks like a job header
  */
 function isJobHeader(line: string): boolean {
   // Contains job-title-like patterns
-  const titlePatterns = /(engineer|developer|manager|analyst|designer|lead|director|specialist|assistant|intern|coordinator|associate|executive|president|consultant|researcher|teacher|educator)/i;
-  return titlePatterns.test(line) && !isBulletPoint(line);
+  return TITLE_PATTERN.test(line) && !isBulletPoint(line);
 }
 
 /**
- * Check if line is a bullet point
+ * After a job's bullets: does a new header start at lines[index]?
+ * Looks ahead across the next few non-bullet lines for a title or dates,
+ * so company-first headers ("Acme Corp" / "Senior Engineer") are caught too
  */
-function isBulletPoint(line: string): boolean {
-  return /^[\s]*[•·●○◦▪▸►\-–—*]\s/.test(line);
+function startsJobHeader(lines: string[], index: number): boolean {
+  // Wrapped bullet text continues mid-sentence
+  if (/^[a-z]/.test(lines[index])) return false;
+
+  for (let i = index; i < Math.min(lines.length, index + MAX_HEADER_LINES); i++) {
+    if (isBulletPoint(lines[i])) return false;
+    if (isJobHeader(lines[i]) || DATE_RANGE_PATTERN.test(lines[i])) return true;
+  }
+  return false;
 }
 
 /**
- * Parse a job header line
+ * Split one header line into dates, title/company candidates and location
  */
-function parseJobHeader(line: string): Partial<Experience> {
-  // Try to extract title and company
-  const parts = line.split(/\s*[|@,]\s*/);
+function parseHeaderLine(line: string): HeaderLine {
+  const dateMatch = line.match(DATE_RANGE_PATTERN);
+  const rest = dateMatch ? line.replace(dateMatch[0], ' ') : line;
+  const names: string[] = [];
+
+  for (const rawSegment of rest.split(HEADER_SEPARATORS)) {
+    // Drop notes like "(Part-time)" and stray separators left by the date
+    const segment = rawSegment.replace(/\([^)]*\)/g, '').replace(/^[\s,\-–—]+|[\s,\-–—]+$/g, '');
+    if (!segment || LOCATION_PATTERN.test(segment)) continue;
+
+    // "Software Engineer at Google" / "Software Engineer @ Google"
+    const atMatch = segment.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+    if (atMatch && TITLE_PATTERN.test(atMatch[1])) {
+      names.push(atMatch[1].trim(), atMatch[2].trim());
+      continue;
+    }
+
+    // "Senior Engineer, Google" (but keep "Acme, Inc." and "Austin, TX" intact)
+    const commaMatch = segment.match(/^(.+?),\s*(.+)$/);
+    if (
+      commaMatch &&
+      TITLE_PATTERN.test(commaMatch[1]) &&
+      !/^(inc|llc|ltd|co|corp)\.?$/i.test(commaMatch[2]) &&
+      !LOCATION_PATTERN.test(segment)
+    ) {
+      names.push(commaMatch[1].trim(), commaMatch[2].trim());
+      continue;
+    }
+
+    names.push(segment);
+  }
 
   return {
-    title: parts[0]?.trim() || line.trim(),
-    company: parts[1]?.trim() || '',
+    names,
+    hasTitle: names.some((n) => TITLE_PATTERN.test(n)),
+    dateRange: dateMatch?.[0],
   };
 }
 
+/**
+ * A second title or date range means the next job has started
+ */
+function headerConflicts(header: HeaderLine[], next: HeaderLine): boolean {
+  if (header.length >= MAX_HEADER_LINES) return true;
+  if (next.hasTitle && header.some((h) => h.hasTitle)) return true;
+  if (next.dateRange && header.some((h) => h.dateRange)) return true;
+  return false;
+}
+
+/**
+ * Combine header lines: the first title-like name is the title,
+ * the first other name is the company
+ */
+function mergeHeaderLines(header: HeaderLine[]): Pick<Experience, 'title' | 'company' | 'dateRange'> {
+  const names = header.flatMap((h) => h.names);
+  const title = names.find((n) => TITLE_PATTERN.test(n)) ?? names[0] ?? '';
+  const company = names.find((n) => n !== title) ?? '';
+  const dateRange = header.find((h) => h.dateRange)?.dateRange;
+
+  return { title, company, dateRange };
+}
+
+/**
+ * Check if line is a bullet point
+ */
+function isBulletPoint(line: string): boolean {
+  return /^[\s]*[•·●○◦▪▸►\-–—*]\s/.test(line);
+}
+
 /**
  * Parse a bullet point
  */
 function parseBullet(line: string): Bullet {
-  const text = line.replace(/^[\s]*[•·●○◦▪▸►\-–—*]\s*/, '').trim();
+  const text = stripBullet(line);
 
   return {
     text,
@@ -302,6 +417,113 @@ function extractEducation(lines: string[]): Education[] {
   return education;
 }
 
+/**
+ * Join summary lines into one paragraph
+ */
+function extractSummary(lines: string[]): string | undefined {
+  const text = lines.map(stripBullet).join(' ').trim();
+  return text || undefined;
+}
+
+/**
+ * Extract projects: a name line ("Name - description | url") followed by bullets.
+ * Bullet-only lists are treated as one project per bullet.
+ */
+function extractProjects(lines: string[]): Project[] {
+  const projects: Project[] = [];
+  let current: Project | null = null;
+
+  for (const line of lines) {
+    if (isBulletPoint(line) && current) {
+      const bullet = parseBullet(line);
+      current.bullets.push(bullet);
+      current.originalText += `\n${bullet.text}`;
+      continue;
+    }
+
+    const header = parseProjectHeader(stripBullet(line));
+    if (isBulletPoint(line)) {
+      // No project name yet - the bullet is the project
+      projects.push(header);
+    } else {
+      current = header;
+      projects.push(current);
+    }
+  }
+
+  return projects;
+}
+
+/**
+ * Parse "TaskFlow - Full Stack Task App | github.com/user/taskflow"
+ */
+function parseProjectHeader(line: string): Project {
+  const parts = line.split(/\s*\|\s*/);
+  const url = parts.find((p) => /^(https?:\/\/)?[\w-]+(\.[\w-]+)+\/\S*$/i.test(p));
+  const label = parts.filter((p) => p !== url).join(' | ');
+  const [name, ...description] = label.split(/\s*:\s+|\s+[-–—]\s+/);
+
+  return {
+    name: name.replace(/\s*\([^)]*\)\s*$/, '').trim(),
+    description: description.join(' - ') || undefined,
+    url,
+    bullets: [],
+    originalText: line,
+  };
+}
+
+/**
+ * Lines in the education section that are certificates, not degrees
+ */
+function isCertificationLine(line: string): boolean {
+  return /\b(certificat(e|ion)|certified|license[d]?)\b/i.test(line);
+}
+
+/**
+ * Extract certifications ("Name | Issuer | Year", "Name (Year)", "Name, Issuer")
+ */
+function extractCertifications(lines: string[]): Certification[] {
+  return lines.map((line) => {
+    const text = stripBullet(line);
+    const year = text.match(/\b(19|20)\d{2}\b/)?.[0];
+    const parts = text
+      .replace(YEAR_NOTE_PATTERN, '')
+      .split(/\s*[|,]\s*|\s+[-–—]\s+/)
+      .map((p) => p.trim())
+      .filter(Boolean);
+
+    return {
+      name: parts[0] || text,
+      issuer: parts[1],
+      year,
+      originalText: text,
+    };
+  });
+}
+
+/**
+ * Extract awards (one per line)
+ */
+function extractAwards(lines: string[]): Award[] {
+  return lines.map((line) => {
+    const text = stripBullet(line);
+    const year = text.match(/\b(19|20)\d{2}\b/)?.[0];
+
+    return {
+      name: text.split(/\s*\|\s*/)[0].replace(YEAR_NOTE_PATTERN, '').trim(),
+      year,
+      originalText: text,
+    };
+  });
+}
+
+/**
+ * Remove a leading bullet marker
+ */
+function stripBullet(line: string): string {
+  return line.replace(/^[\s]*[•·●○◦▪▸►\-–—*]\s*/, '').trim();
+}
+
 /**
  * Extract contact information
  */
@@ -0,0 +1,212 @@
+/**
+ * Cover Letter Revisions - 1 LLM call per rewrite
+ * Keeps the per-sentence AI-detection verdicts with the result, and
+ * rewrites only the sentences the detector flagged (in the context of
+ * the whole letter) instead of regenerating it, then re-scores. Every
+ * version is kept in the result's iteration history.
+ */
+
+import { callStructured } from '../ai/structuredOutput';
+import { throwIfAborted } from '../ai/client';
+import { AICallContext } from '../ai/types';
+import { detectAIContent, type AIDetectionResult, type AIDetectionSentence } from '../aiDetection';
+import { sentenceRewriteSchema } from './schemas';
+import {
+  AIDetectionInfo,
+  CoverLetterIteration,
+  CoverLetterIterationKind,
+  CoverLetterStrategyId,
+  CoverLetterTone,
+  TailoringResult,
+} from './types';
+
+// Room for a rewritten sentence plus the JSON around it
+const TOKENS_PER_SENTENCE = 80;
+
+export interface LetterSegment {
+  text: string;
+  flagged: boolean;
+}
+
+export interface SentenceRewrite {
+  original: string;
+  rewrite: string;
+}
+
+export interface RewriteOptions {
+  // Keeps the rewrite in the letter's register
+  tone?: CoverLetterTone;
+  signal?: AbortSignal;
+  context?: AICallContext;
+}
+
+/**
+ * What the result keeps from a detection run
+ */
+export function toDetectionInfo(result: AIDetectionResult): AIDetectionInfo {
+  return {
+    score: result.score,
+    isHumanPassing: result.measured && result.score < 50,
+    feedback: result.feedback,
+    detector: result.detector,
+    measured: result.measured,
+    sentences: result.sentences,
+  };
+}
+
+export function createIteration(
+  kind: CoverLetterIterationKind,
+  coverLetter: string,
+  aiDetection: AIDetectionInfo,
+  extra: { strategy?: CoverLetterStrategyId; rewrittenSentences?: number } = {}
+): CoverLetterIteration {
+  return { kind, coverLetter, aiDetection, ...extra, createdAt: new Date().toISOString() };
+}
+
+// ============================================
+// FLAGGED SENTENCES
+// ============================================
+
+/**
+ * Flagged sentences that still appear in the letter, once each
+ * (verdicts go stale when the letter is edited by hand)
+ */
+export function getFlaggedSentences(letter: string, detection?: AIDetectionInfo): string[] {
+  const sentences = detection?.sentences ?? [];
+  const flagged = sentences.filter((s) => s.isAI).map((s) => s.text.trim());
+  return [...new Set(flagged)].filter((text) => text && letter.includes(text));
+}
+
+/**
+ * Split the letter into plain and flagged runs for highlighting; text
+ * between flagged sentences is kept verbatim
+ */
+export function segmentCoverLetter(letter: string, sentences: AIDetectionSentence[] = []): LetterSegment[] {
+  const segments: LetterSegment[] = [];
+  let cursor = 0;
+
+  for (const sentence of sentences) {
+    const text = sentence.text.trim();
+    if (!sentence.isAI || !text) continue;
+    const start = letter.indexOf(text, cursor);
+    if (start === -1) continue;
+
+    if (start > cursor) segments.push({ text: letter.slice(cursor, start), flagged: false });
+    segments.push({ text, flagged: true });
+    cursor = start + text.length;
+  }
+
+  if (cursor < letter.length) segments.push({ text: letter.slice(cursor), flagged: false });
+  return segments;
+}
+
+// ============================================
+// TARGETED REWRITE
+// ============================================
+
+const REWRITE_PROMPT = `A detector flagged some sentences in this cover letter as sounding AI-written. Rewrite ONLY those sentences so they sound like the applicant wrote them.
+
+FULL LETTER (for context - do not return it):
+"""
+{LETTER}
+"""
+
+FLAGGED SENTENCES:
+{SENTENCES}
+
+RULES:
+- Keep each sentence's meaning and every fact in it. Add no new facts, numbers, skills, employers or titles.
+- Keep the letter's {TONE} tone and roughly the same length per sentence.
+- It must still read smoothly between the sentences around it.
+- Use contractions and plain words. Vary the rhythm - a short sentence is fine.
+- Never use: "passionate about", "excited to", "thrilled", "leverage", "synergy", "cutting-edge", "proven track record", "I am confident", "Furthermore", "Moreover", "Additionally".
+
+Return JSON: {"rewrites": [{"index": 1, "text": "rewritten sentence"}]} with one entry per flagged sentence.`;
+
+/**
+ * Rewrite the given sentences in place. Rewrites that introduce a number
+ * the original sentence didn't have are dropped, so the letter can't gain
+ * a metric the resume doesn't back.
+ */
+export async function rewriteSentences(
+  letter: string,
+  sentences: string[],
+  options: RewriteOptions = {}
+): Promise<{ letter: string; rewrites: SentenceRewrite[] }> {
+  if (sentences.length === 0) return { letter, rewrites: [] };
+
+  const prompt = REWRITE_PROMPT
+    .replace('{LETTER}', letter)
+    .replace('{SENTENCES}', sentences.map((text, i) => `${i + 1}. ${text}`).join('\n'))
+    .replace('{TONE}', options.tone ?? 'current');
+
+  const response = await callStructured({
+    prompt,
+    maxTokens: 200 + sentences.length * TOKENS_PER_SENTENCE,
+    temperature: 0.9,
+    stage: 'cover_letter',
+    signal: options.signal,
+    ...options.context,
+    schema: sentenceRewriteSchema,
+  });
+
+  let revised = letter;
+  const rewrites: SentenceRewrite[] = [];
+  for (const { index, text } of response.rewrites) {
+    const original = sentences[index - 1];
+    const rewrite = text.trim().replace(/\s+/g, ' ');
+    if (!original || !rewrite || rewrite === original || addsNumbers(original, rewrite)) continue;
+    if (!revised.includes(original)) continue;
+
+    revised = revised.replace(original, rewrite);
+    rewrites.push({ original, rewrite });
+  }
+
+  return { letter: revised, rewrites };
+}
+
+/**
+ * Rewrite the flagged sentences of a result's letter, re-score it and
+ * append the new version to the iteration history. Returns the result
+ * unchanged when nothing is flagged or no rewrite survived.
+ */
+export async function rewriteFlaggedSentences(
+  result: TailoringResult,
+  options: RewriteOptions = {}
+): Promise<{ result: TailoringResult; rewrites: SentenceRewrite[] }> {
+  const flagged = getFlaggedSentences(result.coverLetter, result.aiDetection);
+  const tone = options.tone ?? result.coverLetterOptions?.tone;
+  const { letter, rewrites } = await rewriteSentences(result.coverLetter, flagged, { ...options, tone });
+  if (rewrites.length === 0) return { result, rewrites };
+
+  throwIfAborted(options.signal);
+  const detection = toDetectionInfo(await detectAIContent(letter, options.signal));
+  const iteration = createIteration('sentence_rewrite', letter, detection, { rewrittenSentences: rewrites.length });
+
+  return { result: appendIteration(result, iteration), rewrites };
+}
+
+/**
+ * Make an iteration the current letter. Results from before iterations
+ * were recorded get their current letter as the first entry.
+ */
+export function appendIteration(result: TailoringResult, iteration: CoverLetterIteration): TailoringResult {
+  const history = result.coverLetterIterations ?? (
+    result.aiDetection
+      ? [createIteration('generated', result.coverLetter, result.aiDetection, { strategy: result.coverLetterStrategy })]
+      : []
+  );
+
+  return {
+    ...result,
+    coverLetter: iteration.coverLetter,
+    aiDetection: iteration.aiDetection,
+    coverLetterIterations: [...history, iteration],
+  };
+}
+
+function addsNumbers(original: string, rewrite: string): boolean {
+  const numbers = (text: string) => text.match(/\d+(?:[.,]\d+)*/g) ?? [];
+  const known = new Set(numbers(original));
+  return numbers(rewrite).some((n) => !known.has(n));
+}
@@ -0,0 +1,64 @@
+/**
+ * Response schemas for the tailoring LLM calls
+ * Shapes mirror JDRequirements and TailoredResume in types.ts
+ */
+
+import { s, Infer } from '../ai/structuredOutput';
+
+const requirementSchema = s.object({
+  text: s.string({ minLength: 1 }),
+  type: s.enum(['skill', 'experience', 'education', 'certification', 'other'] as const),
+  importance: s.enum(['critical', 'high', 'medium', 'low'] as const),
+});
+
+const jdContextSchema = s.object({
+  industry: s.optional(s.string()),
+  teamSize: s.optional(s.string()),
+  workStyle: s.optional(s.enum(['remote', 'hybrid', 'onsite'] as const)),
+  seniorityLevel: s.optional(s.enum(['entry', 'mid', 'senior', 'lead', 'executive'] as const)),
+  companyType: s.optional(s.enum(['startup', 'mid-size', 'enterprise', 'agency'] as const)),
+});
+
+/**
+ * JD analysis response -> JDRequirements
+ */
+export const jdRequirementsSchema = s.object({
+  title: s.string({ minLength: 1 }),
+  company: s.optional(s.string()),
+  required: s.array(requirementSchema, { minItems: 1 }),
+  preferred: s.withDefault(s.array(requirementSchema), () => []),
+  keywords: s.withDefault(s.array(s.string()), () => []),
+  context: s.withDefault(jdContextSchema, () => ({})),
+});
+
+const tailoredExperienceSchema = s.object({
+  title: s.string({ minLength: 1 }),
+  company: s.string(),
+  dateRange: s.optional(s.string()),
+  bullets: s.array(s.string()),
+});
+
+/**
+ * Formatter response -> TailoredResume (education and rawText come from the source resume)
+ */
+export const tailoredResumeSchema = s.object({
+  summary: s.optional(s.string()),
+  skills: s.optional(s.array(s.string())),
+  experiences: s.array(tailoredExperienceSchema, { minItems: 1 }),
+});
+
+/**
+ * Sentence rewrite response -> replacement text per flagged sentence (1-based)
+ */
+export const sentenceRewriteSchema = s.object({
+  rewrites: s.array(
+    s.object({
+      index: s.number(),
+      text: s.string({ minLength: 1 }),
+    })
+  ),
+});
+
+export type JDRequirementsResponse = Infer<typeof jdRequirementsSchema>;
+export type TailoredResumeResponse = Infer<typeof tailoredResumeSchema>;
+export type SentenceRewriteResponse = Infer<typeof sentenceRewriteSchema>;
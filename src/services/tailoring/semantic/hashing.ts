@@ -0,0 +1,105 @@
+/**
+ * Local Hashing Embedder
+ * Offline fallback: feature-hashes words, word pairs and character
+ * n-grams into a fixed-size vector. It catches inflections and shared
+ * phrasing ("optimized conversions" vs "conversion optimization") but
+ * not true paraphrase - that needs a real embedding model.
+ */
+
+import { EmbeddingProvider } from './types';
+
+const DEFAULT_DIMENSIONS = 1024;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'to',
+  'was', 'were', 'will', 'with', 'you', 'your', 'we', 'this', 'using', 'across',
+  'ability', 'able', 'experience', 'strong', 'skills', 'including', 'work', 'working',
+]);
+
+// Feature weights: whole words carry most of the meaning
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.75;
+const NGRAM_WEIGHT = 0.3;
+const NGRAM_SIZE = 4;
+
+/**
+ * 32-bit FNV-1a
+ */
+export function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Crude suffix stripping - enough to line up "optimizing"/"optimization"
+ */
+function stem(word: string): string {
+  return word
+    .replace(/(ations?|ings?|ments?|ers?|ed|es|ly|s)$/, '')
+    .replace(/(iz|is)$/, '');
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9+#.]+/g) ?? [])
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem)
+    .filter(Boolean);
+}
+
+/**
+ * Embed one text into a unit-length vector
+ */
+export function hashEmbed(text: string, dimensions = DEFAULT_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    counts.set(feature, (counts.get(feature) ?? 0) + weight);
+  };
+
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    add(`w:${token}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${tokens[i - 1]} ${token}`, BIGRAM_WEIGHT);
+    if (token.length > NGRAM_SIZE) {
+      for (let j = 0; j <= token.length - NGRAM_SIZE; j++) {
+        add(`n:${token.slice(j, j + NGRAM_SIZE)}`, NGRAM_WEIGHT);
+      }
+    }
+  });
+
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature);
+    // A second hash picks the sign so collisions tend to cancel out
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    // Sublinear term frequency
+    vector[hash % dimensions] += sign * (1 + Math.log(count));
+  }
+
+  return normalize(vector);
+}
+
+/**
+ * Offline embedding provider - deterministic, no network
+ */
+export function createHashingEmbeddingProvider(dimensions = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  return {
+    id: `hashing-${dimensions}`,
+    // One shared word between short texts lands around 0.25
+    floor: 0.25,
+    ceiling: 0.6,
+    async embed(texts) {
+      return texts.map(text => hashEmbed(text, dimensions));
+    },
+  };
+}
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length > 0 ? vector.map(v => v / length) : vector;
+}
@@ -0,0 +1,131 @@
+/**
+ * Semantic Matching Tier
+ * Embeds JD requirements and resume items so the matcher can score
+ * paraphrases the synonym taxonomy doesn't cover. Resume vectors are
+ * cached per resume and provider; requirements are embedded each run.
+ */
+
+import { throwIfAborted } from '../../ai/client';
+import { ResumeData, JDRequirements } from '../types';
+import { createHashingEmbeddingProvider, fnv1a } from './hashing';
+import { getDefaultEmbeddingProvider } from './providers';
+import { EmbeddingProvider, SemanticIndex, SemanticOptions } from './types';
+
+export type { EmbeddingProvider, EmbedOptions, SemanticIndex, SemanticOptions } from './types';
+export { createHashingEmbeddingProvider, hashEmbed } from './hashing';
+export {
+  createOpenAIEmbeddingProvider,
+  getDefaultEmbeddingProvider,
+  setDefaultEmbeddingProvider,
+} from './providers';
+
+// Semantic scores land in 40-90: enough to match, never "exact"
+const MIN_SEMANTIC_SCORE = 40;
+const MAX_SEMANTIC_SCORE = 90;
+const MAX_CACHED_RESUMES = 5;
+
+// provider id + resume hash -> item text -> vector (most recent last)
+const resumeVectorCache = new Map<string, Map<string, number[]>>();
+
+/**
+ * Embed everything the matcher compares for this resume/JD pair.
+ * Returns null when the tier can't run (provider failed and no fallback).
+ */
+export async function buildSemanticIndex(
+  resume: ResumeData,
+  jd: JDRequirements,
+  options: SemanticOptions = {}
+): Promise<SemanticIndex | null> {
+  const provider = options.provider ?? getDefaultEmbeddingProvider();
+  const fallback = options.fallback === undefined ? createHashingEmbeddingProvider() : options.fallback;
+  const onError = options.onError ?? console.error;
+
+  try {
+    return await embedPair(provider, resume, jd, options);
+  } catch (error) {
+    throwIfAborted(options.signal);
+    if (!fallback || fallback.id === provider.id) {
+      onError('Semantic matching unavailable:', error);
+      return null;
+    }
+    onError(`Embedding provider ${provider.id} failed, using ${fallback.id}:`, error);
+    return embedPair(fallback, resume, jd, options);
+  }
+}
+
+/**
+ * Forget cached resume vectors (e.g. after the resume is edited)
+ */
+export function clearSemanticCache(): void {
+  resumeVectorCache.clear();
+}
+
+async function embedPair(
+  provider: EmbeddingProvider,
+  resume: ResumeData,
+  jd: JDRequirements,
+  { signal, onUsage }: SemanticOptions
+): Promise<SemanticIndex> {
+  const requirementTexts = unique([...jd.required, ...jd.preferred].map(r => r.text));
+  const itemTexts = unique([
+    ...resume.skills.map(s => s.name),
+    ...resume.experiences.flatMap(e => e.bullets.map(b => b.text)),
+  ]);
+
+  const cacheKey = `${provider.id}:${fnv1a(resume.rawText).toString(36)}:${resume.rawText.length}`;
+  const itemVectors = resumeVectorCache.get(cacheKey) ?? new Map<string, number[]>();
+  const uncached = itemTexts.filter(text => !itemVectors.has(text));
+
+  // One request for everything not cached yet
+  const vectors = await provider.embed([...requirementTexts, ...uncached], { signal, onUsage });
+  throwIfAborted(signal);
+
+  const requirementVectors = new Map<string, number[]>();
+  requirementTexts.forEach((text, i) => requirementVectors.set(text, vectors[i]));
+  uncached.forEach((text, i) => itemVectors.set(text, vectors[requirementTexts.length + i]));
+
+  remember(cacheKey, itemVectors);
+
+  const similarity = (requirement: string, item: string) => {
+    const a = requirementVectors.get(requirement);
+    const b = itemVectors.get(item);
+    return a && b ? cosine(a, b) : undefined;
+  };
+
+  return {
+    provider: provider.id,
+    similarity,
+    score(requirement, item) {
+      const sim = similarity(requirement, item);
+      if (sim === undefined || sim < provider.floor) return 0;
+      const scaled = Math.min(1, (sim - provider.floor) / (provider.ceiling - provider.floor));
+      return Math.round(MIN_SEMANTIC_SCORE + scaled * (MAX_SEMANTIC_SCORE - MIN_SEMANTIC_SCORE));
+    },
+  };
+}
+
+function remember(key: string, vectors: Map<string, number[]>): void {
+  resumeVectorCache.delete(key);
+  resumeVectorCache.set(key, vectors);
+  while (resumeVectorCache.size > MAX_CACHED_RESUMES) {
+    const oldest = resumeVectorCache.keys().next().value;
+    if (oldest === undefined) break;
+    resumeVectorCache.delete(oldest);
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function unique(texts: string[]): string[] {
+  return Array.from(new Set(texts.filter(text => text.trim())));
+}
@@ -0,0 +1,80 @@
+/**
+ * Embedding Providers
+ * OpenAI (or any OpenAI-compatible /embeddings endpoint) plus the default
+ * selection used when a run doesn't pass its own provider
+ */
+
+import OpenAI from 'openai';
+import { AIError } from '../../ai/types';
+import { createHashingEmbeddingProvider } from './hashing';
+import { EmbeddingProvider } from './types';
+
+const API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY || '';
+const EMBEDDING_TIMEOUT = 15000;
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+/**
+ * OpenAI embeddings (text-embedding-3-small by default). Pass baseURL for
+ * OpenAI-compatible local servers such as Ollama.
+ */
+export function createOpenAIEmbeddingProvider(
+  apiKey: string,
+  options: { baseURL?: string; model?: string } = {}
+): EmbeddingProvider {
+  const model = options.model ?? 'text-embedding-3-small';
+  const client = new OpenAI({
+    apiKey,
+    baseURL: options.baseURL,
+    timeout: EMBEDDING_TIMEOUT,
+    maxRetries: 0, // A failure falls back to local embeddings instead
+  });
+
+  return {
+    id: `openai:${model}`,
+    // Unrelated sentences sit around 0.1-0.2 with this model family
+    floor: 0.3,
+    ceiling: 0.65,
+    async embed(texts, embedOptions = {}) {
+      if (texts.length === 0) return [];
+      const startedAt = Date.now();
+      const response = await client.embeddings.create(
+        { model, input: texts },
+        { signal: embedOptions.signal }
+      );
+      embedOptions.onUsage?.({
+        provider: 'openai',
+        model,
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: 0,
+        durationMs: Date.now() - startedAt,
+        estimated: !response.usage,
+      });
+      const vectors = [...response.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+      if (vectors.length !== texts.length) {
+        throw new AIError('invalid_response', `Expected ${texts.length} embeddings, got ${vectors.length}`);
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Provider used when none is passed: OpenAI when a key is configured,
+ * otherwise the local hashing embedder
+ */
+export function getDefaultEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    defaultProvider = API_KEY
+      ? createOpenAIEmbeddingProvider(API_KEY)
+      : createHashingEmbeddingProvider();
+  }
+  return defaultProvider;
+}
+
+/**
+ * Replace the default provider (tests, or a different embedding backend)
+ */
+export function setDefaultEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  defaultProvider = provider;
+}
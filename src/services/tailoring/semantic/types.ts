@@ -0,0 +1,42 @@
+/**
+ * Semantic Matching Types
+ * Embedding providers and the per-run index the matcher queries
+ */
+
+import { LLMUsage } from '../../ai/types';
+
+export interface EmbedOptions {
+  signal?: AbortSignal;
+  // Remote providers report the tokens each request billed
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+export interface EmbeddingProvider {
+  // Part of the vector cache key - change it when the model changes
+  id: string;
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+  // Cosine similarity below `floor` means unrelated, at `ceiling` a paraphrase.
+  // Each model spreads scores differently, so the provider calibrates.
+  floor: number;
+  ceiling: number;
+}
+
+export interface SemanticOptions {
+  // Defaults to the configured remote provider, or the local hashing embedder
+  provider?: EmbeddingProvider;
+  // Used when the provider fails (offline, no key); pass null to skip the tier instead
+  fallback?: EmbeddingProvider | null;
+  signal?: AbortSignal;
+  onUsage?: (usage: LLMUsage) => void;
+  // Receives provider failures (console.error by default)
+  onError?: (message: string, error: unknown) => void;
+}
+
+// Similarities between one JD's requirements and one resume's items
+export interface SemanticIndex {
+  provider: string;
+  // Cosine similarity, or undefined when either text wasn't embedded
+  similarity(requirement: string, item: string): number | undefined;
+  // Similarity mapped onto the matcher's 0-100 scale (0 below the floor)
+  score(requirement: string, item: string): number;
+}
@@ -0,0 +1,29 @@
+/**
+ * Skill & Domain Taxonomy
+ * Versioned synonym/domain packs, the loader the matcher uses and the
+ * validator behind `npm run validate:taxonomy`
+ */
+
+export {
+  BUILT_IN_PACKS,
+  CUSTOM_PACK_ID,
+  loadTaxonomy,
+  getTaxonomy,
+  normalizeTerm,
+  checkPackFormat,
+  type LoadTaxonomyOptions,
+} from './loader';
+export { validateTaxonomy, hasTaxonomyErrors } from './validate';
+export {
+  TAXONOMY_FORMAT,
+  TaxonomyError,
+  type TaxonomyPack,
+  type SynonymCategory,
+  type DomainPackEntry,
+  type CustomSynonym,
+  type SynonymGroup,
+  type DomainDefinition,
+  type Taxonomy,
+  type TaxonomyIssue,
+  type TaxonomyIssueType,
+} from './types';
@@ -0,0 +1,183 @@
+/**
+ * Taxonomy Loader
+ * Compiles built-in packs plus a user's custom synonyms into the lookup
+ * the matcher consumes. Packs are plain JSON so they can be edited and
+ * versioned without touching matcher code.
+ */
+
+import core from './packs/core.json';
+import healthcare from './packs/healthcare.json';
+import legal from './packs/legal.json';
+import education from './packs/education.json';
+import trades from './packs/trades.json';
+import hospitality from './packs/hospitality.json';
+import {
+  CustomSynonym,
+  DomainDefinition,
+  SynonymGroup,
+  Taxonomy,
+  TAXONOMY_FORMAT,
+  TaxonomyError,
+  TaxonomyIssue,
+  TaxonomyPack,
+} from './types';
+
+// JSON imports are typed by their literal shape, not as packs
+export const BUILT_IN_PACKS = [
+  core,
+  healthcare,
+  legal,
+  education,
+  trades,
+  hospitality,
+] as unknown as TaxonomyPack[];
+
+export const CUSTOM_PACK_ID = 'custom';
+
+export interface LoadTaxonomyOptions {
+  // Defaults to every built-in pack
+  packs?: TaxonomyPack[];
+  customSynonyms?: CustomSynonym[];
+}
+
+let defaultTaxonomy: Taxonomy | null = null;
+
+/**
+ * Compile packs into a taxonomy. Groups with the same canonical term are
+ * merged, so a pack (or the user) can extend a term another pack defines.
+ */
+export function loadTaxonomy(options: LoadTaxonomyOptions = {}): Taxonomy {
+  const packs = options.packs ?? BUILT_IN_PACKS;
+  const groups = new Map<string, SynonymGroup>();
+  const domains = new Map<string, DomainDefinition>();
+
+  for (const pack of packs) {
+    const issues = checkPackFormat(pack);
+    if (issues.length > 0) {
+      throw new TaxonomyError(`Invalid taxonomy pack "${pack?.id ?? 'unknown'}": ${issues[0].message}`, issues);
+    }
+
+    for (const category of pack.synonyms) {
+      for (const [canonical, aliases] of Object.entries(category.synonyms)) {
+        addGroup(groups, canonical, aliases, pack.id);
+      }
+    }
+
+    for (const [id, entry] of Object.entries(pack.domains ?? {})) {
+      const existing = domains.get(id);
+      if (existing) {
+        existing.indicators = union(existing.indicators, entry.indicators.map(normalizeTerm));
+        existing.related = union(existing.related, entry.related ?? []);
+      } else {
+        domains.set(id, {
+          id,
+          indicators: union([], entry.indicators.map(normalizeTerm)),
+          related: [...(entry.related ?? [])],
+        });
+      }
+    }
+  }
+
+  const custom = (options.customSynonyms ?? []).filter(s => normalizeTerm(s.term));
+  for (const synonym of custom) {
+    addGroup(groups, synonym.term, synonym.aliases, CUSTOM_PACK_ID);
+  }
+
+  const versions = packs.map(pack => `${pack.id}@${pack.version}`);
+  if (custom.length > 0) versions.push(CUSTOM_PACK_ID);
+
+  return {
+    version: versions.join('+'),
+    packs: packs.map(pack => pack.id),
+    synonyms: Array.from(groups.values()),
+    domains: Array.from(domains.values()),
+  };
+}
+
+/**
+ * The built-in taxonomy, compiled once
+ */
+export function getTaxonomy(): Taxonomy {
+  if (!defaultTaxonomy) {
+    defaultTaxonomy = loadTaxonomy();
+  }
+  return defaultTaxonomy;
+}
+
+/**
+ * Lowercase and collapse whitespace - the form every term is matched in
+ */
+export function normalizeTerm(term: string): string {
+  return (term ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Structural checks on a pack file. Anything reported here would break
+ * compilation, so loadTaxonomy refuses the pack.
+ */
+export function checkPackFormat(pack: TaxonomyPack): TaxonomyIssue[] {
+  const issues: TaxonomyIssue[] = [];
+  const fail = (message: string) =>
+    issues.push({ type: 'invalid_format', severity: 'error', message, pack: pack?.id });
+
+  if (!pack || typeof pack !== 'object') {
+    fail('Pack is not an object');
+    return issues;
+  }
+  if (pack.format !== TAXONOMY_FORMAT) {
+    fail(`Unsupported format ${pack.format} (expected ${TAXONOMY_FORMAT})`);
+  }
+  if (typeof pack.id !== 'string' || !pack.id) fail('Missing id');
+  if (typeof pack.version !== 'string' || !pack.version) fail('Missing version');
+  if (!Array.isArray(pack.synonyms)) {
+    fail('synonyms must be an array of categories');
+    return issues;
+  }
+
+  for (const category of pack.synonyms) {
+    if (!category || typeof category.synonyms !== 'object' || category.synonyms === null) {
+      fail(`Category "${category?.category ?? '?'}" has no synonyms object`);
+      continue;
+    }
+    for (const [canonical, aliases] of Object.entries(category.synonyms)) {
+      if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string')) {
+        fail(`Aliases for "${canonical}" must be a list of strings`);
+      }
+    }
+  }
+
+  for (const [id, entry] of Object.entries(pack.domains ?? {})) {
+    if (!entry || !Array.isArray(entry.indicators)) {
+      fail(`Domain "${id}" has no indicators list`);
+    } else if (entry.related !== undefined && !Array.isArray(entry.related)) {
+      fail(`Domain "${id}" related must be a list`);
+    }
+  }
+
+  return issues;
+}
+
+function addGroup(
+  groups: Map<string, SynonymGroup>,
+  canonical: string,
+  aliases: string[],
+  pack: string
+): void {
+  const key = normalizeTerm(canonical);
+  const terms = [key, ...aliases.map(normalizeTerm)].filter(Boolean);
+  const existing = groups.get(key);
+
+  if (existing) {
+    existing.terms = union(existing.terms, terms);
+  } else {
+    groups.set(key, { canonical: key, terms: union([], terms), pack });
+  }
+}
+
+function union(base: string[], extra: string[]): string[] {
+  const result = [...base];
+  for (const item of extra) {
+    if (!result.includes(item)) result.push(item);
+  }
+  return result;
+}
@@ -0,0 +1,92 @@
+/**
+ * Taxonomy Types
+ * Skill synonyms and domain indicators used by the matcher, stored as
+ * versioned JSON packs (see packs/) and compiled into one lookup at runtime
+ */
+
+// Bump when the pack file layout changes
+export const TAXONOMY_FORMAT = 1;
+
+// ============================================
+// PACK FILES
+// ============================================
+
+export interface SynonymCategory {
+  category: string;
+  // canonical term -> aliases that mean the same thing
+  synonyms: Record<string, string[]>;
+}
+
+export interface DomainPackEntry {
+  indicators: string[];
+  // Domains close enough that a resume in one can apply to the other
+  related?: string[];
+}
+
+export interface TaxonomyPack {
+  format: number;
+  id: string;
+  name: string;
+  description?: string;
+  version: string;
+  synonyms: SynonymCategory[];
+  domains?: Record<string, DomainPackEntry>;
+}
+
+// User-defined synonyms, stored on the profile
+export interface CustomSynonym {
+  term: string;
+  aliases: string[];
+}
+
+// ============================================
+// COMPILED TAXONOMY
+// ============================================
+
+export interface SynonymGroup {
+  canonical: string;
+  // Canonical first, then aliases - all lowercase
+  terms: string[];
+  pack: string;
+}
+
+export interface DomainDefinition {
+  id: string;
+  indicators: string[];
+  related: string[];
+}
+
+export interface Taxonomy {
+  // e.g. "core@1.0.0+healthcare@1.0.0+custom"
+  version: string;
+  packs: string[];
+  synonyms: SynonymGroup[];
+  domains: DomainDefinition[];
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export type TaxonomyIssueType =
+  | 'invalid_format'
+  | 'cycle'
+  | 'conflicting_alias'
+  | 'duplicate_alias'
+  | 'short_alias'
+  | 'unknown_related_domain';
+
+export interface TaxonomyIssue {
+  type: TaxonomyIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  pack?: string;
+  terms?: string[];
+}
+
+export class TaxonomyError extends Error {
+  constructor(message: string, public issues: TaxonomyIssue[] = []) {
+    super(message);
+    this.name = 'TaxonomyError';
+  }
+}
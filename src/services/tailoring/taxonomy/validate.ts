@@ -0,0 +1,190 @@
+/**
+ * Taxonomy Validation
+ * Checks packs (and custom synonyms) before they ship or get saved:
+ * - cycles: A lists B as an alias while B, directly or through other
+ *   groups, lists A - the groups stop meaning anything distinct
+ * - conflicting aliases: one alias claimed by two different terms
+ * - short aliases: the matcher does substring checks, so "ai" or "rn"
+ *   would match inside ordinary words
+ */
+
+import { BUILT_IN_PACKS, CUSTOM_PACK_ID, checkPackFormat, normalizeTerm } from './loader';
+import { CustomSynonym, TaxonomyIssue, TaxonomyPack } from './types';
+
+// Aliases this short match inside too many unrelated words
+const MIN_ALIAS_LENGTH = 3;
+
+interface Claim {
+  canonical: string;
+  pack: string;
+}
+
+/**
+ * Validate packs and custom synonyms together, as they would be loaded
+ */
+export function validateTaxonomy(
+  packs: TaxonomyPack[] = BUILT_IN_PACKS,
+  customSynonyms: CustomSynonym[] = []
+): TaxonomyIssue[] {
+  const issues: TaxonomyIssue[] = [];
+  const validPacks: TaxonomyPack[] = [];
+
+  for (const pack of packs) {
+    const formatIssues = checkPackFormat(pack);
+    issues.push(...formatIssues);
+    if (formatIssues.length === 0) validPacks.push(pack);
+  }
+
+  // canonical -> aliases, merged across packs the way the loader does it
+  const graph = new Map<string, Set<string>>();
+  const owners = new Map<string, string>();
+  // alias -> every group that lists it
+  const claims = new Map<string, Claim[]>();
+
+  const addEntry = (term: string, aliases: string[], pack: string) => {
+    const canonical = normalizeTerm(term);
+    if (!graph.has(canonical)) {
+      graph.set(canonical, new Set());
+      owners.set(canonical, pack);
+    }
+    const edges = graph.get(canonical)!;
+
+    for (const raw of aliases) {
+      const alias = normalizeTerm(raw);
+      if (!alias) continue;
+
+      if (alias === canonical || edges.has(alias)) {
+        issues.push({
+          type: 'duplicate_alias',
+          severity: 'warning',
+          message: `"${alias}" is listed twice for "${canonical}"`,
+          pack,
+          terms: [canonical, alias],
+        });
+        continue;
+      }
+      edges.add(alias);
+
+      if (alias.length < MIN_ALIAS_LENGTH) {
+        issues.push({
+          type: 'short_alias',
+          severity: 'warning',
+          message: `"${alias}" (for "${canonical}") is short enough to match inside other words`,
+          pack,
+          terms: [canonical, alias],
+        });
+      }
+
+      const list = claims.get(alias) ?? [];
+      list.push({ canonical, pack });
+      claims.set(alias, list);
+    }
+  };
+
+  for (const pack of validPacks) {
+    for (const category of pack.synonyms) {
+      for (const [canonical, aliases] of Object.entries(category.synonyms)) {
+        addEntry(canonical, aliases, pack.id);
+      }
+    }
+  }
+
+  customSynonyms.forEach((synonym, index) => {
+    if (!normalizeTerm(synonym?.term) || !Array.isArray(synonym.aliases)) {
+      issues.push({
+        type: 'invalid_format',
+        severity: 'error',
+        message: `Custom synonym ${index + 1} needs a term and a list of aliases`,
+        pack: CUSTOM_PACK_ID,
+      });
+      return;
+    }
+    addEntry(synonym.term, synonym.aliases, CUSTOM_PACK_ID);
+  });
+
+  issues.push(...findCycles(graph, owners));
+
+  // An alias that is itself a canonical term is a narrower/broader link,
+  // not a conflict - findCycles covers those
+  for (const [alias, list] of claims) {
+    if (list.length < 2 || graph.has(alias)) continue;
+    const canonicals = list.map(claim => claim.canonical);
+    issues.push({
+      type: 'conflicting_alias',
+      severity: 'warning',
+      message: `"${alias}" is an alias of ${canonicals.map(c => `"${c}"`).join(' and ')}`,
+      pack: list[list.length - 1].pack,
+      terms: [alias, ...canonicals],
+    });
+  }
+
+  const domainIds = new Set(validPacks.flatMap(pack => Object.keys(pack.domains ?? {})));
+  for (const pack of validPacks) {
+    for (const [id, entry] of Object.entries(pack.domains ?? {})) {
+      for (const related of entry.related ?? []) {
+        if (!domainIds.has(related)) {
+          issues.push({
+            type: 'unknown_related_domain',
+            severity: 'warning',
+            message: `Domain "${id}" lists unknown related domain "${related}"`,
+            pack: pack.id,
+            terms: [id, related],
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * True when the issues include anything that should block saving or shipping
+ */
+export function hasTaxonomyErrors(issues: TaxonomyIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Report each cycle once, following alias -> canonical edges
+ */
+function findCycles(graph: Map<string, Set<string>>, owners: Map<string, string>): TaxonomyIssue[] {
+  const issues: TaxonomyIssue[] = [];
+  const seen = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    path.push(node);
+
+    for (const next of graph.get(node) ?? []) {
+      if (!graph.has(next)) continue;
+      if (state.get(next) === 'visiting') {
+        const cycle = path.slice(path.indexOf(next));
+        const key = [...cycle].sort().join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          issues.push({
+            type: 'cycle',
+            severity: 'error',
+            message: `Synonym cycle: ${[...cycle, next].map(t => `"${t}"`).join(' -> ')}`,
+            pack: owners.get(next),
+            terms: cycle,
+          });
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+
+    path.pop();
+    state.set(node, 'done');
+  };
+
+  for (const node of graph.keys()) {
+    if (!state.has(node)) visit(node);
+  }
+
+  return issues;
+}
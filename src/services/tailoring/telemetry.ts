@@ -0,0 +1,79 @@
+/**
+ * Tailoring Telemetry
+ * Records per-stage durations and LLM token usage for a single run
+ */
+
+import { StageTrace, TailoringTrace, TraceStage } from './types';
+import { AICallContext, LLMUsage } from '../ai/types';
+import { estimateCost } from '../ai/pricing';
+
+export interface TraceRecorder {
+  /** Time a stage; the callback gets an AI context that attributes usage to the stage */
+  time<T>(
+    stage: TraceStage,
+    fn: (context: AICallContext, entry: StageTrace) => T | Promise<T>
+  ): Promise<T>;
+  /** Finish the run and total everything up */
+  finish(): TailoringTrace;
+}
+
+/**
+ * Create a recorder for one tailoring run
+ */
+export function createTraceRecorder(signal?: AbortSignal): TraceRecorder {
+  const runStart = Date.now();
+  const stages: StageTrace[] = [];
+
+  return {
+    async time(stage, fn) {
+      const entry: StageTrace = { stage, startedAt: Date.now() - runStart, durationMs: 0 };
+      stages.push(entry);
+
+      const context: AICallContext = {
+        signal,
+        onUsage: (usage) => addUsage(entry, usage),
+      };
+
+      try {
+        return await fn(context, entry);
+      } finally {
+        entry.durationMs = Date.now() - runStart - entry.startedAt;
+      }
+    },
+
+    finish() {
+      return summarizeTrace(stages, Date.now() - runStart);
+    },
+  };
+}
+
+/**
+ * Fold one LLM call into a stage entry
+ */
+function addUsage(entry: StageTrace, usage: LLMUsage): void {
+  entry.provider = usage.provider;
+  entry.model = usage.model;
+  entry.llmCalls = (entry.llmCalls ?? 0) + 1;
+  entry.promptTokens = (entry.promptTokens ?? 0) + usage.promptTokens;
+  entry.completionTokens = (entry.completionTokens ?? 0) + usage.completionTokens;
+  entry.tokensEstimated = entry.tokensEstimated || usage.estimated;
+
+  const cost = estimateCost(usage.provider, usage.model, usage);
+  entry.estimatedCost =
+    cost === undefined || (entry.llmCalls > 1 && entry.estimatedCost === undefined)
+      ? undefined
+      : (entry.estimatedCost ?? 0) + cost;
+}
+
+/**
+ * Totals across stages
+ */
+function summarizeTrace(stages: StageTrace[], totalDurationMs: number): TailoringTrace {
+  return {
+    stages,
+    totalDurationMs,
+    promptTokens: stages.reduce((sum, s) => sum + (s.promptTokens ?? 0), 0),
+    completionTokens: stages.reduce((sum, s) => sum + (s.completionTokens ?? 0), 0),
+    estimatedCost: stages.reduce((sum, s) => sum + (s.estimatedCost ?? 0), 0),
+  };
+}
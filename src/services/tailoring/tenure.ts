@@ -0,0 +1,484 @@
+/**
+ * Tenure & Seniority
+ * Parses Experience.dateRange into month ranges, merges overlapping jobs,
+ * and measures total, per-domain and per-skill years. Years-of-experience
+ * requirements and JD seniority are evaluated against those numbers.
+ */
+
+import {
+  Experience,
+  ResumeData,
+  SeniorityFit,
+  SeniorityLevel,
+  YearsEvaluation,
+} from './types';
+import { normalizeTerm, type DomainDefinition, type Taxonomy } from './taxonomy';
+
+// Months since year 0 - January 2020 is 2020 * 12
+export interface MonthRange {
+  start: number;
+  end: number; // Exclusive
+  ongoing: boolean;
+}
+
+// Roles with no (readable) dates still count for something
+const UNDATED_ROLE_MONTHS = 12;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
+};
+
+// "Summer 2021" - the season's first month
+const SEASONS: Record<string, number> = { winter: 0, spring: 2, summer: 5, fall: 8, autumn: 8 };
+
+const ONGOING = /\b(present|current(ly)?|now|today|ongoing)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+
+export const SENIORITY_ORDER: SeniorityLevel[] = ['entry', 'mid', 'senior', 'lead', 'executive'];
+
+// Most recent title decides the level when it says one
+const TITLE_LEVELS: Array<[RegExp, SeniorityLevel]> = [
+  [/\b(vice president|vp|svp|evp|chief|c[etfmor]o|director|head of|president|founder)\b/i, 'executive'],
+  [/\b(lead|manager|principal|staff)\b/i, 'lead'],
+  [/\b(senior|sr\.?)\b/i, 'senior'],
+  [/\b(intern|junior|jr\.?|assistant|trainee|apprentice|associate|coordinator)\b/i, 'entry'],
+];
+
+// Years of experience typical for each level, used when titles don't say
+const LEVEL_MIN_YEARS: Record<SeniorityLevel, number> = {
+  entry: 0,
+  mid: 2,
+  senior: 5,
+  lead: 8,
+  executive: 12,
+};
+
+// Subjects that mean "any experience"
+const GENERIC_SUBJECT = /^(of\s+)?(relevant|related|professional|work|working|industry|full[- ]time|hands[- ]on|prior|previous|total)?\s*(work\s+)?(experience)?$/i;
+
+const SUBJECT_STOPWORDS = new Set([
+  'experience', 'years', 'year', 'with', 'and', 'the', 'for', 'from', 'including', 'relevant', 'related',
+  'professional', 'working', 'work', 'industry', 'hands-on', 'strong', 'proven', 'modern', 'least', 'minimum',
+  'environment', 'role', 'roles', 'position', 'similar', 'equivalent', 'field', 'setting', 'fast-paced',
+]);
+
+// ============================================
+// DATE RANGES
+// ============================================
+
+/**
+ * Parse a resume date range: "Jan 2020 - Present", "03/2019 – 06/2021",
+ * "2019-01 to 2020-12", "2018 - 2021", "Summer 2021", "2022".
+ * Month-level ranges include their end month; year-only ranges run
+ * January to January ("2018 - 2021" is three years, "2022" is one).
+ */
+export function parseDateRange(dateRange: string, now: Date = new Date()): MonthRange | null {
+  const text = dateRange.toLowerCase().replace(/[–—]/g, '-').replace(/’/g, "'");
+  const current = now.getFullYear() * 12 + now.getMonth();
+
+  // span: months a lone date stands for (a month, a season, a year)
+  const dates: Array<{ month: number; precise: boolean; span: number }> = [];
+  const datePattern =
+    /\b(\d{1,2})[/.-](\d{4})\b|\b(?:(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?\s*,?\s*|(winter|spring|summer|fall|autumn)\s+)?('?\d{2}\b|\d{4})(?:[-/.](\d{1,2})\b)?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = datePattern.exec(text))) {
+    const [, numericMonth, numericYear, monthName, season, yearText, isoMonth] = match;
+
+    if (numericMonth && numericYear) {
+      // 03/2019
+      const month = Number(numericMonth) - 1;
+      if (month >= 0 && month < 12) dates.push({ month: Number(numericYear) * 12 + month, precise: true, span: 1 });
+      continue;
+    }
+
+    const year = toYear(yearText, !!monthName || !!season);
+    if (year === null) continue;
+
+    if (isoMonth && /^\d{4}$/.test(yearText) && Number(isoMonth) >= 1 && Number(isoMonth) <= 12) {
+      // 2019-03
+      dates.push({ month: year * 12 + Number(isoMonth) - 1, precise: true, span: 1 });
+    } else if (monthName) {
+      dates.push({ month: year * 12 + MONTHS[monthName.slice(0, monthName === 'sept' ? 4 : 3)], precise: true, span: 1 });
+    } else if (season) {
+      dates.push({ month: year * 12 + SEASONS[season], precise: true, span: 3 });
+    } else {
+      dates.push({ month: year * 12, precise: false, span: 12 });
+    }
+  }
+
+  if (dates.length === 0) return null;
+
+  const start = dates[0];
+  const ongoing = ONGOING.test(text) || /\bsince\b/.test(text);
+  let end: number;
+  if (ongoing) {
+    end = current + 1;
+  } else if (dates.length > 1) {
+    const last = dates[dates.length - 1];
+    end = last.precise ? last.month + 1 : last.month;
+    // "2021 - 2021" or "Jan 2020 - 2020": at least to the end of that year
+    if (!last.precise && end <= start.month) end = last.month + 12;
+  } else {
+    end = start.month + start.span;
+  }
+
+  if (end <= start.month || start.month > current + 1) return null;
+  return { start: start.month, end: Math.min(end, current + 1), ongoing };
+}
+
+function toYear(text: string, hasMonth: boolean): number | null {
+  if (text.startsWith("'") || (text.length === 2 && hasMonth)) {
+    // Mar '19 / Mar 19
+    const short = Number(text.replace("'", ''));
+    return short + (short > 50 ? 1900 : 2000);
+  }
+  if (text.length !== 4) return null;
+  const year = Number(text);
+  return year >= 1950 && year <= 2100 ? year : null;
+}
+
+/**
+ * Merge overlapping and back-to-back ranges
+ */
+export function mergeRanges(ranges: MonthRange[]): MonthRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: MonthRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+      last.ongoing = last.ongoing || range.ongoing;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Years covered by a set of roles, counting overlapping jobs once
+ */
+export function yearsForExperiences(experiences: Experience[], now: Date = new Date()): number {
+  const ranges: MonthRange[] = [];
+  let undatedMonths = 0;
+
+  for (const experience of experiences) {
+    const range = experience.dateRange ? parseDateRange(experience.dateRange, now) : null;
+    if (range) ranges.push(range);
+    else undatedMonths += UNDATED_ROLE_MONTHS;
+  }
+
+  const months = mergeRanges(ranges).reduce((sum, range) => sum + range.end - range.start, 0) + undatedMonths;
+  return Math.round((months / 12) * 10) / 10;
+}
+
+// ============================================
+// TENURE
+// ============================================
+
+/**
+ * Total years of experience across the resume
+ */
+export function totalYearsOfExperience(resume: ResumeData, now: Date = new Date()): number {
+  return yearsForExperiences(resume.experiences, now);
+}
+
+/**
+ * Years per taxonomy domain ("marketing": 5.5, "sales": 2)
+ */
+export function tenureByDomain(resume: ResumeData, taxonomy: Taxonomy, now: Date = new Date()): Record<string, number> {
+  const tenure: Record<string, number> = {};
+  for (const domain of taxonomy.domains) {
+    const roles = resume.experiences.filter((experience) => roleInDomain(experience, domain));
+    if (roles.length > 0) tenure[domain.id] = yearsForExperiences(roles, now);
+  }
+  return tenure;
+}
+
+/**
+ * Years in roles that used a skill or its synonyms ("react", "hubspot")
+ */
+export function tenureForTerm(
+  resume: ResumeData,
+  term: string,
+  taxonomy: Taxonomy,
+  now: Date = new Date()
+): number {
+  const terms = expandTerm(normalizeTerm(term), taxonomy);
+  const roles = resume.experiences.filter((experience) => {
+    const text = roleText(experience);
+    return terms.some((t) => containsWord(text, t));
+  });
+  return yearsForExperiences(roles, now);
+}
+
+function roleText(experience: Experience): string {
+  return normalizeTerm(
+    [experience.title, experience.company, ...experience.bullets.map((bullet) => bullet.text)].join(' ')
+  );
+}
+
+/**
+ * A role belongs to a domain when its title names it, or its text has
+ * two or more of the domain's indicators
+ */
+function roleInDomain(experience: Experience, domain: DomainDefinition): boolean {
+  const title = normalizeTerm(experience.title);
+  if ([domain.id, ...domain.indicators].some((indicator) => containsWord(title, indicator))) return true;
+  const text = roleText(experience);
+  return domain.indicators.filter((indicator) => containsWord(text, indicator)).length >= 2;
+}
+
+function expandTerm(term: string, taxonomy: Taxonomy): string[] {
+  const group = taxonomy.synonyms.find(({ terms }) => terms.includes(term));
+  return group ? group.terms : [term];
+}
+
+/**
+ * Whole-word match, allowing a plural ("api" finds "apis")
+ */
+function containsWord(text: string, word: string): boolean {
+  return wordIndex(text, word) >= 0;
+}
+
+// ============================================
+// YEARS REQUIREMENTS
+// ============================================
+
+/**
+ * "5+ years of B2B SaaS marketing experience" ->
+ * { minYears: 5, subject: 'b2b saas marketing' }
+ */
+export function parseYearsRequirement(
+  text: string
+): { minYears: number; maxYears?: number; subject: string } | null {
+  const lower = normalizeTerm(text);
+  const number = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+  const match = new RegExp(
+    `(?:at least |minimum (?:of )?|over |more than )?${number}\\s*(?:\\+|plus)?\\s*(?:(?:-|to)\\s*${number}\\s*)?(?:years?|yrs?)(?:'|’)?`
+  ).exec(lower);
+  if (!match) return null;
+
+  const minYears = toNumber(match[1]);
+  const maxYears = match[2] ? toNumber(match[2]) : undefined;
+
+  // What follows "years": "of B2B SaaS marketing experience, preferably..."
+  const subject = lower
+    .slice(match.index + match[0].length)
+    .split(/[,;(]|\b(?:preferably|ideally|including|such as|especially)\b/)[0]
+    .replace(/\b(experience|exp)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^\s*((of|in|with|as|doing|working|using|a|an|the)\s+)+/, '')
+    .replace(/\s(with|in|of|using)\s*$/, '')
+    .trim();
+
+  // "3+ years of experience with React" - the subject is after "experience"
+  const afterExperience = /experience (?:with|in|using|as|on) ([^,;(]+)/.exec(lower)?.[1]?.trim();
+
+  return {
+    minYears,
+    maxYears,
+    subject: GENERIC_SUBJECT.test(subject) && afterExperience ? afterExperience : subject,
+  };
+}
+
+function toNumber(text: string): number {
+  return NUMBER_WORDS[text] ?? Number(text);
+}
+
+/**
+ * Compare a years requirement with the resume. The subject ("B2B SaaS
+ * marketing", "React") narrows which roles count; generic asks ("5+ years
+ * of professional experience") use total tenure.
+ */
+export function evaluateYearsRequirement(
+  requirement: string,
+  resume: ResumeData,
+  taxonomy: Taxonomy,
+  now: Date = new Date()
+): YearsEvaluation | null {
+  const parsed = parseYearsRequirement(requirement);
+  if (!parsed) return null;
+
+  const totalYears = totalYearsOfExperience(resume, now);
+  const relevant = GENERIC_SUBJECT.test(parsed.subject) ? null : relevantRoles(parsed.subject, resume, taxonomy);
+  const actualYears = relevant ? yearsForExperiences(relevant, now) : totalYears;
+
+  return {
+    requiredYears: parsed.minYears,
+    maxYears: parsed.maxYears,
+    subject: relevant ? parsed.subject : undefined,
+    actualYears,
+    totalYears,
+    score: scoreYears(actualYears, parsed.minYears),
+  };
+}
+
+function scoreYears(actualYears: number, requiredYears: number): number {
+  if (actualYears >= requiredYears) return 90;
+  if (actualYears >= requiredYears * 0.8) return 75;
+  if (actualYears >= requiredYears * 0.6) return 60;
+  if (actualYears > 0) return 40;
+  return 0;
+}
+
+/**
+ * Roles that count toward a subject. The domain named last wins
+ * ("enterprise software sales" is sales); otherwise roles sharing a skill
+ * (with synonyms), otherwise roles with most of its words. Null when the
+ * subject says nothing specific.
+ */
+function relevantRoles(subject: string, resume: ResumeData, taxonomy: Taxonomy): Experience[] | null {
+  const domain = lastNamedDomain(subject, taxonomy);
+  if (domain) return resume.experiences.filter((experience) => roleInDomain(experience, domain));
+
+  const groups = taxonomy.synonyms.filter(({ terms }) => terms.some((term) => term.length > 2 && containsWord(subject, term)));
+  if (groups.length > 0) {
+    return resume.experiences.filter((experience) => {
+      const text = roleText(experience);
+      return groups.some(({ terms }) => terms.some((term) => containsWord(text, term)));
+    });
+  }
+
+  const stems = subject
+    .split(/[^a-z0-9+#.-]+/)
+    .filter((word) => word.length > 2 && !SUBJECT_STOPWORDS.has(word))
+    .map(stem);
+  if (stems.length === 0) return null;
+
+  // Every word of a short subject, two thirds of a longer one
+  const needed = stems.length <= 2 ? stems.length : Math.ceil((stems.length * 2) / 3);
+  return resume.experiences.filter((experience) => {
+    const words = roleText(experience).split(/[^a-z0-9+#.-]+/).map(stem);
+    return stems.filter((s) => words.some((word) => word.startsWith(s))).length >= needed;
+  });
+}
+
+/**
+ * The domain whose name or indicator appears furthest right in the subject
+ */
+function lastNamedDomain(subject: string, taxonomy: Taxonomy): DomainDefinition | null {
+  let best: DomainDefinition | null = null;
+  let bestIndex = -1;
+
+  for (const domain of taxonomy.domains) {
+    for (const indicator of [domain.id, ...domain.indicators]) {
+      const index = wordIndex(subject, indicator);
+      if (index > bestIndex) {
+        best = domain;
+        bestIndex = index;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Where a whole word starts in the text, or -1
+ */
+function wordIndex(text: string, word: string): number {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(^|[^a-z0-9])(${escaped})s?(?![a-z0-9])`).exec(text);
+  return match ? match.index + match[1].length : -1;
+}
+
+function stem(word: string): string {
+  return word.length > 5 ? word.replace(/(ment|ing|ion|ed|er|s)$/, '') : word;
+}
+
+// ============================================
+// SENIORITY
+// ============================================
+
+/**
+ * The candidate's level: the most recent title when it names one,
+ * otherwise years in the current line of work
+ */
+export function inferCandidateSeniority(
+  resume: ResumeData,
+  taxonomy: Taxonomy,
+  now: Date = new Date()
+): SeniorityLevel {
+  const byYears = levelForYears(relevantYears(resume, taxonomy, now));
+
+  const latest = mostRecentRole(resume.experiences, now);
+  const byTitle = latest ? TITLE_LEVELS.find(([pattern]) => pattern.test(latest.title))?.[1] : undefined;
+  if (!byTitle) return byYears;
+
+  // "Manager" with two years' experience is not a lead hire; an "Associate"
+  // with ten years isn't entry level - stay within one level of the years
+  const titleIndex = SENIORITY_ORDER.indexOf(byTitle);
+  const yearsIndex = SENIORITY_ORDER.indexOf(byYears);
+  return SENIORITY_ORDER[Math.min(Math.max(titleIndex, yearsIndex - 1), yearsIndex + 1)];
+}
+
+/**
+ * How the candidate's level compares with the level the JD asks for
+ */
+export function evaluateSeniority(
+  resume: ResumeData,
+  required: SeniorityLevel | undefined,
+  taxonomy: Taxonomy,
+  now: Date = new Date()
+): SeniorityFit | null {
+  if (!required || resume.experiences.length === 0) return null;
+
+  const candidate = inferCandidateSeniority(resume, taxonomy, now);
+  const levelGap = SENIORITY_ORDER.indexOf(candidate) - SENIORITY_ORDER.indexOf(required);
+
+  return {
+    required,
+    candidate,
+    relevantYears: relevantYears(resume, taxonomy, now),
+    levelGap,
+    // One level above is a normal step sideways; one below is a stretch
+    fit: levelGap < 0 ? 'under' : levelGap > 1 ? 'over' : 'match',
+  };
+}
+
+/**
+ * Years in the field of the most recent role - a career changer's new
+ * field - or total years when that role fits no domain. A role in several
+ * domains counts the one with the longest history.
+ */
+function relevantYears(resume: ResumeData, taxonomy: Taxonomy, now: Date): number {
+  const latest = mostRecentRole(resume.experiences, now);
+  const domains = latest ? taxonomy.domains.filter((domain) => roleInDomain(latest, domain)) : [];
+  if (domains.length === 0) return totalYearsOfExperience(resume, now);
+
+  return Math.max(
+    ...domains.map((domain) =>
+      yearsForExperiences(
+        resume.experiences.filter((experience) => roleInDomain(experience, domain)),
+        now
+      )
+    )
+  );
+}
+
+function levelForYears(years: number): SeniorityLevel {
+  let level: SeniorityLevel = 'entry';
+  for (const candidate of SENIORITY_ORDER) {
+    if (years >= LEVEL_MIN_YEARS[candidate]) level = candidate;
+  }
+  return level;
+}
+
+function mostRecentRole(experiences: Experience[], now: Date): Experience | undefined {
+  const dated = experiences
+    .map((experience, index) => ({ experience, index, range: experience.dateRange ? parseDateRange(experience.dateRange, now) : null }))
+    .filter((entry) => entry.range);
+  if (dated.length === 0) return experiences[0];
+
+  // Latest end, then latest start; resume order breaks ties
+  dated.sort((a, b) => b.range!.end - a.range!.end || b.range!.start - a.range!.start || a.index - b.index);
+  return dated[0].experience;
+}
@@ -3,12 +3,19 @@
  * Key principle: Extract and Match, don't Rewrite
  */
 
+import type { SchemaIssue } from '../ai/structuredOutput';
+import type { AIDetectionSentence, AIDetectorId } from '../aiDetection/types';
+
 // Resume structured data (extracted from raw text)
 export interface ResumeData {
   rawText: string;
+  summary?: string;
   skills: Skill[];
   experiences: Experience[];
   education: Education[];
+  projects: Project[];
+  certifications: Certification[];
+  awards: Award[];
   contact?: ContactInfo;
 }
 
@@ -46,6 +53,27 @@ export interface Education {
   originalText: string;
 }
 
+export interface Project {
+  name: string;
+  description?: string;
+  url?: string;
+  bullets: Bullet[];
+  originalText: string;
+}
+
+export interface Certification {
+  name: string;
+  issuer?: string;
+  year?: string;
+  originalText: string;
+}
+
+export interface Award {
+  name: string;
+  year?: string;
+  originalText: string;
+}
+
 export interface ContactInfo {
   name?: string;
   email?: string;
@@ -70,21 +98,117 @@ export interface Requirement {
   importance: 'critical' | 'high' | 'medium' | 'low';
 }
 
+export type SeniorityLevel = 'entry' | 'mid' | 'senior' | 'lead' | 'executive';
+
 export interface JDContext {
   industry?: string;
   teamSize?: string;
   workStyle?: 'remote' | 'hybrid' | 'onsite';
-  seniorityLevel?: 'entry' | 'mid' | 'senior' | 'lead' | 'executive';
+  seniorityLevel?: SeniorityLevel;
   companyType?: 'startup' | 'mid-size' | 'enterprise' | 'agency';
 }
 
 // Matching results
 export interface MatchResult {
   requirement: Requirement;
-  matchedItem: Bullet | Skill | Education | Experience | null;
+  matchedItem: Bullet | Skill | Education | Experience | Certification | null;
   score: number; // 0-100
   matchType: 'exact' | 'semantic' | 'partial' | 'missing';
   originalText: string;
+  // Which part of the resume produced the best score
+  source?: MatchSource;
+  // Embedding similarity, set when the semantic tier raised the score
+  similarity?: number;
+  // Set when a years-of-experience check produced the score
+  years?: YearsEvaluation;
+}
+
+// "5+ years of B2B marketing" against the resume's dated roles
+export interface YearsEvaluation {
+  requiredYears: number;
+  maxYears?: number; // "3-5 years"
+  subject?: string; // What the years are of, when it narrowed the roles counted
+  actualYears: number; // Years in roles matching the subject (or total)
+  totalYears: number; // All roles, overlapping jobs counted once
+  score: number;
+}
+
+// Candidate level vs the level the JD hires for
+export interface SeniorityFit {
+  required: SeniorityLevel;
+  candidate: SeniorityLevel; // From the latest title and relevant years
+  relevantYears: number; // In the latest role's field, or total
+  levelGap: number; // candidate - required, in levels
+  fit: 'under' | 'match' | 'over';
+}
+
+export type MatchSource =
+  | 'skill'
+  | 'bullet'
+  | 'title'
+  | 'years'
+  | 'education'
+  | 'certification'
+  | 'raw_text';
+
+// How one requirement moved the match score
+export interface RequirementContribution {
+  requirement: Requirement;
+  status: 'matched' | 'missing';
+  matchType: MatchResult['matchType'];
+  matchScore: number; // 0-100 from the matcher
+  importanceWeight: number; // Weight for the requirement's importance
+  weight: number; // Weight actually counted (missing items are discounted)
+  contribution: number; // Weighted points earned (0 for missing)
+  // Percentage points of the raw score this requirement earned / could have earned
+  points: number;
+  maxPoints: number;
+  source?: MatchSource;
+  sourceText: string; // Resume text that produced the match
+  similarity?: number;
+}
+
+// Every step from per-requirement scores to the displayed number
+export interface ScoreBreakdown {
+  requirements: RequirementContribution[];
+  weightedScore: number;
+  totalWeight: number;
+  missingWeightFactor: number;
+  rawScore: number; // Before penalty and clamping
+  domainMismatch: boolean;
+  domainPenalty: number; // Multiplier, 1 when domains overlap
+  seniority?: SeniorityFit;
+  seniorityPenalty: number; // Multiplier, 1 unless the level is far off
+  penalizedScore: number;
+  clamp: {
+    min: number;
+    max: number;
+    applied: 'min' | 'max' | null;
+    delta: number; // finalScore - penalizedScore
+  };
+  finalScore: number;
+}
+
+// A named base resume the run may tailor from
+export interface BaseResumeCandidate {
+  id: string;
+  name: string;
+  rawText: string;
+  parsedData?: ResumeData | null; // Re-parsed from rawText when missing
+}
+
+export interface BaseResumeScore {
+  id: string;
+  name: string;
+  matchScore: number;
+}
+
+// Which base resume was tailored, and how the others compared
+export interface BaseResumeSelection {
+  id: string;
+  name: string;
+  matchScore: number;
+  ranking: BaseResumeScore[]; // Highest first
 }
 
 // AI Detection result
@@ -92,18 +216,158 @@ export interface AIDetectionInfo {
   score: number; // 0-100 (percentage AI-generated)
   isHumanPassing: boolean; // true if score < 50
   feedback: string;
+  // Backend that produced the score (null when detection was skipped)
+  detector: AIDetectorId | null;
+  // False when the letter wasn't actually scored - score is 0 and means nothing
+  measured: boolean;
+  // Per-sentence verdicts, in letter order (empty when the backend has none)
+  sentences: AIDetectionSentence[];
+}
+
+// One version of the cover letter and how it scored
+export type CoverLetterIterationKind = 'generated' | 'regenerated' | 'sentence_rewrite';
+
+export interface CoverLetterIteration {
+  kind: CoverLetterIterationKind;
+  coverLetter: string;
+  aiDetection: AIDetectionInfo;
+  // Strategy that wrote it (generated/regenerated only)
+  strategy?: CoverLetterStrategyId;
+  // Sentences replaced (sentence_rewrite only)
+  rewrittenSentences?: number;
+  createdAt: string;
+}
+
+// Per-run preferences (defaults: DEFAULT_TAILORING_SETTINGS)
+export type KeepLetterPolicy = 'best' | 'latest';
+
+// off: synonyms only; local: on-device hashing embeddings (free);
+// remote: the configured embedding API (OpenAI when a key is set - billed)
+export type SemanticMatchingMode = 'off' | 'local' | 'remote';
+
+export interface TailoringSettings {
+  aiDetection: boolean;
+  // Regenerate while the AI score is above this (0-100)
+  aiScoreThreshold: number;
+  // Regenerations after the first letter; 0 only scores it
+  maxHumanizeAttempts: number;
+  // No new attempt starts once the detection pass has run this long
+  timeBudgetMs: number;
+  // best: the lowest-scoring version; latest: the last one generated
+  keep: KeepLetterPolicy;
+  // Embedding tier of the matcher; options.semantic overrides it
+  semanticMatching: SemanticMatchingMode;
+}
+
+export type HumanizeStopReason =
+  | 'disabled' // detection turned off
+  | 'passed' // score at or below the threshold
+  | 'unmeasured' // nothing could score the letter
+  | 'no_retry' // the strategy has no retry strategy
+  | 'max_attempts'
+  | 'time_budget'
+  | 'error'; // a regeneration failed; earlier versions were kept
+
+// What the detection loop did, for the result screen and telemetry
+export interface HumanizationReport {
+  settings: TailoringSettings;
+  attempts: number;
+  stopReason: HumanizeStopReason;
+  // Index into coverLetterIterations of the version that was kept
+  keptIteration: number;
 }
 
 // Final tailoring output
 export interface TailoringResult {
   resume: TailoredResume;
+  // The base resume as parsed, for diffing against resume
+  original?: TailoredResume;
+  // The analyzed job, for re-scoring after edits
+  jobRequirements?: JDRequirements;
   coverLetter: string;
+  // How the cover letter was asked for (tone, length, structure...)
+  coverLetterOptions?: CoverLetterOptions;
+  // Strategy that wrote coverLetter (the retry strategy after a humanize pass)
+  coverLetterStrategy?: CoverLetterStrategyId;
   matchScore: number;
+  // How matchScore was reached ("why this score")
+  scoreBreakdown?: ScoreBreakdown;
+  // Set when the base resume was picked from several candidates
+  baseResume?: BaseResumeSelection;
   matchedItems: MatchResult[];
   missingItems: MatchResult[];
   processingTime: number;
   // AI Detection (optional - only present if detection was run)
   aiDetection?: AIDetectionInfo;
+  // Every version of the cover letter, oldest first (coverLetter is the
+  // kept one - not necessarily the last, see humanization.keptIteration)
+  coverLetterIterations?: CoverLetterIteration[];
+  // Regeneration attempts, why they stopped and which version was kept
+  humanization?: HumanizationReport;
+  // Stages that fell back to deterministic output (result screen warns about these)
+  fallbacks?: TailoringFallback[];
+  // Formatter output checked against the source resume (absent when not formatted by the LLM)
+  verification?: VerificationReport;
+  // Per-stage timing, token and cost telemetry
+  trace?: TailoringTrace;
+}
+
+// Cover letter controls, honored by the LLM prompt and the offline template
+export type CoverLetterTone = 'formal' | 'warm' | 'direct' | 'enthusiastic';
+export type CoverLetterLength = 'short' | 'standard' | 'long';
+// narrative: paragraphs; bullet-highlights: intro, bullets, close;
+// pain-point: opens with the team's problem, then how you've solved it
+export type CoverLetterStructure = 'narrative' | 'bullet-highlights' | 'pain-point';
+
+// Registered generators in coverLetter.ts (COVER_LETTER_STRATEGIES)
+export type CoverLetterStrategyId = 'natural' | 'humanized' | 'template';
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  structure: CoverLetterStructure;
+  // Addressed by name instead of a generic greeting
+  hiringManager?: string;
+  // Who referred the applicant, mentioned in the opening
+  referral?: string;
+}
+
+export type TraceStage =
+  | 'parse'
+  | 'analyze'
+  | 'match'
+  | 'format'
+  | 'cover_letter'
+  | 'ai_check'
+  | 'humanize';
+
+export interface StageTrace {
+  stage: TraceStage;
+  startedAt: number; // ms since the run started (format and cover letter overlap)
+  durationMs: number;
+  // LLM fields are only set for stages that called a model
+  provider?: string;
+  model?: string;
+  llmCalls?: number; // Includes schema repair calls
+  cacheHit?: boolean; // Analyze stage served from the JD cache
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensEstimated?: boolean;
+  estimatedCost?: number; // USD, undefined if the model isn't priced
+}
+
+export interface TailoringTrace {
+  stages: StageTrace[];
+  totalDurationMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number; // USD, sum of priced stages
+}
+
+export interface TailoringFallback {
+  stage: 'formatting';
+  reason: string;
+  issues?: SchemaIssue[];
 }
 
 export interface TailoredResume {
@@ -121,6 +385,40 @@ export interface TailoredExperience {
   bullets: string[];
 }
 
+// Fabrication guard: undo what the source doesn't support, or only report it
+export type FabricationGuardMode = 'revert' | 'flag';
+
+export type GroundingViolationKind = 'metric' | 'employer' | 'title' | 'date' | 'skill' | 'bullet';
+
+// Something in the tailored resume the source resume doesn't contain
+export interface GroundingViolation {
+  kind: GroundingViolationKind;
+  value: string; // The new number(s), name, date or bullet text
+  experienceIndex?: number; // Into the formatter's experiences
+  bulletIndex?: number;
+  message: string; // Shown on the result screen
+  resolution: 'reverted' | 'removed' | 'flagged';
+}
+
+// Where one tailored bullet came from
+export interface BulletProvenance {
+  experienceIndex: number;
+  bulletIndex: number;
+  text: string; // As shown after the guard
+  generatedText: string; // As the formatter wrote it
+  source?: string; // Closest original bullet in the same role
+  similarity: number; // Share of the bullet's words found in source (0-1)
+  status: 'verbatim' | 'edited' | 'reverted' | 'removed' | 'flagged';
+  violations: GroundingViolation[];
+}
+
+export interface VerificationReport {
+  mode: FabricationGuardMode;
+  bullets: BulletProvenance[];
+  violations: GroundingViolation[]; // All of them, bullet ones included
+  passed: boolean; // Nothing ungrounded found
+}
+
 // Error types
 export type TailoringErrorType =
   | 'parse_error'
@@ -129,10 +427,13 @@ export type TailoringErrorType =
   | 'formatting_error'
   | 'cover_letter_error'
   | 'timeout'
-  | 'api_error';
+  | 'api_error'
+  | 'cancelled';
 
 export interface TailoringError {
   type: TailoringErrorType;
   message: string;
   details?: unknown;
+  // Field-level validation failures from an LLM response
+  issues?: SchemaIssue[];
 }
@@ -0,0 +1,472 @@
+/**
+ * Fabrication Guard - 0 LLM calls
+ * Checks formatter output against the parsed source resume: every bullet
+ * is aligned to the original it came from, and numbers, employers, titles,
+ * dates and skills that the source doesn't contain are reported. In
+ * 'revert' mode violations are undone (original wording restored, invented
+ * items removed); in 'flag' mode they're left for the user to review.
+ */
+
+import {
+  Experience,
+  JDRequirements,
+  GroundingViolation,
+  ResumeData,
+  TailoredExperience,
+  TailoredResume,
+  BulletProvenance,
+  VerificationReport,
+  FabricationGuardMode,
+} from './types';
+import { getTaxonomy, normalizeTerm, type Taxonomy } from './taxonomy';
+import { parseDateRange } from './tenure';
+
+export interface VerifyOptions {
+  mode?: FabricationGuardMode;
+  taxonomy?: Taxonomy;
+}
+
+// A tailored bullet with less word overlap than this has no source
+const MIN_BULLET_SIMILARITY = 0.5;
+
+// "$1.2M", "45%", "10,000+", "3x" -> $1.2m, 45%, 10000, 3x - the unit
+// is kept so "$2M" isn't grounded by "2 hours"
+const NUMBER = /(\$?)(\d+(?:,\d{3})*(?:\.\d+)?)\s?(%|[kmbx](?![a-z]))?/gi;
+
+// Written differently, same title
+const TITLE_ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\bsr\b/g, 'senior'],
+  [/\bjr\b/g, 'junior'],
+  [/\bmgr\b/g, 'manager'],
+  [/\beng\b/g, 'engineer'],
+  [/\bdir\b/g, 'director'],
+  [/\bvp\b/g, 'vice president'],
+];
+
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|co|corp|corporation|company|gmbh|plc)\b/g;
+
+/**
+ * Verify a tailored resume against the resume it was made from. Returns
+ * the resume to show (corrected in 'revert' mode) and the provenance report.
+ * rawText is left as is - the caller regenerates it.
+ */
+export function verifyTailoredResume(
+  tailored: TailoredResume,
+  source: ResumeData,
+  options: VerifyOptions = {}
+): { resume: TailoredResume; report: VerificationReport } {
+  const mode = options.mode ?? 'revert';
+  const taxonomy = options.taxonomy ?? getTaxonomy();
+  const revert = mode === 'revert';
+
+  const sourceText = normalizeTerm(source.rawText);
+  const violations: GroundingViolation[] = [];
+  const bullets: BulletProvenance[] = [];
+  const experiences: TailoredExperience[] = [];
+  const used = new Set<number>();
+
+  tailored.experiences.forEach((experience, experienceIndex) => {
+    const sourceIndex = alignExperience(experience, source.experiences, used);
+    const original = sourceIndex === null ? null : source.experiences[sourceIndex];
+    if (sourceIndex !== null) used.add(sourceIndex);
+
+    if (!original) {
+      // A job the resume doesn't have
+      violations.push({
+        kind: 'employer',
+        value: experience.company,
+        experienceIndex,
+        message: `"${experience.title} at ${experience.company}" isn't in your resume`,
+        resolution: revert ? 'removed' : 'flagged',
+      });
+      experience.bullets.forEach((text, bulletIndex) =>
+        bullets.push({
+          experienceIndex,
+          bulletIndex,
+          text,
+          generatedText: text,
+          similarity: 0,
+          status: revert ? 'removed' : 'flagged',
+          violations: [],
+        })
+      );
+      if (!revert) experiences.push(experience);
+      return;
+    }
+
+    const header = checkHeader(experience, original, experienceIndex, revert);
+    violations.push(...header.violations);
+
+    const kept: string[] = [];
+    experience.bullets.forEach((text, bulletIndex) => {
+      const provenance = checkBullet(text, original, source, sourceText, taxonomy, experienceIndex, bulletIndex, revert);
+      bullets.push(provenance);
+      violations.push(...provenance.violations);
+      if (provenance.status !== 'removed') kept.push(provenance.text);
+    });
+
+    experiences.push({ ...header.experience, bullets: kept });
+  });
+
+  const skills = tailored.skills.filter((skill) => {
+    if (isGrounded(skill, source, sourceText, taxonomy)) return true;
+    violations.push({
+      kind: 'skill',
+      value: skill,
+      message: `"${skill}" isn't mentioned anywhere in your resume`,
+      resolution: revert ? 'removed' : 'flagged',
+    });
+    return !revert;
+  });
+
+  let summary = tailored.summary;
+  if (summary) {
+    const invented = newNumbers(summary, numbersIn(source.rawText));
+    if (invented.length > 0) {
+      violations.push({
+        kind: 'metric',
+        value: invented.join(', '),
+        message: `Summary uses ${quoteList(invented)}, which your resume doesn't`,
+        resolution: revert ? (source.summary ? 'reverted' : 'removed') : 'flagged',
+      });
+      if (revert) summary = source.summary;
+    }
+  }
+
+  return {
+    resume: { ...tailored, summary, skills, experiences },
+    report: { mode, bullets, violations, passed: violations.length === 0 },
+  };
+}
+
+// ============================================
+// COVER LETTERS
+// ============================================
+
+// "worked at Acme", "my time at Acme Labs" - a claim about an employer
+// ("at Acme I led..." stops before the pronoun)
+const EMPLOYER_CLAIM = /\b(?:worked|working|work|role|time|job|position)\s+at\s+([A-Z][\w&.-]*(?:\s+(?!I\b)[A-Z][\w&.-]*){0,3})/g;
+
+/**
+ * Claims in a cover letter the resume doesn't back up: numbers found in
+ * neither the resume nor the job, skills the resume never mentions and
+ * employers it doesn't list. A letter is prose, so nothing is reverted -
+ * every violation is flagged.
+ */
+export function verifyCoverLetter(
+  letter: string,
+  source: ResumeData,
+  jd?: JDRequirements,
+  options: Pick<VerifyOptions, 'taxonomy'> = {}
+): GroundingViolation[] {
+  const taxonomy = options.taxonomy ?? getTaxonomy();
+  const sourceText = normalizeTerm(source.rawText);
+  const jobText = jd
+    ? [jd.title, jd.company ?? '', ...[...jd.required, ...jd.preferred].map((r) => r.text)].join('\n')
+    : '';
+  const violations: GroundingViolation[] = [];
+
+  const invented = newNumbers(letter, [...numbersIn(source.rawText), ...numbersIn(jobText)]);
+  if (invented.length > 0) {
+    violations.push({
+      kind: 'metric',
+      value: invented.join(', '),
+      message: `Cover letter uses ${quoteList(invented)}, which your resume doesn't`,
+      resolution: 'flagged',
+    });
+  }
+
+  // The job's own title and company aren't claims about the applicant
+  let claims = letter;
+  for (const name of [jd?.title, jd?.company]) {
+    if (name) claims = claims.split(name).join(' ');
+  }
+  for (const skill of addedSkills(claims, '', taxonomy)) {
+    if (isGrounded(skill, source, sourceText, taxonomy)) continue;
+    violations.push({
+      kind: 'skill',
+      value: skill,
+      message: `Cover letter mentions "${skill}", which your resume doesn't`,
+      resolution: 'flagged',
+    });
+  }
+
+  const employers = [...source.experiences.map((e) => e.company), jd?.company ?? '']
+    .map(normalizeCompany)
+    .filter(Boolean);
+  for (const [, claimed] of letter.matchAll(EMPLOYER_CLAIM)) {
+    const company = normalizeCompany(claimed);
+    if (!company || employers.some((e) => e.includes(company) || company.includes(e))) continue;
+    violations.push({
+      kind: 'employer',
+      value: claimed,
+      message: `Cover letter mentions working at "${claimed}", which isn't in your resume`,
+      resolution: 'flagged',
+    });
+  }
+
+  return violations;
+}
+
+// ============================================
+// EXPERIENCES
+// ============================================
+
+/**
+ * The source role a tailored one came from: same employer first, then
+ * same title and dates (a renamed employer). Each source role is used once.
+ */
+function alignExperience(experience: TailoredExperience, sources: Experience[], used: Set<number>): number | null {
+  const company = normalizeCompany(experience.company);
+  const title = normalizeTitle(experience.title);
+  const open = sources.map((candidate, index) => ({ candidate, index })).filter(({ index }) => !used.has(index));
+
+  const sameCompany = open.filter(({ candidate }) => {
+    const sourceCompany = normalizeCompany(candidate.company);
+    return !!company && !!sourceCompany && (company.includes(sourceCompany) || sourceCompany.includes(company));
+  });
+  const byCompany =
+    sameCompany.find(({ candidate }) => normalizeTitle(candidate.title) === title) ?? sameCompany[0];
+  if (byCompany) return byCompany.index;
+
+  const byTitle = open.find(
+    ({ candidate }) => normalizeTitle(candidate.title) === title && sameDates(experience.dateRange, candidate.dateRange)
+  );
+  return byTitle?.index ?? null;
+}
+
+/**
+ * Employer, title and dates must be the source's own
+ */
+function checkHeader(
+  experience: TailoredExperience,
+  original: Experience,
+  experienceIndex: number,
+  revert: boolean
+): { experience: TailoredExperience; violations: GroundingViolation[] } {
+  const violations: GroundingViolation[] = [];
+  const resolution = revert ? 'reverted' : 'flagged';
+  const corrected = { ...experience };
+
+  const company = normalizeCompany(experience.company);
+  const sourceCompany = normalizeCompany(original.company);
+  if (company !== sourceCompany) {
+    violations.push({
+      kind: 'employer',
+      value: experience.company,
+      experienceIndex,
+      message: `Employer "${experience.company}" was "${original.company}" in your resume`,
+      resolution,
+    });
+    if (revert) corrected.company = original.company;
+  }
+
+  if (normalizeTitle(experience.title) !== normalizeTitle(original.title)) {
+    violations.push({
+      kind: 'title',
+      value: experience.title,
+      experienceIndex,
+      message: `Title "${experience.title}" was "${original.title}" in your resume`,
+      resolution,
+    });
+    if (revert) corrected.title = original.title;
+  }
+
+  if (!sameDates(experience.dateRange, original.dateRange)) {
+    violations.push({
+      kind: 'date',
+      value: experience.dateRange ?? '',
+      experienceIndex,
+      message: `Dates for ${original.company} were "${original.dateRange ?? 'not given'}" in your resume`,
+      resolution,
+    });
+    if (revert) corrected.dateRange = original.dateRange;
+  }
+
+  return { experience: corrected, violations };
+}
+
+function sameDates(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  if (normalizeTerm(a) === normalizeTerm(b)) return true;
+  const rangeA = parseDateRange(a);
+  const rangeB = parseDateRange(b);
+  return !!rangeA && !!rangeB && rangeA.start === rangeB.start && rangeA.end === rangeB.end;
+}
+
+function normalizeCompany(company: string): string {
+  return words(company.replace(/&/g, ' and ')).join(' ').replace(COMPANY_SUFFIXES, '').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeTitle(title: string): string {
+  let normalized = words(title).join(' ');
+  for (const [pattern, replacement] of TITLE_ABBREVIATIONS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\bof\b/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// ============================================
+// BULLETS
+// ============================================
+
+/**
+ * Align one bullet to its closest original, then look for numbers and
+ * skills the original role doesn't back up
+ */
+function checkBullet(
+  text: string,
+  original: Experience,
+  source: ResumeData,
+  sourceText: string,
+  taxonomy: Taxonomy,
+  experienceIndex: number,
+  bulletIndex: number,
+  revert: boolean
+): BulletProvenance {
+  const match = closestBullet(text, original.bullets.map((b) => b.text));
+  const provenance: BulletProvenance = {
+    experienceIndex,
+    bulletIndex,
+    text,
+    generatedText: text,
+    source: match?.text,
+    similarity: match?.similarity ?? 0,
+    status: 'edited',
+    violations: [],
+  };
+
+  if (!match || match.similarity < MIN_BULLET_SIMILARITY) {
+    provenance.status = revert ? 'removed' : 'flagged';
+    provenance.violations.push({
+      kind: 'bullet',
+      value: text,
+      experienceIndex,
+      bulletIndex,
+      message: `No bullet under ${original.company} says this`,
+      resolution: revert ? 'removed' : 'flagged',
+    });
+    return provenance;
+  }
+
+  const resolution = revert ? 'reverted' : 'flagged';
+
+  // Numbers may move between bullets of the same role, not from elsewhere
+  const roleNumbers = new Set(
+    original.bullets.flatMap((bullet) => [
+      ...numbersIn(bullet.text),
+      ...bullet.metrics.flatMap((metric) => numbersIn(metric.value)),
+    ])
+  );
+  const invented = newNumbers(text, roleNumbers);
+  if (invented.length > 0) {
+    provenance.violations.push({
+      kind: 'metric',
+      value: invented.join(', '),
+      experienceIndex,
+      bulletIndex,
+      message: `Adds ${quoteList(invented)}, which your ${original.company} bullets don't have`,
+      resolution,
+    });
+  }
+
+  for (const skill of addedSkills(text, match.text, taxonomy)) {
+    if (isGrounded(skill, source, sourceText, taxonomy)) continue;
+    provenance.violations.push({
+      kind: 'skill',
+      value: skill,
+      experienceIndex,
+      bulletIndex,
+      message: `"${skill}" isn't mentioned anywhere in your resume`,
+      resolution,
+    });
+  }
+
+  if (provenance.violations.length > 0) {
+    provenance.status = revert ? 'reverted' : 'flagged';
+    if (revert) provenance.text = match.text;
+  } else if (normalizeTerm(text) === normalizeTerm(match.text)) {
+    provenance.status = 'verbatim';
+  }
+
+  return provenance;
+}
+
+function closestBullet(text: string, candidates: string[]): { text: string; similarity: number } | null {
+  let best: { text: string; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = wordOverlap(text, candidate);
+    if (!best || similarity > best.similarity) best = { text: candidate, similarity };
+  }
+  return best;
+}
+
+/**
+ * Share of the tailored bullet's words found in the original. One-sided,
+ * so trimming a bullet doesn't count against it but padding one does.
+ */
+function wordOverlap(tailored: string, original: string): number {
+  const tailoredWords = new Set(words(tailored));
+  const originalWords = new Set(words(original));
+  if (tailoredWords.size === 0) return 0;
+  const shared = [...tailoredWords].filter((word) => originalWords.has(word)).length;
+  return shared / tailoredWords.size;
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean);
+}
+
+// ============================================
+// NUMBERS & SKILLS
+// ============================================
+
+function numbersIn(text: string): string[] {
+  return Array.from(text.matchAll(NUMBER), ([, currency, digits, unit = '']) =>
+    `${currency}${Number(digits.replace(/,/g, ''))}${unit.toLowerCase()}`
+  );
+}
+
+function newNumbers(text: string, known: Iterable<string>): string[] {
+  const knownSet = new Set(known);
+  return Array.from(new Set(numbersIn(text).filter((n) => !knownSet.has(n))));
+}
+
+/**
+ * Taxonomy terms in the tailored bullet that its original doesn't use
+ */
+function addedSkills(text: string, original: string, taxonomy: Taxonomy): string[] {
+  const tailored = normalizeTerm(text);
+  const before = normalizeTerm(original);
+  const added: string[] = [];
+
+  for (const { terms } of taxonomy.synonyms) {
+    const term = terms.find((t) => t.length > 2 && containsTerm(tailored, t));
+    if (term && !terms.some((t) => containsTerm(before, t))) added.push(term);
+  }
+  return added;
+}
+
+/**
+ * A skill is grounded when the resume lists it or mentions it (or a synonym)
+ */
+function isGrounded(skill: string, source: ResumeData, sourceText: string, taxonomy: Taxonomy): boolean {
+  const term = normalizeTerm(skill);
+  if (!term) return true;
+  if (source.skills.some((s) => normalizeTerm(s.name) === term)) return true;
+
+  const group = taxonomy.synonyms.find(({ terms }) => terms.includes(term));
+  return (group ? group.terms : [term]).some((t) => containsTerm(sourceText, t));
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?![a-z0-9])`).test(text);
+}
+
+function quoteList(values: string[]): string {
+  return values.map((v) => `"${v}"`).join(', ');
+}
@@ -7,7 +7,13 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '../config/supabase';
-import { getProfile, upsertProfile, Profile } from '../services/database';
+import { getProfile, upsertProfile, updateCustomSynonyms, Profile } from '../services/database';
+import {
+  validateTaxonomy,
+  hasTaxonomyErrors,
+  type CustomSynonym,
+  type TaxonomyIssue,
+} from '../services/tailoring/taxonomy';
 
 interface AuthState {
   user: User | null;
@@ -31,6 +37,8 @@ interface AuthState {
   signUpWithEmail: (email: string, password: string, name: string) => Promise<boolean>;
   signOut: () => Promise<void>;
   fetchProfile: () => Promise<void>;
+  // Returns validation issues; nothing is saved if any of them is an error
+  saveCustomSynonyms: (synonyms: CustomSynonym[]) => Promise<TaxonomyIssue[]>;
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -205,6 +213,25 @@ export const useAuthStore = create<AuthState>()(
           console.error('Error fetching profile:', err);
         }
       },
+
+      saveCustomSynonyms: async (synonyms) => {
+        const { user, profile } = get();
+        if (!user) return [];
+
+        const issues = validateTaxonomy(undefined, synonyms);
+        if (hasTaxonomyErrors(issues)) {
+          return issues;
+        }
+
+        const saved = await updateCustomSynonyms(user.id, synonyms);
+        if (!saved) {
+          set({ error: 'Failed to save custom synonyms' });
+        } else if (profile) {
+          set({ profile: { ...profile, custom_synonyms: synonyms } });
+        }
+
+        return issues;
+      },
     }),
     {
       name: 'auth-storage',
@@ -0,0 +1,129 @@
+/**
+ * Batch Store - Queue of job descriptions tailored in one run
+ * Each finished item is written to history as it completes
+ */
+
+import { create } from 'zustand';
+import {
+  tailorBatch,
+  BatchItemStatus,
+  BatchOptions,
+  TailoringResult,
+  TailoringProgress,
+} from '../services/tailoring';
+import { extractJobHeader } from '../utils/jobDescription';
+import { useHistoryStore } from './historyStore';
+
+export interface BatchItem {
+  id: string;
+  jobDescription: string;
+  jobTitle: string;
+  company: string;
+  status: BatchItemStatus;
+  progress: TailoringProgress | null;
+  result: TailoringResult | null;
+  error: string | null;
+  // History entry written when the item finished
+  historyId: string | null;
+}
+
+type BatchRunOptions = Omit<BatchOptions, 'signal' | 'onItemStart' | 'onItemProgress' | 'onItemComplete'>;
+
+interface BatchState {
+  items: BatchItem[];
+  isRunning: boolean;
+
+  // Actions
+  runBatch: (resumeText: string, jobDescriptions: string[], options?: BatchRunOptions) => Promise<void>;
+  cancelBatch: () => void;
+  clearBatch: () => void;
+}
+
+// Only one batch runs at a time
+let controller: AbortController | null = null;
+
+export const useBatchStore = create<BatchState>((set, get) => {
+  const updateItem = (id: string, changes: Partial<BatchItem>) =>
+    set((state) => ({
+      items: state.items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+    }));
+
+  return {
+    items: [],
+    isRunning: false,
+
+    runBatch: async (resumeText, jobDescriptions, options = {}) => {
+      if (get().isRunning) return;
+
+      const runController = new AbortController();
+      controller = runController;
+
+      const items: BatchItem[] = jobDescriptions.map((jobDescription, index) => ({
+        id: `${Date.now()}-${index}`,
+        jobDescription,
+        ...extractJobHeader(jobDescription),
+        status: 'queued',
+        progress: null,
+        result: null,
+        error: null,
+        historyId: null,
+      }));
+      set({ items, isRunning: true });
+
+      // History writes finish after their item settles; the run waits for them
+      const historyWrites: Promise<void>[] = [];
+      const saveToHistory = async (item: BatchItem, result: TailoringResult) => {
+        try {
+          const historyId = await useHistoryStore.getState().addItem({
+            jobTitle: item.jobTitle,
+            company: item.company,
+            matchScore: result.matchScore,
+            result,
+            jobDescription: item.jobDescription,
+          });
+          updateItem(item.id, { historyId });
+        } catch (error) {
+          console.error('Failed to save batch item to history:', error);
+          updateItem(item.id, { error: 'Tailored, but not saved to history' });
+        }
+      };
+
+      await tailorBatch(
+        resumeText,
+        items.map(({ id, jobDescription }) => ({ id, jobDescription })),
+        {
+          ...options,
+          signal: runController.signal,
+          onItemStart: (id) => updateItem(id, { status: 'running' }),
+          onItemProgress: (id, progress) => {
+            if (!runController.signal.aborted) updateItem(id, { progress });
+          },
+          onItemComplete: ({ id, status, result, error }) => {
+            updateItem(id, { status, result: result ?? null, error: error?.message ?? null });
+            const item = items.find((i) => i.id === id);
+            if (result && item) historyWrites.push(saveToHistory(item, result));
+          },
+        }
+      );
+      await Promise.allSettled(historyWrites);
+
+      if (controller === runController) controller = null;
+      set({ isRunning: false });
+    },
+
+    cancelBatch: () => {
+      controller?.abort();
+      controller = null;
+    },
+
+    clearBatch: () => {
+      if (get().isRunning) return;
+      set({ items: [] });
+    },
+  };
+});
+
+// Selectors
+export const selectBatchItems = (state: BatchState) => state.items;
+
+export const selectIsBatchRunning = (state: BatchState) => state.isRunning;
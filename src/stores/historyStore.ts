@@ -11,6 +11,7 @@ import {
   getApplications,
   saveApplication,
   updateApplicationStatus,
+  updateApplicationContent,
   deleteApplication,
   Application,
 } from '../services/database';
@@ -44,12 +45,19 @@ interface HistoryState {
   isSyncing: boolean;
 
   // Actions
-  addItem: (item: Omit<HistoryItem, 'id' | 'createdAt' | 'status' | 'appliedDate' | 'jobUrl' | 'notes' | 'statusHistory' | 'syncedToCloud'>) => Promise<string>;
+  addItem: (
+    item: Omit<HistoryItem, 'id' | 'createdAt' | 'status' | 'appliedDate' | 'jobUrl' | 'notes' | 'statusHistory' | 'syncedToCloud'> & {
+      // Set when the posting was imported from a link
+      jobUrl?: string | null;
+    }
+  ) => Promise<string>;
   removeItem: (id: string) => Promise<void>;
   updateStatus: (id: string, status: ApplicationStatus, notes?: string) => Promise<void>;
   markAsApplied: (id: string, jobUrl?: string) => Promise<void>;
   updateNotes: (id: string, notes: string) => void;
   updateJobUrl: (id: string, jobUrl: string) => void;
+  // Result after the user reviewed or edited the resume or cover letter
+  updateResult: (id: string, result: TailoringResult) => Promise<void>;
   clearHistory: () => void;
 
   // Cloud sync
@@ -76,16 +84,18 @@ function dbToHistoryItem(app: Application): HistoryItem {
     result: {
       resume: app.tailored_resume || { skills: [], experiences: [], education: [], rawText: '' },
       coverLetter: app.cover_letter || '',
+      coverLetterOptions: app.cover_letter_options ?? undefined,
       matchScore: app.match_score || 0,
       matchedItems: [],
       missingItems: [],
-      processingTime: 0,
+      processingTime: app.trace?.totalDurationMs ?? 0,
+      trace: app.trace ?? undefined,
     },
     jobDescription: app.job_description || '',
     createdAt: app.created_at,
     status: app.status as ApplicationStatus,
     appliedDate: app.applied_at,
-    jobUrl: null,
+    jobUrl: app.job_url ?? null,
     notes: null,
     statusHistory: [{ status: app.status as ApplicationStatus, date: app.created_at }],
     syncedToCloud: true,
@@ -109,7 +119,7 @@ export const useHistoryStore = create<HistoryState>()(
           createdAt: now,
           status: 'generated',
           appliedDate: null,
-          jobUrl: null,
+          jobUrl: item.jobUrl ?? null,
           notes: null,
           statusHistory: [{ status: 'generated', date: now }],
           syncedToCloud: false,
@@ -128,9 +138,12 @@ export const useHistoryStore = create<HistoryState>()(
               jobTitle: item.jobTitle,
               company: item.company,
               jobDescription: item.jobDescription,
+              jobUrl: item.jobUrl,
               matchScore: item.matchScore,
               tailoredResume: item.result.resume,
               coverLetter: item.result.coverLetter,
+              coverLetterOptions: item.result.coverLetterOptions,
+              trace: item.result.trace,
               status: 'generated',
             });
 
@@ -246,6 +259,29 @@ export const useHistoryStore = create<HistoryState>()(
           ),
         })),
 
+      updateResult: async (id, result) => {
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === id ? { ...item, result, matchScore: result.matchScore } : item
+          ),
+        }));
+
+        // Unsynced items upload the new content with their next sync
+        const item = get().items.find((i) => i.id === id);
+        const userId = useAuthStore.getState().user?.id;
+        if (userId && item?.syncedToCloud) {
+          try {
+            await updateApplicationContent(id, {
+              tailoredResume: result.resume,
+              coverLetter: result.coverLetter,
+              matchScore: result.matchScore,
+            });
+          } catch (err) {
+            console.error('Failed to update content in cloud:', err);
+          }
+        }
+      },
+
       clearHistory: () => set({ items: [] }),
 
       loadFromCloud: async () => {
@@ -285,9 +321,12 @@ export const useHistoryStore = create<HistoryState>()(
               jobTitle: item.jobTitle,
               company: item.company,
               jobDescription: item.jobDescription,
+              jobUrl: item.jobUrl,
               matchScore: item.matchScore,
               tailoredResume: item.result.resume,
               coverLetter: item.result.coverLetter,
+              coverLetterOptions: item.result.coverLetterOptions,
+              trace: item.result.trace,
               status: item.status,
             });
 
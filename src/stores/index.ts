@@ -8,7 +8,15 @@ export {
   selectError,
   selectHasCompletedOnboarding,
 } from './authStore';
-export { useResumeStore, selectHasResume, selectResumeText, selectParsedResume } from './resumeStore';
+export {
+  useResumeStore,
+  selectHasResume,
+  selectResumeText,
+  selectParsedResume,
+  selectResumeVersions,
+  selectActiveVersionId,
+  type ResumeVersion,
+} from './resumeStore';
 export {
   useGenerationStore,
   selectIsGenerating,
@@ -16,6 +24,12 @@ export {
   selectMatchScore,
   selectProgress,
 } from './generationStore';
+export {
+  useBatchStore,
+  selectBatchItems,
+  selectIsBatchRunning,
+  type BatchItem,
+} from './batchStore';
 export {
   useApplicationsStore,
   selectApplications,
@@ -43,3 +57,12 @@ export {
   selectTargetDays,
   selectStartDate,
 } from './goalsStore';
+export {
+  useTemplateStore,
+  selectSectionOrder,
+  selectLayoutOptions,
+} from './templateStore';
+export {
+  useTailoringSettingsStore,
+  selectTailoringSettings,
+} from './tailoringSettingsStore';
@@ -1,13 +1,49 @@
 /**
- * Resume Store - User's resume data
+ * Resume Store - User's resume library
+ * Named base resumes synced with Supabase; the active one is the default
+ * base for tailoring and is mirrored into rawText/parsedData
  */
 
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ResumeData } from '../services/tailoring/types';
+import { parseResume } from '../services/tailoring/parser';
+import {
+  getResumes,
+  saveResume,
+  updateResume,
+  renameResume,
+  setPrimaryResume,
+  deleteResume,
+  Resume,
+} from '../services/database';
+import { useAuthStore } from './authStore';
+
+export type UploadSource = 'file' | 'paste' | 'linkedin' | null;
+
+export interface ResumeVersion {
+  id: string;
+  name: string;
+  rawText: string;
+  parsedData: ResumeData | null;
+  uploadSource: UploadSource;
+  createdAt: string;
+  updatedAt: string;
+
+  // Sync status
+  cloudId: string | null;
+  syncedToCloud: boolean;
+}
 
 interface ResumeState {
+  // Named base resumes, oldest first
+  versions: ResumeVersion[];
+  // Default base resume (primary in the cloud)
+  activeId: string | null;
+  isSyncing: boolean;
+
+  // Active version, mirrored for screens that only need one resume
   // Raw resume text (from upload or paste)
   rawText: string;
   // Parsed resume data
@@ -15,48 +51,341 @@ interface ResumeState {
   // Last updated timestamp
   lastUpdated: string | null;
   // Upload source
-  uploadSource: 'file' | 'paste' | 'linkedin' | null;
+  uploadSource: UploadSource;
 
-  // Actions
+  // Actions (on the active version, created if there is none)
   setRawText: (text: string) => void;
   setParsedData: (data: ResumeData) => void;
-  setUploadSource: (source: ResumeState['uploadSource']) => void;
+  setUploadSource: (source: UploadSource) => void;
   clearResume: () => void;
+
+  // Library
+  createVersion: (name: string, rawText?: string) => string;
+  updateVersionText: (id: string, rawText: string) => void;
+  renameVersion: (id: string, name: string) => void;
+  duplicateVersion: (id: string, name?: string) => string | null;
+  deleteVersion: (id: string) => Promise<void>;
+  setActiveVersion: (id: string) => Promise<void>;
+
+  // Cloud sync
+  loadFromCloud: () => Promise<void>;
+  syncToCloud: () => Promise<void>;
+}
+
+const DEFAULT_VERSION_NAME = 'Main Resume';
+
+// Helper to generate unique IDs
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function createVersionRecord(
+  name: string,
+  rawText: string,
+  parsedData: ResumeData | null = rawText ? parseResume(rawText) : null
+): ResumeVersion {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name,
+    rawText,
+    parsedData,
+    uploadSource: null,
+    createdAt: now,
+    updatedAt: now,
+    cloudId: null,
+    syncedToCloud: false,
+  };
+}
+
+// Convert database Resume to ResumeVersion
+function dbToVersion(resume: Resume): ResumeVersion {
+  return {
+    id: resume.id,
+    name: resume.name,
+    rawText: resume.raw_text,
+    parsedData: resume.raw_text ? parseResume(resume.raw_text) : null,
+    uploadSource: null,
+    createdAt: resume.created_at,
+    updatedAt: resume.updated_at,
+    cloudId: resume.id,
+    syncedToCloud: true,
+  };
+}
+
+// The single-resume fields, taken from the active version
+function mirrorActive(versions: ResumeVersion[], activeId: string | null) {
+  const active = versions.find((v) => v.id === activeId);
+  return {
+    rawText: active?.rawText ?? '',
+    parsedData: active?.parsedData ?? null,
+    lastUpdated: active?.updatedAt ?? null,
+    uploadSource: active?.uploadSource ?? null,
+  };
+}
+
+// Pushes per version run one after another, so a quick edit after creating
+// a version updates the new cloud row instead of inserting a second one
+const pendingPushes = new Map<string, Promise<void>>();
+
+function pushVersion(id: string): Promise<void> {
+  const next = (pendingPushes.get(id) ?? Promise.resolve()).then(() => pushVersionNow(id));
+  pendingPushes.set(id, next);
+  next.finally(() => {
+    if (pendingPushes.get(id) === next) pendingPushes.delete(id);
+  });
+  return next;
+}
+
+async function pushVersionNow(id: string): Promise<void> {
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) return;
+
+  const { versions, activeId } = useResumeStore.getState();
+  const version = versions.find((v) => v.id === id);
+  if (!version || version.syncedToCloud) return;
+
+  try {
+    let cloudId = version.cloudId;
+    if (cloudId) {
+      const saved =
+        (await updateResume(cloudId, version.rawText)) &&
+        (await renameResume(cloudId, version.name));
+      if (!saved) return;
+    } else {
+      const cloudResume = await saveResume(userId, version.rawText, version.name, id === activeId);
+      if (!cloudResume) return;
+      cloudId = cloudResume.id;
+    }
+
+    // Edits made while saving stay unsynced and get pushed next
+    useResumeStore.setState((state) => ({
+      versions: state.versions.map((v) =>
+        v.id === id
+          ? { ...v, cloudId, syncedToCloud: v.updatedAt === version.updatedAt }
+          : v
+      ),
+    }));
+  } catch (err) {
+    console.error('Failed to sync resume:', err);
+  }
 }
 
 export const useResumeStore = create<ResumeState>()(
   persist(
-    (set) => ({
-      rawText: '',
-      parsedData: null,
-      lastUpdated: null,
-      uploadSource: null,
-
-      setRawText: (rawText) =>
-        set({
-          rawText,
-          lastUpdated: new Date().toISOString(),
-        }),
-
-      setParsedData: (parsedData) =>
-        set({
-          parsedData,
-          lastUpdated: new Date().toISOString(),
-        }),
-
-      setUploadSource: (uploadSource) => set({ uploadSource }),
-
-      clearResume: () =>
-        set({
-          rawText: '',
-          parsedData: null,
-          lastUpdated: null,
-          uploadSource: null,
-        }),
-    }),
+    (set, get) => {
+      // Update one version, keeping the mirrored fields in step
+      // Only text and name are stored in the cloud, so only they mark it unsynced
+      const updateVersion = (id: string, changes: Partial<ResumeVersion>, cloudChange = true) =>
+        set((state) => {
+          const versions = state.versions.map((v) =>
+            v.id === id
+              ? {
+                  ...v,
+                  ...changes,
+                  updatedAt: new Date().toISOString(),
+                  syncedToCloud: cloudChange ? false : v.syncedToCloud,
+                }
+              : v
+          );
+          return { versions, ...mirrorActive(versions, state.activeId) };
+        });
+
+      // Id of the active version, creating the first one when the library is empty
+      const ensureActive = (): string => {
+        const { activeId, versions } = get();
+        if (activeId && versions.some((v) => v.id === activeId)) return activeId;
+
+        const version = createVersionRecord(DEFAULT_VERSION_NAME, '', null);
+        set((state) => ({ versions: [...state.versions, version], activeId: version.id }));
+        return version.id;
+      };
+
+      return {
+        versions: [],
+        activeId: null,
+        isSyncing: false,
+        rawText: '',
+        parsedData: null,
+        lastUpdated: null,
+        uploadSource: null,
+
+        setRawText: (rawText) => {
+          const id = ensureActive();
+          updateVersion(id, { rawText });
+          void pushVersion(id);
+        },
+
+        // Parsed data is derived from the text, so it isn't pushed
+        setParsedData: (parsedData) => updateVersion(ensureActive(), { parsedData }, false),
+
+        setUploadSource: (uploadSource) =>
+          set((state) => {
+            const versions = state.versions.map((v) =>
+              v.id === state.activeId ? { ...v, uploadSource } : v
+            );
+            return { versions, uploadSource };
+          }),
+
+        // Local only - cloud copies are kept
+        clearResume: () =>
+          set({
+            versions: [],
+            activeId: null,
+            rawText: '',
+            parsedData: null,
+            lastUpdated: null,
+            uploadSource: null,
+          }),
+
+        createVersion: (name, rawText = '') => {
+          const version = createVersionRecord(name.trim() || DEFAULT_VERSION_NAME, rawText);
+          set((state) => {
+            const versions = [...state.versions, version];
+            const activeId = state.activeId ?? version.id;
+            return { versions, activeId, ...mirrorActive(versions, activeId) };
+          });
+          if (rawText) void pushVersion(version.id);
+          return version.id;
+        },
+
+        updateVersionText: (id, rawText) => {
+          updateVersion(id, { rawText, parsedData: rawText ? parseResume(rawText) : null });
+          void pushVersion(id);
+        },
+
+        renameVersion: (id, name) => {
+          if (!name.trim()) return;
+          updateVersion(id, { name: name.trim() });
+          void pushVersion(id);
+        },
+
+        duplicateVersion: (id, name) => {
+          const source = get().versions.find((v) => v.id === id);
+          if (!source) return null;
+
+          const copy = {
+            ...createVersionRecord(name?.trim() || `${source.name} (copy)`, source.rawText, source.parsedData),
+            uploadSource: source.uploadSource,
+          };
+          set((state) => ({ versions: [...state.versions, copy] }));
+          if (copy.rawText) void pushVersion(copy.id);
+          return copy.id;
+        },
+
+        deleteVersion: async (id) => {
+          const version = get().versions.find((v) => v.id === id);
+          if (!version) return;
+
+          set((state) => {
+            const versions = state.versions.filter((v) => v.id !== id);
+            const activeId = state.activeId === id ? versions[0]?.id ?? null : state.activeId;
+            return { versions, activeId, ...mirrorActive(versions, activeId) };
+          });
+
+          // Delete from cloud
+          const userId = useAuthStore.getState().user?.id;
+          if (!userId) return;
+          try {
+            if (version.cloudId) await deleteResume(version.cloudId);
+            const { versions, activeId } = get();
+            const active = versions.find((v) => v.id === activeId);
+            if (version.id !== activeId && active?.cloudId) {
+              await setPrimaryResume(userId, active.cloudId);
+            }
+          } catch (err) {
+            console.error('Failed to delete resume from cloud:', err);
+          }
+        },
+
+        setActiveVersion: async (id) => {
+          const version = get().versions.find((v) => v.id === id);
+          if (!version) return;
+
+          set((state) => ({ activeId: id, ...mirrorActive(state.versions, id) }));
+
+          const userId = useAuthStore.getState().user?.id;
+          if (userId && version.cloudId) {
+            try {
+              await setPrimaryResume(userId, version.cloudId);
+            } catch (err) {
+              console.error('Failed to set primary resume in cloud:', err);
+            }
+          }
+        },
+
+        loadFromCloud: async () => {
+          const userId = useAuthStore.getState().user?.id;
+          if (!userId) return;
+
+          set({ isSyncing: true });
+
+          try {
+            const resumes = await getResumes(userId);
+
+            set((state) => {
+              const byCloudId = new Map(state.versions.map((v) => [v.cloudId, v]));
+              // Unsynced local edits win; everything else comes from the cloud
+              const local = state.versions.filter((v) => !v.cloudId || !v.syncedToCloud);
+              const fromCloud = resumes
+                .filter((r) => byCloudId.get(r.id)?.syncedToCloud !== false)
+                .map((r) => {
+                  const existing = byCloudId.get(r.id);
+                  return existing
+                    ? { ...dbToVersion(r), id: existing.id, uploadSource: existing.uploadSource }
+                    : dbToVersion(r);
+                })
+                .reverse(); // getResumes is newest first
+              const versions = [...fromCloud, ...local];
+
+              const primary = resumes.find((r) => r.is_primary);
+              const activeId =
+                (primary && versions.find((v) => v.cloudId === primary.id)?.id) ??
+                (versions.some((v) => v.id === state.activeId) ? state.activeId : versions[0]?.id ?? null);
+
+              return { versions, activeId, isSyncing: false, ...mirrorActive(versions, activeId) };
+            });
+          } catch (err) {
+            console.error('Failed to load resumes from cloud:', err);
+            set({ isSyncing: false });
+          }
+        },
+
+        syncToCloud: async () => {
+          const unsynced = get().versions.filter((v) => !v.syncedToCloud && v.rawText);
+          if (unsynced.length === 0) return;
+
+          set({ isSyncing: true });
+          for (const version of unsynced) {
+            await pushVersion(version.id);
+          }
+          set({ isSyncing: false });
+        },
+      };
+    },
     {
       name: 'resume-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      partialize: ({ isSyncing, ...state }) => state,
+      // v1: ResumeData gained summary/projects/certifications/awards - re-parse
+      // v2: single resume moved into the versions library
+      migrate: (persisted, version) => {
+        const state = persisted as ResumeState;
+        if (version < 1 && state.rawText) {
+          state.parsedData = parseResume(state.rawText);
+        }
+        if (version < 2) {
+          if (!state.rawText) return { ...state, versions: [], activeId: null };
+          const main = {
+            ...createVersionRecord(DEFAULT_VERSION_NAME, state.rawText, state.parsedData),
+            uploadSource: state.uploadSource,
+            updatedAt: state.lastUpdated ?? new Date().toISOString(),
+          };
+          return { ...state, versions: [main], activeId: main.id };
+        }
+        return state;
+      },
     }
   )
 );
@@ -68,3 +397,7 @@ export const selectHasResume = (state: ResumeState) =>
 export const selectResumeText = (state: ResumeState) => state.rawText;
 
 export const selectParsedResume = (state: ResumeState) => state.parsedData;
+
+export const selectResumeVersions = (state: ResumeState) => state.versions;
+
+export const selectActiveVersionId = (state: ResumeState) => state.activeId;
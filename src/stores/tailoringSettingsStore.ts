@@ -0,0 +1,55 @@
+/**
+ * Tailoring Settings Store - matching, AI detection and humanize loop preferences
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_TAILORING_SETTINGS,
+  resolveTailoringSettings,
+  type TailoringSettings,
+} from '../services/tailoring';
+
+// The app turns on the free on-device embedding tier; the billed remote
+// tier is opt-in from the profile screen
+const APP_DEFAULT_SETTINGS: TailoringSettings = {
+  ...DEFAULT_TAILORING_SETTINGS,
+  semanticMatching: 'local',
+};
+
+interface TailoringSettingsState {
+  settings: TailoringSettings;
+
+  // Actions
+  updateSettings: (updates: Partial<TailoringSettings>) => void;
+  resetSettings: () => void;
+}
+
+export const useTailoringSettingsStore = create<TailoringSettingsState>()(
+  persist(
+    (set, get) => ({
+      settings: APP_DEFAULT_SETTINGS,
+
+      updateSettings: (updates) =>
+        set({ settings: resolveTailoringSettings({ ...get().settings, ...updates }) }),
+
+      resetSettings: () => set({ settings: APP_DEFAULT_SETTINGS }),
+    }),
+    {
+      name: 'tailoring-settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Settings added in later versions pick up their defaults
+      merge: (persisted, current) => ({
+        ...current,
+        settings: resolveTailoringSettings({
+          ...APP_DEFAULT_SETTINGS,
+          ...(persisted as Partial<TailoringSettingsState>)?.settings,
+        }),
+      }),
+    }
+  )
+);
+
+// Selectors
+export const selectTailoringSettings = (state: TailoringSettingsState) => state.settings;
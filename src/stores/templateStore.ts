@@ -0,0 +1,80 @@
+/**
+ * Template Store - Resume layout choices for PDF export
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getResumeLayout,
+  normalizeSectionOrder,
+  type FontPresetId,
+  type MarginPresetId,
+  type ResumeLayoutOptions,
+  type ResumeSectionId,
+  type ResumeTemplateId,
+} from '../templates';
+
+interface TemplateState {
+  templateId: ResumeTemplateId;
+  // null = the template's own default
+  font: FontPresetId | null;
+  margins: MarginPresetId | null;
+  sectionOrder: ResumeSectionId[] | null;
+  fitToOnePage: boolean;
+
+  // Actions
+  setTemplate: (templateId: ResumeTemplateId) => void;
+  setFont: (font: FontPresetId) => void;
+  setMargins: (margins: MarginPresetId) => void;
+  moveSection: (section: ResumeSectionId, offset: -1 | 1) => void;
+  setFitToOnePage: (fitToOnePage: boolean) => void;
+}
+
+export const useTemplateStore = create<TemplateState>()(
+  persist(
+    (set, get) => ({
+      templateId: 'classic',
+      font: null,
+      margins: null,
+      sectionOrder: null,
+      fitToOnePage: false,
+
+      // Switching template resets the presets to that template's defaults
+      setTemplate: (templateId) =>
+        set({ templateId, font: null, margins: null, sectionOrder: null }),
+
+      setFont: (font) => set({ font }),
+
+      setMargins: (margins) => set({ margins }),
+
+      moveSection: (section, offset) => {
+        const order = [...selectSectionOrder(get())];
+        const from = order.indexOf(section);
+        const to = from + offset;
+        if (from === -1 || to < 0 || to >= order.length) return;
+        order.splice(from, 1);
+        order.splice(to, 0, section);
+        set({ sectionOrder: order });
+      },
+
+      setFitToOnePage: (fitToOnePage) => set({ fitToOnePage }),
+    }),
+    {
+      name: 'template-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+// Selectors
+export const selectSectionOrder = (state: TemplateState): ResumeSectionId[] =>
+  normalizeSectionOrder(state.sectionOrder ?? getResumeLayout(state.templateId).sectionOrder);
+
+export const selectLayoutOptions = (state: TemplateState): ResumeLayoutOptions => ({
+  templateId: state.templateId,
+  font: state.font ?? undefined,
+  margins: state.margins ?? undefined,
+  sectionOrder: state.sectionOrder ?? undefined,
+  fitToOnePage: state.fitToOnePage,
+});
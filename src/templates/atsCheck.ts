@@ -0,0 +1,75 @@
+/**
+ * ATS Safety Check
+ * Applicant tracking systems read text in document order. Tables, columns,
+ * floats and positioned boxes reorder or hide it; images and CSS-generated
+ * text are not read at all.
+ */
+
+import { TailoredResume } from '../services/tailoring/types';
+import { generateResumeHTML } from './resumeTemplate';
+import { RESUME_LAYOUTS, ResumeTemplateId } from './resumeLayouts';
+
+export type ATSRule = 'table' | 'columns' | 'grid' | 'float' | 'positioned' | 'image' | 'css-text';
+
+export interface ATSIssue {
+  rule: ATSRule;
+  message: string;
+}
+
+export interface ATSCheckResult {
+  safe: boolean;
+  issues: ATSIssue[];
+}
+
+const ATS_RULES: { rule: ATSRule; pattern: RegExp; message: string }[] = [
+  { rule: 'table', pattern: /<table\b/i, message: 'Tables are often read cell by cell out of order' },
+  { rule: 'columns', pattern: /\bcolumn-count\s*:|\bcolumns\s*:/i, message: 'Multi-column text is read across columns' },
+  { rule: 'grid', pattern: /display\s*:\s*(inline-)?grid|grid-template-columns\s*:/i, message: 'Grid layouts can place text out of reading order' },
+  { rule: 'float', pattern: /float\s*:\s*(left|right)/i, message: 'Floated blocks can be read out of order' },
+  { rule: 'positioned', pattern: /position\s*:\s*(absolute|fixed)/i, message: 'Positioned text is lifted out of reading order' },
+  { rule: 'image', pattern: /<(img|svg|canvas)\b|background-image\s*:/i, message: 'Images and graphics are not read as text' },
+  { rule: 'css-text', pattern: /content\s*:\s*(["'])[^"']*[A-Za-z0-9][^"']*\1/i, message: 'Text added by CSS is not part of the document' },
+];
+
+/**
+ * Check generated resume HTML for constructs that break ATS parsing
+ */
+export function checkATSSafety(html: string): ATSCheckResult {
+  const issues = ATS_RULES
+    .filter(({ pattern }) => pattern.test(html))
+    .map(({ rule, message }) => ({ rule, message }));
+
+  return { safe: issues.length === 0, issues };
+}
+
+// Enough of every section to exercise each layout's markup
+const SAMPLE_RESUME: TailoredResume = {
+  summary: 'Engineer with five years of experience.',
+  skills: ['TypeScript', 'React'],
+  experiences: [
+    {
+      title: 'Software Engineer',
+      company: 'Acme',
+      dateRange: '2020 - Present',
+      bullets: ['Built the checkout flow'],
+    },
+  ],
+  education: ['B.S. Computer Science'],
+  rawText: '',
+};
+
+/**
+ * Check a registered layout by rendering a sample resume with it
+ */
+export function checkTemplateATSSafety(templateId: ResumeTemplateId): ATSCheckResult {
+  return checkATSSafety(
+    generateResumeHTML(SAMPLE_RESUME, { templateId, name: 'Sample', email: 'sample@example.com' })
+  );
+}
+
+/**
+ * Layouts that pass the check - the gallery only offers these
+ */
+export function getATSSafeLayouts() {
+  return RESUME_LAYOUTS.filter((layout) => checkTemplateATSSafety(layout.id).safe);
+}
@@ -3,6 +3,8 @@
  * Clean, professional HTML for cover letter PDF export
  */
 
+import { buildHeader, type CoverLetterDocument, type DocumentHeader } from './documentModel';
+
 export interface CoverLetterTemplateOptions {
   applicantName?: string;
   applicantEmail?: string;
@@ -32,15 +34,7 @@ export function generateCoverLetterHTML(
   options: CoverLetterTemplateOptions = {}
 ): string {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-
-  // Parse the cover letter into paragraphs
-  const paragraphs = coverLetterText
-    .split('\n\n')
-    .map((p) => p.trim())
-    .filter((p) => p.length > 0);
-
-  // Parse salutation, body, closing, signature from the text
-  const { salutation, body, closing, signature } = parseCoverLetter(paragraphs, opts);
+  const { header, salutation, body, closing, signature } = buildCoverLetterDocument(coverLetterText, opts);
 
   return `
 <!DOCTYPE html>
@@ -55,7 +49,7 @@ export function generateCoverLetterHTML(
 </head>
 <body>
   <div class="container">
-    ${generateHeader(opts)}
+    ${generateHeader(header)}
 
     <div class="letter-content">
       <p class="salutation">${escapeHtml(salutation)}</p>
@@ -74,25 +68,44 @@ export function generateCoverLetterHTML(
   `.trim();
 }
 
-function generateHeader(opts: CoverLetterTemplateOptions): string {
+function generateHeader(header: DocumentHeader): string {
   const parts: string[] = [];
 
-  if (opts.applicantName) {
-    parts.push(`<h1 class="name">${escapeHtml(opts.applicantName)}</h1>`);
+  if (header.name) {
+    parts.push(`<h1 class="name">${escapeHtml(header.name)}</h1>`);
   }
 
-  const contactParts: string[] = [];
-  if (opts.applicantEmail) contactParts.push(escapeHtml(opts.applicantEmail));
-  if (opts.applicantPhone) contactParts.push(escapeHtml(opts.applicantPhone));
-  if (opts.applicantLocation) contactParts.push(escapeHtml(opts.applicantLocation));
-
-  if (contactParts.length > 0) {
-    parts.push(`<p class="contact">${contactParts.join(' | ')}</p>`);
+  if (header.contact.length > 0) {
+    parts.push(`<p class="contact">${header.contact.map(escapeHtml).join(' | ')}</p>`);
   }
 
   return parts.length > 0 ? `<header class="header">${parts.join('')}</header>` : '';
 }
 
+/**
+ * Header, salutation, body, closing and signature - shared by every export format
+ */
+export function buildCoverLetterDocument(
+  coverLetterText: string,
+  options: CoverLetterTemplateOptions = {}
+): CoverLetterDocument {
+  // Parse the cover letter into paragraphs
+  const paragraphs = coverLetterText
+    .split('\n\n')
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  // Parse salutation, body, closing, signature from the text
+  return {
+    header: buildHeader(options.applicantName, [
+      options.applicantEmail,
+      options.applicantPhone,
+      options.applicantLocation,
+    ]),
+    ...parseCoverLetter(paragraphs, options),
+  };
+}
+
 /**
  * Parse cover letter text into structured parts
  * Handles both formal ("Dear Hiring Manager,") and casual ("Hi,", "Hello,") greetings
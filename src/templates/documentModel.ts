@@ -0,0 +1,87 @@
+/**
+ * Document Model
+ * The sections of an exported resume or cover letter, independent of file
+ * format. HTML (PDF), DOCX, plain text and Markdown all render from this,
+ * so every format has the same content in the same order.
+ */
+
+import { TailoredResume, TailoredExperience } from '../services/tailoring/types';
+import { resolveLayout, type ResumeLayoutOptions } from './resumeLayouts';
+import { fitResumeToOnePage } from './onePageFit';
+
+export interface DocumentHeader {
+  name?: string;
+  contact: string[];
+}
+
+export type ResumeDocumentSection =
+  | { id: 'summary'; title: string; text: string }
+  | { id: 'skills'; title: string; items: string[] }
+  | { id: 'experience'; title: string; entries: TailoredExperience[] }
+  | { id: 'education'; title: string; lines: string[] };
+
+export interface ResumeDocument {
+  header: DocumentHeader;
+  sections: ResumeDocumentSection[];
+}
+
+export interface CoverLetterDocument {
+  header: DocumentHeader;
+  salutation: string;
+  body: string[];
+  closing: string;
+  signature: string;
+}
+
+export interface ResumeContact {
+  name?: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  linkedin?: string;
+}
+
+/**
+ * Sections in layout order, with empty ones left out. One-page fitting,
+ * when asked for, is applied here so every format trims the same bullets.
+ */
+export function buildResumeDocument(
+  resume: TailoredResume,
+  options: ResumeContact & ResumeLayoutOptions = {}
+): ResumeDocument {
+  const { layout, sectionOrder } = resolveLayout(options);
+  const content = options.fitToOnePage ? fitResumeToOnePage(resume, options).resume : resume;
+  const titles = layout.sectionTitles;
+
+  const sections: ResumeDocumentSection[] = [];
+  for (const id of sectionOrder) {
+    switch (id) {
+      case 'summary':
+        if (content.summary) sections.push({ id, title: titles.summary, text: content.summary });
+        break;
+      case 'skills':
+        if (content.skills.length > 0) sections.push({ id, title: titles.skills, items: content.skills });
+        break;
+      case 'experience':
+        if (content.experiences.length > 0) {
+          sections.push({ id, title: titles.experience, entries: content.experiences });
+        }
+        break;
+      case 'education':
+        if (content.education.length > 0) sections.push({ id, title: titles.education, lines: content.education });
+        break;
+    }
+  }
+
+  return {
+    header: buildHeader(options.name, [options.email, options.phone, options.location, options.linkedin]),
+    sections,
+  };
+}
+
+export function buildHeader(name: string | undefined, contact: Array<string | undefined>): DocumentHeader {
+  return {
+    name: name || undefined,
+    contact: contact.filter((part): part is string => !!part),
+  };
+}
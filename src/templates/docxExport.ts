@@ -0,0 +1,227 @@
+/**
+ * DOCX Export
+ * Writes the document model as a minimal OOXML package, zipped with fflate,
+ * entirely on-device. Headings use Word's built-in styles and bullets are
+ * real list paragraphs, which is what ATS parsers expect from a .docx.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import type { CoverLetterDocument, DocumentHeader, ResumeDocument } from './documentModel';
+import { resolveLayout, type ResolvedLayout, type ResumeLayoutOptions } from './resumeLayouts';
+
+export interface DocxOptions extends ResumeLayoutOptions {
+  primaryColor?: string;
+}
+
+const TWIPS_PER_INCH = 1440;
+const TWIPS_PER_POINT = 20;
+const PAGE = { width: 8.5 * TWIPS_PER_INCH, height: 11 * TWIPS_PER_INCH };
+const DEFAULT_COLOR = '#4F46E5';
+// Matches the bullet indent used in the PDF templates
+const BULLET_INDENT = 14 * TWIPS_PER_POINT;
+const BULLET_NUM_ID = 1;
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export function resumeToDocx(doc: ResumeDocument, options: DocxOptions = {}): Uint8Array {
+  const resolved = resolveLayout(options);
+  const { layout } = resolved;
+  const paragraphs: string[] = headerParagraphs(doc.header, resolved);
+
+  for (const section of doc.sections) {
+    paragraphs.push(paragraph('Heading1', [run(section.title)]));
+
+    switch (section.id) {
+      case 'summary':
+        paragraphs.push(paragraph(null, [run(section.text)]));
+        break;
+      case 'skills':
+        paragraphs.push(paragraph(null, [run(section.items.join(' | '))]));
+        break;
+      case 'experience':
+        section.entries.forEach((exp, index) => {
+          const spacing = index > 0 ? `<w:spacing w:before="${layout.itemGap * TWIPS_PER_POINT}"/>` : '';
+          paragraphs.push(
+            paragraph(null, [run(exp.title, { bold: true }), run(' | '), run(exp.company, { italic: true })], spacing + '<w:keepNext/>')
+          );
+          if (exp.dateRange) {
+            paragraphs.push(paragraph(null, [run(exp.dateRange, { color: '6B7280' })], '<w:keepNext/>'));
+          }
+          for (const bullet of exp.bullets) {
+            paragraphs.push(
+              paragraph(null, [run(bullet)], `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUM_ID}"/></w:numPr>`)
+            );
+          }
+        });
+        break;
+      case 'education':
+        paragraphs.push(...section.lines.map((line) => paragraph(null, [run(line)])));
+        break;
+    }
+  }
+
+  return buildPackage(paragraphs, resolved, options.primaryColor, doc.header.name ?? 'Resume');
+}
+
+export function coverLetterToDocx(doc: CoverLetterDocument, options: DocxOptions = {}): Uint8Array {
+  const resolved = resolveLayout(options);
+  const paragraphs = [
+    ...headerParagraphs(doc.header, resolved),
+    paragraph(null, [run(doc.salutation)]),
+    ...doc.body.map((text) => paragraph(null, [run(text)])),
+    paragraph(null, [run(`${doc.closing}\n${doc.signature}`)]),
+  ];
+
+  return buildPackage(paragraphs, resolved, options.primaryColor, `Cover Letter - ${doc.header.name ?? 'Applicant'}`);
+}
+
+// ============================================
+// PARAGRAPHS
+// ============================================
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+  ].join('');
+
+  // Line breaks inside a paragraph become <w:br/>
+  const content = text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(style: string | null, runs: string[], extraProps: string = ''): string {
+  const props = (style ? `<w:pStyle w:val="${style}"/>` : '') + extraProps;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs.join('')}</w:p>`;
+}
+
+function headerParagraphs(header: DocumentHeader, resolved: ResolvedLayout): string[] {
+  const align = resolved.layout.headerAlign === 'center' ? '<w:jc w:val="center"/>' : '';
+  const paragraphs: string[] = [];
+  if (header.name) paragraphs.push(paragraph('Title', [run(header.name)], align));
+  if (header.contact.length > 0) {
+    paragraphs.push(paragraph('Contact', [run(header.contact.join(' | '))], align));
+  }
+  return paragraphs;
+}
+
+// ============================================
+// PACKAGE PARTS
+// ============================================
+
+function buildPackage(
+  paragraphs: string[],
+  resolved: ResolvedLayout,
+  primaryColor: string = DEFAULT_COLOR,
+  title: string
+): Uint8Array {
+  const color = primaryColor.replace('#', '').toUpperCase();
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(ROOT_RELS),
+    'docProps/core.xml': strToU8(coreProperties(title)),
+    'word/_rels/document.xml.rels': strToU8(DOCUMENT_RELS),
+    'word/document.xml': strToU8(documentXml(paragraphs, resolved)),
+    'word/styles.xml': strToU8(stylesXml(resolved, color)),
+    'word/numbering.xml': strToU8(NUMBERING),
+  });
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const CONTENT_TYPES = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+const NUMBERING = `${XML_DECLARATION}
+<w:numbering ${W_NAMESPACE}>
+<w:abstractNum w:abstractNumId="0">
+<w:multiLevelType w:val="singleLevel"/>
+<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${BULLET_INDENT}" w:hanging="${BULLET_INDENT}"/></w:pPr></w:lvl>
+</w:abstractNum>
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+function coreProperties(title: string): string {
+  return `${XML_DECLARATION}
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(title)}</dc:title>
+</cp:coreProperties>`;
+}
+
+function documentXml(paragraphs: string[], resolved: ResolvedLayout): string {
+  const vertical = Math.round(resolved.margins.vertical * TWIPS_PER_INCH);
+  const horizontal = Math.round(resolved.margins.horizontal * TWIPS_PER_INCH);
+
+  return `${XML_DECLARATION}
+<w:document ${W_NAMESPACE}>
+<w:body>
+${paragraphs.join('\n')}
+<w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/><w:pgMar w:top="${vertical}" w:right="${horizontal}" w:bottom="${vertical}" w:left="${horizontal}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+}
+
+/**
+ * Font sizes are in half-points, spacing in twips; line spacing is in
+ * 240ths of a line
+ */
+function stylesXml({ layout, font }: ResolvedLayout, color: string): string {
+  const halfPoints = (points: number) => Math.round(points * 2);
+  const twips = (points: number) => Math.round(points * TWIPS_PER_POINT);
+  const line = Math.round(layout.lineHeight * 240);
+  const caps = layout.headingCase === 'upper' ? '<w:caps/>' : '';
+
+  return `${XML_DECLARATION}
+<w:styles ${W_NAMESPACE}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font.docxFont}" w:hAnsi="${font.docxFont}" w:cs="${font.docxFont}"/><w:sz w:val="${halfPoints(layout.bodySize)}"/><w:color w:val="333333"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="${twips(layout.bulletGap)}" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="${twips(6)}"/></w:pPr><w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="${halfPoints(layout.nameSize)}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Contact"><w:name w:val="Contact"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="6" w:color="${color}"/></w:pBdr><w:spacing w:after="${twips(16)}"/></w:pPr><w:rPr><w:color w:val="4B5563"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="2" w:color="E5E7EB"/></w:pBdr><w:spacing w:before="${twips(layout.sectionGap)}" w:after="${twips(8)}"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/>${caps}<w:color w:val="${color}"/><w:sz w:val="${halfPoints(layout.headingSize)}"/></w:rPr></w:style>
+</w:styles>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
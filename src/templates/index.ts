@@ -3,4 +3,42 @@
  */
 
 export { generateResumeHTML, type ResumeTemplateOptions } from './resumeTemplate';
-export { generateCoverLetterHTML, type CoverLetterTemplateOptions } from './coverLetterTemplate';
+export {
+  generateCoverLetterHTML,
+  buildCoverLetterDocument,
+  type CoverLetterTemplateOptions,
+} from './coverLetterTemplate';
+export {
+  RESUME_LAYOUTS,
+  FONT_PRESETS,
+  MARGIN_PRESETS,
+  DEFAULT_SECTION_ORDER,
+  getResumeLayout,
+  resolveLayout,
+  normalizeSectionOrder,
+  type ResumeLayout,
+  type ResumeLayoutOptions,
+  type ResumeTemplateId,
+  type ResumeSectionId,
+  type FontPresetId,
+  type MarginPresetId,
+} from './resumeLayouts';
+export { fitResumeToOnePage, estimateResumeHeight, type OnePageFit } from './onePageFit';
+export {
+  checkATSSafety,
+  checkTemplateATSSafety,
+  getATSSafeLayouts,
+  type ATSCheckResult,
+  type ATSIssue,
+  type ATSRule,
+} from './atsCheck';
+export {
+  buildResumeDocument,
+  type ResumeDocument,
+  type ResumeDocumentSection,
+  type CoverLetterDocument,
+  type DocumentHeader,
+  type ResumeContact,
+} from './documentModel';
+export { resumeToPlainText, resumeToMarkdown, coverLetterToPlainText, coverLetterToMarkdown } from './textExport';
+export { resumeToDocx, coverLetterToDocx, type DocxOptions } from './docxExport';
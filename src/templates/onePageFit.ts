@@ -0,0 +1,157 @@
+/**
+ * One-Page Fitting
+ * Estimates the printed height of a resume from the layout's metrics and
+ * trims the lowest-priority bullets until it fits on one letter page.
+ * Tailoring orders roles and bullets by relevance, so the lowest priority
+ * is the latest bullet in the latest role.
+ */
+
+import { TailoredResume } from '../services/tailoring/types';
+import { generateRawText } from '../services/tailoring/formatter';
+import { ResumeLayoutOptions, ResolvedLayout, resolveLayout } from './resumeLayouts';
+
+// Fixed spacing (pt) shared with the stylesheet in resumeTemplate.ts
+export const LAYOUT_METRICS = {
+  tightLineHeight: 1.25,
+  headerMargin: 16,
+  headerPadding: 10,
+  headerRule: 2,
+  accentWidth: 4,
+  accentPadding: 10,
+  nameGap: 6,
+  headingGap: 8,
+  headingPadding: 3,
+  headingRule: 1,
+  experienceHeaderGap: 4,
+  educationGap: 4,
+  bulletIndent: 14,
+};
+
+const POINTS_PER_INCH = 72;
+const PAGE_WIDTH = 8.5 * POINTS_PER_INCH;
+const PAGE_HEIGHT = 11 * POINTS_PER_INCH;
+// Estimates are approximate; leave room rather than spill a line onto page two
+const SAFETY_MARGIN = 0.96;
+// Trimming never empties a role
+const MIN_BULLETS_PER_ROLE = 1;
+
+export interface OnePageFit {
+  resume: TailoredResume;
+  trimmedBullets: string[];
+  fits: boolean;
+  estimatedHeight: number;
+  pageHeight: number;
+}
+
+/**
+ * Approximate printed height in points, header (name and contact) included
+ */
+export function estimateResumeHeight(resume: TailoredResume, resolved: ResolvedLayout): number {
+  const { layout, font, margins } = resolved;
+  const m = LAYOUT_METRICS;
+  const contentWidth = PAGE_WIDTH - 2 * margins.horizontal * POINTS_PER_INCH;
+  const bodyLine = layout.bodySize * layout.lineHeight;
+  const tightLine = layout.bodySize * m.tightLineHeight;
+
+  const lines = (text: string, width: number = contentWidth) =>
+    Math.max(1, Math.ceil((text.length * layout.bodySize * font.charWidth) / width));
+  const heading =
+    layout.headingSize * m.tightLineHeight + m.headingGap + m.headingPadding + m.headingRule;
+
+  let height = 2 * margins.vertical * POINTS_PER_INCH;
+  height += layout.nameSize * m.tightLineHeight + m.nameGap + tightLine;
+  height += m.headerMargin + m.headerPadding + m.headerRule;
+
+  if (resume.summary) {
+    height += heading + lines(resume.summary) * bodyLine + layout.sectionGap;
+  }
+
+  if (resume.skills.length > 0) {
+    height += heading + lines(resume.skills.join(' | ')) * bodyLine + layout.sectionGap;
+  }
+
+  if (resume.experiences.length > 0) {
+    height += heading + layout.sectionGap;
+    for (const exp of resume.experiences) {
+      const headerLines = layout.dateStyle === 'below' && exp.dateRange ? 3 : 2;
+      height += layout.titleSize * m.tightLineHeight + (headerLines - 1) * tightLine;
+      height += m.experienceHeaderGap + layout.itemGap;
+      for (const bullet of exp.bullets) {
+        height += lines(bullet, contentWidth - m.bulletIndent) * bodyLine + layout.bulletGap;
+      }
+    }
+  }
+
+  if (resume.education.length > 0) {
+    height += heading + layout.sectionGap;
+    for (const edu of resume.education) {
+      height += lines(edu) * bodyLine + m.educationGap;
+    }
+  }
+
+  return height;
+}
+
+/**
+ * Trim bullets, lowest priority first, until the resume fits one page.
+ * Roles keep at least one bullet, so a long history may still not fit.
+ */
+export function fitResumeToOnePage(
+  resume: TailoredResume,
+  options: ResumeLayoutOptions = {}
+): OnePageFit {
+  const resolved = resolveLayout(options);
+  const pageHeight = PAGE_HEIGHT * SAFETY_MARGIN;
+  const trimmedBullets: string[] = [];
+
+  let current = resume;
+  let estimatedHeight = estimateResumeHeight(current, resolved);
+
+  while (estimatedHeight > pageHeight) {
+    const target = lowestPriorityBullet(current);
+    if (!target) break;
+
+    const [experienceIndex, bulletIndex] = target;
+    trimmedBullets.push(current.experiences[experienceIndex].bullets[bulletIndex]);
+    current = {
+      ...current,
+      experiences: current.experiences.map((exp, i) =>
+        i === experienceIndex ? { ...exp, bullets: exp.bullets.filter((_, j) => j !== bulletIndex) } : exp
+      ),
+    };
+    estimatedHeight = estimateResumeHeight(current, resolved);
+  }
+
+  if (trimmedBullets.length > 0) {
+    current = { ...current, rawText: generateRawText(current) };
+  }
+
+  return {
+    resume: current,
+    trimmedBullets,
+    fits: estimatedHeight <= pageHeight,
+    estimatedHeight,
+    pageHeight,
+  };
+}
+
+/**
+ * Bullet with the largest role index + bullet index (ties go to the later
+ * role), so trailing bullets go first and older roles shrink sooner
+ */
+function lowestPriorityBullet(resume: TailoredResume): [number, number] | null {
+  let best: [number, number] | null = null;
+  let bestRank = -1;
+
+  resume.experiences.forEach((exp, experienceIndex) => {
+    if (exp.bullets.length <= MIN_BULLETS_PER_ROLE) return;
+    const bulletIndex = exp.bullets.length - 1;
+    const rank = experienceIndex + bulletIndex;
+    if (rank >= bestRank) {
+      best = [experienceIndex, bulletIndex];
+      bestRank = rank;
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,226 @@
+/**
+ * Resume Layout Registry
+ * Every layout is single-column text in reading order, so ATS parsers see
+ * the same sequence a person does. Sizes are in points and drive both the
+ * generated CSS and the one-page height estimate.
+ */
+
+export type ResumeTemplateId = 'classic' | 'compact' | 'modern' | 'academic';
+export type ResumeSectionId = 'summary' | 'skills' | 'experience' | 'education';
+export type FontPresetId = 'sans' | 'serif' | 'humanist';
+export type MarginPresetId = 'narrow' | 'normal' | 'wide';
+
+export interface FontPreset {
+  id: FontPresetId;
+  label: string;
+  family: string;
+  // Font named in DOCX exports (Word has no fallback stack)
+  docxFont: string;
+  // Average glyph width as a fraction of the font size, for line estimates
+  charWidth: number;
+}
+
+export interface MarginPreset {
+  id: MarginPresetId;
+  label: string;
+  // Inches
+  vertical: number;
+  horizontal: number;
+}
+
+export interface ResumeLayout {
+  id: ResumeTemplateId;
+  name: string;
+  description: string;
+  defaultFont: FontPresetId;
+  defaultMargins: MarginPresetId;
+  sectionOrder: ResumeSectionId[];
+  sectionTitles: Record<ResumeSectionId, string>;
+  headerAlign: 'left' | 'center';
+  // right: title and date on one line; below: date on its own line
+  dateStyle: 'right' | 'below';
+  headingCase: 'upper' | 'normal';
+  nameSize: number;
+  headingSize: number;
+  titleSize: number;
+  bodySize: number;
+  lineHeight: number;
+  sectionGap: number;
+  itemGap: number;
+  bulletGap: number;
+}
+
+// Layout choices for one export; anything unset falls back to the layout's defaults
+export interface ResumeLayoutOptions {
+  templateId?: ResumeTemplateId;
+  font?: FontPresetId;
+  margins?: MarginPresetId;
+  sectionOrder?: ResumeSectionId[];
+  fitToOnePage?: boolean;
+}
+
+export const FONT_PRESETS: Record<FontPresetId, FontPreset> = {
+  sans: {
+    id: 'sans',
+    label: 'Sans',
+    family: "'Helvetica Neue', Helvetica, Arial, sans-serif",
+    docxFont: 'Arial',
+    charWidth: 0.5,
+  },
+  serif: {
+    id: 'serif',
+    label: 'Serif',
+    family: "Georgia, 'Times New Roman', Times, serif",
+    docxFont: 'Georgia',
+    charWidth: 0.49,
+  },
+  humanist: {
+    id: 'humanist',
+    label: 'Humanist',
+    family: "Calibri, Carlito, 'Segoe UI', Arial, sans-serif",
+    docxFont: 'Calibri',
+    charWidth: 0.46,
+  },
+};
+
+export const MARGIN_PRESETS: Record<MarginPresetId, MarginPreset> = {
+  narrow: { id: 'narrow', label: 'Narrow', vertical: 0.4, horizontal: 0.5 },
+  normal: { id: 'normal', label: 'Normal', vertical: 0.5, horizontal: 0.6 },
+  wide: { id: 'wide', label: 'Wide', vertical: 0.75, horizontal: 0.9 },
+};
+
+export const DEFAULT_SECTION_ORDER: ResumeSectionId[] = ['summary', 'skills', 'experience', 'education'];
+
+const STANDARD_TITLES: Record<ResumeSectionId, string> = {
+  summary: 'Professional Summary',
+  skills: 'Skills',
+  experience: 'Experience',
+  education: 'Education',
+};
+
+export const RESUME_LAYOUTS: ResumeLayout[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Centered header, ruled section titles',
+    defaultFont: 'sans',
+    defaultMargins: 'normal',
+    sectionOrder: DEFAULT_SECTION_ORDER,
+    sectionTitles: STANDARD_TITLES,
+    headerAlign: 'center',
+    dateStyle: 'right',
+    headingCase: 'upper',
+    nameSize: 22,
+    headingSize: 12,
+    titleSize: 11,
+    bodySize: 10,
+    lineHeight: 1.5,
+    sectionGap: 14,
+    itemGap: 12,
+    bulletGap: 3,
+  },
+  {
+    id: 'compact',
+    name: 'Compact',
+    description: 'Tighter type and spacing for long histories',
+    defaultFont: 'humanist',
+    defaultMargins: 'narrow',
+    sectionOrder: DEFAULT_SECTION_ORDER,
+    sectionTitles: { ...STANDARD_TITLES, summary: 'Summary' },
+    headerAlign: 'left',
+    dateStyle: 'right',
+    headingCase: 'upper',
+    nameSize: 18,
+    headingSize: 10.5,
+    titleSize: 10,
+    bodySize: 9.5,
+    lineHeight: 1.3,
+    sectionGap: 9,
+    itemGap: 7,
+    bulletGap: 1.5,
+  },
+  {
+    id: 'modern',
+    name: 'Modern',
+    description: 'Left-aligned header with a color accent',
+    defaultFont: 'sans',
+    defaultMargins: 'normal',
+    sectionOrder: DEFAULT_SECTION_ORDER,
+    sectionTitles: { ...STANDARD_TITLES, summary: 'Profile' },
+    headerAlign: 'left',
+    dateStyle: 'right',
+    headingCase: 'normal',
+    nameSize: 24,
+    headingSize: 13,
+    titleSize: 11,
+    bodySize: 10,
+    lineHeight: 1.45,
+    sectionGap: 14,
+    itemGap: 11,
+    bulletGap: 3,
+  },
+  {
+    id: 'academic',
+    name: 'Academic CV',
+    description: 'Serif, education first, dates on their own line',
+    defaultFont: 'serif',
+    defaultMargins: 'wide',
+    sectionOrder: ['education', 'summary', 'experience', 'skills'],
+    sectionTitles: {
+      summary: 'Research Interests',
+      skills: 'Skills',
+      experience: 'Appointments & Experience',
+      education: 'Education',
+    },
+    headerAlign: 'center',
+    dateStyle: 'below',
+    headingCase: 'normal',
+    nameSize: 20,
+    headingSize: 12,
+    titleSize: 11,
+    bodySize: 10.5,
+    lineHeight: 1.45,
+    sectionGap: 14,
+    itemGap: 10,
+    bulletGap: 2,
+  },
+];
+
+/**
+ * Look up a layout; unknown ids get the classic layout
+ */
+export function getResumeLayout(id?: ResumeTemplateId): ResumeLayout {
+  return RESUME_LAYOUTS.find((layout) => layout.id === id) ?? RESUME_LAYOUTS[0];
+}
+
+export interface ResolvedLayout {
+  layout: ResumeLayout;
+  font: FontPreset;
+  margins: MarginPreset;
+  sectionOrder: ResumeSectionId[];
+}
+
+/**
+ * Layout plus the presets and section order that apply to one export
+ */
+export function resolveLayout(options: ResumeLayoutOptions = {}): ResolvedLayout {
+  const layout = getResumeLayout(options.templateId);
+  return {
+    layout,
+    font: FONT_PRESETS[options.font ?? layout.defaultFont],
+    margins: MARGIN_PRESETS[options.margins ?? layout.defaultMargins],
+    sectionOrder: normalizeSectionOrder(options.sectionOrder ?? layout.sectionOrder),
+  };
+}
+
+/**
+ * Drop unknown or repeated sections and append any that were left out
+ */
+export function normalizeSectionOrder(order: ResumeSectionId[]): ResumeSectionId[] {
+  const seen = new Set<ResumeSectionId>();
+  for (const section of order) {
+    if (DEFAULT_SECTION_ORDER.includes(section)) seen.add(section);
+  }
+  for (const section of DEFAULT_SECTION_ORDER) seen.add(section);
+  return [...seen];
+}
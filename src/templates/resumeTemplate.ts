@@ -1,16 +1,15 @@
 /**
  * ATS-Friendly Resume Template
- * Clean, parseable HTML that works with Applicant Tracking Systems
+ * Clean, parseable HTML that works with Applicant Tracking Systems, in any
+ * of the layouts from resumeLayouts.ts
  */
 
-import { TailoredResume } from '../services/tailoring/types';
+import { TailoredResume, TailoredExperience } from '../services/tailoring/types';
+import { ResumeLayoutOptions, ResolvedLayout, resolveLayout } from './resumeLayouts';
+import { LAYOUT_METRICS } from './onePageFit';
+import { buildResumeDocument, type DocumentHeader, type ResumeContact } from './documentModel';
 
-export interface ResumeTemplateOptions {
-  name?: string;
-  email?: string;
-  phone?: string;
-  location?: string;
-  linkedin?: string;
+export interface ResumeTemplateOptions extends ResumeContact, ResumeLayoutOptions {
   primaryColor?: string;
 }
 
@@ -26,16 +25,20 @@ export function generateResumeHTML(
   options: ResumeTemplateOptions = {}
 ): string {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-
-  const contactSection = generateContactSection(opts);
-  const summarySection = resume.summary ? generateSummarySection(resume.summary) : '';
-  const skillsSection = resume.skills.length > 0 ? generateSkillsSection(resume.skills) : '';
-  const experienceSection = resume.experiences.length > 0
-    ? generateExperienceSection(resume.experiences)
-    : '';
-  const educationSection = resume.education.length > 0
-    ? generateEducationSection(resume.education)
-    : '';
+  const doc = buildResumeDocument(resume, opts);
+
+  const sections = doc.sections.map((section) => {
+    switch (section.id) {
+      case 'summary':
+        return generateSummarySection(section.text, section.title);
+      case 'skills':
+        return generateSkillsSection(section.items, section.title);
+      case 'experience':
+        return generateExperienceSection(section.entries, section.title);
+      case 'education':
+        return generateEducationSection(section.lines, section.title);
+    }
+  });
 
   return `
 <!DOCTYPE html>
@@ -45,62 +48,54 @@ export function generateResumeHTML(
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${escapeHtml(opts.name || 'Resume')}</title>
   <style>
-    ${getResumeStyles(opts.primaryColor)}
+    ${getResumeStyles(resolveLayout(opts), opts.primaryColor)}
   </style>
 </head>
 <body>
   <div class="container">
-    ${contactSection}
-    ${summarySection}
-    ${skillsSection}
-    ${experienceSection}
-    ${educationSection}
+    ${generateContactSection(doc.header)}
+    ${sections.join('')}
   </div>
 </body>
 </html>
   `.trim();
 }
 
-function generateContactSection(opts: ResumeTemplateOptions): string {
+function generateContactSection(header: DocumentHeader): string {
   const parts: string[] = [];
 
-  if (opts.name) {
-    parts.push(`<h1 class="name">${escapeHtml(opts.name)}</h1>`);
+  if (header.name) {
+    parts.push(`<h1 class="name">${escapeHtml(header.name)}</h1>`);
   }
 
-  const contactParts: string[] = [];
-  if (opts.email) contactParts.push(escapeHtml(opts.email));
-  if (opts.phone) contactParts.push(escapeHtml(opts.phone));
-  if (opts.location) contactParts.push(escapeHtml(opts.location));
-  if (opts.linkedin) contactParts.push(escapeHtml(opts.linkedin));
-
-  if (contactParts.length > 0) {
-    parts.push(`<p class="contact">${contactParts.join(' | ')}</p>`);
+  if (header.contact.length > 0) {
+    parts.push(`<p class="contact">${header.contact.map(escapeHtml).join(' | ')}</p>`);
   }
 
   return parts.length > 0 ? `<header class="header">${parts.join('')}</header>` : '';
 }
 
-function generateSummarySection(summary: string): string {
+function generateSummarySection(summary: string, title: string): string {
   return `
     <section class="section">
-      <h2 class="section-title">Professional Summary</h2>
+      <h2 class="section-title">${escapeHtml(title)}</h2>
       <p class="summary">${escapeHtml(summary)}</p>
     </section>
   `;
 }
 
-function generateSkillsSection(skills: string[]): string {
+function generateSkillsSection(skills: string[], title: string): string {
   return `
     <section class="section">
-      <h2 class="section-title">Skills</h2>
+      <h2 class="section-title">${escapeHtml(title)}</h2>
       <p class="skills">${skills.map(escapeHtml).join(' | ')}</p>
     </section>
   `;
 }
 
 function generateExperienceSection(
-  experiences: TailoredResume['experiences']
+  experiences: TailoredExperience[],
+  title: string
 ): string {
   const experienceItems = experiences.map(
     (exp) => `
@@ -121,27 +116,44 @@ function generateExperienceSection(
 
   return `
     <section class="section">
-      <h2 class="section-title">Experience</h2>
+      <h2 class="section-title">${escapeHtml(title)}</h2>
       ${experienceItems.join('')}
     </section>
   `;
 }
 
-function generateEducationSection(education: string[]): string {
+function generateEducationSection(education: string[], title: string): string {
   const educationItems = education.map(
     (edu) => `<p class="education-item">${escapeHtml(edu)}</p>`
   );
 
   return `
     <section class="section">
-      <h2 class="section-title">Education</h2>
+      <h2 class="section-title">${escapeHtml(title)}</h2>
       ${educationItems.join('')}
     </section>
   `;
 }
 
-function getResumeStyles(primaryColor: string = '#4F46E5'): string {
+/**
+ * Stylesheet for one layout. Spacing comes from LAYOUT_METRICS so the
+ * one-page estimate measures what is printed.
+ */
+function getResumeStyles(resolved: ResolvedLayout, primaryColor: string = '#4F46E5'): string {
+  const { layout, font, margins } = resolved;
+  const m = LAYOUT_METRICS;
+  const centered = layout.headerAlign === 'center';
+  // Modern marks the header with a side accent instead of a rule under it
+  const headerRule = layout.id === 'modern'
+    ? `border-left: ${m.accentWidth}pt solid ${primaryColor}; padding-left: ${m.accentPadding}pt;`
+    : `border-bottom: ${m.headerRule}pt solid ${primaryColor};`;
+
   return `
+    @page {
+      size: letter;
+      margin: 0;
+    }
+
     * {
       margin: 0;
       padding: 0;
@@ -149,9 +161,9 @@ function getResumeStyles(primaryColor: string = '#4F46E5'): string {
     }
 
     body {
-      font-family: 'Helvetica Neue', Arial, sans-serif;
-      font-size: 11pt;
-      line-height: 1.4;
+      font-family: ${font.family};
+      font-size: ${layout.bodySize}pt;
+      line-height: ${layout.lineHeight};
       color: #333333;
       background: white;
     }
@@ -159,65 +171,64 @@ function getResumeStyles(primaryColor: string = '#4F46E5'): string {
     .container {
       max-width: 8.5in;
       margin: 0 auto;
-      padding: 0.5in 0.6in;
+      padding: ${margins.vertical}in ${margins.horizontal}in;
     }
 
     .header {
-      text-align: center;
-      margin-bottom: 16pt;
-      padding-bottom: 10pt;
-      border-bottom: 2pt solid ${primaryColor};
+      text-align: ${centered ? 'center' : 'left'};
+      margin-bottom: ${m.headerMargin}pt;
+      padding-bottom: ${m.headerPadding}pt;
+      ${headerRule}
     }
 
     .name {
-      font-size: 22pt;
+      font-size: ${layout.nameSize}pt;
+      line-height: ${m.tightLineHeight};
       font-weight: 700;
       color: #111827;
       letter-spacing: 0.5pt;
-      margin-bottom: 6pt;
+      margin-bottom: ${m.nameGap}pt;
     }
 
     .contact {
-      font-size: 10pt;
+      font-size: ${layout.bodySize}pt;
+      line-height: ${m.tightLineHeight};
       color: #4B5563;
     }
 
     .section {
-      margin-bottom: 14pt;
+      margin-bottom: ${layout.sectionGap}pt;
     }
 
     .section-title {
-      font-size: 12pt;
+      font-size: ${layout.headingSize}pt;
+      line-height: ${m.tightLineHeight};
       font-weight: 700;
       color: ${primaryColor};
-      text-transform: uppercase;
-      letter-spacing: 1pt;
-      margin-bottom: 8pt;
-      padding-bottom: 3pt;
-      border-bottom: 1pt solid #E5E7EB;
+      ${layout.headingCase === 'upper' ? 'text-transform: uppercase;\n      letter-spacing: 1pt;' : ''}
+      margin-bottom: ${m.headingGap}pt;
+      padding-bottom: ${m.headingPadding}pt;
+      border-bottom: ${m.headingRule}pt solid #E5E7EB;
     }
 
-    .summary {
-      font-size: 10pt;
+    .summary,
+    .skills,
+    .education-item {
       color: #374151;
-      line-height: 1.5;
     }
 
-    .skills {
-      font-size: 10pt;
-      color: #374151;
-      line-height: 1.6;
+    .education-item {
+      margin-bottom: ${m.educationGap}pt;
     }
 
     .experience-item {
-      margin-bottom: 12pt;
+      margin-bottom: ${layout.itemGap}pt;
     }
 
     .experience-header {
-      display: flex;
-      justify-content: space-between;
-      align-items: flex-start;
-      margin-bottom: 4pt;
+      ${layout.dateStyle === 'right' ? 'display: flex;\n      justify-content: space-between;\n      align-items: flex-start;' : 'display: block;'}
+      margin-bottom: ${m.experienceHeaderGap}pt;
+      line-height: ${m.tightLineHeight};
     }
 
     .experience-title-company {
@@ -225,60 +236,34 @@ function getResumeStyles(primaryColor: string = '#4F46E5'): string {
     }
 
     .job-title {
-      font-size: 11pt;
+      font-size: ${layout.titleSize}pt;
       font-weight: 600;
       color: #111827;
     }
 
     .company {
-      font-size: 10pt;
       color: #4B5563;
       font-style: italic;
     }
 
     .date {
-      font-size: 10pt;
       color: #6B7280;
-      text-align: right;
-      flex-shrink: 0;
-      margin-left: 12pt;
+      ${layout.dateStyle === 'right' ? `text-align: right;\n      flex-shrink: 0;\n      margin-left: 12pt;` : 'display: block;'}
     }
 
     .bullets {
-      list-style: none;
-      padding-left: 0;
+      list-style: disc;
+      padding-left: ${m.bulletIndent}pt;
     }
 
     .bullets li {
-      font-size: 10pt;
       color: #374151;
-      line-height: 1.5;
-      padding-left: 14pt;
-      position: relative;
-      margin-bottom: 3pt;
+      margin-bottom: ${layout.bulletGap}pt;
     }
 
-    .bullets li::before {
-      content: "•";
-      position: absolute;
-      left: 0;
+    .bullets li::marker {
       color: ${primaryColor};
     }
-
-    .education-item {
-      font-size: 10pt;
-      color: #374151;
-      margin-bottom: 4pt;
-    }
-
-    @media print {
-      body {
-        font-size: 10pt;
-      }
-      .container {
-        padding: 0;
-      }
-    }
   `;
 }
 
@@ -0,0 +1,122 @@
+/**
+ * Plain Text and Markdown Export
+ * Renders the document model as text. The plain-text layout follows
+ * generateRawText (uppercase headings, "Title | Company", • bullets) so it
+ * reads back through the resume parser unchanged.
+ */
+
+import type { CoverLetterDocument, DocumentHeader, ResumeDocument } from './documentModel';
+
+// ============================================
+// PLAIN TEXT
+// ============================================
+
+export function resumeToPlainText(doc: ResumeDocument): string {
+  const blocks: string[] = [...headerLines(doc.header, (name) => name)];
+
+  for (const section of doc.sections) {
+    const lines = [section.title.toUpperCase()];
+    switch (section.id) {
+      case 'summary':
+        lines.push(section.text);
+        break;
+      case 'skills':
+        lines.push(section.items.join(' • '));
+        break;
+      case 'experience':
+        section.entries.forEach((exp, index) => {
+          if (index > 0) lines.push('');
+          lines.push(`${exp.title} | ${exp.company}`);
+          if (exp.dateRange) lines.push(exp.dateRange);
+          lines.push(...exp.bullets.map((bullet) => `• ${bullet}`));
+        });
+        break;
+      case 'education':
+        lines.push(...section.lines);
+        break;
+    }
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+export function coverLetterToPlainText(doc: CoverLetterDocument): string {
+  return [
+    ...headerLines(doc.header, (name) => name),
+    doc.salutation,
+    ...doc.body,
+    `${doc.closing}\n${doc.signature}`,
+  ].join('\n\n') + '\n';
+}
+
+// ============================================
+// MARKDOWN
+// ============================================
+
+export function resumeToMarkdown(doc: ResumeDocument): string {
+  const blocks: string[] = [...headerLines(doc.header, (name) => `# ${escapeMarkdown(name)}`, escapeMarkdown)];
+
+  for (const section of doc.sections) {
+    blocks.push(`## ${escapeMarkdown(section.title)}`);
+    switch (section.id) {
+      case 'summary':
+        blocks.push(escapeMarkdown(section.text));
+        break;
+      case 'skills':
+        blocks.push(section.items.map(escapeMarkdown).join(' · '));
+        break;
+      case 'experience':
+        for (const exp of section.entries) {
+          const lines = [`### ${escapeMarkdown(exp.title)} | ${escapeMarkdown(exp.company)}`];
+          if (exp.dateRange) lines.push(`*${escapeMarkdown(exp.dateRange)}*`);
+          blocks.push(lines.join('\n\n'));
+          if (exp.bullets.length > 0) {
+            blocks.push(exp.bullets.map((bullet) => `- ${escapeMarkdown(bullet)}`).join('\n'));
+          }
+        }
+        break;
+      case 'education':
+        blocks.push(section.lines.map((line) => `- ${escapeMarkdown(line)}`).join('\n'));
+        break;
+    }
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+export function coverLetterToMarkdown(doc: CoverLetterDocument): string {
+  return [
+    ...headerLines(doc.header, (name) => `# ${escapeMarkdown(name)}`, escapeMarkdown),
+    escapeMarkdown(doc.salutation),
+    ...doc.body.map(escapeMarkdown),
+    // Trailing double space: a hard line break between closing and name
+    `${escapeMarkdown(doc.closing)}  \n${escapeMarkdown(doc.signature)}`,
+  ].join('\n\n') + '\n';
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function headerLines(
+  header: DocumentHeader,
+  formatName: (name: string) => string,
+  escape: (text: string) => string = (text) => text
+): string[] {
+  const lines: string[] = [];
+  if (header.name) lines.push(formatName(header.name));
+  if (header.contact.length > 0) lines.push(header.contact.map(escape).join(' | '));
+  return lines.length > 0 ? [lines.join('\n')] : [];
+}
+
+/**
+ * Escape characters Markdown would treat as formatting, plus a leading
+ * marker that would turn a line into a heading or list item
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>])/g, '\\$1')
+    .replace(/^(\s*)([#+-])(\s)/gm, '$1\\$2$3')
+    .replace(/^(\s*)(\d+)\.(\s)/gm, '$1$2\\.$3');
+}
@@ -0,0 +1,69 @@
+/**
+ * Undo/redo history for editors
+ * Immutable snapshots; consecutive edits with the same key (typing in one
+ * field) collapse into a single undo step.
+ */
+
+export interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Key of the last edit, for coalescing
+  lastKey: string | null;
+}
+
+// Oldest steps are dropped past this
+const MAX_UNDO_STEPS = 100;
+
+export function createEditHistory<T>(initial: T): EditHistory<T> {
+  return { past: [], present: initial, future: [], lastKey: null };
+}
+
+/**
+ * Record a new state. Pass a key (e.g. the field being typed in) to merge
+ * with the previous edit when it had the same key.
+ */
+export function pushEdit<T>(history: EditHistory<T>, next: T, key: string | null = null): EditHistory<T> {
+  if (next === history.present) return history;
+
+  if (key !== null && key === history.lastKey) {
+    return { ...history, present: next, future: [] };
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+    lastKey: key,
+  };
+}
+
+export function undo<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.past.length === 0) return history;
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+    lastKey: null,
+  };
+}
+
+export function redo<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.future.length === 0) return history;
+  const [next, ...future] = history.future;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+    lastKey: null,
+  };
+}
+
+export function canUndo<T>(history: EditHistory<T>): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo<T>(history: EditHistory<T>): boolean {
+  return history.future.length > 0;
+}
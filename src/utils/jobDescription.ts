@@ -0,0 +1,29 @@
+/**
+ * Job description text helpers shared by single and batch generation
+ */
+
+// A line of three or more dashes, equals signs or underscores separates postings
+const SEPARATOR = /^\s*(?:-{3,}|={3,}|_{3,})\s*$/gm;
+
+export const MIN_JOB_DESCRIPTION_LENGTH = 50;
+
+/**
+ * Job title and company for history, taken from the first lines of the posting
+ */
+export function extractJobHeader(jdText: string): { jobTitle: string; company: string } {
+  const jdLines = jdText.trim().split('\n').filter(line => line.trim());
+  return {
+    jobTitle: jdLines[0]?.substring(0, 50) || 'Position',
+    company: jdLines[1]?.substring(0, 50) || 'Company',
+  };
+}
+
+/**
+ * Split pasted text into separate postings, dropping ones too short to tailor against
+ */
+export function splitJobDescriptions(text: string): string[] {
+  return text
+    .split(SEPARATOR)
+    .map(part => part.trim())
+    .filter(part => part.length >= MIN_JOB_DESCRIPTION_LENGTH);
+}